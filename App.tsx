@@ -1,9 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { analyzeCreative } from './services/geminiService';
 import { AnalysisResult } from './types';
-import { ReportDashboard } from './components/ReportDashboard';
-import { DocumentReviewView } from './components/DocumentReviewView';
-import { FloatingMenu } from './components/FloatingMenu';
+import { ReportDashboard } from './ui/ReportDashboard';
+import { DocumentReviewView } from './ui/DocumentReviewView';
+import { FloatingMenu } from './ui/FloatingMenu';
 
 type AppTab = 'new' | 'history';
 
@@ -186,8 +186,9 @@ const App: React.FC = () => {
       <div className="flex-1 flex flex-col min-w-0 relative">
         <header className="h-16 flex items-center justify-between px-6 md:px-8 border-b border-white/5 bg-[#0a0a0c]/60 backdrop-blur-xl sticky top-0 z-40">
           <div className="flex items-center gap-3 text-white font-semibold">
-            <span className="text-sm md:text-base font-['DM_Sans']">Christian Oliveira</span>
-            <span className="text-[10px] text-slate-500 tracking-widest uppercase font-['DM_Sans']">Premium</span>
+            <span className="text-sm md:text-base font-['DM_Sans']">Aceleraí Impact</span>
+            {/* Accounts and workspaces live in next-app; this build keeps everything in the browser */}
+            <span className="text-[10px] text-slate-500 tracking-widest uppercase font-['DM_Sans']">Modo local</span>
           </div>
           <div className="w-8 h-8 rounded-full bg-blue-600 border border-white/10 shadow-lg shadow-blue-500/20"></div>
         </header>
@@ -251,7 +252,10 @@ const App: React.FC = () => {
           )}
         </main>
 
-        <FloatingMenu />
+        <FloatingMenu
+          active={activeTab === 'history' ? 'history' : 'home'}
+          onNavigate={(tab) => { if (tab === 'home' || tab === 'history') setActiveTab(tab === 'history' ? 'history' : 'new'); }}
+        />
       </div>
     </div>
   );
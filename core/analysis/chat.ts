@@ -0,0 +1,89 @@
+import type { AnalysisResult } from "../types";
+import { LLMRequest, LLMTurn } from "../llm";
+import { AgentDefinition, DEFAULT_AGENTS } from "./agents";
+import { normalizeHeatmap } from "./heatmap";
+import { AnalysisInput, buildParts } from "./run";
+
+// Earlier turns sent with each question; older ones are left out to bound the prompt
+export const CHAT_HISTORY_TURNS = 20;
+
+const list = (lines: string[]) => (lines.length ? lines.join("\n") : "- (nenhum)");
+
+const buildAuditSection = (result: AnalysisResult, agents: AgentDefinition[]) => {
+  const agentLines = result.agents_feedback.map((feedback) => {
+    const definition = agents.find((agent) => agent.name === feedback.agent_name);
+    const lens = definition ? ` — ${definition.lens}, peso ${definition.weight}. Critérios: ${definition.prompt}` : "";
+    const debated = result.deliberation?.scores.find((score) => score.agent_name === feedback.agent_name);
+    const score = debated && debated.opening_score !== debated.final_score
+      ? `abriu com ${debated.opening_score} e terminou a deliberação com ${debated.final_score}/100`
+      : `deu ${feedback.score}/100`;
+    return `- **${feedback.agent_name}** (${feedback.objection_type}) ${score}${lens}\n  Veredito: ${feedback.verdict}`;
+  });
+  const debateLines = (result.deliberation?.turns ?? []).map((turn) =>
+    `- Rodada ${turn.round}, ${turn.agent_name}${turn.responds_to ? ` para ${turn.responds_to}` : ""} (score ${turn.score}): ${turn.message}`
+  );
+  const personaLines = result.persona_impact.map((persona) => `- ${persona.persona_name}: impacto ${persona.impact_score}/100`);
+  const findingLines = (result.findings ?? []).map((finding) =>
+    `- [${finding.severity}] ${finding.agent_name} sobre "${finding.excerpt}": ${finding.comment} Sugestão: "${finding.suggested_rewrite}"`
+  );
+  const { attention_points, ignored_regions } = normalizeHeatmap(result.simulated_heatmap);
+  const attentionLines = [
+    ...attention_points.map((point) => `- ${point.label} (x ${point.x}%, y ${point.y}%, peso ${point.weight})`),
+    ...ignored_regions.map((region) => `- Ignorado: ${region.label}`),
+  ];
+
+  return `## A AUDITORIA
+Score geral: ${result.overall_score}/100 (média dos agentes ponderada pelos pesos). Sentimento: ${result.sentiment}.
+${result.warning ? `Aviso: ${result.warning}\n` : ""}
+### Agentes
+${list(agentLines)}
+
+${debateLines.length ? `### Deliberação\n${debateLines.join("\n")}\n\n` : ""}### Impacto nas personas
+${list(personaLines)}
+
+### Achados no texto
+${list(findingLines)}
+
+### Mapa de atenção
+${list(attentionLines)}
+
+### Recomendações
+${list(result.actionable_tips.map((tip) => `- ${tip}`))}`;
+};
+
+/**
+ * System prompt of the follow-up chat: the stored audit, with the criteria
+ * of the agents that produced it, as the only ground truth for the answers.
+ * Agents no longer in the jury are described by their verdict alone.
+ */
+export function buildChatSystemPrompt(result: AnalysisResult, agents: AgentDefinition[] = DEFAULT_AGENTS): string {
+  return `# SYSTEM PROMPT: ACELERAÍ AUDIT CHAT
+
+**ROLE:**
+Você é o **Motor de Auditoria do Aceleraí** respondendo perguntas sobre uma auditoria que já foi feita. O material auditado acompanha cada pergunta.
+
+---
+
+${buildAuditSection(result, agents)}
+
+---
+
+## REGRAS
+- Explique os scores, vereditos e achados com base na auditoria acima e no material; cite trechos do material quando ajudar.
+- Quando perguntarem por que um agente deu certa nota, parta dos critérios e do veredito dele.
+- Não invente scores novos nem altere os existentes; se a pergunta pedir algo que a auditoria não cobre, diga isso e dê sua melhor leitura do material.
+- Responda em português, de forma direta, em texto simples ou markdown leve.`;
+}
+
+/**
+ * Builds the request for one question: the audit in the system prompt, the
+ * last CHAT_HISTORY_TURNS turns of the thread, then the original input
+ * followed by the question.
+ */
+export function buildChatRequest(input: AnalysisInput, result: AnalysisResult, history: LLMTurn[], question: string, agents?: AgentDefinition[]): LLMRequest {
+  return {
+    systemPrompt: buildChatSystemPrompt(result, agents),
+    history: history.slice(-CHAT_HISTORY_TURNS),
+    parts: [...buildParts(input), { text: `[Pergunta sobre a auditoria]\n${question}` }],
+  };
+}
@@ -0,0 +1,95 @@
+import { LLMPart, LLMProvider, RetryOptions, generateJSON, withRetry } from "../llm";
+import { AnalysisConfig, buildDeliberationNote } from "./prompt";
+import { repairDeliberationRound } from "./result";
+import { buildDeliberationSchema } from "./schema";
+
+export const MAX_DELIBERATION_ROUNDS = 3;
+
+/** One agent speaking in a round of the debate. */
+export interface DeliberationTurn {
+  round: number; // 1-based
+  agent_name: string;
+  responds_to: string | null; // agent whose objection is rebutted or conceded; null when addressing the whole jury
+  message: string;
+  score: number; // the agent's score after this turn
+}
+
+export interface DeliberationScore {
+  agent_name: string;
+  opening_score: number;
+  final_score: number;
+}
+
+/** Transcript of the debate that follows the opening verdicts. */
+export interface Deliberation {
+  rounds: number; // rounds actually held; may be fewer than requested when a round fails
+  turns: DeliberationTurn[];
+  scores: DeliberationScore[];
+}
+
+/** Position of an agent going into a round: its current score and last statement. */
+export interface DeliberationPosition {
+  agent_name: string;
+  score: number;
+  statement: string;
+}
+
+/**
+ * Runs `config.deliberation` rounds of debate over the opening verdicts.
+ * Each round is one call in which every agent reads the others' current
+ * positions and answers one of them, keeping or revising its score. A
+ * failed round ends the debate with the rounds held so far; undefined when
+ * none could be held.
+ */
+export async function runDeliberation(
+  provider: LLMProvider,
+  { systemPrompt, parts }: { systemPrompt: string; parts: LLMPart[] },
+  opening: { agent_name: string; verdict: string; score: number }[],
+  config: AnalysisConfig,
+  options: RetryOptions = {}
+): Promise<Deliberation | undefined> {
+  const rounds = Math.min(config.deliberation ?? 0, MAX_DELIBERATION_ROUNDS);
+  // Only agents with an opening verdict take part
+  const names = opening.map((f) => f.agent_name);
+
+  let positions: DeliberationPosition[] = opening.map((f) => ({ agent_name: f.agent_name, score: f.score, statement: f.verdict }));
+  const turns: DeliberationTurn[] = [];
+  let held = 0;
+
+  for (let round = 1; round <= rounds; round++) {
+    try {
+      const raw = await withRetry(
+        () => generateJSON(provider, {
+          systemPrompt,
+          parts: [...parts, { text: buildDeliberationNote(round, rounds, positions) }],
+          schema: buildDeliberationSchema(names),
+        }),
+        { ...options, maxRetries: 1 }
+      );
+      const roundTurns = repairDeliberationRound(raw, names, round);
+      if (roundTurns.length === 0) break;
+
+      turns.push(...roundTurns);
+      positions = positions.map((position) => {
+        const turn = roundTurns.find((t) => t.agent_name === position.agent_name);
+        return turn ? { ...position, score: turn.score, statement: turn.message } : position;
+      });
+      held = round;
+    } catch (error: any) {
+      console.warn(`⚠️ Deliberation round ${round} failed:`, error?.message || error);
+      break;
+    }
+  }
+
+  if (held === 0) return undefined;
+
+  return {
+    rounds: held,
+    turns,
+    scores: opening.map((f) => ({
+      agent_name: f.agent_name,
+      opening_score: f.score,
+      final_score: positions.find((p) => p.agent_name === f.agent_name)?.score ?? f.score,
+    })),
+  };
+}
@@ -0,0 +1,60 @@
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+// Above this many token pairs the LCS table gets too big; the texts are shown as a whole replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Words with their trailing whitespace, so joining the tokens gives the text back
+const tokenize = (text: string) => text.match(/\s+|[^\s]+\s*/g) || [];
+
+const push = (segments: DiffSegment[], op: DiffOp, text: string) => {
+  const last = segments[segments.length - 1];
+  if (last?.op === op) last.text += text;
+  else segments.push({ op, text });
+};
+
+/**
+ * Word-level diff of two texts (longest common subsequence). Consecutive
+ * tokens with the same operation are merged into one segment; the "equal"
+ * and "delete" segments spell `before`, "equal" and "insert" spell `after`.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: DiffSegment[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) push(segments, "delete", before);
+    if (after) push(segments, "insert", after);
+    return segments;
+  }
+
+  // lengths[i][j] = LCS of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(segments, "equal", a[i++]);
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(segments, "delete", a[i++]);
+    } else {
+      push(segments, "insert", b[j++]);
+    }
+  }
+  while (i < a.length) push(segments, "delete", a[i++]);
+  while (j < b.length) push(segments, "insert", b[j++]);
+
+  return segments;
+}
@@ -0,0 +1,105 @@
+import { LLMPart } from "../llm";
+
+export type DocumentFormat = "pdf" | "docx" | "txt";
+
+/** Text of one PDF page, or the whole body for formats without pages. */
+export interface DocumentPage {
+  number: number;
+  text: string;
+}
+
+export interface DocumentChunk {
+  index: number;
+  firstPage: number;
+  lastPage: number;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  fileName: string;
+  format: DocumentFormat;
+  pageCount: number;
+  paged: boolean; // false for DOCX/TXT: chunks are labeled as excerpts, not pages
+  chunks: DocumentChunk[];
+  truncated: boolean; // the tail was dropped to stay within MAX_DOCUMENT_CHARS
+}
+
+export const MAX_CHUNK_CHARS = 8000;
+export const MAX_DOCUMENT_CHARS = 150000;
+
+const normalize = (text: string) =>
+  text.replace(/\r\n?/g, "\n").replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+
+// Splits an oversized page at paragraph, then line, then word boundaries
+function splitLong(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const cut = [window.lastIndexOf("\n\n"), window.lastIndexOf("\n"), window.lastIndexOf(" ")]
+      .find((index) => index > maxChars / 2) ?? maxChars;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Groups consecutive pages into chunks of at most maxChars without splitting
+ * a page across chunks, unless the page alone is larger than maxChars.
+ */
+export function chunkPages(pages: DocumentPage[], maxChars = MAX_CHUNK_CHARS): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const push = (chunk: Omit<DocumentChunk, "index">) => chunks.push({ index: chunks.length, ...chunk });
+  let current: Omit<DocumentChunk, "index"> | null = null;
+
+  for (const page of pages) {
+    const text = normalize(page.text);
+    if (!text) continue;
+
+    if (current && current.text.length + text.length + 2 <= maxChars) {
+      current.lastPage = page.number;
+      current.text += `\n\n${text}`;
+      continue;
+    }
+
+    if (current) push(current);
+    current = null;
+
+    if (text.length > maxChars) {
+      splitLong(text, maxChars).forEach((piece) => push({ firstPage: page.number, lastPage: page.number, text: piece }));
+    } else {
+      current = { firstPage: page.number, lastPage: page.number, text };
+    }
+  }
+
+  if (current) push(current);
+  return chunks;
+}
+
+/** Keeps whole chunks from the start until the character budget runs out. */
+export function limitChunks(chunks: DocumentChunk[], maxChars = MAX_DOCUMENT_CHARS) {
+  let total = 0;
+  const kept = chunks.filter((chunk) => (total += chunk.text.length) <= maxChars);
+  return { chunks: kept, truncated: kept.length < chunks.length };
+}
+
+export const chunkLabel = (document: Pick<ExtractedDocument, "paged" | "chunks">, chunk: DocumentChunk) => {
+  if (!document.paged) return `Trecho ${chunk.index + 1}/${document.chunks.length}`;
+  return chunk.firstPage === chunk.lastPage ? `Página ${chunk.firstPage}` : `Páginas ${chunk.firstPage}–${chunk.lastPage}`;
+};
+
+/** Full extracted text, as shown to the user. */
+export const documentText = (document: Pick<ExtractedDocument, "chunks">) =>
+  document.chunks.map((chunk) => chunk.text).join("\n\n");
+
+/** One text part per chunk, headed by its page range so the agents can cite it. */
+export const documentParts = (document: Pick<ExtractedDocument, "fileName" | "paged" | "chunks" | "truncated">): LLMPart[] => [
+  ...document.chunks.map((chunk) => ({
+    text: `[Documento "${document.fileName}" — ${chunkLabel(document, chunk)}]\n${chunk.text}`,
+  })),
+  ...(document.truncated ? [{ text: "[O restante do documento foi omitido por exceder o limite de tamanho.]" }] : []),
+];
@@ -0,0 +1,93 @@
+import { ObjectionType } from "./agents";
+import { DocumentChunk, ExtractedDocument, documentText } from "./document";
+
+export type FindingSeverity = "low" | "medium" | "high";
+
+export const FINDING_SEVERITIES: FindingSeverity[] = ["low", "medium", "high"];
+
+/**
+ * An objection tied to an excerpt of the reviewed text. start/end are the
+ * character range of the excerpt in that text, or null when the quote could
+ * not be found (the model paraphrased instead of copying).
+ */
+export interface Finding {
+  agent_name: string;
+  objection_type: ObjectionType;
+  severity: FindingSeverity;
+  excerpt: string;
+  comment: string;
+  suggested_rewrite: string;
+  start: number | null;
+  end: number | null;
+}
+
+export interface AnnotatedSegment {
+  start: number;
+  end: number;
+  findings: number[]; // indexes into the findings array, empty for plain text
+}
+
+/** Text the findings are anchored to: the document when there is one, the typed text otherwise. */
+export const reviewText = ({ text, document }: { text?: string; document?: Pick<ExtractedDocument, "chunks"> }) =>
+  (document ? documentText(document) : text) || "";
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Finds the excerpt in the text, first verbatim, then ignoring case,
+ * whitespace and surrounding quotes.
+ */
+export function locateExcerpt(text: string, excerpt: string): { start: number; end: number } | null {
+  const quote = excerpt.trim().replace(/^["'“”‘’«»]+|["'“”‘’«»]+$/g, "").trim();
+  if (!quote) return null;
+
+  const exact = text.indexOf(quote);
+  if (exact >= 0) return { start: exact, end: exact + quote.length };
+
+  const words = quote.split(/\s+/).map(escapeRegExp);
+  const match = new RegExp(words.join("\\s+"), "i").exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+/** Sets start/end on every finding returned by the model. */
+export const locateFindings = (text: string, findings: Omit<Finding, "start" | "end">[] = []): Finding[] =>
+  findings.map((finding) => {
+    const range = locateExcerpt(text, finding.excerpt || "");
+    return { ...finding, start: range?.start ?? null, end: range?.end ?? null };
+  });
+
+/**
+ * Splits the text at every finding boundary so overlapping findings can be
+ * highlighted together. Segments cover the whole text in order.
+ */
+export function annotateSegments(text: string, findings: Pick<Finding, "start" | "end">[]): AnnotatedSegment[] {
+  const bounds = new Set([0, text.length]);
+  findings.forEach((finding) => {
+    if (finding.start === null || finding.end === null) return;
+    bounds.add(finding.start);
+    bounds.add(finding.end);
+  });
+
+  const points = [...bounds].filter((point) => point <= text.length).sort((a, b) => a - b);
+  const segments: AnnotatedSegment[] = [];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const [start, end] = [points[i], points[i + 1]];
+    const covering = findings
+      .map((finding, index) => (finding.start !== null && finding.end !== null && finding.start <= start && end <= finding.end ? index : -1))
+      .filter((index) => index >= 0);
+    segments.push({ start, end, findings: covering });
+  }
+
+  return segments;
+}
+
+/** Chunk of the document that contains the given offset of reviewText. */
+export function chunkAt(document: Pick<ExtractedDocument, "chunks">, offset: number): DocumentChunk | undefined {
+  let chunkStart = 0;
+  for (const chunk of document.chunks) {
+    if (offset < chunkStart + chunk.text.length) return chunk;
+    chunkStart += chunk.text.length + 2; // documentText joins chunks with a blank line
+  }
+  return undefined;
+}
@@ -0,0 +1,128 @@
+/** Where attention concentrates. x, y and radius are percentages of the image width/height. */
+export interface AttentionPoint {
+  label: string;
+  x: number;
+  y: number;
+  weight: number; // 0-1, share of attention relative to the other points
+  radius: number;
+}
+
+/** Area viewers tend to skip, as a box: top-left corner and size in percentages. */
+export interface IgnoredRegion {
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AttentionHeatmap {
+  attention_points: AttentionPoint[];
+  ignored_regions?: IgnoredRegion[];
+}
+
+/** Shape returned before attention points existed; still found in stored history. */
+export interface LegacyHeatmap {
+  focal_point_1: { label: string; x: number; y: number };
+  focal_point_2: { label: string; x: number; y: number };
+  ignored_area: string;
+}
+
+export type SimulatedHeatmap = AttentionHeatmap | LegacyHeatmap;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Number.isFinite(value) ? value : min));
+
+/**
+ * Converts any stored heatmap to attention points with values clamped to
+ * their ranges. Legacy focal points become two points of decreasing weight.
+ */
+export function normalizeHeatmap(heatmap: SimulatedHeatmap | undefined): Required<AttentionHeatmap> {
+  if (!heatmap) return { attention_points: [], ignored_regions: [] };
+
+  const points: AttentionPoint[] = "attention_points" in heatmap
+    ? heatmap.attention_points || []
+    : [
+      { ...heatmap.focal_point_1, weight: 1, radius: 18 },
+      { ...heatmap.focal_point_2, weight: 0.7, radius: 15 },
+    ];
+  const regions = "attention_points" in heatmap ? heatmap.ignored_regions || [] : [];
+
+  return {
+    attention_points: points
+      .map((point) => ({
+        label: point.label,
+        x: clamp(point.x, 0, 100),
+        y: clamp(point.y, 0, 100),
+        weight: clamp(point.weight, 0, 1),
+        radius: clamp(point.radius, 2, 60),
+      }))
+      .sort((a, b) => b.weight - a.weight),
+    ignored_regions: regions.map((region) => {
+      const x = clamp(region.x, 0, 100);
+      const y = clamp(region.y, 0, 100);
+      return { label: region.label, x, y, width: clamp(region.width, 0, 100 - x), height: clamp(region.height, 0, 100 - y) };
+    }),
+  };
+}
+
+// Cold to hot, indexed by accumulated density (0-1)
+const PALETTE_STOPS: [number, [number, number, number]][] = [
+  [0, [37, 99, 235]],
+  [0.35, [34, 197, 94]],
+  [0.6, [234, 179, 8]],
+  [0.8, [249, 115, 22]],
+  [1, [239, 68, 68]],
+];
+
+/** Heatmap color for a density between 0 and 1. */
+export function densityColor(density: number): [number, number, number] {
+  const value = clamp(density, 0, 1);
+  const upper = PALETTE_STOPS.findIndex(([stop]) => stop >= value);
+  if (upper <= 0) return PALETTE_STOPS[0][1];
+
+  const [fromStop, from] = PALETTE_STOPS[upper - 1];
+  const [toStop, to] = PALETTE_STOPS[upper];
+  const t = (value - fromStop) / (toStop - fromStop);
+  return [0, 1, 2].map((i) => Math.round(from[i] + (to[i] - from[i]) * t)) as [number, number, number];
+}
+
+/** CSS gradient of the palette, for legends. */
+export const heatmapLegendGradient = () =>
+  `linear-gradient(to right, ${PALETTE_STOPS.map(([stop, [r, g, b]]) => `rgb(${r}, ${g}, ${b}) ${stop * 100}%`).join(", ")})`;
+
+/**
+ * Draws a density heatmap of the attention points on a canvas of the given
+ * size: each point adds a radial falloff scaled by its weight, and the
+ * accumulated density is colored with the cold-to-hot palette.
+ */
+export function drawAttentionHeatmap(ctx: CanvasRenderingContext2D, heatmap: AttentionHeatmap, width: number, height: number) {
+  ctx.clearRect(0, 0, width, height);
+  if (width === 0 || height === 0) return;
+
+  // Accumulate density in the alpha channel
+  for (const point of heatmap.attention_points) {
+    const cx = (point.x / 100) * width;
+    const cy = (point.y / 100) * height;
+    const r = Math.max(1, (point.radius / 100) * width);
+    const gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, r);
+    gradient.addColorStop(0, `rgba(0, 0, 0, ${point.weight})`);
+    gradient.addColorStop(1, "rgba(0, 0, 0, 0)");
+    ctx.fillStyle = gradient;
+    ctx.fillRect(cx - r, cy - r, r * 2, r * 2);
+  }
+
+  const colors = Array.from({ length: 256 }, (_, alpha) => densityColor(alpha / 255));
+  const image = ctx.getImageData(0, 0, width, height);
+  const pixels = image.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const alpha = pixels[i + 3];
+    if (alpha === 0) continue;
+    const [r, g, b] = colors[alpha];
+    pixels[i] = r;
+    pixels[i + 1] = g;
+    pixels[i + 2] = b;
+    // Keep the faint edges translucent so the creative stays readable
+    pixels[i + 3] = Math.min(255, alpha * 1.4);
+  }
+  ctx.putImageData(image, 0, 0);
+}
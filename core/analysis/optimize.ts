@@ -0,0 +1,123 @@
+import { z } from "zod";
+import type { AnalysisResult } from "../types";
+import { JSONSchema, LLMRequest } from "../llm";
+
+export const MAX_REWRITES = 5;
+
+// Personas with the lowest impact the rewrites are aimed at
+const TARGET_PERSONAS = 2;
+
+/** A rewritten version of the source text, before it is scored. */
+export interface RewriteVariant {
+  index: number;
+  text: string;
+  rationale: string; // what was changed and why, in one or two sentences
+  target_personas: string[];
+}
+
+/** The personas the original scored worst with, lowest impact first. */
+export const weakestPersonas = (result: AnalysisResult, count = TARGET_PERSONAS) =>
+  [...result.persona_impact].sort((a, b) => a.impact_score - b.impact_score).slice(0, count);
+
+const list = (lines: string[]) => (lines.length ? lines.join("\n") : "- (nenhum)");
+
+/**
+ * Asks for `count` rewrites of the text, each trying a different angle on
+ * the weakest personas while applying the tips and findings of the audit.
+ */
+export function buildRewriteRequest(text: string, result: AnalysisResult, count: number): LLMRequest {
+  const targets = weakestPersonas(result);
+  const personaNames = result.persona_impact.map((persona) => persona.persona_name);
+
+  const systemPrompt = `# SYSTEM PROMPT: ACELERAÍ COPY OPTIMIZER
+
+**ROLE:**
+Você é o **Redator Sênior do Aceleraí**. Um júri de agentes auditou o texto de marketing enviado; reescreva-o para subir o score sem mudar a oferta, os fatos nem as promessas verificáveis.
+
+## PONTO DE PARTIDA
+Score geral: ${result.overall_score}/100.
+
+### Personas com menor impacto (alvo principal)
+${list(targets.map((persona) => `- ${persona.persona_name}: ${persona.impact_score}/100`))}
+
+### Vereditos dos agentes
+${list(result.agents_feedback.map((agent) => `- ${agent.agent_name} (${agent.objection_type}, ${agent.score}/100): ${agent.verdict}`))}
+
+### Trechos apontados
+${list((result.findings ?? []).map((finding) => `- [${finding.severity}] "${finding.excerpt}": ${finding.comment} Sugestão: "${finding.suggested_rewrite}"`))}
+
+### Recomendações
+${list(result.actionable_tips.map((tip) => `- ${tip}`))}
+
+## TAREFA
+Escreva ${count} versões em "variants", cada uma com uma abordagem diferente:
+- "text": o texto completo reescrito, no mesmo idioma e com tamanho parecido com o original.
+- "rationale": em uma ou duas frases, o que mudou e por que deve funcionar melhor.
+- "target_personas": as personas que a versão busca conquistar, com os nomes exatamente como listados.
+
+Saída: JSON estritamente conforme o esquema.`;
+
+  const schema: JSONSchema = {
+    type: "object",
+    properties: {
+      variants: {
+        type: "array",
+        minItems: count,
+        maxItems: count,
+        items: {
+          type: "object",
+          properties: {
+            text: { type: "string" },
+            rationale: { type: "string" },
+            target_personas: { type: "array", minItems: 1, maxItems: personaNames.length || 1, items: { type: "string", enum: personaNames } },
+          },
+          required: ["text", "rationale", "target_personas"],
+        },
+      },
+    },
+    required: ["variants"],
+  };
+
+  return { systemPrompt, parts: [{ text: `[Texto original]\n${text}` }], schema };
+}
+
+const RawRewritesSchema = z.object({
+  variants: z.array(z.unknown()).catch([]),
+}).catch({ variants: [] });
+
+const RawVariantSchema = z.object({
+  text: z.string().trim().catch(""),
+  rationale: z.string().trim().catch(""),
+  target_personas: z.array(z.unknown()).catch([]),
+});
+
+/**
+ * Keeps the usable rewrites of a raw answer: non-empty, different from the
+ * original and from each other, at most `count`. Target personas are
+ * matched to the audience; unknown names are dropped.
+ */
+export function repairRewrites(raw: unknown, original: string, result: AnalysisResult, count: number): RewriteVariant[] {
+  const names = result.persona_impact.map((persona) => persona.persona_name);
+  const seen = new Set([original.trim()]);
+  const variants: RewriteVariant[] = [];
+
+  for (const item of RawRewritesSchema.parse(raw).variants) {
+    const parsed = RawVariantSchema.safeParse(item);
+    if (!parsed.success || !parsed.data.text || seen.has(parsed.data.text)) continue;
+    seen.add(parsed.data.text);
+
+    const targets = parsed.data.target_personas
+      .map((name) => names.find((known) => typeof name === "string" && known.toLowerCase() === name.trim().toLowerCase()))
+      .filter((name): name is string => !!name);
+
+    variants.push({
+      index: variants.length,
+      text: parsed.data.text,
+      rationale: parsed.data.rationale,
+      target_personas: [...new Set(targets)],
+    });
+    if (variants.length === count) break;
+  }
+
+  return variants;
+}
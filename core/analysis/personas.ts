@@ -0,0 +1,68 @@
+export interface PersonaProfile {
+  id: string;
+  name: string;
+  demographics: string;
+  motivations: string;
+  objections: string;
+  /** Where the persona meets the material (e.g. Instagram, LinkedIn, e-mail). */
+  channel: string;
+  /** Selected personas are the audience scored in each analysis. */
+  enabled: boolean;
+  builtin?: boolean;
+}
+
+/** The original consumer audience. */
+export const DEFAULT_PERSONAS: PersonaProfile[] = [
+  {
+    id: "impulsivos-mobile",
+    name: "Impulsivos de Mobile",
+    demographics: "18-34 anos, consumo majoritário pelo celular",
+    motivations: "Novidade, recompensa imediata, ofertas relâmpago",
+    objections: "Perde o interesse em textos longos ou checkout complicado",
+    channel: "Instagram, TikTok",
+    enabled: true,
+    builtin: true,
+  },
+  {
+    id: "buscadores-autoridade",
+    name: "Buscadores de Autoridade",
+    demographics: "30-55 anos, renda média-alta",
+    motivations: "Especialistas, selos, certificações e provas sociais",
+    objections: "Desconfia de marcas sem credenciais ou depoimentos",
+    channel: "LinkedIn, YouTube, Google",
+    enabled: true,
+    builtin: true,
+  },
+  {
+    id: "analiticos-ceticos",
+    name: "Analíticos/Céticos",
+    demographics: "25-60 anos, alta escolaridade",
+    motivations: "Dados, comparativos, especificações e transparência de preço",
+    objections: "Rejeita exageros, urgência artificial e promessas vagas",
+    channel: "Sites de review, e-mail, Google",
+    enabled: true,
+    builtin: true,
+  },
+  {
+    id: "fas-estetica",
+    name: "Fãs de Estética/Design",
+    demographics: "20-40 anos, urbanos",
+    motivations: "Estética, marca aspiracional, experiência visual",
+    objections: "Afastam-se de peças poluídas ou visualmente genéricas",
+    channel: "Instagram, Pinterest",
+    enabled: true,
+    builtin: true,
+  },
+  {
+    id: "consumidores-massa",
+    name: "Consumidores de Massa",
+    demographics: "Todas as idades, classes B e C",
+    motivations: "Preço, praticidade e benefício claro",
+    objections: "Não entende jargão nem ofertas com muitas condições",
+    channel: "Facebook, WhatsApp, TV",
+    enabled: true,
+    builtin: true,
+  },
+];
+
+export const getSelectedPersonas = (personas: PersonaProfile[] = DEFAULT_PERSONAS) => personas.filter((persona) => persona.enabled);
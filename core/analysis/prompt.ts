@@ -0,0 +1,107 @@
+import { AgentDefinition, DEFAULT_AGENTS, getActiveAgents } from "./agents";
+import type { DeliberationPosition } from "./deliberation";
+import { DEFAULT_PERSONAS, PersonaProfile, getSelectedPersonas } from "./personas";
+
+// Part of the result cache key: bump it when the prompt or the schema changes so older answers are not reused
+export const PROMPT_VERSION = "2.0";
+
+export interface AnalysisConfig {
+  agents?: AgentDefinition[];
+  personas?: PersonaProfile[];
+  /** Rounds of debate after the opening verdicts; 0 or absent for a single pass. */
+  deliberation?: number;
+}
+
+const buildAgentsSection = (agents: AgentDefinition[]) => {
+  const lines = agents.map((agent) =>
+    `- **${agent.name}** (${agent.objection_type}, peso ${agent.weight}) — ${agent.lens}. ${agent.prompt}`
+  );
+
+  return `## 2. A BANCADA DE AGENTES
+Analise o input sob a ótica estrita destes agentes:
+${lines.join("\n")}
+
+Retorne exatamente um item em "agents_feedback" para cada agente acima, usando o mesmo agent_name e objection_type.
+O "overall_score" é a média dos scores dos agentes ponderada pelos pesos indicados.`;
+};
+
+const buildPersonasSection = (personas: PersonaProfile[]) => {
+  const lines = personas.map((persona, idx) =>
+    `${idx + 1}. "${persona.name}" — Perfil: ${persona.demographics}. Motivações: ${persona.motivations}. Objeções: ${persona.objections}. Canal: ${persona.channel}.`
+  );
+
+  return `## 3. PERSONAS MAPEADAS (TARGET)
+Você deve calcular o impacto (0-100) para estas ${personas.length} categorias de clientes:
+${lines.join("\n")}
+
+Retorne exatamente um item em "persona_impact" para cada persona acima, usando o nome exatamente como escrito.`;
+};
+
+/**
+ * Builds the system prompt for the given jury and audience (defaults to the
+ * original five agents and five personas).
+ */
+export function buildSystemPrompt({ agents = DEFAULT_AGENTS, personas = DEFAULT_PERSONAS }: AnalysisConfig = {}): string {
+  return `# SYSTEM PROMPT: ACELERAÍ IMPACT SIMULATOR ENGINE (v${PROMPT_VERSION})
+
+**ROLE:**
+Você é o **Motor de Inteligência de Auditoria Criativa e Documental do Aceleraí**. Sua função é orquestrar um painel de "Agentes Sintéticos" para auditar materiais de marketing e prever o impacto em personas reais.
+
+---
+
+${buildAgentsSection(getActiveAgents(agents))}
+
+---
+
+${buildPersonasSection(getSelectedPersonas(personas))}
+
+---
+
+## 4. IA VISUAL (HEATMAP)
+Ao analisar imagens, estime como a atenção do público se distribui e liste em "attention_points" de 1 a 8 pontos, do mais ao menos forte.
+Para cada ponto, forneça:
+1. Uma etiqueta curta (label) do elemento que atrai o olhar.
+2. Coordenadas aproximadas (x, y) do centro em porcentagem (0-100) relativas ao topo-esquerda da imagem.
+3. "weight" (0-1): a força relativa da atenção nesse ponto.
+4. "radius" (5-40): o raio da área de atenção em porcentagem da largura da imagem.
+Em "ignored_regions", liste até 3 áreas que o público tende a ignorar, como caixas (x, y do canto superior esquerdo, width e height em porcentagem) com uma etiqueta curta.
+
+---
+
+## 5. ACHADOS NO TEXTO
+Para textos e documentos, liste em "findings" cada trecho problemático apontado pelos agentes:
+- "excerpt": citação literal e curta (uma frase ou cláusula) copiada exatamente do input, sem reformular, para que possa ser localizada no texto.
+- "agent_name" e "objection_type" do agente que levantou a objeção.
+- "severity": "high" para riscos que impedem a publicação, "medium" para problemas relevantes e "low" para ajustes finos.
+- "comment": a objeção em uma ou duas frases.
+- "suggested_rewrite": a versão reescrita do trecho.
+Para imagens sem texto, retorne "findings" vazio.
+
+Saída: JSON estritamente conforme o esquema.`;
+}
+
+/** Extra instruction for the re-ask sent when the first answer left agents or personas out. */
+export function buildRepairNote({ agents, personas }: { agents: string[]; personas: string[] }): string {
+  const lines = [
+    agents.length ? `- agents_feedback para: ${agents.join(", ")}` : "",
+    personas.length ? `- persona_impact para: ${personas.join(", ")}` : "",
+  ].filter(Boolean);
+
+  return `[Revisão] Sua resposta anterior veio incompleta. Avalie novamente o mesmo input e retorne apenas:
+${lines.join("\n")}`;
+}
+
+/** Instruction appended to the input for one round of the debate between the agents. */
+export function buildDeliberationNote(round: number, rounds: number, positions: DeliberationPosition[]): string {
+  const lines = positions.map((position) => `- **${position.agent_name}** (score ${position.score}): ${position.statement}`);
+
+  return `[Deliberação — rodada ${round} de ${rounds}]
+A bancada já avaliou o input. Posições atuais:
+${lines.join("\n")}
+
+Cada agente lê as objeções dos outros e responde uma vez em "turns", com o mesmo agent_name:
+- "responds_to": o agente cuja objeção ele rebate ou acata, ou null se falar com a bancada toda.
+- "message": a réplica em uma ou duas frases, no tom e sob a ótica do agente, citando o argumento do outro.
+- "score": o score depois de ouvir os demais. Mantenha-o se não foi convencido; altere-o só diante de um argumento concreto.
+Não busque consenso: divergências genuínas devem permanecer.`;
+}
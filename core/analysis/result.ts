@@ -0,0 +1,288 @@
+import { z } from "zod";
+import { AgentDefinition, getActiveAgents } from "./agents";
+import { FINDING_SEVERITIES, Finding } from "./findings";
+import type { DeliberationTurn } from "./deliberation";
+import { AttentionHeatmap, normalizeHeatmap } from "./heatmap";
+import { PersonaProfile, getSelectedPersonas } from "./personas";
+import { AnalysisConfig } from "./prompt";
+import { SENTIMENTS, Sentiment } from "./sentiment";
+
+// Portuguese and free-form labels the models return instead of the enum
+const SENTIMENT_ALIASES: Record<string, Sentiment> = {
+  positivo: "positive",
+  otimista: "positive",
+  neutro_positivo: "neutral_positive",
+  positive_neutral: "neutral_positive",
+  mixed: "neutral",
+  neutro: "neutral",
+  cauteloso: "neutral",
+  negativo: "negative",
+  critico: "negative",
+  crítico: "negative",
+};
+
+const asObject = (value: unknown) => (value && typeof value === "object" && !Array.isArray(value) ? value : {});
+
+// Keeps the object items of an array, so one bad item does not discard the list
+const listOf = <T extends z.ZodType>(item: T) =>
+  z.preprocess((value) => (Array.isArray(value) ? value.filter((entry) => entry && typeof entry === "object") : []), z.array(item));
+
+const text = z.preprocess((value) => (typeof value === "number" ? String(value) : value), z.string().trim()).catch("");
+
+// "85", "85%" and 85.4 all become 85; anything outside 0-100 is clamped
+const score = z
+  .preprocess((value) => (typeof value === "string" ? parseFloat(value) : value), z.number().finite())
+  .transform((value) => Math.round(Math.min(100, Math.max(0, value))))
+  .optional()
+  .catch(undefined);
+
+const coordinate = z.coerce.number().finite().catch(50);
+
+const sentiment = z
+  .preprocess((value) => {
+    if (typeof value !== "string") return value;
+    const key = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+    return SENTIMENT_ALIASES[key] ?? key;
+  }, z.enum(SENTIMENTS))
+  .catch("neutral");
+
+// Legacy focal points (sometimes plain strings in older schemas) become attention points
+const toAttentionHeatmap = (value: unknown) => {
+  const heatmap = asObject(value) as Record<string, unknown>;
+  if ("attention_points" in heatmap) return heatmap;
+
+  const legacy = [heatmap.focal_point_1, heatmap.focal_point_2]
+    .filter((point) => point !== undefined)
+    .map((point, i) => ({
+      ...(typeof point === "string" ? { label: point } : asObject(point)),
+      weight: i === 0 ? 1 : 0.7,
+      radius: i === 0 ? 18 : 15,
+    }));
+  return { attention_points: legacy, ignored_regions: [] };
+};
+
+const heatmap = z
+  .preprocess(toAttentionHeatmap, z.object({
+    attention_points: listOf(z.object({
+      label: text,
+      x: coordinate,
+      y: coordinate,
+      weight: z.coerce.number().finite().catch(0.5),
+      radius: z.coerce.number().finite().catch(15),
+    })),
+    ignored_regions: listOf(z.object({
+      label: text,
+      x: coordinate,
+      y: coordinate,
+      width: z.coerce.number().finite().catch(0),
+      height: z.coerce.number().finite().catch(0),
+    })).catch([]),
+  }))
+  .transform((value): AttentionHeatmap => normalizeHeatmap(value as AttentionHeatmap))
+  .catch({ attention_points: [], ignored_regions: [] });
+
+/**
+ * Lenient schema of the raw model output: every field is coerced or falls
+ * back to a default instead of failing, so a partial answer still parses.
+ * Names are matched to the jury and audience afterwards by repairAnalysis.
+ */
+export const RawAnalysisSchema = z.preprocess(asObject, z.object({
+  analysis_id: text,
+  overall_score: score,
+  sentiment,
+  simulated_heatmap: heatmap,
+  agents_feedback: listOf(z.object({
+    agent_name: text,
+    verdict: text,
+    score,
+    objection_type: text,
+  })).catch([]),
+  persona_impact: listOf(z.object({
+    persona_name: text,
+    impact_score: score,
+  })).catch([]),
+  actionable_tips: z
+    .preprocess((value) => (Array.isArray(value) ? value.map((tip) => (typeof tip === "string" ? tip.trim() : "")).filter(Boolean) : []), z.array(z.string()))
+    .catch([]),
+  findings: listOf(z.object({
+    agent_name: text,
+    objection_type: text,
+    severity: z.enum(FINDING_SEVERITIES).catch("medium"),
+    excerpt: text,
+    comment: text,
+    suggested_rewrite: text,
+  })).catch([]),
+}));
+
+export type RawAnalysis = z.infer<typeof RawAnalysisSchema>;
+
+export interface RepairedAgentFeedback {
+  agent_name: string;
+  verdict: string;
+  score: number;
+  objection_type: AgentDefinition["objection_type"];
+}
+
+export interface RepairedPersonaImpact {
+  persona_name: string;
+  impact_score: number;
+}
+
+export interface RepairedAnalysis {
+  analysis_id: string;
+  overall_score: number;
+  sentiment: Sentiment;
+  simulated_heatmap: AttentionHeatmap;
+  agents_feedback: RepairedAgentFeedback[];
+  persona_impact: RepairedPersonaImpact[];
+  actionable_tips: string[];
+  findings: Omit<Finding, "start" | "end">[];
+}
+
+/** Agents and personas with no usable entry in the answer, by name. */
+export interface MissingEntries {
+  agents: string[];
+  personas: string[];
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Pairs each item with a member of the expected list: first by name, then
+ * unnamed or unknown items take the remaining members in order. Extra items
+ * are dropped.
+ */
+function matchByName<T, M extends { name: string }>(items: T[], members: M[], nameOf: (item: T) => string): Map<M, T> {
+  const matched = new Map<M, T>();
+  const unmatched: T[] = [];
+
+  for (const item of items) {
+    const member = members.find((m) => !matched.has(m) && sameName(m.name, nameOf(item)));
+    if (member) matched.set(member, item);
+    else unmatched.push(item);
+  }
+
+  for (const member of members) {
+    if (matched.has(member)) continue;
+    const item = unmatched.shift();
+    if (item === undefined) break;
+    matched.set(member, item);
+  }
+
+  return matched;
+}
+
+/**
+ * Validates and repairs a raw model answer against the configured jury and
+ * audience. Returns the usable result and the agents/personas still
+ * missing a score, which the caller can ask the model for again.
+ */
+export function repairAnalysis(raw: unknown, { agents, personas }: AnalysisConfig = {}): { result: RepairedAnalysis; missing: MissingEntries } {
+  const parsed = RawAnalysisSchema.parse(raw);
+  const jury = getActiveAgents(agents);
+  const audience: PersonaProfile[] = getSelectedPersonas(personas);
+
+  const feedback = matchByName(parsed.agents_feedback, jury, (item) => item.agent_name);
+  const impact = matchByName(parsed.persona_impact, audience, (item) => item.persona_name);
+
+  const agents_feedback: RepairedAgentFeedback[] = [];
+  const missing: MissingEntries = { agents: [], personas: [] };
+
+  for (const agent of jury) {
+    const item = feedback.get(agent);
+    if (item?.score === undefined) {
+      missing.agents.push(agent.name);
+      continue;
+    }
+    agents_feedback.push({ agent_name: agent.name, verdict: item.verdict, score: item.score, objection_type: agent.objection_type });
+  }
+
+  const persona_impact: RepairedPersonaImpact[] = [];
+  for (const persona of audience) {
+    const item = impact.get(persona);
+    if (item?.impact_score === undefined) {
+      missing.personas.push(persona.name);
+      continue;
+    }
+    persona_impact.push({ persona_name: persona.name, impact_score: item.impact_score });
+  }
+
+  // Findings keep only excerpts raised by the jury, with the agent's own objection type
+  const findings = parsed.findings.flatMap((finding) => {
+    const agent = jury.find((a) => sameName(a.name, finding.agent_name));
+    if (!agent || !finding.excerpt) return [];
+    return [{
+      agent_name: agent.name,
+      objection_type: agent.objection_type,
+      severity: finding.severity,
+      excerpt: finding.excerpt,
+      comment: finding.comment,
+      suggested_rewrite: finding.suggested_rewrite,
+    }];
+  });
+
+  const scores = agents_feedback.map((f) => f.score);
+  const overall_score = parsed.overall_score ?? (scores.length ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0);
+
+  return {
+    result: {
+      analysis_id: parsed.analysis_id,
+      overall_score,
+      sentiment: parsed.sentiment,
+      simulated_heatmap: parsed.simulated_heatmap,
+      agents_feedback,
+      persona_impact,
+      actionable_tips: parsed.actionable_tips,
+      findings,
+    },
+    missing,
+  };
+}
+
+/** Folds entries returned by a re-ask into a repaired result, keeping jury and audience order. */
+export function mergeRepaired(base: RepairedAnalysis, extra: RepairedAnalysis, config: AnalysisConfig = {}): RepairedAnalysis {
+  const order = <T>(items: T[], names: string[], nameOf: (item: T) => string) =>
+    names.flatMap((name) => items.filter((item) => nameOf(item) === name).slice(0, 1));
+
+  return {
+    ...base,
+    agents_feedback: order(
+      [...base.agents_feedback, ...extra.agents_feedback],
+      getActiveAgents(config.agents).map((agent) => agent.name),
+      (item) => item.agent_name,
+    ),
+    persona_impact: order(
+      [...base.persona_impact, ...extra.persona_impact],
+      getSelectedPersonas(config.personas).map((persona) => persona.name),
+      (item) => item.persona_name,
+    ),
+  };
+}
+
+export const hasMissing = (missing: MissingEntries) => missing.agents.length > 0 || missing.personas.length > 0;
+
+const RawDeliberationRoundSchema = z.preprocess(asObject, z.object({
+  turns: listOf(z.object({
+    agent_name: text,
+    responds_to: z.preprocess((value) => (typeof value === "string" ? value : null), z.string().nullable()).catch(null),
+    message: text,
+    score,
+  })).catch([]),
+}));
+
+/**
+ * Validates one round of the debate: turns are matched to the agents by
+ * name, and turns without a score or a message are dropped, so those
+ * agents keep their previous score. An agent answering itself or someone
+ * outside the jury addresses the whole jury instead.
+ */
+export function repairDeliberationRound(raw: unknown, agentNames: string[], round: number): DeliberationTurn[] {
+  const parsed = RawDeliberationRoundSchema.parse(raw);
+  const matched = matchByName(parsed.turns, agentNames.map((name) => ({ name })), (turn) => turn.agent_name);
+
+  return [...matched].flatMap(([{ name }, turn]) => {
+    if (turn.score === undefined || !turn.message) return [];
+    const target = agentNames.find((other) => other !== name && sameName(other, turn.responds_to ?? ""));
+    return [{ round, agent_name: name, responds_to: target ?? null, message: turn.message, score: turn.score }];
+  });
+}
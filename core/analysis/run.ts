@@ -0,0 +1,92 @@
+import { LLMPart, LLMProvider, RetryOptions, generateJSON, withRetry } from "../llm";
+import { runDeliberation } from "./deliberation";
+import { ExtractedDocument, documentParts } from "./document";
+import { locateFindings, reviewText } from "./findings";
+import { getActiveAgents } from "./agents";
+import { getSelectedPersonas } from "./personas";
+import { AnalysisConfig, buildRepairNote, buildSystemPrompt } from "./prompt";
+import { hasMissing, mergeRepaired, repairAnalysis } from "./result";
+import { buildAnalysisSchema, buildRepairSchema } from "./schema";
+import { weightedOverallScore } from "./scoring";
+
+export interface AnalysisInput {
+  text?: string;
+  image?: string; // Base64
+  document?: ExtractedDocument;
+}
+
+export const buildParts = ({ text, image, document }: AnalysisInput): LLMPart[] => {
+  const parts: LLMPart[] = [];
+  if (text) parts.push({ text });
+  if (document) parts.push(...documentParts(document));
+  if (image) parts.push({ image });
+  return parts;
+};
+
+/**
+ * Runs the configured agent panel once over the input through the given
+ * provider, retrying transient failures. The answer is validated and
+ * repaired; agents or personas left out are asked for once more and, if
+ * still missing, dropped with a warning. With `config.deliberation`, the
+ * agents then debate their verdicts in rounds and their final scores
+ * replace the opening ones. overall_score is recomputed from the agent
+ * weights so the jury configuration is honored, and findings get the
+ * character range of their excerpt.
+ */
+export async function runAnalysis<T = unknown>(provider: LLMProvider, input: AnalysisInput, config: AnalysisConfig = {}, options: RetryOptions = {}): Promise<T> {
+  const systemPrompt = buildSystemPrompt(config);
+  const parts = buildParts(input);
+
+  const raw = await withRetry(
+    () => generateJSON(provider, { systemPrompt, parts, schema: buildAnalysisSchema(config) }),
+    options
+  );
+
+  let { result, missing } = repairAnalysis(raw, config);
+
+  if (hasMissing(missing)) {
+    const missingConfig: AnalysisConfig = {
+      agents: getActiveAgents(config.agents).filter((agent) => missing.agents.includes(agent.name)),
+      personas: getSelectedPersonas(config.personas).filter((persona) => missing.personas.includes(persona.name)),
+    };
+
+    try {
+      const extra = await withRetry(
+        () => generateJSON(provider, {
+          systemPrompt,
+          parts: [...parts, { text: buildRepairNote(missing) }],
+          schema: buildRepairSchema(missingConfig),
+        }),
+        { ...options, maxRetries: 1 }
+      );
+      const repaired = repairAnalysis(extra, missingConfig);
+      result = mergeRepaired(result, repaired.result, config);
+      missing = repaired.missing;
+    } catch (error: any) {
+      console.warn("⚠️ Re-ask for missing entries failed:", error?.message || error);
+    }
+  }
+
+  // Findings only make sense for text; anchor them to the exact ranges they quote
+  const source = reviewText(input);
+  const findings = source ? locateFindings(source, result.findings) : [];
+
+  const deliberation = config.deliberation
+    ? await runDeliberation(provider, { systemPrompt, parts }, result.agents_feedback, config, options)
+    : undefined;
+  const agents_feedback = deliberation
+    ? result.agents_feedback.map((f) => ({ ...f, score: deliberation.scores.find((s) => s.agent_name === f.agent_name)?.final_score ?? f.score }))
+    : result.agents_feedback;
+
+  const overall = weightedOverallScore(agents_feedback, config.agents);
+  const incomplete = [...missing.agents, ...missing.personas];
+
+  return {
+    ...result,
+    agents_feedback,
+    findings,
+    ...(deliberation && { deliberation }),
+    overall_score: overall ?? result.overall_score,
+    ...(incomplete.length && { warning: `O modelo não retornou avaliação para: ${incomplete.join(", ")}.` }),
+  } as T;
+}
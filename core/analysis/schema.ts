@@ -0,0 +1,143 @@
+import { JSONSchema } from "../llm";
+import { getActiveAgents } from "./agents";
+import { FINDING_SEVERITIES } from "./findings";
+import { getSelectedPersonas } from "./personas";
+import { AnalysisConfig } from "./prompt";
+
+const attentionPoint: JSONSchema = {
+  type: "object",
+  properties: {
+    label: { type: "string" },
+    x: { type: "number", minimum: 0, maximum: 100 },
+    y: { type: "number", minimum: 0, maximum: 100 },
+    weight: { type: "number", minimum: 0, maximum: 1 },
+    radius: { type: "number", minimum: 5, maximum: 40 },
+  },
+  required: ["label", "x", "y", "weight", "radius"],
+};
+
+const ignoredRegion: JSONSchema = {
+  type: "object",
+  properties: {
+    label: { type: "string" },
+    x: { type: "number", minimum: 0, maximum: 100 },
+    y: { type: "number", minimum: 0, maximum: 100 },
+    width: { type: "number", minimum: 0, maximum: 100 },
+    height: { type: "number", minimum: 0, maximum: 100 },
+  },
+  required: ["label", "x", "y", "width", "height"],
+};
+
+/**
+ * Response schema of the agent panel, shared by every provider and both apps.
+ * agents_feedback and persona_impact are constrained to the active jury and
+ * the selected personas; findings may only be raised by the active jury.
+ */
+export function buildAnalysisSchema({ agents, personas }: AnalysisConfig = {}): JSONSchema {
+  const jury = getActiveAgents(agents);
+  const audience = getSelectedPersonas(personas);
+
+  return {
+    type: "object",
+    properties: {
+      analysis_id: { type: "string" },
+      overall_score: { type: "integer", minimum: 0, maximum: 100 },
+      sentiment: { type: "string", enum: ["positive", "neutral_positive", "neutral", "negative"] },
+      simulated_heatmap: {
+        type: "object",
+        properties: {
+          attention_points: { type: "array", minItems: 1, maxItems: 8, items: attentionPoint },
+          ignored_regions: { type: "array", minItems: 0, maxItems: 3, items: ignoredRegion },
+        },
+        required: ["attention_points"],
+      },
+      agents_feedback: {
+        type: "array",
+        minItems: jury.length,
+        maxItems: jury.length,
+        items: {
+          type: "object",
+          properties: {
+            agent_name: { type: "string", enum: jury.map((agent) => agent.name) },
+            verdict: { type: "string" },
+            score: { type: "integer", minimum: 0, maximum: 100 },
+            objection_type: { type: "string", enum: [...new Set(jury.map((agent) => agent.objection_type))] },
+          },
+          required: ["agent_name", "verdict", "score", "objection_type"],
+        },
+      },
+      persona_impact: {
+        type: "array",
+        minItems: audience.length,
+        maxItems: audience.length,
+        items: {
+          type: "object",
+          properties: {
+            persona_name: { type: "string", enum: audience.map((persona) => persona.name) },
+            impact_score: { type: "integer", minimum: 0, maximum: 100 },
+          },
+          required: ["persona_name", "impact_score"],
+        },
+      },
+      actionable_tips: {
+        type: "array",
+        items: { type: "string" },
+      },
+      findings: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            agent_name: { type: "string", enum: jury.map((agent) => agent.name) },
+            objection_type: { type: "string", enum: [...new Set(jury.map((agent) => agent.objection_type))] },
+            severity: { type: "string", enum: FINDING_SEVERITIES },
+            excerpt: { type: "string" },
+            comment: { type: "string" },
+            suggested_rewrite: { type: "string" },
+          },
+          required: ["agent_name", "objection_type", "severity", "excerpt", "comment", "suggested_rewrite"],
+        },
+      },
+    },
+    required: ["analysis_id", "overall_score", "sentiment", "agents_feedback", "persona_impact", "actionable_tips", "simulated_heatmap", "findings"],
+  };
+}
+
+/**
+ * Schema of the re-ask for entries missing from a first answer: only the
+ * lists that need completing, constrained to the missing agents/personas
+ * passed in config.
+ */
+export function buildRepairSchema(config: AnalysisConfig): JSONSchema {
+  const full = buildAnalysisSchema(config).properties!;
+  const properties: Record<string, JSONSchema> = {};
+  if (getActiveAgents(config.agents).length) properties.agents_feedback = full.agents_feedback;
+  if (getSelectedPersonas(config.personas).length) properties.persona_impact = full.persona_impact;
+
+  return { type: "object", properties, required: Object.keys(properties) };
+}
+
+/** Schema of one round of the debate: exactly one turn per agent named. */
+export function buildDeliberationSchema(agentNames: string[]): JSONSchema {
+  return {
+    type: "object",
+    properties: {
+      turns: {
+        type: "array",
+        minItems: agentNames.length,
+        maxItems: agentNames.length,
+        items: {
+          type: "object",
+          properties: {
+            agent_name: { type: "string", enum: agentNames },
+            responds_to: { type: "string", enum: agentNames, nullable: true },
+            message: { type: "string" },
+            score: { type: "integer", minimum: 0, maximum: 100 },
+          },
+          required: ["agent_name", "responds_to", "message", "score"],
+        },
+      },
+    },
+    required: ["turns"],
+  };
+}
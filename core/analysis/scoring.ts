@@ -0,0 +1,28 @@
+import { AgentDefinition, DEFAULT_AGENTS, getActiveAgents } from "./agents";
+
+interface ScoredFeedback {
+  agent_name: string;
+  score: number;
+}
+
+/**
+ * Weighted mean of the agents' scores using the weights of the jury.
+ * Agents missing from the registry count with weight 1. Returns undefined
+ * when there is no feedback to average.
+ */
+export function weightedOverallScore(feedback: ScoredFeedback[] | undefined, agents: AgentDefinition[] = DEFAULT_AGENTS): number | undefined {
+  const scored = (feedback || []).filter((f) => typeof f.score === "number");
+  if (scored.length === 0) return undefined;
+
+  const jury = getActiveAgents(agents);
+  let total = 0;
+  let weights = 0;
+
+  for (const f of scored) {
+    const weight = jury.find((agent) => agent.name === f.agent_name)?.weight ?? 1;
+    total += f.score * weight;
+    weights += weight;
+  }
+
+  return weights > 0 ? Math.round(total / weights) : undefined;
+}
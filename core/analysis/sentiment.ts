@@ -0,0 +1,11 @@
+export const SENTIMENTS = ["positive", "neutral_positive", "neutral", "negative"] as const;
+
+export type Sentiment = (typeof SENTIMENTS)[number];
+
+/** Label shown for a sentiment in the dashboards and exported reports. */
+export const getSentimentLabel = (s: string = "") => {
+  const lower = s.toLowerCase();
+  if (lower.includes("positive")) return "OTIMISTA";
+  if (lower.includes("negative") || lower.includes("critico")) return "CRÍTICO";
+  return "CAUTELOSO";
+};
@@ -0,0 +1,105 @@
+import { JSONSchema, LLMProvider, LLMRequest } from "./types";
+import { isTextPart } from "./parts";
+
+// FNV-1a, enough to turn the request into a stable seed
+const hash = (input: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+interface FillContext {
+  id: string;
+  sentences: string[];
+}
+
+// Sentences of the text parts, without the "[Documento …]" chunk headers
+const sentencesOf = (parts: LLMRequest["parts"]) =>
+  parts
+    .filter(isTextPart)
+    .flatMap((p) => p.text.replace(/^\[[^\]\n]*\]\n/, "").split(/(?<=[.!?])\s+|\n+/))
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length >= 3)
+    .map((sentence) => sentence.split(/\s+/).slice(0, 16).join(" "));
+
+/**
+ * Offline provider for development and CI. Builds a response that satisfies
+ * the requested schema from a seed derived from the request, so the same
+ * input always yields the same result.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name = "fake" as const;
+
+  async generate({ systemPrompt, parts, history = [], schema }: LLMRequest): Promise<string> {
+    const key = [
+      systemPrompt,
+      ...history.map((turn) => `${turn.role}:${turn.text}`),
+      ...parts.map((p) => (isTextPart(p) ? p.text : `image:${p.image.length}:${p.image.slice(-64)}`)),
+    ].join("\n");
+    const seed = hash(key);
+    const random = createRandom(seed);
+
+    if (!schema) {
+      return `Resposta simulada (provider fake #${seed.toString(16)}): ${parts.filter(isTextPart).map((p) => p.text).join(" ").slice(0, 200)}`;
+    }
+
+    const context = { id: `fake-${seed.toString(16)}`, sentences: sentencesOf(parts) };
+    return JSON.stringify(this.fill(schema, random, context, "root"));
+  }
+
+  // Word by word, like a model streaming its answer
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    const text = await this.generate(request);
+    for (const word of text.match(/\S+\s*/g) || []) yield word;
+  }
+
+  private fill(schema: JSONSchema, random: () => number, context: FillContext, key: string, index?: number): unknown {
+    switch (schema.type) {
+      case "object": {
+        const result: Record<string, unknown> = {};
+        for (const [prop, propSchema] of Object.entries(schema.properties || {})) {
+          result[prop] = this.fill(propSchema, random, context, prop, index);
+        }
+        return result;
+      }
+      case "array": {
+        const min = schema.minItems ?? 3;
+        const max = schema.maxItems ?? min;
+        const length = min + Math.floor(random() * (max - min + 1));
+        return Array.from({ length }, (_, i) => this.fill(schema.items!, random, context, key, i));
+      }
+      case "integer":
+      case "number": {
+        // Keep scores in a plausible, non-extreme range
+        const min = schema.minimum ?? 20;
+        const max = schema.maximum ?? 95;
+        const value = min + random() * (max - min);
+        return schema.type === "integer" ? Math.round(value) : Math.round(value * 10) / 10;
+      }
+      case "boolean":
+        return random() > 0.5;
+      case "string":
+        // Debate turns answer the next agent, so the transcript has someone to rebut
+        if (key === "responds_to" && schema.enum?.length && index !== undefined) return schema.enum[(index + 1) % schema.enum.length];
+        if (schema.enum?.length) {
+          // Inside arrays walk the enum in order so named entries are not repeated
+          return index !== undefined ? schema.enum[index % schema.enum.length] : schema.enum[Math.floor(random() * schema.enum.length)];
+        }
+        if (key === "analysis_id") return context.id;
+        // Quote the input verbatim so findings can be located in the text
+        if (key === "excerpt" && context.sentences.length) return context.sentences[Math.floor(random() * context.sentences.length)];
+        return `Simulação offline: ${key.replace(/_/g, " ")} ${(index ?? 0) + 1}`;
+    }
+  }
+}
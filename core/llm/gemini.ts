@@ -0,0 +1,95 @@
+import { LLMError, LLMProvider, LLMRequest } from "./types";
+import { isTextPart, parseImage } from "./parts";
+import { readEventData } from "./sse";
+
+const API_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.0-flash";
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] }; finishReason?: string }[];
+  promptFeedback?: { blockReason?: string };
+}
+
+const textOf = (body: GeminiResponse) =>
+  body.candidates?.[0]?.content?.parts?.map((p) => p.text || "").join("") || "";
+
+// Safety blocks come back as 200 without content
+const emptyAnswer = (body: GeminiResponse) =>
+  new LLMError(`Resposta vazia do Gemini (${body.candidates?.[0]?.finishReason || body.promptFeedback?.blockReason || "sem candidatos"}).`);
+
+/**
+ * Gemini adapter over the REST API, so the same code runs in the browser
+ * (Vite app) and on the server (Next route).
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini" as const;
+
+  constructor(private apiKey: string, private model: string = DEFAULT_GEMINI_MODEL) {}
+
+  async generate(request: LLMRequest): Promise<string> {
+    const response = await this.post("generateContent", request);
+    const body: GeminiResponse = await response.json().catch(() => ({}));
+
+    const text = textOf(body);
+    if (!text) throw emptyAnswer(body);
+
+    return text;
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    const response = await this.post("streamGenerateContent?alt=sse", request);
+    let last: GeminiResponse = {};
+    let empty = true;
+
+    for await (const data of readEventData(response.body!)) {
+      last = JSON.parse(data);
+      const text = textOf(last);
+      if (text) {
+        empty = false;
+        yield text;
+      }
+    }
+
+    if (empty) throw emptyAnswer(last);
+  }
+
+  private async post(method: string, { systemPrompt, parts, history = [], schema }: LLMRequest): Promise<Response> {
+    const response = await fetch(`${API_URL}/${this.model}:${method}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-goog-api-key": this.apiKey,
+      },
+      body: JSON.stringify({
+        systemInstruction: { parts: [{ text: systemPrompt }] },
+        contents: [
+          ...history.map((turn) => ({ role: turn.role === "assistant" ? "model" : "user", parts: [{ text: turn.text }] })),
+          {
+            role: "user",
+            parts: parts.map((part) =>
+              isTextPart(part) ? { text: part.text } : { inlineData: parseImage(part.image, part.mimeType) }
+            ),
+          },
+        ],
+        ...(schema && {
+          generationConfig: {
+            responseMimeType: "application/json",
+            responseSchema: schema,
+          },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))).error || {};
+      throw new LLMError(
+        `[${error.status || response.status}] ${error.message || response.statusText}`,
+        error.code || response.status,
+        error.details
+      );
+    }
+
+    return response;
+  }
+}
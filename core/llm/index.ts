@@ -0,0 +1,51 @@
+import { LLMError, LLMProvider, LLMRequest, ProviderConfig, ProviderConfigError } from "./types";
+import { DEFAULT_GEMINI_MODEL, GeminiProvider } from "./gemini";
+import { OpenAICompatibleProvider } from "./openai";
+import { FakeProvider } from "./fake";
+
+export * from "./types";
+export * from "./retry";
+export { GeminiProvider, OpenAICompatibleProvider, FakeProvider };
+
+/**
+ * Builds the provider selected in config. Throws ProviderConfigError when a
+ * required setting (API key, base URL) is missing.
+ */
+export function createProvider(config: ProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case "gemini":
+      if (!config.apiKey) throw new ProviderConfigError("Configuração de API Key ausente (Gemini).");
+      return new GeminiProvider(config.apiKey, config.model || DEFAULT_GEMINI_MODEL);
+    case "openai":
+      if (!config.baseUrl) throw new ProviderConfigError("Base URL do provider compatível com OpenAI ausente.");
+      if (!config.model) throw new ProviderConfigError("Modelo do provider compatível com OpenAI ausente.");
+      return new OpenAICompatibleProvider(config.baseUrl, config.model, config.apiKey);
+    case "fake":
+      return new FakeProvider();
+    default:
+      throw new ProviderConfigError(`Provider de IA desconhecido: ${config.provider}`);
+  }
+}
+
+/** Sends a request with a response schema and parses the JSON answer. */
+export async function generateJSON<T = unknown>(provider: LLMProvider, request: LLMRequest): Promise<T> {
+  const text = await provider.generate(request);
+  try {
+    // Local models sometimes wrap JSON in markdown fences
+    return JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, "")) as T;
+  } catch {
+    throw new LLMError("Resposta inválida do motor de IA (JSON Parse Error).");
+  }
+}
+
+/**
+ * Yields the answer as the provider generates it, or in one piece for
+ * providers that cannot stream.
+ */
+export async function* streamText(provider: LLMProvider, request: LLMRequest): AsyncGenerator<string> {
+  if (provider.stream) {
+    yield* provider.stream(request);
+  } else {
+    yield await provider.generate(request);
+  }
+}
@@ -0,0 +1,82 @@
+import { LLMError, LLMProvider, LLMRequest } from "./types";
+import { isTextPart, parseImage } from "./parts";
+import { readEventData } from "./sse";
+
+/**
+ * Adapter for servers speaking the OpenAI chat completions API: OpenAI itself
+ * or local runtimes such as Ollama (http://localhost:11434/v1) and llama.cpp
+ * (http://localhost:8080/v1).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai" as const;
+
+  constructor(private baseUrl: string, private model: string, private apiKey?: string) {}
+
+  async generate(request: LLMRequest): Promise<string> {
+    const response = await this.post(request, false);
+    const body = await response.json().catch(() => ({}));
+
+    const text = body.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new LLMError("Resposta vazia do servidor compatível com OpenAI.");
+    }
+
+    return text;
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    const response = await this.post(request, true);
+    let empty = true;
+
+    for await (const data of readEventData(response.body!)) {
+      if (data === "[DONE]") break;
+      const text = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (text) {
+        empty = false;
+        yield text;
+      }
+    }
+
+    if (empty) throw new LLMError("Resposta vazia do servidor compatível com OpenAI.");
+  }
+
+  private async post({ systemPrompt, parts, history = [], schema }: LLMRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: "system", content: systemPrompt },
+          ...history.map((turn) => ({ role: turn.role, content: turn.text })),
+          {
+            role: "user",
+            content: parts.map((part) => {
+              if (isTextPart(part)) return { type: "text", text: part.text };
+              const { mimeType, data } = parseImage(part.image, part.mimeType);
+              return { type: "image_url", image_url: { url: `data:${mimeType};base64,${data}` } };
+            }),
+          },
+        ],
+        ...(stream && { stream: true }),
+        ...(schema && {
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "response", schema },
+          },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      const message = body.error?.message || body.error || response.statusText;
+      throw new LLMError(`[${response.status}] ${message}`, response.status);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,12 @@
+import { LLMPart } from "./types";
+
+/** Splits a base64 image (data URL or raw) into mime type and payload. */
+export const parseImage = (image: string, mimeType?: string) => {
+  const match = image.match(/^data:([^;]+);base64,([\s\S]*)$/);
+  return {
+    mimeType: mimeType || match?.[1] || "image/png",
+    data: match ? match[2] : image.split(",")[1] || image,
+  };
+};
+
+export const isTextPart = (part: LLMPart): part is { text: string } => "text" in part;
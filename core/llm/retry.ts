@@ -0,0 +1,72 @@
+// Progressive backoff used when the API does not send a RetryInfo delay.
+export const BACKOFF_DELAYS = [2000, 5000, 15000, 35000];
+
+export const MAX_RETRIES = 3;
+
+export interface RetryInfo {
+  attempt: number; // attempt that just failed, starting at 1
+  delay: number;
+  error: any;
+}
+
+export interface RetryOptions {
+  maxRetries?: number;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const isQuotaError = (error: any) =>
+  error?.status === 429 ||
+  !!error?.message?.includes("429") ||
+  !!error?.message?.includes("RESOURCE_EXHAUSTED") ||
+  !!error?.message?.includes("Resource has been exhausted") ||
+  !!error?.message?.includes("Quota exceeded");
+
+export const isRetryableError = (error: any) =>
+  isQuotaError(error) ||
+  error?.status === 503 ||
+  error?.status === 500 ||
+  !!error?.message?.includes("timeout") ||
+  !!error?.message?.includes("network");
+
+/**
+ * Reads the delay requested by the API (google.rpc.RetryInfo, e.g. "33s" or
+ * "500ms"). Returns undefined when the error carries none.
+ */
+export const getRequestedRetryDelay = (error: any): number | undefined => {
+  if (!error?.details || !Array.isArray(error.details)) return undefined;
+
+  const retryInfo = error.details.find((d: any) => d["@type"]?.includes("RetryInfo") && d.retryDelay);
+  const match = retryInfo?.retryDelay?.match(/^(\d+(?:\.\d+)?)(s|ms)$/);
+  if (!match) return undefined;
+
+  const value = parseFloat(match[1]);
+  return Math.round(match[2] === "s" ? value * 1000 : value);
+};
+
+/**
+ * Runs `operation` retrying quota, overload and network failures. Honors the
+ * RetryInfo delay sent by the API, otherwise backs off progressively.
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const maxRetries = options.maxRetries ?? MAX_RETRIES;
+  let attempt = 0;
+
+  while (true) {
+    try {
+      return await operation(attempt);
+    } catch (error: any) {
+      console.warn(`⚠️ LLM Attempt ${attempt + 1}/${maxRetries + 1} failed:`, error?.message || error);
+
+      if (attempt >= maxRetries || !isRetryableError(error)) throw error;
+
+      const delay = getRequestedRetryDelay(error) ?? BACKOFF_DELAYS[attempt] ?? BACKOFF_DELAYS[BACKOFF_DELAYS.length - 1];
+      options.onRetry?.({ attempt: attempt + 1, delay, error });
+
+      console.log(`⏳ Retrying in ${(delay / 1000).toFixed(1)}s... (Attempt ${attempt + 2}/${maxRetries + 1})`);
+      await sleep(delay);
+      attempt++;
+    }
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Yields the data of each Server-Sent Event in a streamed response body.
+ * Multi-line data is joined with newlines; comments and other fields are
+ * skipped.
+ */
+export async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dataOf = (block: string) =>
+    block
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n");
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : blocks.pop()!;
+
+      for (const block of blocks) {
+        const data = dataOf(block);
+        if (data) yield data;
+      }
+      if (done) return;
+    }
+  } finally {
+    // Stops the download when the consumer gives up early
+    await reader.cancel().catch(() => undefined);
+  }
+}
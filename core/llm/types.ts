@@ -0,0 +1,78 @@
+/**
+ * Subset of JSON Schema understood by every provider (Gemini's responseSchema
+ * is an OpenAPI subset, so keep to these keywords).
+ */
+export interface JSONSchema {
+  type: "object" | "array" | "string" | "integer" | "number" | "boolean";
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: string[];
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  nullable?: boolean;
+}
+
+export type LLMPart =
+  | { text: string }
+  | { image: string; mimeType?: string }; // image: base64, with or without data URL prefix
+
+/** An earlier turn of a conversation. */
+export interface LLMTurn {
+  role: "user" | "assistant";
+  text: string;
+}
+
+export interface LLMRequest {
+  systemPrompt: string;
+  /** The last user turn; with history, the question that follows it. */
+  parts: LLMPart[];
+  /** Earlier turns of a conversation, oldest first, sent before parts. */
+  history?: LLMTurn[];
+  /** When present the provider is asked for JSON conforming to this schema. */
+  schema?: JSONSchema;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  /** Returns the raw text of the first candidate. */
+  generate(request: LLMRequest): Promise<string>;
+  /** Yields the text of the answer as it is generated; use streamText, which falls back to generate. */
+  stream?(request: LLMRequest): AsyncIterable<string>;
+}
+
+export type ProviderName = "gemini" | "openai" | "fake";
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  apiKey?: string;
+  model?: string;
+  /** Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama. */
+  baseUrl?: string;
+}
+
+/**
+ * Error raised by provider adapters. Mirrors the fields the Gemini SDK used
+ * to expose (status, details with RetryInfo) so retry logic stays agnostic.
+ */
+export class LLMError extends Error {
+  status?: number;
+  details?: unknown[];
+
+  constructor(message: string, status?: number, details?: unknown[]) {
+    super(message);
+    this.name = "LLMError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderConfigError";
+  }
+}
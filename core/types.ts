@@ -0,0 +1,51 @@
+import type { ObjectionType } from "./analysis/agents";
+import type { Deliberation } from "./analysis/deliberation";
+import type { ExtractedDocument } from "./analysis/document";
+import type { Finding } from "./analysis/findings";
+import type { SimulatedHeatmap } from "./analysis/heatmap";
+import type { Sentiment } from "./analysis/sentiment";
+
+export type { AgentDefinition, ObjectionType } from "./analysis/agents";
+export type { PersonaProfile } from "./analysis/personas";
+export type { RewriteVariant } from "./analysis/optimize";
+export type { DiffOp, DiffSegment } from "./analysis/diff";
+export type { Deliberation, DeliberationScore, DeliberationTurn } from "./analysis/deliberation";
+export type { DocumentChunk, ExtractedDocument } from "./analysis/document";
+export type { Finding, FindingSeverity } from "./analysis/findings";
+export type { AttentionHeatmap, AttentionPoint, IgnoredRegion, SimulatedHeatmap } from "./analysis/heatmap";
+export type { Sentiment } from "./analysis/sentiment";
+
+// Result types shared by both apps and the ui/ components
+
+export interface AgentFeedback {
+  agent_name: string;
+  verdict: string;
+  score: number;
+  objection_type: ObjectionType;
+}
+
+export interface PersonaImpact {
+  persona_name: string;
+  impact_score: number;
+}
+
+export interface AnalysisResult {
+  analysis_id: string;
+  overall_score: number;
+  sentiment: Sentiment;
+  simulated_heatmap: SimulatedHeatmap; // read through normalizeHeatmap, older results use the legacy focal points
+  agents_feedback: AgentFeedback[];
+  persona_impact: PersonaImpact[];
+  actionable_tips: string[];
+  findings?: Finding[]; // excerpt-level objections; missing on results saved before they existed
+  deliberation?: Deliberation; // only when the agents debated; agents_feedback then holds their final scores
+  timestamp?: number;
+  parent_id?: string; // the analysis this one revises, when saved as a new version of the same asset
+  version?: number; // 1-based position in the asset's lineage, set by the history when saved
+  campaign?: string; // label the analysis was filed under, to group and filter the history
+  sourceText?: string;
+  sourceImage?: string;
+  sourceDocument?: ExtractedDocument; // text extracted from an uploaded PDF/DOCX/TXT
+  warning?: string; // shown with the report: the image fallback below, or agents and personas the model left out
+  image_fallback?: boolean; // true when the image could not be analyzed and the result is text-only
+}
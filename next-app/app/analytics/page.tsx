@@ -0,0 +1,267 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { PersonaImpactBars } from '@ui/PersonaImpactBars';
+import { FloatingMenu } from '@/components/FloatingMenu';
+import { responseError } from '@/lib/api-error';
+import { AnalyticsPeriod, Sentiment, WorkspaceAnalytics } from '@/types';
+
+interface Filters {
+    from: string;
+    to: string;
+    campaign: string;
+    uploader: string;
+}
+
+const NO_FILTERS: Filters = { from: '', to: '', campaign: '', uploader: '' };
+
+const inputClass = "bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-100 outline-none focus:border-blue-500/50 [color-scheme:dark]";
+
+// Lowest band first, like score_bands
+const BAND_COLORS = ['bg-rose-600', 'bg-rose-400', 'bg-amber-500', 'bg-lime-500', 'bg-emerald-500'];
+
+const SENTIMENTS: Record<Sentiment, { label: string; color: string }> = {
+    positive: { label: 'Positivo', color: 'bg-emerald-500' },
+    neutral_positive: { label: 'Neutro-positivo', color: 'bg-lime-500' },
+    neutral: { label: 'Neutro', color: 'bg-slate-500' },
+    negative: { label: 'Negativo', color: 'bg-rose-500' },
+};
+
+const getImpactBarColor = (score: number) =>
+    score > 70 ? 'bg-emerald-500/50' : score > 40 ? 'bg-amber-500/50' : 'bg-rose-500/50';
+
+// Period starts are UTC days
+const formatPeriod = (start: number, period: AnalyticsPeriod) => {
+    const options: Intl.DateTimeFormatOptions = period === 'month'
+        ? { month: 'short', year: '2-digit', timeZone: 'UTC' }
+        : { day: '2-digit', month: '2-digit', timeZone: 'UTC' };
+    return new Date(start).toLocaleDateString('pt-BR', options);
+};
+
+const percent = (part: number, total: number) => (total ? Math.round((part / total) * 100) : 0);
+
+async function fetchAnalytics(filters: Filters): Promise<WorkspaceAnalytics> {
+    const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value));
+    const response = await fetch(`/api/analytics?${params}`);
+    if (!response.ok) throw await responseError(response, `Falha ao carregar os relatórios (${response.status})`);
+    return response.json();
+}
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section className="space-y-4">
+        <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-widest flex items-center gap-3">
+            <span className="w-6 md:w-8 h-[2px] bg-blue-500"></span>{title}
+        </h3>
+        <div className="glass-panel p-5 md:p-6 rounded-2xl border-white/5">{children}</div>
+    </section>
+);
+
+const Empty: React.FC<{ children: React.ReactNode }> = ({ children }) => <p className="text-xs text-slate-500 italic">{children}</p>;
+
+export default function AnalyticsPage() {
+    const router = useRouter();
+    const [filters, setFilters] = useState<Filters>(NO_FILTERS);
+    const [data, setData] = useState<WorkspaceAnalytics | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let current = true;
+        fetchAnalytics(filters)
+            .then((analytics) => {
+                if (!current) return;
+                setData(analytics);
+                setError(null);
+            })
+            .catch((e) => current && setError(e.message));
+        return () => { current = false; };
+    }, [filters]);
+
+    const setFilter = (key: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+        setFilters((previous) => ({ ...previous, [key]: e.target.value }));
+
+    const tallest = Math.max(1, ...(data?.score_over_time.map((period) => period.count) ?? []));
+
+    return (
+        <div className="flex flex-col min-h-screen bg-[#0a0a0c]">
+            <header className="h-16 flex items-center justify-between px-6 md:px-8 border-b border-white/5 bg-[#0a0a0c]/60 backdrop-blur-xl sticky top-0 z-40">
+                <div className="flex items-center gap-3 text-white font-semibold cursor-pointer" onClick={() => router.push('/')}>
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
+                    <span className="text-sm md:text-base font-['DM_Sans']">Voltar</span>
+                </div>
+                <span className="text-[10px] text-slate-500 tracking-widest uppercase font-['DM_Sans']">Relatórios</span>
+            </header>
+
+            <main className="flex-1 p-4 md:p-10 max-w-5xl mx-auto w-full pb-32 space-y-10 animate-in fade-in duration-700" data-testid="analytics-page">
+                <div className="space-y-2">
+                    <h2 className="text-2xl md:text-4xl font-black text-white font-['DM_Sans'] tracking-tight">Painel da Equipe</h2>
+                    <p className="text-slate-400 text-xs md:text-sm">
+                        {data ? `${data.total} análise(s) no filtro.` : 'Carregando...'}
+                        {data?.truncated && ' Só as mais recentes entram no cálculo.'}
+                    </p>
+                </div>
+
+                <div className="flex flex-wrap items-end gap-3">
+                    <label className="space-y-1">
+                        <span className="block text-[9px] font-black text-slate-500 uppercase tracking-widest">De</span>
+                        <input type="date" value={filters.from} max={filters.to || undefined} onChange={setFilter('from')} className={inputClass} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="block text-[9px] font-black text-slate-500 uppercase tracking-widest">Até</span>
+                        <input type="date" value={filters.to} min={filters.from || undefined} onChange={setFilter('to')} className={inputClass} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="block text-[9px] font-black text-slate-500 uppercase tracking-widest">Campanha</span>
+                        <select value={filters.campaign} onChange={setFilter('campaign')} className={inputClass}>
+                            <option value="">Todas</option>
+                            {data?.filters.campaigns.map((campaign) => <option key={campaign} value={campaign}>{campaign}</option>)}
+                        </select>
+                    </label>
+                    <label className="space-y-1">
+                        <span className="block text-[9px] font-black text-slate-500 uppercase tracking-widest">Enviado por</span>
+                        <select value={filters.uploader} onChange={setFilter('uploader')} className={inputClass}>
+                            <option value="">Todos</option>
+                            {data?.filters.uploaders.map((uploader) => <option key={uploader.id} value={uploader.id}>{uploader.name}</option>)}
+                        </select>
+                    </label>
+                    <button onClick={() => setFilters(NO_FILTERS)} className="px-3 py-2 text-[10px] font-black text-slate-400 hover:text-white uppercase tracking-widest transition-colors">Limpar</button>
+                </div>
+
+                {error && <p className="text-rose-400 text-xs">{error}</p>}
+
+                {data && (
+                    <>
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                            <div className="glass-panel p-5 rounded-2xl border-white/5">
+                                <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Análises</p>
+                                <p className="text-2xl font-black text-white tabular-nums">{data.total}</p>
+                            </div>
+                            <div className="glass-panel p-5 rounded-2xl border-white/5">
+                                <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Score médio</p>
+                                <p className="text-2xl font-black text-white tabular-nums">{data.average_score ?? '—'}</p>
+                            </div>
+                            <div className="glass-panel p-5 rounded-2xl border-white/5 col-span-2 md:col-span-1">
+                                <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Objeção mais frequente</p>
+                                <p className="text-sm font-black text-white truncate">
+                                    {data.objections[0]?.objections ? `${data.objections[0].agent_name} · ${data.objections[0].by_type[0].objection_type}` : '—'}
+                                </p>
+                            </div>
+                        </div>
+
+                        <Section title="Distribuição de scores ao longo do tempo">
+                            {data.score_over_time.length === 0 ? <Empty>Nenhuma análise no filtro.</Empty> : (
+                                <div className="space-y-5">
+                                    <div className="flex items-end gap-2 h-48 overflow-x-auto">
+                                        {data.score_over_time.map((period) => (
+                                            <div key={period.start} className="flex-1 min-w-8 h-full flex flex-col justify-end items-center gap-1" title={`${period.count} análise(s), média ${period.average}`}>
+                                                <span className="text-[10px] font-black text-white tabular-nums">{period.average}</span>
+                                                <div className="w-full max-w-12 flex flex-col-reverse rounded-t-md overflow-hidden" style={{ height: `${(period.count / tallest) * 100}%` }}>
+                                                    {period.bands.map((count, band) => count > 0 && (
+                                                        <div key={band} className={BAND_COLORS[band]} style={{ height: `${(count / period.count) * 100}%` }} />
+                                                    ))}
+                                                </div>
+                                                <span className="text-[9px] text-slate-500 tabular-nums whitespace-nowrap">{formatPeriod(period.start, data.period)}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <div className="flex flex-wrap gap-4">
+                                        {data.score_bands.map((band, index) => (
+                                            <span key={band.min} className="flex items-center gap-2 text-[10px] text-slate-400">
+                                                <span className={`w-2.5 h-2.5 rounded-sm ${BAND_COLORS[index]}`} />
+                                                {band.min}–{band.max} <span className="font-black text-slate-200 tabular-nums">{band.count}</span>
+                                            </span>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </Section>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-10">
+                            <Section title="Impacto médio por persona">
+                                {data.personas.length === 0 ? <Empty>Nenhuma persona avaliada.</Empty> : (
+                                    <PersonaImpactBars
+                                        personas={data.personas.map((persona) => ({ persona_name: persona.persona_name, impact_score: persona.average }))}
+                                        barClassName={getImpactBarColor}
+                                    />
+                                )}
+                            </Section>
+
+                            <Section title="Mix de sentimento">
+                                {data.total === 0 ? <Empty>Nenhuma análise no filtro.</Empty> : (
+                                    <div className="space-y-4">
+                                        <div className="flex h-3 rounded-full overflow-hidden bg-white/5">
+                                            {data.sentiments.map(({ sentiment, count }) => count > 0 && (
+                                                <div key={sentiment} className={SENTIMENTS[sentiment].color} style={{ width: `${percent(count, data.total)}%` }} />
+                                            ))}
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-2">
+                                            {data.sentiments.map(({ sentiment, count }) => (
+                                                <span key={sentiment} className="flex items-center gap-2 text-[11px] text-slate-400">
+                                                    <span className={`w-2.5 h-2.5 rounded-sm ${SENTIMENTS[sentiment].color}`} />
+                                                    {SENTIMENTS[sentiment].label}
+                                                    <span className="ml-auto font-black text-slate-200 tabular-nums">{percent(count, data.total)}%</span>
+                                                </span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                            </Section>
+                        </div>
+
+                        <Section title="Objeções por agente">
+                            {data.objections.length === 0 ? <Empty>Nenhum veredito no filtro.</Empty> : (
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-xs">
+                                        <thead>
+                                            <tr className="text-[9px] font-black text-slate-500 uppercase tracking-widest text-left">
+                                                <th className="pb-2 pr-4">Agente</th>
+                                                <th className="pb-2 px-3">Tipo mais frequente</th>
+                                                <th className="pb-2 px-3 text-right">Objeções</th>
+                                                <th className="pb-2 pl-3 text-right">Vereditos</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {data.objections.map((agent) => {
+                                                const top = agent.by_type[0];
+                                                return (
+                                                    <tr key={agent.agent_name} className="border-t border-white/5">
+                                                        <td className="py-2 pr-4 font-black text-white">{agent.agent_name}</td>
+                                                        <td className="py-2 px-3 text-slate-300">
+                                                            {top ? `${top.objection_type} (${percent(top.count, agent.objections)}%)` : '—'}
+                                                        </td>
+                                                        <td className="py-2 px-3 text-right tabular-nums text-slate-200">{agent.objections}</td>
+                                                        <td className="py-2 pl-3 text-right tabular-nums text-slate-400">{agent.verdicts}</td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </Section>
+
+                        <Section title="Recomendações recorrentes">
+                            {data.tips.length === 0 ? <Empty>Nenhuma recomendação se repetiu entre as análises.</Empty> : (
+                                <ol className="space-y-4">
+                                    {data.tips.map((cluster, index) => (
+                                        <li key={index} className="flex gap-4">
+                                            <span className="w-10 flex-shrink-0 text-right text-sm font-black text-blue-400 tabular-nums">{cluster.count}×</span>
+                                            <div className="space-y-1 min-w-0">
+                                                <p className="text-xs md:text-sm text-slate-200">{cluster.tip}</p>
+                                                <p className="text-[10px] text-slate-500">em {cluster.analyses} análises</p>
+                                                {cluster.variants.map((variant) => (
+                                                    <p key={variant} className="text-[11px] text-slate-500 italic truncate" title={variant}>“{variant}”</p>
+                                                ))}
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+                        </Section>
+                    </>
+                )}
+            </main>
+            <FloatingMenu />
+        </div>
+    );
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AnalyticsQuerySchema, getWorkspaceAnalytics } from "@/lib/analytics";
+import { requireSession } from "@/lib/auth";
+
+// Dashboard of the workspace's stored analyses; any member may read it
+export async function GET(req: NextRequest) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    const parsed = AnalyticsQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Parâmetros inválidos", details: parsed.error.issues }, { status: 400 });
+    }
+
+    return NextResponse.json(getWorkspaceAnalytics(session.workspace.id, parsed.data));
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AnalyzeSchema, analyzeInput, analysisErrorResponse, describeAnalysisError, withSource } from "@/lib/analyze";
+import { requireSession } from "@/lib/auth";
+import { getProvider } from "@/lib/llm";
+import { consumeRateLimit, identifyClient, rateLimitHeaders, rateLimitResponse } from "@/lib/rate-limit";
+import { notifyAnalysisCompleted } from "@/lib/webhook-worker";
+import { AnalysisProgressEvent } from "@/types";
+
+/**
+ * Same as POST /api/analyze, but answers with a Server-Sent Events stream of
+ * progress events ending in "done" (with the result) or "error". Invalid
+ * input, rate limiting and provider configuration errors are still plain
+ * JSON responses. The app follows queued jobs instead; this route is kept
+ * for API clients that want the progress over a single connection.
+ */
+export async function POST(req: NextRequest) {
+    const session = requireSession(req, "editor");
+    if (session instanceof NextResponse) return session;
+
+    const body = await req.json().catch(() => null);
+
+    const parsed = AnalyzeSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const client = identifyClient(req, session.user);
+    const limit = consumeRateLimit(client);
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    let provider;
+    try {
+        provider = getProvider();
+    } catch (error) {
+        return analysisErrorResponse(error);
+    }
+
+    const { agents, personas, deliberation, force, ...input } = parsed.data;
+    const encoder = new TextEncoder();
+    let open = true;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: AnalysisProgressEvent) => {
+                if (!open) return;
+                controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+            };
+
+            try {
+                const result = await analyzeInput(input, provider, { agents, personas, deliberation }, { onProgress: send, force, client: client.id, workspace: session.workspace.id });
+                notifyAnalysisCompleted(session.workspace.id, withSource(result, input));
+                send({ type: "done", result });
+            } catch (error) {
+                const { status, body } = describeAnalysisError(error);
+                send({ type: "error", status, ...body });
+            }
+
+            if (open) controller.close();
+        },
+        // The client went away; the analysis still finishes but nothing else is sent
+        cancel() {
+            open = false;
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            ...rateLimitHeaders(limit),
+        },
+    });
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthRepository, setSessionCookie, signIn } from "@/lib/auth";
+
+// Target of the emailed link: signs in and opens the app
+export async function GET(req: NextRequest) {
+    const token = req.nextUrl.searchParams.get("token");
+    const email = token && getAuthRepository().consumeLoginToken(token, Date.now());
+
+    if (!email) {
+        return NextResponse.redirect(new URL("/login?error=expired", req.nextUrl));
+    }
+
+    const next = req.nextUrl.searchParams.get("next");
+    const target = next && /^\/(?!\/)/.test(next) ? next : "/";
+    return setSessionCookie(NextResponse.redirect(new URL(target, req.nextUrl)), signIn(email));
+}
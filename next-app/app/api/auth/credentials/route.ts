@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { checkDevPassword, credentialsEnabled, setSessionCookie, signIn } from "@/lib/auth";
+
+const CredentialsSchema = z.object({
+    email: z.email(),
+    password: z.string().min(1),
+});
+
+/**
+ * Development login: any email with the password from AUTH_DEV_PASSWORD
+ * ("dev" by default). Not available in production builds.
+ */
+export async function POST(req: NextRequest) {
+    if (!credentialsEnabled()) {
+        return NextResponse.json({ error: "Login por senha desativado." }, { status: 404 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = CredentialsSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    if (!checkDevPassword(parsed.data.password)) {
+        return NextResponse.json({ error: "Email ou senha incorretos." }, { status: 401 });
+    }
+
+    return setSessionCookie(NextResponse.json({ signed_in: true }), signIn(parsed.data.email));
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { LOGIN_TOKEN_TTL, appUrl, getAuthRepository } from "@/lib/auth";
+import { sendMagicLink } from "@/lib/mailer";
+import { consumeRateLimit, identifyClient, rateLimitResponse } from "@/lib/rate-limit";
+
+const MagicLinkSchema = z.object({
+    email: z.email(),
+    // Page to open after signing in; only paths of this app
+    next: z.string().regex(/^\/(?!\/)/).optional(),
+});
+
+/**
+ * Emails a one-time sign-in link. The answer is the same whether or not
+ * the address has an account, so it cannot be used to find users.
+ */
+export async function POST(req: NextRequest) {
+    const body = await req.json().catch(() => null);
+
+    const parsed = MagicLinkSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Email inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const limit = consumeRateLimit(identifyClient(req));
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    const origin = appUrl(req);
+    if (!origin) {
+        console.error("❌ APP_URL is not set; magic links are disabled");
+        return NextResponse.json({ error: "O envio de links de acesso não está configurado." }, { status: 503 });
+    }
+
+    const token = getAuthRepository().createLoginToken(parsed.data.email, Date.now() + LOGIN_TOKEN_TTL);
+    const url = new URL("/api/auth/callback", origin);
+    url.searchParams.set("token", token);
+    if (parsed.data.next) url.searchParams.set("next", parsed.data.next);
+
+    try {
+        await sendMagicLink(parsed.data.email, url.toString());
+    } catch (error) {
+        console.error("❌ Mail Error:", error);
+        return NextResponse.json({ error: "Não foi possível enviar o email de acesso." }, { status: 502 });
+    }
+
+    return NextResponse.json({ sent: true });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { SESSION_COOKIE, getAuthRepository, requireSession } from "@/lib/auth";
+import { getWorkspaceRepository } from "@/lib/workspaces";
+import { SessionInfo } from "@/types";
+
+const SwitchSchema = z.object({ workspace_id: z.string().min(1) });
+
+export async function GET(req: NextRequest) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    const info: SessionInfo = {
+        user: session.user,
+        workspace: session.workspace,
+        workspaces: getWorkspaceRepository().listForUser(session.user.id),
+    };
+    return NextResponse.json(info);
+}
+
+// Switches the workspace the session acts on
+export async function PUT(req: NextRequest) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    const parsed = SwitchSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const workspace = getWorkspaceRepository().membership(parsed.data.workspace_id, session.user.id);
+    if (!workspace) {
+        return NextResponse.json({ error: "Workspace não encontrado." }, { status: 404 });
+    }
+
+    getAuthRepository().setSessionWorkspace(session.token, workspace.id);
+    return NextResponse.json(workspace);
+}
+
+// Signs out
+export async function DELETE(req: NextRequest) {
+    const token = req.cookies.get(SESSION_COOKIE)?.value;
+    if (token) getAuthRepository().deleteSession(token);
+
+    const response = new NextResponse(null, { status: 204 });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireSession } from "@/lib/auth";
+import { BatchRowSchema, MAX_BATCH_ITEMS, toBatchCsv } from "@/lib/batch";
+
+const FormatSchema = z.enum(["csv", "json"]).default("csv");
+
+const ExportSchema = z.object({
+    rows: z.array(BatchRowSchema).max(MAX_BATCH_ITEMS),
+});
+
+// Rows are exported in the order they are sent, i.e. as sorted in the table
+export async function POST(req: NextRequest) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    const format = FormatSchema.safeParse(req.nextUrl.searchParams.get("format") ?? undefined);
+    if (!format.success) {
+        return NextResponse.json({ error: "Formato inválido. Use csv ou json." }, { status: 400 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = ExportSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Lote inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const fileName = `lote-${new Date().toISOString().slice(0, 10)}.${format.data}`;
+
+    if (format.data === "json") {
+        return new NextResponse(JSON.stringify(parsed.data.rows, null, 2), {
+            headers: {
+                "Content-Type": "application/json; charset=utf-8",
+                "Content-Disposition": `attachment; filename="${fileName}"`,
+            },
+        });
+    }
+
+    return new NextResponse(toBatchCsv(parsed.data.rows), {
+        headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+    });
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { analysisErrorResponse } from "@/lib/analyze";
+import { requireSession } from "@/lib/auth";
+import { BatchSchema, analyzeBatch } from "@/lib/batch";
+import { getHistoryRepository } from "@/lib/history";
+import { getProvider } from "@/lib/llm";
+import { consumeRateLimit, identifyClient, rateLimitHeaders, rateLimitResponse } from "@/lib/rate-limit";
+import { notifyAnalysisCompleted } from "@/lib/webhook-worker";
+import { BatchEvent } from "@/types";
+
+/**
+ * Queues up to MAX_BATCH_ITEMS inputs and analyzes them a few at a time.
+ * Answers with a Server-Sent Events stream of per-item events ending in
+ * "done". Every analyzed item is saved to the workspace history, so its
+ * report can be opened from the summary table.
+ */
+export async function POST(req: NextRequest) {
+    const session = requireSession(req, "editor");
+    if (session instanceof NextResponse) return session;
+
+    const body = await req.json().catch(() => null);
+
+    const parsed = BatchSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    // Every item counts as one analysis; the whole batch is refused when it does not fit
+    const client = identifyClient(req, session.user);
+    const limit = consumeRateLimit(client, parsed.data.items.length);
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    let provider;
+    try {
+        provider = getProvider();
+    } catch (error) {
+        return analysisErrorResponse(error);
+    }
+
+    const { agents, personas, deliberation, force, items } = parsed.data;
+    const repository = getHistoryRepository();
+    const encoder = new TextEncoder();
+    let open = true;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: BatchEvent) => {
+                if (!open) return;
+                controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+            };
+
+            await analyzeBatch(items, provider, { agents, personas, deliberation }, send, {
+                force,
+                client: client.id,
+                workspace: session.workspace.id,
+                onResult: (result, item) => {
+                    const saved = repository.save(session.workspace.id, {
+                        ...result,
+                        timestamp: Date.now(),
+                        sourceText: item.text || item.label,
+                        sourceImage: item.image,
+                        sourceDocument: item.document,
+                    }, session.user.id)!;
+                    notifyAnalysisCompleted(session.workspace.id, saved);
+                    return saved;
+                },
+            });
+
+            if (open) controller.close();
+        },
+        // The client went away; queued items are still analyzed and saved
+        cancel() {
+            open = false;
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            ...rateLimitHeaders(limit),
+        },
+    });
+}
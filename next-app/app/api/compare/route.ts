@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AnalysisConfigSchema, AnalyzeInput, AnalyzeInputSchema, analyzeInput, analysisErrorResponse, withSource } from "@/lib/analyze";
+import { requireSession } from "@/lib/auth";
+import { getProvider } from "@/lib/llm";
+import { compareAnalyses } from "@/lib/compare";
+import { consumeRateLimit, identifyClient, rateLimitHeaders, rateLimitResponse } from "@/lib/rate-limit";
+import { notifyAnalysisCompleted } from "@/lib/webhook-worker";
+
+const CompareSchema = AnalysisConfigSchema.extend({
+    a: AnalyzeInputSchema,
+    b: AnalyzeInputSchema,
+});
+
+export async function POST(req: NextRequest) {
+    const session = requireSession(req, "editor");
+    if (session instanceof NextResponse) return session;
+
+    try {
+        const body = await req.json();
+
+        // Validate Input
+        const parsed = CompareSchema.safeParse(body);
+        if (!parsed.success) {
+            return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+        }
+
+        const client = identifyClient(req, session.user);
+        const limit = consumeRateLimit(client, 2);
+        if (!limit.allowed) return rateLimitResponse(limit);
+
+        const provider = getProvider();
+        const config = { agents: parsed.data.agents, personas: parsed.data.personas, deliberation: parsed.data.deliberation };
+
+        // Each side is announced when it is done, even if the other one fails
+        const analyze = async (input: AnalyzeInput) => {
+            const result = withSource(await analyzeInput(input, provider, config, { force: parsed.data.force, client: client.id, workspace: session.workspace.id }), input);
+            notifyAnalysisCompleted(session.workspace.id, result);
+            return result;
+        };
+        const [resultA, resultB] = await Promise.all([analyze(parsed.data.a), analyze(parsed.data.b)]);
+
+        const comparison = compareAnalyses(resultA, resultB);
+
+        return NextResponse.json(comparison, { headers: rateLimitHeaders(limit) });
+
+    } catch (error) {
+        return analysisErrorResponse(error);
+    }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { CompleteAnalysisResultSchema } from "@/lib/analyze";
+import { requireSession } from "@/lib/auth";
+import { getHistoryRepository, isShareActive } from "@/lib/history";
+import { getExportFileName } from "@/lib/report-format";
+import { renderReportHtml } from "@/lib/report-html";
+import { renderReportPdf } from "@/lib/report-pdf";
+import { AnalysisResult } from "@/types";
+
+const FormatSchema = z.enum(["pdf", "html"]).default("pdf");
+
+// The stored analysis behind an active share link
+function sharedAnalysis(token: string): AnalysisResult | null {
+    const repository = getHistoryRepository();
+    const share = repository.getShare(token);
+    return share && isShareActive(share) ? repository.get(share.analysis_id) : null;
+}
+
+/**
+ * Members post the analysis on screen. Visitors of a share link have no
+ * session and pass its token instead; the shared analysis is then read
+ * from the history and any posted body is ignored.
+ */
+export async function POST(req: NextRequest) {
+    const format = FormatSchema.safeParse(req.nextUrl.searchParams.get("format") ?? undefined);
+    if (!format.success) {
+        return NextResponse.json({ error: "Formato inválido. Use pdf ou html." }, { status: 400 });
+    }
+
+    let result: AnalysisResult;
+    const token = req.nextUrl.searchParams.get("share");
+    if (token) {
+        const shared = sharedAnalysis(token);
+        if (!shared) {
+            return NextResponse.json({ error: "Link de compartilhamento inválido ou expirado." }, { status: 404 });
+        }
+        result = shared;
+    } else {
+        const session = requireSession(req);
+        if (session instanceof NextResponse) return session;
+
+        const body = await req.json().catch(() => null);
+        const parsed = CompleteAnalysisResultSchema.safeParse(body);
+        if (!parsed.success) {
+            return NextResponse.json({ error: "Análise inválida", details: parsed.error.issues }, { status: 400 });
+        }
+        result = parsed.data;
+    }
+
+    try {
+        if (format.data === "html") {
+            return new NextResponse(renderReportHtml(result), {
+                headers: {
+                    "Content-Type": "text/html; charset=utf-8",
+                    "Content-Disposition": `attachment; filename="${getExportFileName(result, "html")}"`,
+                },
+            });
+        }
+
+        const pdf = await renderReportPdf(result);
+        return new NextResponse(new Uint8Array(pdf), {
+            headers: {
+                "Content-Type": "application/pdf",
+                "Content-Disposition": `attachment; filename="${getExportFileName(result, "pdf")}"`,
+            },
+        });
+    } catch (error) {
+        console.error("❌ Export Error:", error);
+        return NextResponse.json({ error: "Falha ao gerar o documento." }, { status: 500 });
+    }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { DocumentExtractionError, MAX_UPLOAD_BYTES, extractDocument } from "@/lib/documents";
+
+// Multipart upload with a single "file" field; returns the ExtractedDocument to send to /api/analyze
+export async function POST(req: NextRequest) {
+    const session = requireSession(req, "editor");
+    if (session instanceof NextResponse) return session;
+
+    const form = await req.formData().catch(() => null);
+    const file = form?.get("file");
+
+    if (!(file instanceof File)) {
+        return NextResponse.json({ error: "Envie o arquivo no campo \"file\"." }, { status: 400 });
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+        return NextResponse.json({ error: "Arquivo muito grande. O limite é 15 MB." }, { status: 413 });
+    }
+
+    try {
+        const document = await extractDocument(file.name, file.type, new Uint8Array(await file.arrayBuffer()));
+        return NextResponse.json(document);
+    } catch (error) {
+        if (error instanceof DocumentExtractionError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+}
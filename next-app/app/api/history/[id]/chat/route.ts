@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { buildChatRequest } from "@core/analysis/chat";
+import { streamText } from "@core/llm";
+import { analysisErrorResponse, describeAnalysisError, inputOf } from "@/lib/analyze";
+import { requireSession } from "@/lib/auth";
+import { getHistoryRepository } from "@/lib/history";
+import { getProvider } from "@/lib/llm";
+import { consumeRateLimit, identifyClient, rateLimitHeaders, rateLimitResponse } from "@/lib/rate-limit";
+import { estimateTextUsage, getUsageRepository } from "@/lib/usage";
+import { getWorkspaceRepository } from "@/lib/workspaces";
+import { ChatEvent } from "@/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const ChatSchema = z.object({
+    message: z.string().trim().min(1).max(2000),
+});
+
+const notFound = () => NextResponse.json({ error: "Análise não encontrada." }, { status: 404 });
+
+// The thread of the analysis, oldest first
+export async function GET(req: NextRequest, { params }: RouteContext) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    const { id } = await params;
+    const messages = getHistoryRepository().messages(session.workspace.id, id);
+
+    return messages ? NextResponse.json(messages) : notFound();
+}
+
+/**
+ * Asks a follow-up question about the analysis. The model gets the original
+ * input, the stored result and the thread so far, and the answer is streamed
+ * as Server-Sent Events: "delta" chunks, then "done" with the question and
+ * answer as saved, or "error" (nothing is saved then).
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+    const session = requireSession(req, "editor");
+    if (session instanceof NextResponse) return session;
+
+    const { id } = await params;
+    const body = await req.json().catch(() => null);
+
+    const parsed = ChatSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const history = getHistoryRepository();
+    const workspaceId = session.workspace.id;
+    const result = history.get(id, workspaceId);
+    const thread = history.messages(workspaceId, id);
+    if (!result || !thread) return notFound();
+
+    const client = identifyClient(req, session.user);
+    const limit = consumeRateLimit(client);
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    let provider;
+    try {
+        provider = getProvider();
+    } catch (error) {
+        return analysisErrorResponse(error);
+    }
+
+    const question = { role: "user" as const, content: parsed.data.message, author: session.user.name, created_at: Date.now() };
+    const request = buildChatRequest(
+        inputOf(result),
+        result,
+        thread.map((message) => ({ role: message.role, text: message.content })),
+        question.content,
+        getWorkspaceRepository().getSettings(workspaceId).agents ?? undefined
+    );
+
+    const encoder = new TextEncoder();
+    let open = true;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: ChatEvent) => {
+                if (!open) return;
+                controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+            };
+
+            try {
+                let answer = "";
+                for await (const text of streamText(provider, request)) {
+                    answer += text;
+                    send({ type: "delta", text });
+                }
+
+                getUsageRepository().record(client.id, { cached: false, ...estimateTextUsage(request, answer) });
+                // Saved even if the client went away, so the answer is there on reload
+                const messages = history.addMessages(workspaceId, id, [
+                    question,
+                    { role: "assistant", content: answer, author: null, created_at: Date.now() },
+                ]);
+                if (!messages) throw new Error("A análise foi excluída durante a conversa.");
+                send({ type: "done", messages });
+            } catch (error) {
+                const { status, body } = describeAnalysisError(error);
+                send({ type: "error", status, ...body });
+            }
+
+            if (open) controller.close();
+        },
+        cancel() {
+            open = false;
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            ...rateLimitHeaders(limit),
+        },
+    });
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { getHistoryRepository } from "@/lib/history";
+import { lineageEvolution } from "@/lib/lineage";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Scores of every version of the analysis's asset, without the sources
+export async function GET(req: NextRequest, { params }: RouteContext) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    const { id } = await params;
+    const versions = getHistoryRepository().lineage(session.workspace.id, id);
+
+    if (!versions) {
+        return NextResponse.json({ error: "Análise não encontrada." }, { status: 404 });
+    }
+
+    return NextResponse.json(lineageEvolution(versions));
+}
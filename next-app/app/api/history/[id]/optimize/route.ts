@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { analysisErrorResponse, describeAnalysisError, inputOf, withSource } from "@/lib/analyze";
+import { requireSession } from "@/lib/auth";
+import { getHistoryRepository } from "@/lib/history";
+import { getProvider } from "@/lib/llm";
+import { OptimizeSchema, optimizeAnalysis } from "@/lib/optimize";
+import { consumeRateLimit, identifyClient, rateLimitHeaders, rateLimitResponse } from "@/lib/rate-limit";
+import { getWorkspaceRepository } from "@/lib/workspaces";
+import { OptimizeEvent } from "@/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Rewrites the text of a saved analysis `count` times, aimed at its weakest
+ * personas, and scores every version with the workspace jury. Answers with
+ * a Server-Sent Events stream (see OptimizeEvent); each scored version is
+ * saved to the history so its report can be opened.
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+    const session = requireSession(req, "editor");
+    if (session instanceof NextResponse) return session;
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+
+    const parsed = OptimizeSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const repository = getHistoryRepository();
+    const workspaceId = session.workspace.id;
+    const original = repository.get(id, workspaceId);
+    if (!original) {
+        return NextResponse.json({ error: "Análise não encontrada." }, { status: 404 });
+    }
+    if (!inputOf(original).text) {
+        return NextResponse.json({ error: "A otimização reescreve o texto da peça, e esta análise não tem texto." }, { status: 422 });
+    }
+
+    // The rewrite plus one analysis per version
+    const { count } = parsed.data;
+    const client = identifyClient(req, session.user);
+    const limit = consumeRateLimit(client, count + 1);
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    let provider;
+    try {
+        provider = getProvider();
+    } catch (error) {
+        return analysisErrorResponse(error);
+    }
+
+    const settings = getWorkspaceRepository().getSettings(workspaceId);
+    const config = { agents: settings.agents ?? undefined, personas: settings.personas ?? undefined };
+    const encoder = new TextEncoder();
+    let open = true;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: OptimizeEvent) => {
+                if (!open) return;
+                controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+            };
+
+            try {
+                await optimizeAnalysis(original, count, provider, config, send, {
+                    client: client.id,
+                    // Versions are filed under the original's campaign
+                    save: (result, input) => repository.save(workspaceId, { ...withSource(result, input), campaign: original.campaign }, session.user.id)!,
+                });
+            } catch (error) {
+                const { status, body } = describeAnalysisError(error);
+                send({ type: "error", status, ...body });
+            }
+
+            if (open) controller.close();
+        },
+        // The client went away; versions already being scored are still saved
+        cancel() {
+            open = false;
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            ...rateLimitHeaders(limit),
+        },
+    });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { getHistoryRepository } from "@/lib/history";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Full result, including the source image
+export async function GET(req: NextRequest, { params }: RouteContext) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    const { id } = await params;
+    const result = getHistoryRepository().get(id, session.workspace.id);
+
+    if (!result) {
+        return NextResponse.json({ error: "Análise não encontrada." }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+    const session = requireSession(req, "editor");
+    if (session instanceof NextResponse) return session;
+
+    const { id } = await params;
+
+    if (!getHistoryRepository().remove(session.workspace.id, id)) {
+        return NextResponse.json({ error: "Análise não encontrada." }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireSession } from "@/lib/auth";
+import { getHistoryRepository } from "@/lib/history";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// null = link never expires
+const ShareSchema = z.object({
+    expires_in_hours: z.number().int().min(1).max(24 * 90).nullable().default(24 * 7),
+});
+
+export async function POST(req: NextRequest, { params }: RouteContext) {
+    const session = requireSession(req, "editor");
+    if (session instanceof NextResponse) return session;
+
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+
+    const parsed = ShareSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const hours = parsed.data.expires_in_hours;
+    const share = getHistoryRepository().createShare(session.workspace.id, id, hours === null ? null : Date.now() + hours * 60 * 60 * 1000);
+
+    if (!share) {
+        return NextResponse.json({ error: "Análise não encontrada." }, { status: 404 });
+    }
+
+    return NextResponse.json({
+        ...share,
+        url: `/report/${encodeURIComponent(id)}?share=${share.token}`,
+    }, { status: 201 });
+}
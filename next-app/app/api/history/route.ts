@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CompleteAnalysisResultSchema } from "@/lib/analyze";
+import { requireSession } from "@/lib/auth";
+import { HistoryListSchema, getHistoryRepository } from "@/lib/history";
+
+export async function GET(req: NextRequest) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    const parsed = HistoryListSchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Parâmetros inválidos", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const { page, limit, q } = parsed.data;
+    return NextResponse.json(getHistoryRepository().list(session.workspace.id, { page, limit, q: q || undefined }));
+}
+
+export async function POST(req: NextRequest) {
+    const session = requireSession(req, "editor");
+    if (session instanceof NextResponse) return session;
+
+    const body = await req.json().catch(() => null);
+
+    const parsed = CompleteAnalysisResultSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Análise inválida", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const saved = getHistoryRepository().save(session.workspace.id, parsed.data, session.user.id);
+    if (!saved) {
+        return NextResponse.json({ error: "Esta análise pertence a outro workspace." }, { status: 409 });
+    }
+    return NextResponse.json(saved, { status: 201 });
+}
+
+// Clears the whole workspace history, so only owners may do it
+export async function DELETE(req: NextRequest) {
+    const session = requireSession(req, "owner");
+    if (session instanceof NextResponse) return session;
+
+    getHistoryRepository().clear(session.workspace.id);
+    return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { getHistoryRepository } from "@/lib/history";
+import { ensureJobWorker } from "@/lib/job-worker";
+import { getJobRepository } from "@/lib/jobs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Status of a job; once done, the saved result is included
+export async function GET(req: NextRequest, { params }: RouteContext) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    const { id } = await params;
+    ensureJobWorker();
+
+    const job = getJobRepository().get(id, session.workspace.id);
+    if (!job) {
+        return NextResponse.json({ error: "Análise não encontrada." }, { status: 404 });
+    }
+
+    if (job.status === "done" && job.analysis_id) {
+        const result = getHistoryRepository().get(job.analysis_id, session.workspace.id);
+        if (result) return NextResponse.json({ ...job, result });
+    }
+
+    return NextResponse.json(job);
+}
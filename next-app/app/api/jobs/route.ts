@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { StoredAnalyzeSchema, analysisErrorResponse } from "@/lib/analyze";
+import { requireSession } from "@/lib/auth";
+import { getHistoryRepository } from "@/lib/history";
+import { ensureJobWorker } from "@/lib/job-worker";
+import { getJobRepository } from "@/lib/jobs";
+import { getProvider } from "@/lib/llm";
+import { consumeRateLimit, identifyClient, rateLimitHeaders, rateLimitResponse } from "@/lib/rate-limit";
+
+/**
+ * Queues an analysis and answers right away with 202 and the job; the
+ * model call runs in the background worker. Poll GET /api/jobs/:id.
+ */
+export async function POST(req: NextRequest) {
+    const session = requireSession(req, "editor");
+    if (session instanceof NextResponse) return session;
+
+    const body = await req.json().catch(() => null);
+
+    const parsed = StoredAnalyzeSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    // A new version must revise an analysis of the same workspace
+    if (parsed.data.parent_id && !getHistoryRepository().get(parsed.data.parent_id, session.workspace.id)) {
+        return NextResponse.json({ error: "Análise de origem não encontrada." }, { status: 404 });
+    }
+
+    // Counted when queued, so a full bucket never leaves jobs piling up
+    const client = identifyClient(req, session.user);
+    const limit = consumeRateLimit(client);
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    // Fail now on a missing key instead of queueing a job that cannot run
+    try {
+        getProvider();
+    } catch (error) {
+        return analysisErrorResponse(error);
+    }
+
+    const job = getJobRepository().create(parsed.data, { workspace_id: session.workspace.id, client: client.id, user_id: session.user.id });
+    ensureJobWorker();
+
+    return NextResponse.json(job, { status: 202, headers: rateLimitHeaders(limit) });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { consumeRateLimit, identifyClient, rateLimitConfig } from "@/lib/rate-limit";
+import { getUsageRepository } from "@/lib/usage";
+import { UsageSummary } from "@/types";
+
+const DAY = 24 * 60 * 60_000;
+
+/**
+ * The caller's rate limit state and the analyses counted against it,
+ * today and over the last 30 days (UTC days).
+ */
+export async function GET(req: NextRequest) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    const client = identifyClient(req, session.user);
+    const { enabled, perMinute } = rateLimitConfig();
+    // A zero cost only refills the bucket, so this request is free
+    const limit = consumeRateLimit(client, 0);
+    const usage = getUsageRepository();
+    const now = Date.now();
+
+    const summary: UsageSummary = {
+        client: { kind: client.kind },
+        rate_limit: { enabled, limit: limit.limit, remaining: limit.remaining, per_minute: perMinute },
+        today: usage.totals(client.id, now),
+        last_30_days: usage.totals(client.id, now - 29 * DAY),
+    };
+
+    return NextResponse.json(summary);
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/api-keys";
+import { getHistoryRepository } from "@/lib/history";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFoundResponse = () => NextResponse.json({ error: "Análise não encontrada." }, { status: 404 });
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+    const caller = requireApiKey(req);
+    if (caller instanceof NextResponse) return caller;
+
+    const { id } = await params;
+    const result = getHistoryRepository().get(id, caller.workspace_id);
+
+    return result ? NextResponse.json(result) : notFoundResponse();
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+    const caller = requireApiKey(req);
+    if (caller instanceof NextResponse) return caller;
+
+    const { id } = await params;
+
+    if (!getHistoryRepository().remove(caller.workspace_id, id)) return notFoundResponse();
+
+    return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { StoredAnalyzeSchema, analyzeInput, analysisErrorResponse, withSource } from "@/lib/analyze";
+import { requireApiKey } from "@/lib/api-keys";
+import { HistoryListSchema, getHistoryRepository } from "@/lib/history";
+import { getProvider } from "@/lib/llm";
+import { notifyAnalysisCompleted } from "@/lib/webhook-worker";
+import { apiKeyClient, consumeRateLimit, rateLimitHeaders, rateLimitResponse } from "@/lib/rate-limit";
+import { getWorkspaceRepository } from "@/lib/workspaces";
+
+/**
+ * Runs an analysis and saves it to the workspace history. Without agents
+ * or personas in the body, the workspace's jury and audience are used.
+ * With parent_id, the analysis is saved as the next version of that one.
+ * Answers once the analysis is done, with 201 and the AnalysisResult.
+ */
+export async function POST(req: NextRequest) {
+    const caller = requireApiKey(req);
+    if (caller instanceof NextResponse) return caller;
+
+    const parsed = StoredAnalyzeSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const repository = getHistoryRepository();
+    if (parsed.data.parent_id && !repository.get(parsed.data.parent_id, caller.workspace_id)) {
+        return NextResponse.json({ error: "Análise de origem não encontrada." }, { status: 404 });
+    }
+
+    const client = apiKeyClient(caller.apiKey.id);
+    const limit = consumeRateLimit(client);
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    try {
+        const settings = getWorkspaceRepository().getSettings(caller.workspace_id);
+        const { agents = settings.agents ?? undefined, personas = settings.personas ?? undefined, deliberation, force, parent_id, campaign, ...input } = parsed.data;
+
+        const result = await analyzeInput(input, getProvider(), { agents, personas, deliberation }, { force, client: client.id, workspace: caller.workspace_id });
+        const saved = repository.save(caller.workspace_id, { ...withSource(result, input), parent_id, campaign })!;
+        notifyAnalysisCompleted(caller.workspace_id, saved);
+
+        return NextResponse.json(saved, {
+            status: 201,
+            headers: { Location: `/api/v1/analyses/${saved.analysis_id}`, ...rateLimitHeaders(limit) },
+        });
+    } catch (error) {
+        return analysisErrorResponse(error);
+    }
+}
+
+// Newest first, like the history page; items carry no image or document
+export async function GET(req: NextRequest) {
+    const caller = requireApiKey(req);
+    if (caller instanceof NextResponse) return caller;
+
+    const parsed = HistoryListSchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Parâmetros inválidos", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const { page, limit, q } = parsed.data;
+    return NextResponse.json(getHistoryRepository().list(caller.workspace_id, { page, limit, q: q || undefined }));
+}
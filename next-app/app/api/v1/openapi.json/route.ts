@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from "next/server";
+import { openApiDocument } from "@/lib/openapi";
+
+// Public, so API clients and code generators can fetch it without a key
+export async function GET(req: NextRequest) {
+    return NextResponse.json(openApiDocument(process.env.APP_URL || req.nextUrl.origin));
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getApiKeyRepository } from "@/lib/api-keys";
+import { requireSession } from "@/lib/auth";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Revoking takes effect on the next request made with the key
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+    const session = requireSession(req, "owner");
+    if (session instanceof NextResponse) return session;
+
+    const { id } = await params;
+
+    if (!getApiKeyRepository().revoke(session.workspace.id, id)) {
+        return NextResponse.json({ error: "Chave não encontrada." }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+}
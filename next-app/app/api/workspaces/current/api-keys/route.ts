@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiKeyNameSchema, getApiKeyRepository } from "@/lib/api-keys";
+import { requireSession } from "@/lib/auth";
+
+// Keys act on every analysis of the workspace, so only owners see and manage them
+export async function GET(req: NextRequest) {
+    const session = requireSession(req, "owner");
+    if (session instanceof NextResponse) return session;
+
+    return NextResponse.json(getApiKeyRepository().list(session.workspace.id));
+}
+
+/**
+ * Creates a key for the /api/v1 API. The response is the only time the
+ * key itself is returned.
+ */
+export async function POST(req: NextRequest) {
+    const session = requireSession(req, "owner");
+    if (session instanceof NextResponse) return session;
+
+    const parsed = ApiKeyNameSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    return NextResponse.json(getApiKeyRepository().create(session.workspace.id, parsed.data.name, session.user), { status: 201 });
+}
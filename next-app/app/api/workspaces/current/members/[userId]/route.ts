@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { Session, forbiddenResponse, requireSession } from "@/lib/auth";
+import { WORKSPACE_ROLES, getWorkspaceRepository, hasRole } from "@/lib/workspaces";
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+const RoleSchema = z.object({ role: z.enum(WORKSPACE_ROLES) });
+
+// A workspace always keeps at least one owner
+const isLastOwner = (session: Session, userId: string) => {
+    const owners = getWorkspaceRepository().members(session.workspace.id).filter((member) => member.role === "owner");
+    return owners.length === 1 && owners[0].user_id === userId;
+};
+
+const lastOwnerResponse = () =>
+    NextResponse.json({ error: "O workspace precisa de pelo menos um proprietário." }, { status: 409 });
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+    const session = requireSession(req, "owner");
+    if (session instanceof NextResponse) return session;
+
+    const { userId } = await params;
+    const parsed = RoleSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    if (parsed.data.role !== "owner" && isLastOwner(session, userId)) return lastOwnerResponse();
+
+    if (!getWorkspaceRepository().setRole(session.workspace.id, userId, parsed.data.role)) {
+        return NextResponse.json({ error: "Membro não encontrado." }, { status: 404 });
+    }
+
+    return NextResponse.json({ user_id: userId, role: parsed.data.role });
+}
+
+// Owners remove anyone; any member can remove themselves to leave the workspace
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    const { userId } = await params;
+    if (userId !== session.user.id && !hasRole(session.workspace.role, "owner")) return forbiddenResponse();
+
+    if (isLastOwner(session, userId)) return lastOwnerResponse();
+
+    if (!getWorkspaceRepository().removeMember(session.workspace.id, userId)) {
+        return NextResponse.json({ error: "Membro não encontrado." }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthRepository, normalizeEmail, requireSession } from "@/lib/auth";
+import { WORKSPACE_ROLES, getWorkspaceRepository } from "@/lib/workspaces";
+
+const InviteSchema = z.object({
+    email: z.email(),
+    role: z.enum(WORKSPACE_ROLES).default("editor"),
+});
+
+/**
+ * Adds someone to the current workspace by email. People without an
+ * account get one, and see the workspace once they sign in.
+ */
+export async function POST(req: NextRequest) {
+    const session = requireSession(req, "owner");
+    if (session instanceof NextResponse) return session;
+
+    const parsed = InviteSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const auth = getAuthRepository();
+    const email = normalizeEmail(parsed.data.email);
+    const user = auth.findUserByEmail(email) ?? auth.createUser(email, email.split("@")[0]);
+    const workspaces = getWorkspaceRepository();
+
+    if (workspaces.membership(session.workspace.id, user.id)) {
+        return NextResponse.json({ error: "Esta pessoa já faz parte do workspace." }, { status: 409 });
+    }
+
+    return NextResponse.json(workspaces.addMember(session.workspace.id, user, parsed.data.role), { status: 201 });
+}
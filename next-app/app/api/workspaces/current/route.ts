@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { WorkspaceNameSchema, getWorkspaceRepository } from "@/lib/workspaces";
+
+// The current workspace and its members
+export async function GET(req: NextRequest) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    return NextResponse.json({ ...session.workspace, members: getWorkspaceRepository().members(session.workspace.id) });
+}
+
+export async function PATCH(req: NextRequest) {
+    const session = requireSession(req, "owner");
+    if (session instanceof NextResponse) return session;
+
+    const parsed = WorkspaceNameSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    getWorkspaceRepository().rename(session.workspace.id, parsed.data.name);
+    return NextResponse.json({ ...session.workspace, name: parsed.data.name });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { AgentSchema, PersonaSchema } from "@/lib/analyze";
+import { requireSession } from "@/lib/auth";
+import { getWorkspaceRepository } from "@/lib/workspaces";
+
+// null goes back to the built-in jury or audience
+const SettingsSchema = z.object({
+    agents: z.array(AgentSchema).max(50).nullable().optional(),
+    personas: z.array(PersonaSchema).max(50).nullable().optional(),
+});
+
+// Jury and audience shared by everyone in the workspace
+export async function GET(req: NextRequest) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    return NextResponse.json(getWorkspaceRepository().getSettings(session.workspace.id));
+}
+
+export async function PUT(req: NextRequest) {
+    const session = requireSession(req, "editor");
+    if (session instanceof NextResponse) return session;
+
+    const parsed = SettingsSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Configuração inválida", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const workspaces = getWorkspaceRepository();
+    workspaces.saveSettings(session.workspace.id, parsed.data);
+    return NextResponse.json(workspaces.getSettings(session.workspace.id));
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { ensureWebhookWorker } from "@/lib/webhook-worker";
+import { getWebhookRepository } from "@/lib/webhooks";
+import { WebhookWithDeliveries } from "@/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const DELIVERY_LOG_LIMIT = 50;
+
+const notFoundResponse = () => NextResponse.json({ error: "Webhook não encontrado." }, { status: 404 });
+
+// The webhook with its latest deliveries
+export async function GET(req: NextRequest, { params }: RouteContext) {
+    const session = requireSession(req, "owner");
+    if (session instanceof NextResponse) return session;
+
+    const { id } = await params;
+    const webhooks = getWebhookRepository();
+    const webhook = webhooks.get(session.workspace.id, id);
+    if (!webhook) return notFoundResponse();
+
+    ensureWebhookWorker();
+    const body: WebhookWithDeliveries = { ...webhook, deliveries: webhooks.deliveries(id, DELIVERY_LOG_LIMIT) };
+    return NextResponse.json(body);
+}
+
+// Pending deliveries are dropped along with the delivery log
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+    const session = requireSession(req, "owner");
+    if (session instanceof NextResponse) return session;
+
+    const { id } = await params;
+
+    if (!getWebhookRepository().remove(session.workspace.id, id)) return notFoundResponse();
+
+    return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { ensureWebhookWorker } from "@/lib/webhook-worker";
+import { WebhookSchema, getWebhookRepository, isInternalTarget } from "@/lib/webhooks";
+
+// Webhooks receive every analysis of the workspace, so only owners manage them
+export async function GET(req: NextRequest) {
+    const session = requireSession(req, "owner");
+    if (session instanceof NextResponse) return session;
+
+    ensureWebhookWorker();
+    return NextResponse.json(getWebhookRepository().list(session.workspace.id));
+}
+
+/**
+ * Registers a URL for the given events (all of them by default). The
+ * response is the only time the signing secret is returned. URLs that do
+ * not resolve or that point inside the server's network are refused.
+ */
+export async function POST(req: NextRequest) {
+    const session = requireSession(req, "owner");
+    if (session instanceof NextResponse) return session;
+
+    const parsed = WebhookSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const { url, events } = parsed.data;
+    const internal = await isInternalTarget(url).catch(() => null);
+    if (internal !== false) {
+        const error = internal ? "A URL aponta para uma rede interna." : "Não foi possível resolver o endereço da URL.";
+        return NextResponse.json({ error }, { status: 400 });
+    }
+
+    return NextResponse.json(getWebhookRepository().create(session.workspace.id, url, [...new Set(events)]), { status: 201 });
+}
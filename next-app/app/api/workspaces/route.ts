@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthRepository, requireSession } from "@/lib/auth";
+import { WorkspaceNameSchema, getWorkspaceRepository } from "@/lib/workspaces";
+
+// Workspaces the user belongs to, with their role in each
+export async function GET(req: NextRequest) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    return NextResponse.json(getWorkspaceRepository().listForUser(session.user.id));
+}
+
+// Creates a workspace owned by the user and switches the session to it
+export async function POST(req: NextRequest) {
+    const session = requireSession(req);
+    if (session instanceof NextResponse) return session;
+
+    const parsed = WorkspaceNameSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Input inválido", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const workspace = getWorkspaceRepository().create(parsed.data.name, session.user);
+    getAuthRepository().setSessionWorkspace(session.token, workspace.id);
+    return NextResponse.json(workspace, { status: 201 });
+}
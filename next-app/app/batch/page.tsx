@@ -0,0 +1,208 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FileText, Image as ImageIcon, Loader2, Type, Upload, X } from 'lucide-react';
+import { BatchItemState, BatchTable } from '@/components/BatchTable';
+import { useSettings } from '@/context/SettingsContext';
+import { streamBatch } from '@/lib/analysis-stream';
+import { extractDocument, readImage } from '@/lib/uploads';
+import { BatchEvent, ExtractedDocument } from '@/types';
+
+// Same limit as MAX_BATCH_ITEMS on the server
+const MAX_ITEMS = 50;
+
+// Pasted snippets are split on lines holding only "---"
+const SNIPPET_SEPARATOR = /^\s*-{3,}\s*$/m;
+
+interface BatchDraft {
+    label: string;
+    text?: string;
+    image?: string;
+    document?: ExtractedDocument;
+}
+
+const draftIcon = (draft: BatchDraft) => {
+    if (draft.image) return <ImageIcon size={14} className="text-blue-400" />;
+    if (draft.document) return <FileText size={14} className="text-blue-400" />;
+    return <Type size={14} className="text-blue-400" />;
+};
+
+const applyEvent = (items: BatchItemState[], event: BatchEvent): BatchItemState[] => {
+    if (!('index' in event)) return items;
+
+    const patch: Partial<BatchItemState> =
+        event.type === 'item_started' ? { status: 'running' }
+            : event.type === 'item_retrying' ? { status: 'retrying' }
+                : event.type === 'item_done' ? { status: 'done', row: event.row }
+                    : { status: 'failed', error: event.error };
+
+    return items.map((item, index) => (index === event.index ? { ...item, ...patch } : item));
+};
+
+export default function BatchPage() {
+    const router = useRouter();
+    const { agents, personas } = useSettings();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [drafts, setDrafts] = useState<BatchDraft[]>([]);
+    const [snippets, setSnippets] = useState('');
+    const [reading, setReading] = useState(0); // files still being compressed or extracted
+    const [errors, setErrors] = useState<string[]>([]);
+    const [dragging, setDragging] = useState(false);
+    const [items, setItems] = useState<BatchItemState[] | null>(null);
+    const [running, setRunning] = useState(false);
+
+    const addDrafts = (added: BatchDraft[]) => setDrafts((prev) => [...prev, ...added].slice(0, MAX_ITEMS));
+
+    const addFiles = async (files: File[]) => {
+        const accepted = files.slice(0, Math.max(0, MAX_ITEMS - drafts.length));
+        if (accepted.length < files.length) {
+            setErrors((prev) => [...prev, `Limite de ${MAX_ITEMS} itens por lote: ${files.length - accepted.length} arquivo(s) ignorado(s).`]);
+        }
+
+        setReading((count) => count + accepted.length);
+        for (const file of accepted) {
+            try {
+                addDrafts([file.type.startsWith('image/')
+                    ? { label: file.name, image: await readImage(file) }
+                    : { label: file.name, document: await extractDocument(file) }]);
+            } catch (error) {
+                setErrors((prev) => [...prev, `${file.name}: ${error instanceof Error ? error.message : 'Erro desconhecido'}`]);
+            } finally {
+                setReading((count) => count - 1);
+            }
+        }
+    };
+
+    const addSnippets = () => {
+        const texts = snippets.split(SNIPPET_SEPARATOR).map((text) => text.trim()).filter(Boolean);
+        addDrafts(texts.map((text) => ({ label: text.split('\n')[0].slice(0, 80), text })));
+        setSnippets('');
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setDragging(false);
+        addFiles(Array.from(e.dataTransfer.files));
+    };
+
+    const handleRun = async () => {
+        if (running || drafts.length === 0 || reading > 0) return;
+
+        setRunning(true);
+        setItems(drafts.map((draft) => ({ label: draft.label, status: 'queued' })));
+
+        try {
+            await streamBatch(
+                { items: drafts.map(({ label, text, image, document }) => ({ label, text, image, document })), agents, personas },
+                (event) => setItems((prev) => (prev ? applyEvent(prev, event) : prev))
+            );
+        } catch (e) {
+            console.error('❌ Erro no lote:', e);
+            alert(`Erro no lote: ${e instanceof Error ? e.message : 'Erro desconhecido'}`);
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const reset = () => {
+        setItems(null);
+        setDrafts([]);
+        setErrors([]);
+    };
+
+    return (
+        <div className="flex flex-col min-h-screen bg-[#0a0a0c]">
+            <header className="h-16 flex items-center justify-between px-6 md:px-8 border-b border-white/5 bg-[#0a0a0c]/60 backdrop-blur-xl sticky top-0 z-40">
+                <div className="flex items-center gap-3 text-white font-semibold cursor-pointer" onClick={() => (items && !running ? reset() : router.push('/'))}>
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
+                    <span className="text-sm md:text-base font-['DM_Sans']">{items && !running ? 'Novo Lote' : 'Voltar'}</span>
+                </div>
+                <span className="text-[10px] text-slate-500 tracking-widest uppercase font-['DM_Sans']">Batch Mode</span>
+            </header>
+
+            {items ? (
+                <main className="flex-1 p-4 md:p-10 max-w-[1600px] mx-auto w-full animate-in fade-in duration-700 space-y-6">
+                    <h2 className="text-2xl md:text-4xl font-black text-white font-['DM_Sans'] tracking-tight">Resultado do Lote</h2>
+                    <BatchTable items={items} canExport={!running && items.some((item) => item.row)} />
+                </main>
+            ) : (
+                <main className="flex-1 flex flex-col items-center px-4 md:px-6 max-w-4xl mx-auto py-8 w-full space-y-6">
+                    <h2 className="text-2xl md:text-4xl font-black text-white text-center font-['DM_Sans'] tracking-tight">Auditoria em Lote</h2>
+
+                    <div
+                        onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+                        onDragLeave={() => setDragging(false)}
+                        onDrop={handleDrop}
+                        onClick={() => fileInputRef.current?.click()}
+                        className={`w-full rounded-2xl border-2 border-dashed p-10 flex flex-col items-center gap-3 cursor-pointer transition-all ${dragging ? 'border-blue-500 bg-blue-500/5' : 'border-white/10 hover:border-white/20 bg-[#0f0f11]'}`}
+                    >
+                        <Upload size={28} className="text-blue-500" />
+                        <p className="text-sm text-slate-300 font-semibold">Arraste imagens ou documentos, ou clique para selecionar</p>
+                        <p className="text-[10px] text-slate-500 uppercase tracking-widest">Imagens, PDF, DOCX ou TXT · até {MAX_ITEMS} itens</p>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            multiple
+                            accept="image/*,.pdf,.docx,.txt"
+                            className="hidden"
+                            onChange={(e) => { addFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }}
+                        />
+                    </div>
+
+                    <div className="w-full bg-[#0f0f11] rounded-2xl border border-white/5 p-4 space-y-3">
+                        <textarea
+                            value={snippets}
+                            onChange={(e) => setSnippets(e.target.value)}
+                            placeholder={'Cole um ou mais textos, separados por uma linha com ---'}
+                            className="w-full h-32 bg-transparent text-sm text-white placeholder-slate-600 resize-none outline-none"
+                        />
+                        <div className="flex justify-end">
+                            <button
+                                onClick={addSnippets}
+                                disabled={!snippets.trim()}
+                                className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[10px] font-black text-slate-400 hover:text-white disabled:opacity-30 uppercase tracking-widest transition-all"
+                            >
+                                Adicionar textos
+                            </button>
+                        </div>
+                    </div>
+
+                    {errors.length > 0 && (
+                        <div className="w-full space-y-1">
+                            {errors.map((error, i) => <p key={i} className="text-[10px] text-rose-400">{error}</p>)}
+                        </div>
+                    )}
+
+                    {(drafts.length > 0 || reading > 0) && (
+                        <div className="w-full glass-panel rounded-2xl border border-white/5 divide-y divide-white/5">
+                            {drafts.map((draft, i) => (
+                                <div key={i} className="flex items-center gap-3 px-4 py-2.5">
+                                    {draftIcon(draft)}
+                                    <span className="flex-1 truncate text-xs text-slate-300" title={draft.label}>{draft.label}</span>
+                                    <button onClick={() => setDrafts((prev) => prev.filter((_, j) => j !== i))} className="text-slate-500 hover:text-white transition-colors">
+                                        <X size={14} />
+                                    </button>
+                                </div>
+                            ))}
+                            {reading > 0 && (
+                                <div className="flex items-center gap-3 px-4 py-2.5 text-xs text-slate-400">
+                                    <Loader2 size={14} className="animate-spin text-blue-500" />
+                                    Preparando {reading} arquivo(s)...
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <button
+                        onClick={handleRun}
+                        disabled={drafts.length === 0 || reading > 0}
+                        className="px-8 py-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-30 disabled:cursor-not-allowed rounded-xl text-white text-xs font-black uppercase tracking-widest shadow-lg shadow-blue-500/20 transition-all"
+                    >
+                        Analisar {drafts.length} {drafts.length === 1 ? 'item' : 'itens'}
+                    </button>
+                </main>
+            )}
+        </div>
+    );
+}
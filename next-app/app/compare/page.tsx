@@ -0,0 +1,143 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { InputArea } from '@/components/InputArea';
+import { ProcessingStatus } from '@/components/ProcessingStatus';
+import { ReportDashboard } from '@ui/ReportDashboard';
+import { ComparisonSummary } from '@/components/ComparisonSummary';
+import { useSettings } from '@/context/SettingsContext';
+import { responseError } from '@/lib/api-error';
+import { AgentDefinition, BattleSide, ComparisonResult, ExtractedDocument, PersonaProfile } from '@/types';
+
+interface SideInput {
+    text: string;
+    image?: string;
+    fileName: string | null;
+    document?: ExtractedDocument;
+}
+
+const EMPTY_SIDE: SideInput = { text: '', image: undefined, fileName: null, document: undefined };
+
+const compareWithAPI = async (a: SideInput, b: SideInput, agents: AgentDefinition[], personas: PersonaProfile[]): Promise<ComparisonResult> => {
+    const toPayload = (side: SideInput) => ({
+        text: side.text || undefined,
+        image: side.image,
+        document: side.document,
+    });
+
+    const response = await fetch('/api/compare', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ a: toPayload(a), b: toPayload(b), agents, personas }),
+    });
+
+    if (!response.ok) {
+        throw await responseError(response, 'Falha na comparação');
+    }
+
+    return response.json();
+};
+
+const isFilled = (side: SideInput) => !!(side.text || side.image || side.document);
+
+export default function ComparePage() {
+    const router = useRouter();
+    const { agents, personas } = useSettings();
+    const [sides, setSides] = useState<Record<BattleSide, SideInput>>({ A: EMPTY_SIDE, B: EMPTY_SIDE });
+    const [comparison, setComparison] = useState<ComparisonResult | null>(null);
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+    const updateSide = (side: BattleSide, patch: Partial<SideInput>) =>
+        setSides((prev) => ({ ...prev, [side]: { ...prev[side], ...patch } }));
+
+    const handleCompare = async () => {
+        if (isAnalyzing || !isFilled(sides.A) || !isFilled(sides.B)) return;
+
+        setIsAnalyzing(true);
+        setComparison(null);
+
+        try {
+            const result = await compareWithAPI(sides.A, sides.B, agents, personas);
+            setComparison(result);
+        } catch (e) {
+            console.error('❌ Erro na comparação:', e);
+            alert(`Erro na comparação: ${e instanceof Error ? e.message : "Erro desconhecido"}`);
+        } finally {
+            setIsAnalyzing(false);
+        }
+    };
+
+    if (isAnalyzing) {
+        return <ProcessingStatus />;
+    }
+
+    return (
+        <div className="flex flex-col min-h-screen bg-[#0a0a0c]">
+            <header className="h-16 flex items-center justify-between px-6 md:px-8 border-b border-white/5 bg-[#0a0a0c]/60 backdrop-blur-xl sticky top-0 z-40">
+                <div className="flex items-center gap-3 text-white font-semibold cursor-pointer" onClick={() => comparison ? setComparison(null) : router.push('/')}>
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
+                    <span className="text-sm md:text-base font-['DM_Sans']">{comparison ? 'Nova Batalha' : 'Voltar'}</span>
+                </div>
+                <span className="text-[10px] text-slate-500 tracking-widest uppercase font-['DM_Sans']">Battle Mode A/B</span>
+            </header>
+
+            {!comparison ? (
+                <main className="flex-1 flex flex-col items-center justify-center px-4 md:px-6 max-w-6xl mx-auto py-8 w-full">
+                    <h2 className="text-2xl md:text-4xl font-black text-white mb-8 text-center font-['DM_Sans'] tracking-tight">Batalha de Criativos</h2>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 w-full">
+                        {(['A', 'B'] as BattleSide[]).map((side) => (
+                            <div key={side} className="space-y-3">
+                                <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-widest flex items-center gap-3">
+                                    <span className="w-6 md:w-8 h-[2px] bg-blue-500"></span>Variante {side}
+                                </h3>
+                                <InputArea
+                                    inputText={sides[side].text}
+                                    setInputText={(text) => updateSide(side, { text })}
+                                    selectedImage={sides[side].image}
+                                    setSelectedImage={(image) => updateSide(side, { image })}
+                                    fileName={sides[side].fileName}
+                                    setFileName={(fileName) => updateSide(side, { fileName })}
+                                    document={sides[side].document}
+                                    setDocument={(document) => updateSide(side, { document })}
+                                    isAnalyzing={isAnalyzing}
+                                    onAnalyze={handleCompare}
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    <button
+                        onClick={handleCompare}
+                        disabled={!isFilled(sides.A) || !isFilled(sides.B)}
+                        className="mt-8 px-8 py-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-30 disabled:cursor-not-allowed rounded-xl text-white text-xs font-black uppercase tracking-widest shadow-lg shadow-blue-500/20 transition-all"
+                    >
+                        Comparar Variantes
+                    </button>
+                </main>
+            ) : (
+                <main className="flex-1 p-4 md:p-10 max-w-[1600px] mx-auto w-full animate-in fade-in duration-700 space-y-10">
+                    <ComparisonSummary comparison={comparison} />
+
+                    <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+                        {(['A', 'B'] as BattleSide[]).map((side) => {
+                            const result = side === 'A' ? comparison.result_a : comparison.result_b;
+                            return (
+                                <div key={side} className={`rounded-3xl p-4 md:p-6 border ${comparison.winner === side ? 'border-emerald-500/30 bg-emerald-500/[0.02]' : 'border-white/5'}`}>
+                                    <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-widest flex items-center gap-3 mb-6">
+                                        <span className="w-6 md:w-8 h-[2px] bg-blue-500"></span>Variante {side}
+                                        {comparison.winner === side && <span className="text-emerald-400">· Vencedora</span>}
+                                    </h3>
+                                    <ReportDashboard result={result} sourceImage={result.sourceImage} sourceText={result.sourceText} sourceDocument={result.sourceDocument} />
+                                </div>
+                            );
+                        })}
+                    </div>
+                </main>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ImageIcon, FileText, Trash2, Search } from 'lucide-react';
+import { FloatingMenu } from '@/components/FloatingMenu';
+import { useAnalysis } from '@/context/AnalysisContext';
+
+const PAGE_SIZE = 20;
+
+const getScoreColor = (score: number) => {
+    if (score >= 80) return 'text-emerald-400';
+    if (score >= 60) return 'text-amber-400';
+    return 'text-rose-500';
+};
+
+export default function HistoryPage() {
+    const router = useRouter();
+    const { history, historyTotal, loadHistory, removeFromHistory } = useAnalysis();
+    const [query, setQuery] = useState('');
+    const [page, setPage] = useState(1);
+    const [error, setError] = useState<string | null>(null);
+
+    // Debounced so typing in the search box doesn't fire a request per key
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            loadHistory({ page, limit: PAGE_SIZE, q: query.trim() || undefined })
+                .then(() => setError(null))
+                .catch((e) => setError(e.message));
+        }, 250);
+        return () => clearTimeout(timer);
+    }, [page, query, loadHistory]);
+
+    const totalPages = Math.max(1, Math.ceil(historyTotal / PAGE_SIZE));
+
+    return (
+        <div className="flex flex-col min-h-screen bg-[#0a0a0c]">
+            <header className="h-16 flex items-center justify-between px-6 md:px-8 border-b border-white/5 bg-[#0a0a0c]/60 backdrop-blur-xl sticky top-0 z-40">
+                <div className="flex items-center gap-3 text-white font-semibold cursor-pointer" onClick={() => router.push('/')}>
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
+                    <span className="text-sm md:text-base font-['DM_Sans']">Voltar</span>
+                </div>
+                <span className="text-[10px] text-slate-500 tracking-widest uppercase font-['DM_Sans']">Histórico</span>
+            </header>
+
+            <main className="flex-1 p-4 md:p-10 max-w-4xl mx-auto w-full pb-32 space-y-8 animate-in fade-in duration-700">
+                <div className="space-y-2">
+                    <h2 className="text-2xl md:text-4xl font-black text-white font-['DM_Sans'] tracking-tight">Auditorias Salvas</h2>
+                    <p className="text-slate-400 text-xs md:text-sm">{historyTotal} análise(s) armazenada(s) no servidor.</p>
+                </div>
+
+                <div className="flex items-center gap-3 bg-white/5 border border-white/10 rounded-xl px-4 py-3">
+                    <Search size={16} className="text-slate-500" />
+                    <input
+                        className="flex-1 bg-transparent text-sm text-slate-100 outline-none placeholder:text-slate-600"
+                        placeholder="Buscar por texto, veredito ou dica..."
+                        value={query}
+                        onChange={(e) => { setQuery(e.target.value); setPage(1); }}
+                    />
+                </div>
+
+                {error && <p className="text-rose-400 text-xs">{error}</p>}
+
+                <div className="space-y-3">
+                    {history.length === 0 ? (
+                        <p className="text-center text-slate-600 italic text-xs py-12">Nenhuma análise encontrada.</p>
+                    ) : history.map((entry) => (
+                        <div key={entry.analysis_id} className="glass-panel p-4 rounded-xl border-white/5 flex items-center gap-4 hover:border-blue-500/30 transition-all">
+                            <button onClick={() => router.push(`/report/${entry.analysis_id}`)} className="flex-1 flex items-center gap-4 text-left min-w-0">
+                                <div className="w-9 h-9 rounded-lg bg-white/5 flex items-center justify-center text-slate-400 flex-shrink-0">
+                                    {entry.hasImage ? <ImageIcon size={18} /> : <FileText size={18} />}
+                                </div>
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-sm text-slate-200 truncate">{entry.sourceText || 'Criativo sem texto'}</p>
+                                    <p className="text-[10px] text-slate-500 uppercase tracking-widest">
+                                        {new Date(entry.timestamp).toLocaleString('pt-BR')}
+                                        {entry.version > 1 && <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-400 font-black">v{entry.version}</span>}
+                                    </p>
+                                </div>
+                                <span className={`text-lg font-black ${getScoreColor(entry.overall_score)}`}>{entry.overall_score}</span>
+                            </button>
+                            <button
+                                onClick={() => removeFromHistory(entry.analysis_id).catch((e) => setError(e.message))}
+                                className="p-2 text-slate-500 hover:text-rose-400 transition-colors"
+                                title="Remover"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                {totalPages > 1 && (
+                    <div className="flex items-center justify-center gap-4 text-xs text-slate-400">
+                        <button disabled={page === 1} onClick={() => setPage(page - 1)} className="px-3 py-1.5 rounded-lg bg-white/5 disabled:opacity-30">Anterior</button>
+                        <span>{page} / {totalPages}</span>
+                        <button disabled={page >= totalPages} onClick={() => setPage(page + 1)} className="px-3 py-1.5 rounded-lg bg-white/5 disabled:opacity-30">Próxima</button>
+                    </div>
+                )}
+            </main>
+            <FloatingMenu />
+        </div>
+    );
+}
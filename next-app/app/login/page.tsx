@@ -0,0 +1,23 @@
+import { credentialsEnabled } from '@/lib/auth';
+import { LoginForm } from '@/components/LoginForm';
+
+interface LoginPageProps {
+    searchParams: Promise<{ next?: string | string[]; error?: string | string[] }>;
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+    const { next, error } = await searchParams;
+    const target = typeof next === 'string' && /^\/(?!\/)/.test(next) ? next : '/';
+
+    return (
+        <div className="flex flex-col items-center justify-center min-h-screen bg-[#0a0a0c] p-6">
+            <div className="w-full max-w-sm space-y-8">
+                <div className="text-center space-y-2">
+                    <h1 className="text-2xl md:text-3xl font-black text-white font-['DM_Sans'] tracking-tight">Aceleraí Impact</h1>
+                    <p className="text-slate-400 text-sm">Entre para ver as auditorias do seu workspace.</p>
+                </div>
+                <LoginForm next={target} expired={error === 'expired'} credentials={credentialsEnabled()} />
+            </div>
+        </div>
+    );
+}
@@ -1,38 +1,34 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { InputArea } from '@/components/InputArea';
 import { ProcessingStatus } from '@/components/ProcessingStatus';
 import { FloatingMenu } from '@/components/FloatingMenu';
+import { UserMenu } from '@/components/UserMenu';
 import { useAnalysis } from '@/context/AnalysisContext';
-import { AnalysisResult } from '@/types';
-
-// Real API call
-const analyzeWithAPI = async (text: string, image?: string): Promise<AnalysisResult> => {
-  const response = await fetch('/api/analyze', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ text, image }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.error || 'Falha na análise');
-  }
+import { useSettings } from '@/context/SettingsContext';
+import { pendingJob, submitJob, waitForJob } from '@/lib/analysis-jobs';
+import { AnalysisProgressEvent, AnalysisResult, ExtractedDocument } from '@/types';
 
-  return response.json();
-};
+// Rounds of debate when the jury is asked to deliberate
+const DELIBERATION_ROUNDS = 2;
 
 export default function Home() {
   const router = useRouter();
-  const { setAnalysisResult, addToHistory } = useAnalysis();
+  const { setAnalysisResult } = useAnalysis();
+  const { agents, personas } = useSettings();
   const [inputText, setInputText] = useState('');
   const [selectedImage, setSelectedImage] = useState<string | undefined>();
   const [fileName, setFileName] = useState<string | null>(null);
+  const [document, setDocument] = useState<ExtractedDocument | undefined>();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [deliberate, setDeliberate] = useState(false);
+  const [campaign, setCampaign] = useState('');
+  const [progress, setProgress] = useState<AnalysisProgressEvent[]>([]);
+  // The analysis this one revises, when opened from "Nova versão"
+  const [parent, setParent] = useState<{ analysis_id: string; version: number } | null>(null);
+  const followedJob = useRef<string | null>(null);
 
   const suggestionPills = [
     "Faça a medição de impacto desse criativo",
@@ -41,50 +37,79 @@ export default function Home() {
     "Avalie a clareza deste documento de vendas"
   ];
 
+  // Polls the job until it ends; the worker has already saved the result to the history
+  const followJob = useCallback(async (jobId: string) => {
+    if (followedJob.current === jobId) return;
+    followedJob.current = jobId;
+    setIsAnalyzing(true);
+    try {
+      const job = await waitForJob(jobId, (update) => setProgress(update.events));
+      pendingJob.clear();
+      setAnalysisResult(job.result ?? null);
+      router.push(job.result ? `/report/${job.analysis_id}` : '/history');
+    } catch (e) {
+      pendingJob.clear();
+      console.error('❌ Erro na análise:', e);
+      alert(`Erro na análise: ${e instanceof Error ? e.message : "Erro desconhecido"}`);
+    } finally {
+      // SEMPRE reseta o loading state, sem condições
+      followedJob.current = null;
+      setIsAnalyzing(false);
+    }
+  }, [router, setAnalysisResult]);
+
+  // An analysis still running when the tab was reloaded is picked up again
+  useEffect(() => {
+    const jobId = pendingJob.get();
+    if (jobId) followJob(jobId);
+  }, [followJob]);
+
+  // "Nova versão" opens /?parent=<id>: start from that analysis's input, to be adjusted for the next round
+  useEffect(() => {
+    const parentId = new URLSearchParams(window.location.search).get('parent');
+    if (!parentId) return;
+
+    fetch(`/api/history/${encodeURIComponent(parentId)}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result: AnalysisResult | null) => {
+        if (!result) return;
+        setParent({ analysis_id: result.analysis_id, version: result.version ?? 1 });
+        setInputText(result.sourceText && result.sourceText !== 'N/A' && result.sourceText !== result.sourceDocument?.fileName ? result.sourceText : '');
+        setSelectedImage(result.sourceImage);
+        setDocument(result.sourceDocument);
+        setFileName(result.sourceDocument?.fileName ?? null);
+        setCampaign(result.campaign ?? '');
+      })
+      .catch((e) => console.error('Error loading the previous version', e));
+  }, []);
+
+  const cancelRevision = () => {
+    setParent(null);
+    router.replace('/');
+  };
+
   const handleAnalyze = async () => {
-    if (isAnalyzing || (!inputText && !selectedImage && !fileName)) return;
+    if (isAnalyzing || (!inputText && !selectedImage && !document)) return;
 
     setIsAnalyzing(true);
     setAnalysisResult(null);
+    setProgress([]);
 
     try {
-      const textToAnalyze = inputText || (fileName ? `Arquivo: ${fileName}` : undefined);
-      if (!textToAnalyze && !selectedImage) {
-        setIsAnalyzing(false); // Reset antes de retornar
-        return;
-      }
-
-      console.log('🚀 Iniciando análise...', { hasText: !!textToAnalyze, hasImage: !!selectedImage });
-
-      const result = await analyzeWithAPI(textToAnalyze || '', selectedImage);
-
-      console.log('✅ Análise concluída:', result);
-
-      const resultWithMetadata: AnalysisResult = {
-        ...result,
-        timestamp: Date.now(),
-        sourceText: textToAnalyze || "N/A",
-        sourceImage: selectedImage
-      };
-
-      setAnalysisResult(resultWithMetadata);
-      addToHistory(resultWithMetadata);
-      router.push('/report');
-
-    } catch (e: any) {
+      const job = await submitJob({ text: inputText || undefined, image: selectedImage, document, agents, personas, deliberation: deliberate ? DELIBERATION_ROUNDS : undefined, parent_id: parent?.analysis_id, campaign: campaign.trim() || undefined });
+      pendingJob.set(job.job_id);
+      await followJob(job.job_id);
+    } catch (e) {
       console.error('❌ Erro na análise:', e);
-      alert(`Erro na análise: ${e.message || "Erro desconhecido"}`);
-    } finally {
-      // SEMPRE reseta o loading state, sem condições
+      alert(`Erro na análise: ${e instanceof Error ? e.message : "Erro desconhecido"}`);
       setIsAnalyzing(false);
-      console.log('🏁 handleAnalyze finalizado');
     }
   };
 
   const insertSuggestion = (text: string) => setInputText(text);
 
   if (isAnalyzing) {
-    return <ProcessingStatus />;
+    return <ProcessingStatus events={progress} />;
   }
 
   return (
@@ -94,12 +119,23 @@ export default function Home() {
           <span className="text-sm md:text-base font-['DM_Sans']">Aceleraí Impact</span>
           <span className="text-[10px] text-slate-500 tracking-widest uppercase font-['DM_Sans']">Simulator</span>
         </div>
-        <div className="w-8 h-8 rounded-full bg-blue-600 border border-white/10 shadow-lg shadow-blue-500/20"></div>
+        <div className="flex items-center gap-4">
+          <button onClick={() => router.push('/compare')} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[10px] font-black text-slate-400 hover:text-white uppercase tracking-widest transition-all">Batalha A/B</button>
+          <button onClick={() => router.push('/batch')} className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[10px] font-black text-slate-400 hover:text-white uppercase tracking-widest transition-all">Lote</button>
+          <UserMenu />
+        </div>
       </header>
 
       <main className="flex-1 flex flex-col items-center justify-center px-4 md:px-6 max-w-4xl mx-auto py-8 w-full">
         <h2 className="text-2xl md:text-4xl font-black text-white mb-8 text-center font-['DM_Sans'] tracking-tight">Auditoria de Ativos</h2>
 
+        {parent && (
+          <div className="flex items-center gap-4 mb-4 px-4 py-2 rounded-lg bg-blue-500/10 border border-blue-500/20 text-[11px] text-blue-300" data-testid="revision-banner">
+            <span>Nova versão da análise v{parent.version}: ajuste o texto ou troque a imagem e analise de novo.</span>
+            <button onClick={cancelRevision} className="text-[10px] font-black text-slate-400 hover:text-white uppercase tracking-widest transition-colors">Cancelar</button>
+          </div>
+        )}
+
         <InputArea
           inputText={inputText}
           setInputText={setInputText}
@@ -107,10 +143,25 @@ export default function Home() {
           setSelectedImage={setSelectedImage}
           fileName={fileName}
           setFileName={setFileName}
+          document={document}
+          setDocument={setDocument}
           isAnalyzing={isAnalyzing}
           onAnalyze={handleAnalyze}
         />
 
+        <label className="flex items-center gap-2 mt-4 text-[11px] text-slate-400 cursor-pointer select-none" title="Os agentes leem as objeções uns dos outros e podem rebater ou revisar seus scores. Leva mais tempo.">
+          <input type="checkbox" checked={deliberate} onChange={(e) => setDeliberate(e.target.checked)} className="accent-purple-500" />
+          Deliberação do júri ({DELIBERATION_ROUNDS} rodadas de debate)
+        </label>
+
+        <input
+          value={campaign}
+          onChange={(e) => setCampaign(e.target.value)}
+          maxLength={80}
+          placeholder="Campanha (opcional)"
+          className="mt-3 w-64 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-[11px] text-slate-100 outline-none focus:border-blue-500/50 placeholder:text-slate-600 text-center"
+        />
+
         <div className="flex flex-wrap justify-center gap-2 mt-6">
           {suggestionPills.map((tip, idx) => (
             <button key={idx} onClick={() => insertSuggestion(tip)} className="px-4 py-2 bg-[#0f0f11]/60 border border-white/5 rounded-full text-[10px] font-semibold text-slate-400 hover:text-white hover:bg-white/5 transition-all font-['Poppins']">{tip}</button>
@@ -2,11 +2,17 @@
 
 import React from 'react';
 import { AnalysisProvider } from '@/context/AnalysisContext';
+import { SessionProvider } from '@/context/SessionContext';
+import { SettingsProvider } from '@/context/SettingsContext';
 
 export function Providers({ children }: { children: React.ReactNode }) {
     return (
-        <AnalysisProvider>
-            {children}
-        </AnalysisProvider>
+        <SessionProvider>
+            <SettingsProvider>
+                <AnalysisProvider>
+                    {children}
+                </AnalysisProvider>
+            </SettingsProvider>
+        </SessionProvider>
     );
 }
@@ -0,0 +1,23 @@
+import { cookies } from 'next/headers';
+import { notFound, redirect } from 'next/navigation';
+import { SESSION_COOKIE, resolveSession } from '@/lib/auth';
+import { getHistoryRepository } from '@/lib/history';
+import { lineageEvolution } from '@/lib/lineage';
+import { LineageView } from '@/components/LineageView';
+
+interface LineagePageProps {
+    params: Promise<{ analysis_id: string }>;
+}
+
+// Every version of the asset the analysis belongs to; workspace members only, share links do not reach it
+export default async function LineagePage({ params }: LineagePageProps) {
+    const { analysis_id } = await params;
+
+    const session = resolveSession((await cookies()).get(SESSION_COOKIE)?.value);
+    if (!session) redirect(`/login?next=${encodeURIComponent(`/report/${analysis_id}/lineage`)}`);
+
+    const versions = getHistoryRepository().lineage(session.workspace.id, analysis_id);
+    if (!versions) notFound();
+
+    return <LineageView evolution={lineageEvolution(versions)} versions={versions} analysisId={analysis_id} />;
+}
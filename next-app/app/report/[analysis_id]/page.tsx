@@ -0,0 +1,68 @@
+import { cookies } from 'next/headers';
+import { notFound, redirect } from 'next/navigation';
+import { inputOf } from '@/lib/analyze';
+import { SESSION_COOKIE, resolveSession } from '@/lib/auth';
+import { getHistoryRepository, isShareActive } from '@/lib/history';
+import { hasRole } from '@/lib/workspaces';
+import { OptimizePanel } from '@/components/OptimizePanel';
+import { ReportChat } from '@/components/ReportChat';
+import { ReportView } from '@/components/ReportView';
+import { ShareReportButton } from '@/components/ShareReportButton';
+import { VersionLinks } from '@/components/VersionLinks';
+
+interface ReportPermalinkProps {
+    params: Promise<{ analysis_id: string }>;
+    searchParams: Promise<{ share?: string | string[] }>;
+}
+
+// Loaded on the server so the link survives refreshes and can be opened by anyone holding a share token
+export default async function ReportPermalinkPage({ params, searchParams }: ReportPermalinkProps) {
+    const { analysis_id } = await params;
+    const { share } = await searchParams;
+    const token = typeof share === 'string' ? share : undefined;
+    const repository = getHistoryRepository();
+
+    if (token) {
+        const shareToken = repository.getShare(token);
+        if (!shareToken || shareToken.analysis_id !== analysis_id) notFound();
+        if (!isShareActive(shareToken)) return <ShareExpired />;
+
+        const shared = repository.get(analysis_id);
+        if (!shared) notFound();
+        return <ReportView result={shared} readOnly shareToken={token} />;
+    }
+
+    // Without a share token, only members of the analysis workspace can open it
+    const session = resolveSession((await cookies()).get(SESSION_COOKIE)?.value);
+    if (!session) redirect(`/login?next=${encodeURIComponent(`/report/${analysis_id}`)}`);
+
+    const result = repository.get(analysis_id, session.workspace.id);
+    if (!result) notFound();
+
+    const isEditor = hasRole(session.workspace.role, 'editor');
+    const thread = repository.messages(session.workspace.id, analysis_id) ?? [];
+    const versions = repository.lineage(session.workspace.id, analysis_id)?.length ?? 1;
+    const { text } = inputOf(result);
+    return (
+        <ReportView
+            result={result}
+            actions={
+                <>
+                    <VersionLinks analysisId={analysis_id} version={result.version ?? 1} versions={versions} canRevise={isEditor} />
+                    {isEditor && <ShareReportButton analysisId={analysis_id} />}
+                </>
+            }
+            optimize={isEditor && text ? <OptimizePanel result={result} sourceText={text} /> : undefined}
+            chat={<ReportChat result={result} initialMessages={thread} canAsk={isEditor} />}
+        />
+    );
+}
+
+function ShareExpired() {
+    return (
+        <div className="flex flex-col items-center justify-center min-h-screen bg-[#0a0a0c] gap-3 p-6 text-center">
+            <h2 className="text-2xl font-black text-white font-['DM_Sans']">Link expirado</h2>
+            <p className="text-slate-400 text-sm">Peça a quem compartilhou este relatório um novo link.</p>
+        </div>
+    );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { FloatingMenu } from '@/components/FloatingMenu';
+import { AgentPanelSettings } from '@/components/AgentPanelSettings';
+import { PersonaSettings } from '@/components/PersonaSettings';
+import { WorkspaceSettings } from '@/components/WorkspaceSettings';
+import { ApiKeySettings } from '@/components/ApiKeySettings';
+import { WebhookSettings } from '@/components/WebhookSettings';
+import { useSession } from '@/context/SessionContext';
+
+export default function SettingsPage() {
+    const router = useRouter();
+    const { session, can } = useSession();
+
+    return (
+        <div className="flex flex-col min-h-screen bg-[#0a0a0c]">
+            <header className="h-16 flex items-center justify-between px-6 md:px-8 border-b border-white/5 bg-[#0a0a0c]/60 backdrop-blur-xl sticky top-0 z-40">
+                <div className="flex items-center gap-3 text-white font-semibold cursor-pointer" onClick={() => router.push('/')}>
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
+                    <span className="text-sm md:text-base font-['DM_Sans']">Voltar</span>
+                </div>
+                <span className="text-[10px] text-slate-500 tracking-widest uppercase font-['DM_Sans']">Configurações</span>
+            </header>
+
+            <main className="flex-1 p-4 md:p-10 max-w-4xl mx-auto w-full pb-32 space-y-12 animate-in fade-in duration-700">
+                <div className="space-y-2">
+                    <h2 className="text-2xl md:text-4xl font-black text-white font-['DM_Sans'] tracking-tight">Configurações</h2>
+                    <p className="text-slate-400 text-xs md:text-sm">Defina quem compõe o júri sintético do workspace e para quais públicos o impacto é projetado.</p>
+                </div>
+
+                <WorkspaceSettings />
+
+                <ApiKeySettings />
+
+                <WebhookSettings />
+
+                {session && !can('editor') && (
+                    <p className="text-slate-400 text-xs">Leitores veem o júri e as personas do workspace, mas não podem alterá-los.</p>
+                )}
+
+                {/* Viewers see the shared jury and audience read-only */}
+                <fieldset disabled={!!session && !can('editor')} className="space-y-12 min-w-0">
+                    <AgentPanelSettings />
+
+                    <PersonaSettings />
+                </fieldset>
+            </main>
+            <FloatingMenu />
+        </div>
+    );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import React, { useState } from 'react';
+import { OBJECTION_TYPES } from '@core/analysis/agents';
+import { useSettings } from '@/context/SettingsContext';
+import { ObjectionType } from '@/types';
+
+const EMPTY_AGENT = { name: '', lens: '', objection_type: 'Trust' as ObjectionType, weight: 1, prompt: '' };
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-100 outline-none focus:border-blue-500/50 placeholder:text-slate-600";
+
+export const AgentPanelSettings: React.FC = () => {
+    const { agents, updateAgent, addAgent, removeAgent, resetAgents } = useSettings();
+    const [draft, setDraft] = useState(EMPTY_AGENT);
+
+    const activeCount = agents.filter((agent) => agent.enabled).length;
+
+    const handleAdd = () => {
+        if (!draft.name.trim()) return;
+        addAgent({ ...draft, name: draft.name.trim() });
+        setDraft(EMPTY_AGENT);
+    };
+
+    return (
+        <section className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h3 className="text-[10px] font-black text-purple-500 uppercase tracking-widest flex items-center gap-3">
+                    <span className="w-6 md:w-8 h-[2px] bg-purple-500"></span>Conselho de Agentes
+                    <span className="text-slate-500">{activeCount} ativo(s)</span>
+                </h3>
+                <button onClick={resetAgents} className="text-[10px] font-black text-slate-500 hover:text-white uppercase tracking-widest transition-colors">
+                    Restaurar padrão
+                </button>
+            </div>
+
+            <div className="grid gap-4">
+                {agents.map((agent) => (
+                    <div key={agent.id} className={`glass-panel p-5 rounded-xl border-white/5 transition-all ${agent.enabled ? '' : 'opacity-50'}`}>
+                        <div className="flex flex-col md:flex-row md:items-start gap-4">
+                            <div className="flex-1 space-y-1">
+                                <div className="flex items-center gap-3">
+                                    <h4 className="text-base font-black text-white">{agent.name}</h4>
+                                    <span className="text-[9px] text-blue-500/70 uppercase font-black tracking-widest">{agent.objection_type}</span>
+                                </div>
+                                <p className="text-slate-400 text-xs">{agent.lens}</p>
+                                <p className="text-slate-500 text-xs italic">{agent.prompt}</p>
+                            </div>
+                            <div className="flex items-center gap-4 flex-shrink-0">
+                                <label className="flex items-center gap-2 text-[10px] text-slate-500 font-black uppercase tracking-widest">
+                                    Peso
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={10}
+                                        step={0.5}
+                                        value={agent.weight}
+                                        onChange={(e) => updateAgent(agent.id, { weight: Math.min(10, Math.max(0, Number(e.target.value) || 0)) })}
+                                        className="w-16 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white tabular-nums outline-none"
+                                    />
+                                </label>
+                                <button
+                                    onClick={() => updateAgent(agent.id, { enabled: !agent.enabled })}
+                                    disabled={agent.enabled && activeCount === 1}
+                                    className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all disabled:opacity-30 disabled:cursor-not-allowed ${agent.enabled ? 'bg-blue-600/20 border-blue-500/30 text-blue-300' : 'bg-white/5 border-white/10 text-slate-400'}`}
+                                >
+                                    {agent.enabled ? 'Ativo' : 'Inativo'}
+                                </button>
+                                {!agent.builtin && (
+                                    <button onClick={() => removeAgent(agent.id)} className="text-[10px] font-black text-rose-400 hover:text-rose-300 uppercase tracking-widest transition-colors">
+                                        Remover
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="glass-panel p-6 rounded-2xl border-white/5 bg-[#0f0f11] space-y-4">
+                <h4 className="text-[10px] font-black text-blue-500 uppercase tracking-widest">Novo Agente</h4>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <input className={inputClass} placeholder="Nome (ex: Dr. Ricardo)" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                    <input className={inputClass} placeholder="Ótica (ex: Auditor do Banco Central)" value={draft.lens} onChange={(e) => setDraft({ ...draft, lens: e.target.value })} />
+                    <div className="flex gap-3">
+                        <select className={inputClass} value={draft.objection_type} onChange={(e) => setDraft({ ...draft, objection_type: e.target.value as ObjectionType })}>
+                            {OBJECTION_TYPES.map((type) => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                        <input type="number" min={0} max={10} step={0.5} className={`${inputClass} w-20`} value={draft.weight} onChange={(e) => setDraft({ ...draft, weight: Number(e.target.value) || 0 })} />
+                    </div>
+                </div>
+                <textarea
+                    className={`${inputClass} min-h-[70px] resize-none`}
+                    placeholder="Critérios de avaliação deste agente..."
+                    value={draft.prompt}
+                    onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                />
+                <button
+                    onClick={handleAdd}
+                    disabled={!draft.name.trim()}
+                    className="px-5 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-30 disabled:cursor-not-allowed rounded-lg text-white text-[10px] font-black uppercase tracking-widest transition-all"
+                >
+                    Adicionar ao Conselho
+                </button>
+            </div>
+        </section>
+    );
+};
@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useSession } from '@/context/SessionContext';
+import { ApiKey, CreatedApiKey } from '@/types';
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-100 outline-none focus:border-blue-500/50 placeholder:text-slate-600";
+
+const KEYS_PATH = '/api/workspaces/current/api-keys';
+
+const request = async (path: string, method: string, body?: unknown) => {
+    const response = await fetch(path, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Falha na operação (${response.status})`);
+    }
+    return response.status === 204 ? null : response.json();
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString('pt-BR');
+
+// Keys for the /api/v1 API; only owners of the workspace see this section
+export const ApiKeySettings: React.FC = () => {
+    const { session, can } = useSession();
+    const [keys, setKeys] = useState<ApiKey[]>([]);
+    const [name, setName] = useState('');
+    // The only time the key itself is available
+    const [created, setCreated] = useState<CreatedApiKey | null>(null);
+
+    const isOwner = can('owner');
+
+    useEffect(() => {
+        if (!isOwner) return;
+        request(KEYS_PATH, 'GET')
+            .then(setKeys)
+            .catch((e) => console.error("Error loading API keys", e));
+    }, [isOwner]);
+
+    const run = async (action: () => Promise<unknown>) => {
+        try {
+            await action();
+            setKeys(await request(KEYS_PATH, 'GET'));
+        } catch (e) {
+            alert(e instanceof Error ? e.message : 'Erro desconhecido');
+        }
+    };
+
+    const handleCreate = () => {
+        if (!name.trim()) return;
+        run(async () => {
+            setCreated(await request(KEYS_PATH, 'POST', { name: name.trim() }));
+            setName('');
+        });
+    };
+
+    const handleRevoke = (key: ApiKey) => {
+        if (!window.confirm(`Revogar a chave ${key.name}? Integrações que a usam deixarão de funcionar.`)) return;
+        run(() => request(`${KEYS_PATH}/${encodeURIComponent(key.id)}`, 'DELETE'));
+    };
+
+    if (!session || !isOwner) return null;
+
+    return (
+        <section className="space-y-6">
+            <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-widest flex items-center gap-3">
+                <span className="w-6 md:w-8 h-[2px] bg-blue-500"></span>Chaves de API
+            </h3>
+
+            <div className="glass-panel p-5 rounded-xl border-white/5 space-y-5">
+                <p className="text-slate-400 text-xs">
+                    Chaves dão acesso à API <code className="text-slate-300">/api/v1</code> com permissões de editor neste workspace. A documentação está em <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="text-blue-400 hover:text-blue-300">/api/v1/openapi.json</a>.
+                </p>
+
+                {created && (
+                    <div className="p-4 rounded-lg border border-emerald-500/30 bg-emerald-500/5 space-y-2">
+                        <p className="text-[11px] text-emerald-300">Copie a chave agora; ela não será exibida novamente.</p>
+                        <div className="flex gap-3">
+                            <input readOnly value={created.key} onFocus={(e) => e.target.select()} className={`${inputClass} font-mono`} />
+                            <button onClick={() => navigator.clipboard.writeText(created.key)} className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-[10px] font-black text-slate-300 hover:text-white uppercase tracking-widest transition-all flex-shrink-0">
+                                Copiar
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {keys.length > 0 && (
+                    <ul className="divide-y divide-white/5">
+                        {keys.map((key) => (
+                            <li key={key.id} className="flex items-center justify-between gap-3 py-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm text-white font-semibold truncate">{key.name} <span className="text-slate-500 font-mono font-normal text-xs">{key.prefix}…</span></p>
+                                    <p className="text-[11px] text-slate-500 truncate">
+                                        Criada por {key.created_by || '—'} em {formatDate(key.created_at)} · {key.last_used_at ? `Usada em ${formatDate(key.last_used_at)}` : 'Nunca usada'}
+                                    </p>
+                                </div>
+                                <button onClick={() => handleRevoke(key)} className="text-[10px] font-black text-rose-400 hover:text-rose-300 uppercase tracking-widest transition-colors flex-shrink-0">
+                                    Revogar
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="flex flex-col md:flex-row gap-3 pt-4 border-t border-white/5">
+                    <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Nome da integração, ex.: Pipeline de mídia" className={inputClass} />
+                    <button onClick={handleCreate} disabled={!name.trim()} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-[10px] font-black text-white uppercase tracking-widest transition-all disabled:opacity-30 flex-shrink-0">
+                        Criar chave
+                    </button>
+                </div>
+            </div>
+        </section>
+    );
+};
@@ -0,0 +1,174 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowDown, ArrowUp, Download, Loader2 } from 'lucide-react';
+import { SENTIMENTS, getSentimentLabel } from '@core/analysis/sentiment';
+import { BatchRow } from '@/types';
+
+export type BatchItemStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed';
+
+export interface BatchItemState {
+    label: string;
+    status: BatchItemStatus;
+    row?: BatchRow;
+    error?: string;
+}
+
+type SortKey = 'index' | 'label' | 'overall_score' | 'sentiment' | `persona:${string}`;
+
+type ExportFormat = 'csv' | 'json';
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+    queued: 'Na fila',
+    running: 'Analisando',
+    retrying: 'Aguardando limite',
+    done: 'Concluído',
+    failed: 'Falhou',
+};
+
+const scoreClass = (score: number) => (score >= 80 ? 'text-emerald-400' : score >= 60 ? 'text-amber-400' : 'text-rose-400');
+
+const impactOf = (row: BatchRow | undefined, persona: string) =>
+    row?.persona_impact.find((p) => p.persona_name === persona)?.impact_score;
+
+// Unfinished items have no value and always sort last
+const sortValue = (item: BatchItemState, index: number, key: SortKey): number | string | undefined => {
+    if (key === 'index') return index;
+    if (key === 'label') return item.label.toLowerCase();
+    if (!item.row) return undefined;
+    if (key === 'overall_score') return item.row.overall_score;
+    // Most positive first when ascending
+    if (key === 'sentiment') return SENTIMENTS.indexOf(item.row.sentiment);
+    return impactOf(item.row, key.slice('persona:'.length));
+};
+
+/**
+ * Summary of a batch: one row per item with its status, score, sentiment
+ * and impact per persona. Columns sort on click, and the finished rows are
+ * exported as CSV or JSON in the order shown.
+ */
+export const BatchTable: React.FC<{ items: BatchItemState[]; canExport: boolean }> = ({ items, canExport }) => {
+    const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'index', desc: false });
+    const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+    const personas = useMemo(
+        () => [...new Set(items.flatMap((item) => item.row?.persona_impact.map((p) => p.persona_name) ?? []))],
+        [items]
+    );
+
+    const sorted = useMemo(() => {
+        const indexed = items.map((item, index) => ({ item, index }));
+        return indexed.sort((a, b) => {
+            const va = sortValue(a.item, a.index, sort.key);
+            const vb = sortValue(b.item, b.index, sort.key);
+            if (va === undefined || vb === undefined) return va === vb ? a.index - b.index : va === undefined ? 1 : -1;
+            const order = va < vb ? -1 : va > vb ? 1 : a.index - b.index;
+            return sort.desc ? -order : order;
+        });
+    }, [items, sort]);
+
+    const toggleSort = (key: SortKey) =>
+        setSort((prev) => ({ key, desc: prev.key === key ? !prev.desc : key !== 'index' && key !== 'label' }));
+
+    const download = async (format: ExportFormat) => {
+        setExporting(format);
+        try {
+            const rows = sorted.flatMap(({ item }) => (item.row ? [item.row] : []));
+            const response = await fetch(`/api/batch/export?format=${format}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ rows }),
+            });
+            if (!response.ok) throw new Error(`Falha ao exportar (${response.status})`);
+
+            const disposition = response.headers.get('Content-Disposition') || '';
+            const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `lote.${format}`;
+
+            const url = URL.createObjectURL(await response.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = fileName;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (e) {
+            alert(e instanceof Error ? e.message : 'Erro desconhecido');
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    const header = (key: SortKey, label: string, className = '') => (
+        <th className={`px-3 py-3 font-black ${className}`}>
+            <button onClick={() => toggleSort(key)} className="inline-flex items-center gap-1 uppercase tracking-widest hover:text-white transition-colors">
+                {label}
+                {sort.key === key && (sort.desc ? <ArrowDown size={10} /> : <ArrowUp size={10} />)}
+            </button>
+        </th>
+    );
+
+    return (
+        <div className="glass-panel rounded-2xl border border-white/5 overflow-hidden">
+            <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-white/5">
+                <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                    {items.filter((item) => item.status === 'done').length}/{items.length} concluídos
+                </span>
+                <div className="flex gap-2">
+                    {(['csv', 'json'] as ExportFormat[]).map((format) => (
+                        <button
+                            key={format}
+                            onClick={() => download(format)}
+                            disabled={!canExport || exporting !== null}
+                            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-slate-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed text-[10px] font-black uppercase tracking-widest transition-all"
+                        >
+                            {exporting === format ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
+                            {format}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-[11px]">
+                    <thead className="text-[9px] text-slate-500">
+                        <tr className="border-b border-white/5">
+                            {header('index', '#', 'w-10')}
+                            {header('label', 'Item')}
+                            <th className="px-3 py-3 font-black uppercase tracking-widest">Status</th>
+                            {header('overall_score', 'Score', 'text-right')}
+                            {header('sentiment', 'Sentimento')}
+                            {personas.map((persona) => (
+                                <React.Fragment key={persona}>{header(`persona:${persona}`, persona, 'text-right whitespace-nowrap')}</React.Fragment>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sorted.map(({ item, index }) => (
+                            <tr key={index} className="border-b border-white/5 last:border-0 hover:bg-white/[0.02]">
+                                <td className="px-3 py-2.5 text-slate-500 tabular-nums">{index + 1}</td>
+                                <td className="px-3 py-2.5 max-w-[260px] truncate text-slate-200" title={item.label}>
+                                    {item.row
+                                        ? <Link href={`/report/${item.row.analysis_id}`} className="hover:text-blue-400 transition-colors">{item.label}</Link>
+                                        : item.label}
+                                </td>
+                                <td className={`px-3 py-2.5 whitespace-nowrap ${item.status === 'failed' ? 'text-rose-400' : item.status === 'retrying' ? 'text-amber-400' : 'text-slate-400'}`} title={item.error ?? item.row?.warning}>
+                                    {(item.status === 'running' || item.status === 'retrying') && <Loader2 size={10} className="inline mr-1 animate-spin" />}
+                                    {STATUS_LABELS[item.status]}
+                                </td>
+                                <td className={`px-3 py-2.5 text-right font-black tabular-nums ${item.row ? scoreClass(item.row.overall_score) : 'text-slate-600'}`}>
+                                    {item.row?.overall_score ?? '—'}
+                                </td>
+                                <td className="px-3 py-2.5 text-slate-300 font-bold">{item.row ? getSentimentLabel(item.row.sentiment) : '—'}</td>
+                                {personas.map((persona) => (
+                                    <td key={persona} className="px-3 py-2.5 text-right tabular-nums text-slate-300">
+                                        {impactOf(item.row, persona) !== undefined ? `${impactOf(item.row, persona)}%` : '—'}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { ComparisonResult, ScoreDelta } from '@/types';
+
+interface ComparisonSummaryProps {
+    comparison: ComparisonResult;
+}
+
+const getDeltaColor = (delta: number) => {
+    if (delta > 0) return 'text-emerald-400';
+    if (delta < 0) return 'text-rose-500';
+    return 'text-slate-500';
+};
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+const DeltaTable: React.FC<{ title: string; deltas: ScoreDelta[] }> = ({ title, deltas }) => (
+    <div className="glass-panel p-6 rounded-2xl border-white/5 bg-[#0f0f11]">
+        <h4 className="text-[10px] font-black text-purple-500 uppercase tracking-widest mb-4">{title}</h4>
+        <div className="divide-y divide-white/5">
+            <div className="grid grid-cols-12 gap-2 pb-2 text-[9px] font-black text-slate-500 uppercase tracking-widest">
+                <span className="col-span-6">Nome</span>
+                <span className="col-span-2 text-right">A</span>
+                <span className="col-span-2 text-right">B</span>
+                <span className="col-span-2 text-right">A − B</span>
+            </div>
+            {deltas.map((d) => (
+                <div key={d.name} className="grid grid-cols-12 gap-2 py-2 text-xs">
+                    <span className="col-span-6 text-white font-bold truncate">{d.name}</span>
+                    <span className="col-span-2 text-right text-slate-300 tabular-nums">{d.score_a}</span>
+                    <span className="col-span-2 text-right text-slate-300 tabular-nums">{d.score_b}</span>
+                    <span className={`col-span-2 text-right font-black tabular-nums ${getDeltaColor(d.delta)}`}>{formatDelta(d.delta)}</span>
+                </div>
+            ))}
+        </div>
+    </div>
+);
+
+export const ComparisonSummary: React.FC<ComparisonSummaryProps> = ({ comparison }) => {
+    const { winner, overall_delta, result_a, result_b, reasons } = comparison;
+
+    return (
+        <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+            <div className="glass-panel p-6 md:p-8 rounded-2xl border-white/5 flex flex-col md:flex-row items-center gap-6 md:gap-10">
+                <div className="flex items-center gap-6 flex-shrink-0">
+                    <div className="text-center">
+                        <span className={`text-4xl font-black ${winner === 'A' ? 'text-emerald-400' : 'text-slate-400'}`}>{result_a.overall_score}</span>
+                        <p className="text-[9px] text-slate-500 font-black uppercase tracking-[0.2em] mt-1">Variante A</p>
+                    </div>
+                    <span className="text-slate-600 font-black text-xl">×</span>
+                    <div className="text-center">
+                        <span className={`text-4xl font-black ${winner === 'B' ? 'text-emerald-400' : 'text-slate-400'}`}>{result_b.overall_score}</span>
+                        <p className="text-[9px] text-slate-500 font-black uppercase tracking-[0.2em] mt-1">Variante B</p>
+                    </div>
+                </div>
+                <div className="flex-1 space-y-3 text-center md:text-left">
+                    <h2 className="text-xl md:text-3xl font-black text-white tracking-tight">
+                        {winner === 'tie' ? 'Empate Técnico' : `Variante ${winner} Vence`}
+                        <span className={`ml-3 text-base ${getDeltaColor(overall_delta)}`}>({formatDelta(overall_delta)})</span>
+                    </h2>
+                    <ul className="space-y-2">
+                        {reasons.map((reason, idx) => (
+                            <li key={idx} className="text-slate-400 text-xs md:text-sm leading-relaxed">{reason}</li>
+                        ))}
+                    </ul>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <DeltaTable title="Delta por Agente" deltas={comparison.agent_deltas} />
+                <DeltaTable title="Delta por Persona" deltas={comparison.persona_deltas} />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,79 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { AnalysisResult } from '@/types';
+
+type ExportFormat = 'pdf' | 'html';
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+    { format: 'pdf', label: 'PDF' },
+    { format: 'html', label: 'HTML' },
+];
+
+interface ExportReportButtonProps {
+    result: AnalysisResult;
+    // Share links export the stored analysis by token, without a session
+    shareToken?: string;
+}
+
+export const ExportReportButton: React.FC<ExportReportButtonProps> = ({ result, shareToken }) => {
+    const [open, setOpen] = useState(false);
+    const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+    const download = async (format: ExportFormat) => {
+        setExporting(format);
+        try {
+            const response = shareToken
+                ? await fetch(`/api/export?format=${format}&share=${encodeURIComponent(shareToken)}`, { method: 'POST' })
+                : await fetch(`/api/export?format=${format}`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(result),
+                });
+            if (!response.ok) throw new Error(`Falha ao exportar (${response.status})`);
+
+            // Keep the file name chosen by the server
+            const disposition = response.headers.get('Content-Disposition') || '';
+            const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `relatorio.${format}`;
+
+            const url = URL.createObjectURL(await response.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = fileName;
+            link.click();
+            URL.revokeObjectURL(url);
+            setOpen(false);
+        } catch (e) {
+            alert(e instanceof Error ? e.message : 'Erro desconhecido');
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(!open)}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-slate-300 hover:text-white text-[10px] font-black uppercase tracking-widest transition-all"
+            >
+                {exporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} Exportar
+            </button>
+
+            {open && (
+                <div className="absolute right-0 mt-2 w-40 glass-panel bg-[#0f0f11] border border-white/10 rounded-xl p-2 shadow-2xl z-50">
+                    {FORMATS.map(({ format, label }) => (
+                        <button
+                            key={format}
+                            onClick={() => download(format)}
+                            disabled={!!exporting}
+                            className="w-full text-left px-3 py-2 rounded-lg text-xs text-slate-300 hover:bg-white/5 hover:text-white disabled:opacity-40 transition-all"
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,7 +1,8 @@
 "use client";
 
 import React, { useRef, useState } from 'react';
-import imageCompression from 'browser-image-compression';
+import { ExtractedDocument } from '@/types';
+import { extractDocument, readImage } from '@/lib/uploads';
 
 interface InputAreaProps {
     inputText: string;
@@ -10,6 +11,8 @@ interface InputAreaProps {
     setSelectedImage: (image: string | undefined) => void;
     fileName: string | null;
     setFileName: (name: string | null) => void;
+    document: ExtractedDocument | undefined;
+    setDocument: (document: ExtractedDocument | undefined) => void;
     isAnalyzing: boolean;
     onAnalyze: () => void;
     isChat?: boolean;
@@ -22,45 +25,49 @@ export const InputArea: React.FC<InputAreaProps> = ({
     setSelectedImage,
     fileName,
     setFileName,
+    document,
+    setDocument,
     isAnalyzing,
     onAnalyze,
     isChat = false
 }) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [isCompressing, setIsCompressing] = useState(false);
+    const [isExtracting, setIsExtracting] = useState(false);
+    const [extractError, setExtractError] = useState<string | null>(null);
+
+    const extractFile = async (file: File) => {
+        setIsExtracting(true);
+        setExtractError(null);
+        try {
+            setDocument(await extractDocument(file));
+        } catch (error) {
+            setExtractError(error instanceof Error ? error.message : 'Erro desconhecido');
+            setFileName(null);
+        } finally {
+            setIsExtracting(false);
+        }
+    };
+
+    const clearFile = () => {
+        setFileName(null);
+        setDocument(undefined);
+    };
 
     const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
+        e.target.value = ''; // allow picking the same file again
         if (file) {
             setFileName(file.name);
+            setDocument(undefined);
+            setExtractError(null);
             if (file.type.startsWith('image/')) {
                 setIsCompressing(true);
-                try {
-                    const options = {
-                        maxSizeMB: 1,
-                        maxWidthOrHeight: 1920,
-                        useWebWorker: true,
-                        fileType: 'image/jpeg'
-                    };
-
-                    const compressedFile = await imageCompression(file, options);
-
-                    const reader = new FileReader();
-                    reader.onload = (event) => {
-                        setSelectedImage(event.target?.result as string);
-                        setIsCompressing(false);
-                    };
-                    reader.readAsDataURL(compressedFile);
-                } catch (error) {
-                    console.error("Compression failed:", error);
-                    // Fallback to original
-                    const reader = new FileReader();
-                    reader.onload = (event) => setSelectedImage(event.target?.result as string);
-                    reader.readAsDataURL(file);
-                    setIsCompressing(false);
-                }
+                setSelectedImage(await readImage(file));
+                setIsCompressing(false);
             } else {
                 setSelectedImage(undefined);
+                await extractFile(file);
             }
         }
     };
@@ -84,13 +91,27 @@ export const InputArea: React.FC<InputAreaProps> = ({
                             <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
                             <span className="text-xs text-slate-400">Otimizando imagem...</span>
                         </div>
+                    ) : isExtracting ? (
+                        <div className="mb-3 flex items-center gap-2 p-2 bg-white/5 rounded-lg border border-white/10 self-start">
+                            <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+                            <span className="text-xs text-slate-400">Extraindo texto do documento...</span>
+                        </div>
                     ) : null}
 
-                    {fileName && !selectedImage && !isCompressing && (
+                    {extractError && (
+                        <p className="mb-3 text-[10px] text-rose-400 self-start">{extractError}</p>
+                    )}
+
+                    {fileName && !selectedImage && !isCompressing && !isExtracting && (
                         <div className="mb-3 flex items-center gap-2 p-2 bg-white/5 rounded-lg border border-white/10 self-start">
                             <svg className="w-4 h-4 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
                             <span className="text-[9px] text-white font-bold truncate max-w-[120px]">{fileName}</span>
-                            <button onClick={() => setFileName(null)} className="text-slate-500 hover:text-white transition-colors"><svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20"><path d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" /></svg></button>
+                            {document && (
+                                <span className="text-[9px] text-slate-500">
+                                    {document.paged ? `${document.pageCount} pág.` : `${document.chunks.length} trecho(s)`}{document.truncated && ' · truncado'}
+                                </span>
+                            )}
+                            <button onClick={clearFile} className="text-slate-500 hover:text-white transition-colors"><svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20"><path d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" /></svg></button>
                         </div>
                     )}
                     <textarea
@@ -115,7 +136,7 @@ export const InputArea: React.FC<InputAreaProps> = ({
                     </button>
                     <button
                         onClick={onAnalyze}
-                        disabled={isAnalyzing || isCompressing || (!inputText && !selectedImage && !fileName)}
+                        disabled={isAnalyzing || isCompressing || isExtracting || (!inputText && !selectedImage && !document)}
                         className="w-9 h-9 md:w-11 md:h-11 bg-white/5 rounded-xl flex items-center justify-center hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
                     >
                         {isAnalyzing ? (
@@ -125,7 +146,7 @@ export const InputArea: React.FC<InputAreaProps> = ({
                         )}
                     </button>
                 </div>
-                <input type="file" ref={fileInputRef} className="hidden" onChange={handleFileUpload} accept="image/*,application/pdf,text/plain" />
+                <input type="file" ref={fileInputRef} className="hidden" onChange={handleFileUpload} accept="image/*,application/pdf,text/plain,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document" />
             </div>
         </div>
     );
@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { reviewText } from '@core/analysis/findings';
+import { ImageCompare } from '@ui/ImageCompare';
+import { AnalysisResult, LineageEvolution, ScoreSeries } from '@/types';
+import { TextDiff } from './TextDiff';
+
+interface LineageViewProps {
+    evolution: LineageEvolution;
+    // The same versions in full, for the text and image comparison
+    versions: AnalysisResult[];
+    // The report the lineage was opened from
+    analysisId: string;
+}
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+const deltaColor = (delta: number) => (delta > 0 ? 'text-emerald-400' : delta < 0 ? 'text-rose-400' : 'text-slate-500');
+
+// Typed text or extracted document; the file name standing in for a document is not text
+const sourceTextOf = (result: AnalysisResult) =>
+    reviewText({ text: result.sourceText !== 'N/A' ? result.sourceText : undefined, document: result.sourceDocument });
+
+// Change since the closest earlier version that has a score
+const deltaAt = (scores: (number | null)[], index: number) => {
+    const score = scores[index];
+    if (score === null) return null;
+    for (let i = index - 1; i >= 0; i--) {
+        const previous = scores[i];
+        if (previous !== null) return score - previous;
+    }
+    return null;
+};
+
+const ScoreRow: React.FC<{ series: ScoreSeries; strong?: boolean }> = ({ series, strong = false }) => (
+    <tr className="border-t border-white/5">
+        <td className={`py-2 pr-4 text-xs truncate max-w-[180px] ${strong ? 'font-black text-white' : 'text-slate-300'}`} title={series.name}>{series.name}</td>
+        {series.scores.map((score, index) => {
+            const delta = deltaAt(series.scores, index);
+            return (
+                <td key={index} className="py-2 px-3 text-right text-xs tabular-nums whitespace-nowrap">
+                    {score === null ? (
+                        <span className="text-slate-600">—</span>
+                    ) : (
+                        <>
+                            <span className={strong ? 'font-black text-white' : 'text-slate-200'}>{score}</span>
+                            {delta !== null && delta !== 0 && <span className={`ml-1 text-[10px] font-black ${deltaColor(delta)}`}>{formatDelta(delta)}</span>}
+                        </>
+                    )}
+                </td>
+            );
+        })}
+    </tr>
+);
+
+/**
+ * Every version of an asset side by side: the overall, agent and persona
+ * scores round by round, and what changed in the text and the image
+ * between any two versions.
+ */
+export const LineageView: React.FC<LineageViewProps> = ({ evolution, versions, analysisId }) => {
+    const last = versions.length - 1;
+    const [from, setFrom] = useState(Math.max(0, last - 1));
+    const [to, setTo] = useState(last);
+
+    const overall: ScoreSeries = { name: 'Score geral', scores: evolution.versions.map((v) => v.overall_score) };
+    const first = evolution.versions[0];
+    const latest = evolution.versions[last];
+    const improved = evolution.versions.filter((v, i) => i > 0 && v.overall_score > evolution.versions[i - 1].overall_score).length;
+
+    const before = versions[from];
+    const after = versions[to];
+    const beforeText = sourceTextOf(before);
+    const afterText = sourceTextOf(after);
+    const label = (index: number) => `v${evolution.versions[index].version}`;
+
+    return (
+        <div className="flex flex-col min-h-screen bg-[#0a0a0c]">
+            <header className="h-16 flex items-center justify-between px-6 md:px-8 border-b border-white/5 bg-[#0a0a0c]/60 backdrop-blur-xl sticky top-0 z-40">
+                <Link href={`/report/${encodeURIComponent(analysisId)}`} className="flex items-center gap-3 text-white font-semibold">
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
+                    <span className="text-sm md:text-base font-['DM_Sans']">Relatório</span>
+                </Link>
+                <span className="text-[10px] text-slate-500 tracking-widest uppercase font-black">Linhagem do ativo</span>
+            </header>
+
+            <main className="flex-1 p-4 md:p-10 pb-12 md:pb-16 max-w-7xl mx-auto w-full space-y-10" data-testid="lineage-view">
+                <section className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="glass-panel p-5 rounded-2xl border-white/5">
+                        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Score geral</p>
+                        <p className="text-2xl font-black text-white tabular-nums">
+                            {first.overall_score} → {latest.overall_score}
+                            <span className={`ml-2 text-sm ${deltaColor(latest.overall_score - first.overall_score)}`}>{formatDelta(latest.overall_score - first.overall_score)}</span>
+                        </p>
+                    </div>
+                    <div className="glass-panel p-5 rounded-2xl border-white/5">
+                        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Versões</p>
+                        <p className="text-2xl font-black text-white tabular-nums">{versions.length}</p>
+                    </div>
+                    <div className="glass-panel p-5 rounded-2xl border-white/5">
+                        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Rodadas com melhora</p>
+                        <p className="text-2xl font-black text-white tabular-nums">{improved} de {last}</p>
+                    </div>
+                </section>
+
+                <section className="space-y-4">
+                    <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-widest flex items-center gap-3">
+                        <span className="w-6 md:w-8 h-[2px] bg-blue-500"></span>Evolução dos scores
+                    </h3>
+                    <div className="glass-panel p-5 md:p-6 rounded-2xl border-white/5 space-y-8">
+                        <div className="flex items-end gap-3 h-40">
+                            {evolution.versions.map((v, index) => (
+                                <Link key={v.analysis_id} href={`/report/${encodeURIComponent(v.analysis_id)}`} className="flex-1 h-full flex flex-col justify-end items-center gap-2 group" title={new Date(v.timestamp).toLocaleString('pt-BR')}>
+                                    <span className="text-xs font-black text-white tabular-nums">{v.overall_score}</span>
+                                    <div className={`w-full max-w-16 rounded-t-lg transition-colors ${v.analysis_id === analysisId ? 'bg-blue-500' : 'bg-blue-500/40 group-hover:bg-blue-500/70'}`} style={{ height: `${Math.max(v.overall_score, 2)}%` }} />
+                                    <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{label(index)}</span>
+                                </Link>
+                            ))}
+                        </div>
+
+                        <div className="overflow-x-auto">
+                            <table className="w-full">
+                                <thead>
+                                    <tr>
+                                        <th />
+                                        {evolution.versions.map((v, index) => (
+                                            <th key={v.analysis_id} className="pb-2 px-3 text-right text-[10px] font-black text-slate-500 uppercase tracking-widest">{label(index)}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    <ScoreRow series={overall} strong />
+                                    <tr><td colSpan={versions.length + 1} className="pt-5 pb-1 text-[9px] font-black text-purple-400 uppercase tracking-widest">Agentes</td></tr>
+                                    {evolution.agents.map((series) => <ScoreRow key={series.name} series={series} />)}
+                                    <tr><td colSpan={versions.length + 1} className="pt-5 pb-1 text-[9px] font-black text-emerald-400 uppercase tracking-widest">Personas</td></tr>
+                                    {evolution.personas.map((series) => <ScoreRow key={series.name} series={series} />)}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </section>
+
+                {versions.length > 1 && (
+                    <section className="space-y-4">
+                        <div className="flex flex-wrap items-center gap-3">
+                            <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-widest flex items-center gap-3">
+                                <span className="w-6 md:w-8 h-[2px] bg-blue-500"></span>Comparar versões
+                            </h3>
+                            <div className="ml-auto flex items-center gap-2 text-xs text-slate-400">
+                                <select value={from} onChange={(e) => setFrom(Number(e.target.value))} className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-100 outline-none">
+                                    {versions.map((_, index) => <option key={index} value={index}>{label(index)}</option>)}
+                                </select>
+                                →
+                                <select value={to} onChange={(e) => setTo(Number(e.target.value))} className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-100 outline-none">
+                                    {versions.map((_, index) => <option key={index} value={index}>{label(index)}</option>)}
+                                </select>
+                            </div>
+                        </div>
+
+                        {before.sourceImage && after.sourceImage ? (
+                            <ImageCompare before={before.sourceImage} after={after.sourceImage} beforeLabel={label(from)} afterLabel={label(to)} />
+                        ) : (before.sourceImage || after.sourceImage) && (
+                            <p className="text-xs text-slate-500">Só uma das versões tem imagem; não há o que comparar.</p>
+                        )}
+
+                        <div className="glass-panel p-5 md:p-6 rounded-2xl border-white/5">
+                            {beforeText || afterText ? (
+                                beforeText === afterText
+                                    ? <p className="text-xs text-slate-500">O texto não mudou entre {label(from)} e {label(to)}.</p>
+                                    : <TextDiff before={beforeText} after={afterText} />
+                            ) : (
+                                <p className="text-xs text-slate-500">Nenhuma das versões tem texto.</p>
+                            )}
+                        </div>
+                    </section>
+                )}
+            </main>
+        </div>
+    );
+};
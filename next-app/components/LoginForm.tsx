@@ -0,0 +1,80 @@
+"use client";
+
+import React, { useState } from 'react';
+
+interface LoginFormProps {
+    next: string;
+    expired: boolean;
+    credentials: boolean; // development login with a password
+}
+
+const inputClass = 'w-full bg-[#0f0f11] border border-white/10 rounded-xl px-4 py-3 text-sm text-white placeholder:text-slate-600 focus:outline-none focus:border-blue-500/50';
+const buttonClass = 'w-full py-3 rounded-xl text-[11px] font-black uppercase tracking-widest transition-all disabled:opacity-50';
+
+export const LoginForm: React.FC<LoginFormProps> = ({ next, expired, credentials }) => {
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [sent, setSent] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(expired ? 'O link de acesso expirou ou já foi usado. Peça um novo.' : null);
+
+    const post = async (path: string, body: unknown) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const response = await fetch(path, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}));
+                throw new Error(errorData.error || 'Falha no login');
+            }
+            return true;
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Erro desconhecido');
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const sendLink = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await post('/api/auth/magic-link', { email, next })) setSent(true);
+    };
+
+    const signInWithPassword = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await post('/api/auth/credentials', { email, password })) window.location.assign(next);
+    };
+
+    if (sent) {
+        return (
+            <div className="bg-[#0f0f11]/60 border border-white/5 rounded-2xl p-6 text-center space-y-2">
+                <p className="text-white font-semibold">Confira seu email</p>
+                <p className="text-slate-400 text-sm">Enviamos um link de acesso para <span className="text-white">{email}</span>. Ele vale por 15 minutos.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <form onSubmit={sendLink} className="space-y-3">
+                <input type="email" required value={email} onChange={(e) => setEmail(e.target.value)} placeholder="seu@email.com" className={inputClass} />
+                <button type="submit" disabled={busy || !email} className={`${buttonClass} bg-blue-600 hover:bg-blue-500 text-white`}>Receber link de acesso</button>
+            </form>
+
+            {credentials && (
+                <form onSubmit={signInWithPassword} className="space-y-3 pt-6 border-t border-white/5">
+                    <p className="text-[10px] text-slate-500 tracking-widest uppercase font-black">Desenvolvimento</p>
+                    <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Senha de desenvolvimento" className={inputClass} />
+                    <button type="submit" disabled={busy || !email || !password} className={`${buttonClass} bg-white/5 border border-white/10 text-slate-300 hover:text-white`}>Entrar com senha</button>
+                </form>
+            )}
+
+            {error && <p className="text-red-400 text-xs text-center">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,134 @@
+"use client";
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Sparkles } from 'lucide-react';
+import { weakestPersonas } from '@core/analysis/optimize';
+import { streamOptimize } from '@/lib/analysis-stream';
+import { AnalysisResult, OptimizedVariant, RewriteVariant } from '@/types';
+import { TextDiff } from './TextDiff';
+
+const COUNT_OPTIONS = [3, 5];
+
+interface OptimizePanelProps {
+    result: AnalysisResult;
+    // The text the rewrites start from
+    sourceText: string;
+}
+
+const formatGain = (gain: number) => (gain > 0 ? `+${gain}` : `${gain}`);
+
+const gainColor = (gain: number) => (gain > 0 ? 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20' : gain < 0 ? 'text-rose-400 bg-rose-500/10 border-rose-500/20' : 'text-slate-400 bg-white/5 border-white/10');
+
+// Rewrites the piece for its weakest personas and ranks the versions by the score the jury gives them
+export const OptimizePanel: React.FC<OptimizePanelProps> = ({ result, sourceText }) => {
+    const [count, setCount] = useState(3);
+    const [running, setRunning] = useState(false);
+    const [pending, setPending] = useState<RewriteVariant[]>([]);
+    const [variants, setVariants] = useState<OptimizedVariant[]>([]);
+    const [failed, setFailed] = useState<number[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [openDiff, setOpenDiff] = useState<number | null>(null);
+
+    const targets = weakestPersonas(result);
+
+    const handleOptimize = async () => {
+        setRunning(true);
+        setError(null);
+        setPending([]);
+        setVariants([]);
+        setFailed([]);
+        setOpenDiff(null);
+
+        try {
+            const ranked = await streamOptimize(result.analysis_id, count, (event) => {
+                if (event.type === 'rewritten') setPending(event.variants);
+                if (event.type === 'variant_done') setVariants((current) => [...current, event.variant].sort((a, b) => b.score_gain - a.score_gain));
+                if (event.type === 'variant_failed') setFailed((current) => [...current, event.index]);
+            });
+            setVariants(ranked);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Erro desconhecido');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const scoring = pending.filter((rewrite) => !failed.includes(rewrite.index) && !variants.some((v) => v.index === rewrite.index));
+
+    return (
+        <section className="mt-12 space-y-6" data-testid="optimize-panel">
+            <h3 className="text-[10px] font-black text-emerald-500 uppercase tracking-widest flex items-center gap-3">
+                <span className="w-6 md:w-8 h-[2px] bg-emerald-500"></span>Otimizar o texto
+            </h3>
+
+            <div className="glass-panel p-5 md:p-6 rounded-2xl border-white/5 space-y-5">
+                <div className="flex flex-col md:flex-row md:items-center gap-4">
+                    <p className="flex-1 text-slate-400 text-xs">
+                        Gera versões reescritas aplicando as recomendações, voltadas para {targets.map((p) => p.persona_name).join(' e ') || 'as personas'}, e submete cada uma ao mesmo júri. Cada versão fica salva no histórico.
+                    </p>
+                    <div className="flex items-center gap-3 flex-shrink-0">
+                        <select value={count} onChange={(e) => setCount(Number(e.target.value))} disabled={running} className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-100 outline-none">
+                            {COUNT_OPTIONS.map((option) => <option key={option} value={option}>{option} versões</option>)}
+                        </select>
+                        <button onClick={handleOptimize} disabled={running} className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 rounded-lg text-[10px] font-black text-white uppercase tracking-widest transition-all disabled:opacity-30">
+                            <Sparkles size={14} /> {running ? 'Otimizando...' : 'Otimizar'}
+                        </button>
+                    </div>
+                </div>
+
+                {error && <p className="text-xs text-rose-400">{error}</p>}
+
+                {running && pending.length === 0 && <p className="text-xs text-slate-500 animate-pulse">Reescrevendo o texto...</p>}
+
+                {(variants.length > 0 || scoring.length > 0) && (
+                    <ol className="space-y-3">
+                        {variants.map((variant, rank) => (
+                            <li key={variant.index} className="p-4 rounded-xl bg-white/5 border border-white/5 space-y-3">
+                                <div className="flex flex-wrap items-center gap-3">
+                                    <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">#{rank + 1} · Versão {variant.index + 1}</span>
+                                    <span className="text-sm font-black text-white tabular-nums">{variant.overall_score}/100</span>
+                                    <span className={`px-2 py-0.5 rounded border text-[10px] font-black tabular-nums ${gainColor(variant.score_gain)}`}>{formatGain(variant.score_gain)}</span>
+                                    <div className="ml-auto flex items-center gap-4">
+                                        <button onClick={() => setOpenDiff(openDiff === variant.index ? null : variant.index)} className="text-[10px] font-black text-slate-400 hover:text-white uppercase tracking-widest transition-colors">
+                                            {openDiff === variant.index ? 'Ocultar' : 'Comparar'}
+                                        </button>
+                                        <Link href={`/report/${encodeURIComponent(variant.analysis_id)}`} className="text-[10px] font-black text-blue-400 hover:text-blue-300 uppercase tracking-widest transition-colors">
+                                            Relatório
+                                        </Link>
+                                    </div>
+                                </div>
+                                {variant.rationale && <p className="text-xs text-slate-400 italic">{variant.rationale}</p>}
+                                <div className="flex flex-wrap gap-2">
+                                    {variant.persona_gains
+                                        .filter((persona) => variant.target_personas.includes(persona.persona_name) || targets.some((t) => t.persona_name === persona.persona_name))
+                                        .map((persona) => (
+                                            <span key={persona.persona_name} className="text-[10px] text-slate-400">
+                                                {persona.persona_name} <span className={`font-black ${persona.gain > 0 ? 'text-emerald-400' : persona.gain < 0 ? 'text-rose-400' : 'text-slate-500'}`}>{formatGain(persona.gain)}</span>
+                                            </span>
+                                        ))}
+                                </div>
+                                {openDiff === variant.index ? (
+                                    <div className="pt-3 border-t border-white/5">
+                                        <TextDiff before={sourceText} after={variant.text} />
+                                    </div>
+                                ) : (
+                                    <p className="text-xs text-slate-300 line-clamp-2">{variant.text}</p>
+                                )}
+                            </li>
+                        ))}
+                        {scoring.map((rewrite) => (
+                            <li key={rewrite.index} className="p-4 rounded-xl border border-dashed border-white/10 text-xs text-slate-500 animate-pulse">
+                                Versão {rewrite.index + 1}: o júri está avaliando...
+                            </li>
+                        ))}
+                    </ol>
+                )}
+
+                {failed.length > 0 && !running && (
+                    <p className="text-[11px] text-slate-500">{failed.length} {failed.length === 1 ? 'versão não pôde ser avaliada' : 'versões não puderam ser avaliadas'}.</p>
+                )}
+            </div>
+        </section>
+    );
+};
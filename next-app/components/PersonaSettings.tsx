@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useSettings } from '@/context/SettingsContext';
+
+const EMPTY_PERSONA = { name: '', demographics: '', motivations: '', objections: '', channel: '' };
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-100 outline-none focus:border-blue-500/50 placeholder:text-slate-600";
+
+export const PersonaSettings: React.FC = () => {
+    const { personas, updatePersona, addPersona, removePersona, resetPersonas } = useSettings();
+    const [draft, setDraft] = useState(EMPTY_PERSONA);
+
+    const selectedCount = personas.filter((persona) => persona.enabled).length;
+
+    const handleAdd = () => {
+        if (!draft.name.trim()) return;
+        addPersona({ ...draft, name: draft.name.trim() });
+        setDraft(EMPTY_PERSONA);
+    };
+
+    return (
+        <section className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-widest flex items-center gap-3">
+                    <span className="w-6 md:w-8 h-[2px] bg-blue-500"></span>Personas Alvo
+                    <span className="text-slate-500">{selectedCount} selecionada(s)</span>
+                </h3>
+                <button onClick={resetPersonas} className="text-[10px] font-black text-slate-500 hover:text-white uppercase tracking-widest transition-colors">
+                    Restaurar padrão
+                </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {personas.map((persona) => (
+                    <div key={persona.id} className={`glass-panel p-5 rounded-xl border-white/5 space-y-3 transition-all ${persona.enabled ? '' : 'opacity-50'}`}>
+                        <div className="flex items-start justify-between gap-3">
+                            <div>
+                                <h4 className="text-sm font-black text-white">{persona.name}</h4>
+                                <span className="text-[9px] text-blue-500/70 uppercase font-black tracking-widest">{persona.channel}</span>
+                            </div>
+                            <button
+                                onClick={() => updatePersona(persona.id, { enabled: !persona.enabled })}
+                                disabled={persona.enabled && selectedCount === 1}
+                                className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all disabled:opacity-30 disabled:cursor-not-allowed flex-shrink-0 ${persona.enabled ? 'bg-blue-600/20 border-blue-500/30 text-blue-300' : 'bg-white/5 border-white/10 text-slate-400'}`}
+                            >
+                                {persona.enabled ? 'Selecionada' : 'Fora'}
+                            </button>
+                        </div>
+                        <dl className="space-y-1 text-xs">
+                            <div><dt className="inline text-slate-500">Perfil: </dt><dd className="inline text-slate-300">{persona.demographics}</dd></div>
+                            <div><dt className="inline text-slate-500">Motivações: </dt><dd className="inline text-slate-300">{persona.motivations}</dd></div>
+                            <div><dt className="inline text-slate-500">Objeções: </dt><dd className="inline text-slate-300">{persona.objections}</dd></div>
+                        </dl>
+                        {!persona.builtin && (
+                            <button onClick={() => removePersona(persona.id)} className="text-[10px] font-black text-rose-400 hover:text-rose-300 uppercase tracking-widest transition-colors">
+                                Remover
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div className="glass-panel p-6 rounded-2xl border-white/5 bg-[#0f0f11] space-y-4">
+                <h4 className="text-[10px] font-black text-blue-500 uppercase tracking-widest">Nova Persona</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <input className={inputClass} placeholder="Nome (ex: CFOs de Médias Empresas)" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                    <input className={inputClass} placeholder="Canal (ex: LinkedIn, e-mail)" value={draft.channel} onChange={(e) => setDraft({ ...draft, channel: e.target.value })} />
+                    <input className={inputClass} placeholder="Perfil demográfico" value={draft.demographics} onChange={(e) => setDraft({ ...draft, demographics: e.target.value })} />
+                    <input className={inputClass} placeholder="Motivações" value={draft.motivations} onChange={(e) => setDraft({ ...draft, motivations: e.target.value })} />
+                </div>
+                <textarea
+                    className={`${inputClass} min-h-[60px] resize-none`}
+                    placeholder="Objeções típicas desta persona..."
+                    value={draft.objections}
+                    onChange={(e) => setDraft({ ...draft, objections: e.target.value })}
+                />
+                <button
+                    onClick={handleAdd}
+                    disabled={!draft.name.trim()}
+                    className="px-5 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-30 disabled:cursor-not-allowed rounded-lg text-white text-[10px] font-black uppercase tracking-widest transition-all"
+                >
+                    Adicionar Persona
+                </button>
+            </div>
+        </section>
+    );
+};
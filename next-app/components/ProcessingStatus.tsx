@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useState, useEffect } from 'react';
+import { AnalysisProgressEvent } from '@/types';
 
 const LOADING_MESSAGES = [
     "Consultando Phil (Trust)...",
@@ -12,20 +13,65 @@ const LOADING_MESSAGES = [
     "Sintetizando Veredito..."
 ];
 
-export const ProcessingStatus = () => {
+interface ProcessingStatusProps {
+    // Progress of the job being followed (GET /api/jobs/:id); without it the generic messages rotate
+    events?: AnalysisProgressEvent[];
+}
+
+const stageMessage = (event: AnalysisProgressEvent, retrySeconds: number) => {
+    switch (event.type) {
+        case 'started':
+            return 'Consultando o Conselho Sintético...';
+        case 'retrying':
+            return `O motor de IA não respondeu (tentativa ${event.attempt}/${event.max_attempts}). Nova tentativa em ${retrySeconds}s...`;
+        case 'fallback':
+            return event.reason;
+        case 'cached':
+            return 'Mesmo conteúdo já analisado. Reaproveitando o resultado...';
+        case 'agent':
+            return `Veredito de ${event.agent_name} pronto`;
+        case 'done':
+            return 'Sintetizando Veredito...';
+        case 'error':
+            return event.error;
+    }
+};
+
+export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ events = [] }) => {
     const [msgIndex, setMsgIndex] = useState(0);
+    const [countdown, setCountdown] = useState<{ event: number; seconds: number } | null>(null);
+
+    const last = events[events.length - 1];
+    const agents = events.find((event) => event.type === 'started')?.agents ?? [];
+    const verdicts = new Set(events.flatMap((event) => (event.type === 'agent' ? [event.agent_name] : [])));
 
     useEffect(() => {
+        if (last) return;
         const interval = setInterval(() => {
             setMsgIndex((prev) => (prev + 1) % LOADING_MESSAGES.length);
         }, 2500);
         return () => clearInterval(interval);
-    }, []);
+    }, [last]);
+
+    // Counts down the delay announced by the last retry event
+    useEffect(() => {
+        if (last?.type !== 'retrying') return;
+        const index = events.length - 1;
+        const until = Date.now() + last.delay;
+        const interval = setInterval(() => {
+            setCountdown({ event: index, seconds: Math.max(0, Math.ceil((until - Date.now()) / 1000)) });
+        }, 250);
+        return () => clearInterval(interval);
+    }, [last, events.length]);
+
+    const retrySeconds = last?.type === 'retrying'
+        ? (countdown?.event === events.length - 1 ? countdown.seconds : Math.ceil(last.delay / 1000))
+        : 0;
 
     return (
         <div className="min-h-[calc(100vh-64px)] flex flex-col items-center justify-center p-6 text-center animate-in fade-in">
             <div className="relative mb-8">
-                <div className="w-16 h-16 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+                <div className={`w-16 h-16 border-4 rounded-full animate-spin ${last?.type === 'retrying' ? 'border-amber-500/30 border-t-amber-500' : 'border-blue-500/30 border-t-blue-500'}`} />
                 <div className="absolute inset-0 flex items-center justify-center">
                     <div className="w-8 h-8 bg-blue-500/20 rounded-full animate-pulse" />
                 </div>
@@ -36,10 +82,29 @@ export const ProcessingStatus = () => {
             </h3>
 
             <div className="h-8 overflow-hidden relative w-full flex justify-center">
-                <p key={msgIndex} className="text-slate-400 text-sm md:text-base font-medium animate-in slide-in-from-bottom-2 fade-in duration-500 absolute">
-                    {LOADING_MESSAGES[msgIndex]}
-                </p>
+                {last ? (
+                    <p key={`${events.length}-${last.type}`} className={`text-sm md:text-base font-medium animate-in fade-in duration-500 absolute ${last.type === 'retrying' || last.type === 'fallback' ? 'text-amber-400' : 'text-slate-400'}`}>
+                        {stageMessage(last, retrySeconds)}
+                    </p>
+                ) : (
+                    <p key={msgIndex} className="text-slate-400 text-sm md:text-base font-medium animate-in slide-in-from-bottom-2 fade-in duration-500 absolute">
+                        {LOADING_MESSAGES[msgIndex]}
+                    </p>
+                )}
             </div>
+
+            {agents.length > 0 && (
+                <div className="flex flex-wrap justify-center gap-2 mt-6 max-w-xl">
+                    {agents.map((name) => (
+                        <span
+                            key={name}
+                            className={`px-3 py-1 rounded-full border text-[10px] font-black uppercase tracking-widest transition-all ${verdicts.has(name) ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'bg-white/5 border-white/10 text-slate-500'}`}
+                        >
+                            {verdicts.has(name) ? '✓ ' : ''}{name}
+                        </span>
+                    ))}
+                </div>
+            )}
         </div>
     );
 };
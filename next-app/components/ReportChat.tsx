@@ -0,0 +1,123 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send } from 'lucide-react';
+import { streamChat } from '@/lib/analysis-stream';
+import { AnalysisResult, ChatMessage, Message } from '@/types';
+
+interface ReportChatProps {
+    result: AnalysisResult;
+    initialMessages: ChatMessage[];
+    // Viewers read the thread but cannot ask
+    canAsk: boolean;
+}
+
+// Starting points built from the weakest scores of the report
+const suggestionsFor = (result: AnalysisResult) => {
+    const weakest = [...result.agents_feedback].sort((a, b) => a.score - b.score).slice(0, 2);
+    return [
+        ...weakest.map((agent) => `Por que ${agent.agent_name} deu ${agent.score}?`),
+        'O que mudar primeiro para subir o score geral?',
+    ];
+};
+
+// Follow-up questions about a saved analysis, answered from the audit and the original input
+export const ReportChat: React.FC<ReportChatProps> = ({ result, initialMessages, canAsk }) => {
+    const [messages, setMessages] = useState<(ChatMessage | Message)[]>(initialMessages);
+    const [draft, setDraft] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const endRef = useRef<HTMLDivElement>(null);
+
+    const busy = messages.some((message) => message.isProcessing);
+
+    useEffect(() => {
+        if (messages.length > initialMessages.length) endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, [messages, initialMessages.length]);
+
+    const ask = async (question: string) => {
+        const text = question.trim();
+        if (!text || busy) return;
+
+        const saved = messages.filter((message) => !message.isProcessing);
+        setError(null);
+        setDraft('');
+        setMessages([...saved, { role: 'user', content: text }, { role: 'assistant', content: '', isProcessing: true }]);
+
+        try {
+            const thread = await streamChat(result.analysis_id, text, (delta) => setMessages((current) => current.map((message) =>
+                message.isProcessing ? { ...message, content: message.content + delta } : message
+            )));
+            setMessages([...saved, ...thread]);
+        } catch (e) {
+            setMessages(saved);
+            setDraft(text);
+            setError(e instanceof Error ? e.message : 'Erro desconhecido');
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        ask(draft);
+    };
+
+    if (!canAsk && messages.length === 0) return null;
+
+    return (
+        <section className="mt-12 space-y-6" data-testid="report-chat">
+            <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-widest flex items-center gap-3">
+                <span className="w-6 md:w-8 h-[2px] bg-blue-500"></span>Pergunte sobre a auditoria
+            </h3>
+
+            <div className="glass-panel p-5 md:p-6 rounded-2xl border-white/5 space-y-5">
+                {messages.length === 0 ? (
+                    <div className="flex items-start gap-3 text-slate-400 text-xs">
+                        <MessageSquare size={16} className="text-blue-400 flex-shrink-0" />
+                        <p>Tire dúvidas sobre os scores, vereditos e achados. As respostas partem desta auditoria e do material analisado, e a conversa fica salva com a análise.</p>
+                    </div>
+                ) : (
+                    <ul className="space-y-4">
+                        {messages.map((message, i) => (
+                            <li key={'id' in message ? message.id : `pending-${i}`} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                                <div className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm whitespace-pre-wrap ${message.role === 'user' ? 'bg-blue-600/20 border border-blue-500/20 text-slate-100' : 'bg-white/5 border border-white/10 text-slate-300'}`}>
+                                    {'author' in message && message.author && (
+                                        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1">{message.author}</p>
+                                    )}
+                                    {message.content || (message.isProcessing && <span className="text-slate-500 animate-pulse">Analisando...</span>)}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <div ref={endRef} />
+
+                {error && <p className="text-xs text-rose-400">{error}</p>}
+
+                {canAsk && (
+                    <div className="space-y-3 pt-4 border-t border-white/5">
+                        {messages.length === 0 && (
+                            <div className="flex flex-wrap gap-2">
+                                {suggestionsFor(result).map((suggestion) => (
+                                    <button key={suggestion} onClick={() => ask(suggestion)} className="px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-[11px] text-slate-300 hover:text-white hover:border-blue-500/40 transition-all">
+                                        {suggestion}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        <form onSubmit={handleSubmit} className="flex gap-3">
+                            <input
+                                value={draft}
+                                onChange={(e) => setDraft(e.target.value)}
+                                maxLength={2000}
+                                placeholder="Ex.: por que o Phil deu essa nota?"
+                                className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-sm text-slate-100 outline-none focus:border-blue-500/50 placeholder:text-slate-600"
+                            />
+                            <button type="submit" disabled={!draft.trim() || busy} aria-label="Enviar pergunta" className="px-4 bg-blue-600 hover:bg-blue-500 rounded-lg text-white transition-all disabled:opacity-30 flex-shrink-0">
+                                <Send size={16} />
+                            </button>
+                        </form>
+                    </div>
+                )}
+            </div>
+        </section>
+    );
+};
@@ -0,0 +1,60 @@
+"use client";
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { AnalysisResult } from '@/types';
+import { ReportDashboard } from '@ui/ReportDashboard';
+import { DocumentReviewView } from '@ui/DocumentReviewView';
+import { ExportReportButton } from './ExportReportButton';
+
+interface ReportViewProps {
+    result: AnalysisResult;
+    // Shared links: no navigation back into the app
+    readOnly?: boolean;
+    // Token of the share link the read-only view was opened with
+    shareToken?: string;
+    actions?: React.ReactNode;
+    // Rewrite-and-rescore panel, only for editors of a saved analysis with text
+    optimize?: React.ReactNode;
+    // Follow-up chat, only for saved analyses opened by a workspace member
+    chat?: React.ReactNode;
+}
+
+export const ReportView: React.FC<ReportViewProps> = ({ result, readOnly = false, shareToken, actions, optimize, chat }) => {
+    const router = useRouter();
+    const isDocument = !result.sourceImage;
+
+    return (
+        <div className="flex flex-col min-h-screen bg-[#0a0a0c]">
+            <header className="h-16 flex items-center justify-between px-6 md:px-8 border-b border-white/5 bg-[#0a0a0c]/60 backdrop-blur-xl sticky top-0 z-40">
+                {readOnly ? (
+                    <div className="flex items-center gap-3 text-white font-semibold">
+                        <span className="text-sm md:text-base font-['DM_Sans']">Aceleraí Impact</span>
+                        <span className="text-[9px] px-2 py-1 rounded-md bg-white/5 border border-white/10 text-slate-400 uppercase tracking-widest">Somente leitura</span>
+                    </div>
+                ) : (
+                    <div className="flex items-center gap-3 text-white font-semibold cursor-pointer" onClick={() => router.push('/')}>
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
+                        <span className="text-sm md:text-base font-['DM_Sans']">Voltar</span>
+                    </div>
+                )}
+                <div className="flex items-center gap-3">
+                    <ExportReportButton result={result} shareToken={shareToken} />
+                    {actions}
+                    <div className="w-8 h-8 rounded-full bg-blue-600 border border-white/10 shadow-lg shadow-blue-500/20"></div>
+                </div>
+            </header>
+
+            <main className="flex-1 p-4 md:p-10 pb-12 md:pb-16 max-w-7xl mx-auto w-full animate-in fade-in duration-700">
+                {!isDocument ? (
+                    <ReportDashboard result={result} sourceImage={result.sourceImage} sourceText={result.sourceText} sourceDocument={result.sourceDocument} />
+                ) : (
+                    <DocumentReviewView result={result} sourceText={result.sourceText} sourceDocument={result.sourceDocument} />
+                )}
+
+                {optimize}
+                {chat}
+            </main>
+        </div>
+    );
+};
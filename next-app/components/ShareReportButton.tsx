@@ -0,0 +1,83 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Share2, Copy, Check } from 'lucide-react';
+
+const EXPIRY_OPTIONS: { label: string; hours: number | null }[] = [
+    { label: '24 horas', hours: 24 },
+    { label: '7 dias', hours: 24 * 7 },
+    { label: '30 dias', hours: 24 * 30 },
+    { label: 'Sem expiração', hours: null },
+];
+
+export const ShareReportButton: React.FC<{ analysisId: string }> = ({ analysisId }) => {
+    const [open, setOpen] = useState(false);
+    const [hours, setHours] = useState<number | null>(24 * 7);
+    const [link, setLink] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const createLink = async () => {
+        setError(null);
+        try {
+            const response = await fetch(`/api/history/${encodeURIComponent(analysisId)}/share`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ expires_in_hours: hours }),
+            });
+            if (!response.ok) throw new Error(`Falha ao gerar link (${response.status})`);
+
+            const share: { url: string } = await response.json();
+            setLink(`${window.location.origin}${share.url}`);
+            setCopied(false);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Erro desconhecido');
+        }
+    };
+
+    const copyLink = async () => {
+        if (!link) return;
+        await navigator.clipboard.writeText(link);
+        setCopied(true);
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(!open)}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-slate-300 hover:text-white text-[10px] font-black uppercase tracking-widest transition-all"
+            >
+                <Share2 size={14} /> Compartilhar
+            </button>
+
+            {open && (
+                <div className="absolute right-0 mt-2 w-80 glass-panel bg-[#0f0f11] border border-white/10 rounded-xl p-4 space-y-3 shadow-2xl z-50">
+                    <p className="text-[10px] font-black text-blue-500 uppercase tracking-widest">Link somente leitura</p>
+                    <div className="flex gap-2">
+                        <select
+                            value={hours ?? ''}
+                            onChange={(e) => { setHours(e.target.value ? Number(e.target.value) : null); setLink(null); }}
+                            className="flex-1 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none"
+                        >
+                            {EXPIRY_OPTIONS.map((option) => (
+                                <option key={option.label} value={option.hours ?? ''} className="bg-[#0f0f11]">{option.label}</option>
+                            ))}
+                        </select>
+                        <button onClick={createLink} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 rounded-lg text-white text-[10px] font-black uppercase tracking-widest">
+                            Gerar
+                        </button>
+                    </div>
+                    {link && (
+                        <div className="flex items-center gap-2">
+                            <input readOnly value={link} className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-[10px] text-slate-300 outline-none" />
+                            <button onClick={copyLink} className="p-1.5 text-slate-400 hover:text-white" title="Copiar">
+                                {copied ? <Check size={14} className="text-emerald-400" /> : <Copy size={14} />}
+                            </button>
+                        </div>
+                    )}
+                    {error && <p className="text-rose-400 text-[10px]">{error}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,21 @@
+import React, { useMemo } from 'react';
+import { diffWords } from '@core/analysis/diff';
+
+const SEGMENT_STYLES = {
+    equal: 'text-slate-300',
+    insert: 'bg-emerald-500/15 text-emerald-300 rounded-sm',
+    delete: 'bg-rose-500/10 text-rose-400/80 line-through rounded-sm',
+};
+
+// Word-level changes from `before` to `after`, inline
+export const TextDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => {
+    const segments = useMemo(() => diffWords(before, after), [before, after]);
+
+    return (
+        <p className="text-xs md:text-sm leading-relaxed whitespace-pre-wrap">
+            {segments.map((segment, i) => (
+                <span key={i} className={SEGMENT_STYLES[segment.op]}>{segment.text}</span>
+            ))}
+        </p>
+    );
+};
@@ -0,0 +1,80 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useSession } from '@/context/SessionContext';
+import { WorkspaceRole } from '@/types';
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+    owner: 'Proprietário',
+    editor: 'Editor',
+    viewer: 'Leitor',
+};
+
+const initials = (name: string) => name.split(/[\s._-]+/).filter(Boolean).slice(0, 2).map((part) => part[0].toUpperCase()).join('');
+
+// Signed-in user, current workspace and the switch between workspaces
+export const UserMenu: React.FC = () => {
+    const { session, switchWorkspace, createWorkspace, signOut } = useSession();
+    const [open, setOpen] = useState(false);
+
+    if (!session) {
+        return <div className="w-8 h-8 rounded-full bg-white/5 border border-white/10"></div>;
+    }
+
+    const handleCreate = async () => {
+        const name = window.prompt('Nome do novo workspace');
+        if (!name?.trim()) return;
+        try {
+            await createWorkspace(name.trim());
+        } catch (e) {
+            alert(e instanceof Error ? e.message : 'Erro desconhecido');
+        }
+    };
+
+    const handleSwitch = async (workspaceId: string) => {
+        if (workspaceId === session.workspace.id) return;
+        try {
+            await switchWorkspace(workspaceId);
+        } catch (e) {
+            alert(e instanceof Error ? e.message : 'Erro desconhecido');
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button onClick={() => setOpen(!open)} className="flex items-center gap-3">
+                <div className="hidden md:flex flex-col items-end leading-tight">
+                    <span className="text-xs text-white font-semibold font-['DM_Sans']">{session.user.name}</span>
+                    <span className="text-[10px] text-slate-500 tracking-widest uppercase font-['DM_Sans']">{session.workspace.name}</span>
+                </div>
+                <div className="w-8 h-8 rounded-full bg-blue-600 border border-white/10 shadow-lg shadow-blue-500/20 flex items-center justify-center text-[10px] font-black text-white">
+                    {initials(session.user.name)}
+                </div>
+            </button>
+
+            {open && (
+                <div className="absolute right-0 mt-3 w-64 bg-[#0f0f11] border border-white/10 rounded-2xl shadow-2xl p-2 z-50">
+                    <div className="px-3 py-2 border-b border-white/5 mb-2">
+                        <p className="text-sm text-white font-semibold truncate">{session.user.name}</p>
+                        <p className="text-[11px] text-slate-500 truncate">{session.user.email}</p>
+                    </div>
+
+                    <p className="px-3 pt-1 pb-2 text-[10px] text-slate-500 tracking-widest uppercase font-black">Workspaces</p>
+                    {session.workspaces.map((workspace) => (
+                        <button
+                            key={workspace.id}
+                            onClick={() => handleSwitch(workspace.id)}
+                            className={`w-full flex items-center justify-between px-3 py-2 rounded-xl text-left text-xs transition-all ${workspace.id === session.workspace.id ? 'bg-white/5 text-white' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}
+                        >
+                            <span className="truncate">{workspace.name}</span>
+                            <span className="text-[10px] text-slate-500 shrink-0 ml-2">{ROLE_LABELS[workspace.role]}</span>
+                        </button>
+                    ))}
+                    <button onClick={handleCreate} className="w-full px-3 py-2 rounded-xl text-left text-xs text-blue-400 hover:bg-white/5 transition-all">+ Novo workspace</button>
+
+                    <button onClick={signOut} className="w-full mt-2 px-3 py-2 rounded-xl text-left text-xs text-slate-400 hover:text-white hover:bg-white/5 border-t border-white/5 transition-all">Sair</button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import Link from 'next/link';
+import { GitBranch, GitCompare } from 'lucide-react';
+
+interface VersionLinksProps {
+    analysisId: string;
+    version: number;
+    // Versions saved for the asset, this one included
+    versions: number;
+    // Editors may submit the next round
+    canRevise: boolean;
+}
+
+// Header links of a saved analysis: its lineage, once there is more than one version, and the next version
+export const VersionLinks: React.FC<VersionLinksProps> = ({ analysisId, version, versions, canRevise }) => {
+    const id = encodeURIComponent(analysisId);
+
+    return (
+        <>
+            {versions > 1 ? (
+                <Link href={`/report/${id}/lineage`} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-slate-300 hover:text-white text-[10px] font-black uppercase tracking-widest transition-all">
+                    <GitCompare size={14} /> v{version} de {versions}
+                </Link>
+            ) : (
+                <span className="px-2 py-1 rounded-md bg-white/5 border border-white/10 text-[9px] font-black text-slate-400 uppercase tracking-widest">v{version}</span>
+            )}
+            {canRevise && (
+                <Link href={`/?parent=${id}`} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-slate-300 hover:text-white text-[10px] font-black uppercase tracking-widest transition-all">
+                    <GitBranch size={14} /> Nova versão
+                </Link>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useSession } from '@/context/SessionContext';
+import { CreatedWebhook, Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent, WebhookWithDeliveries } from '@/types';
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-100 outline-none focus:border-blue-500/50 placeholder:text-slate-600";
+
+const WEBHOOKS_PATH = '/api/workspaces/current/webhooks';
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+    'analysis.completed': 'Análise concluída',
+    'analysis.failed': 'Análise falhou',
+    'analysis.fallback': 'Somente texto',
+};
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+    pending: { label: 'Pendente', className: 'text-amber-400' },
+    delivered: { label: 'Entregue', className: 'text-emerald-400' },
+    failed: { label: 'Falhou', className: 'text-rose-400' },
+};
+
+const EVENTS = Object.keys(EVENT_LABELS) as WebhookEvent[];
+
+const request = async (path: string, method: string, body?: unknown) => {
+    const response = await fetch(path, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Falha na operação (${response.status})`);
+    }
+    return response.status === 204 ? null : response.json();
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('pt-BR');
+
+const DeliveryLog: React.FC<{ webhookId: string }> = ({ webhookId }) => {
+    const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+
+    useEffect(() => {
+        request(`${WEBHOOKS_PATH}/${encodeURIComponent(webhookId)}`, 'GET')
+            .then((webhook: WebhookWithDeliveries) => setDeliveries(webhook.deliveries))
+            .catch((e) => console.error("Error loading deliveries", e));
+    }, [webhookId]);
+
+    if (!deliveries) return <p className="text-[11px] text-slate-500">Carregando entregas...</p>;
+    if (deliveries.length === 0) return <p className="text-[11px] text-slate-500">Nenhuma entrega ainda.</p>;
+
+    return (
+        <ul className="space-y-1.5">
+            {deliveries.map((delivery) => (
+                <li key={delivery.id} className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[11px] text-slate-400">
+                    <span className={`font-black uppercase tracking-widest text-[10px] ${STATUS_STYLES[delivery.status].className}`}>{STATUS_STYLES[delivery.status].label}</span>
+                    <span className="text-slate-300">{EVENT_LABELS[delivery.event]}</span>
+                    <span>{formatTime(delivery.created_at)}</span>
+                    <span>{delivery.attempts} {delivery.attempts === 1 ? 'tentativa' : 'tentativas'}</span>
+                    {delivery.response_status !== null && <span>HTTP {delivery.response_status}</span>}
+                    {delivery.error && delivery.response_status === null && <span className="text-rose-300 truncate max-w-xs">{delivery.error}</span>}
+                    {delivery.next_attempt_at && <span>Nova tentativa às {new Date(delivery.next_attempt_at).toLocaleTimeString('pt-BR')}</span>}
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+// URLs notified of the workspace's analyses; only owners see this section
+export const WebhookSettings: React.FC = () => {
+    const { session, can } = useSession();
+    const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+    const [form, setForm] = useState<{ url: string; events: WebhookEvent[] }>({ url: '', events: EVENTS });
+    // The only time the secret is available
+    const [created, setCreated] = useState<CreatedWebhook | null>(null);
+    const [openLog, setOpenLog] = useState<string | null>(null);
+
+    const isOwner = can('owner');
+
+    useEffect(() => {
+        if (!isOwner) return;
+        request(WEBHOOKS_PATH, 'GET')
+            .then(setWebhooks)
+            .catch((e) => console.error("Error loading webhooks", e));
+    }, [isOwner]);
+
+    const run = async (action: () => Promise<unknown>) => {
+        try {
+            await action();
+            setWebhooks(await request(WEBHOOKS_PATH, 'GET'));
+        } catch (e) {
+            alert(e instanceof Error ? e.message : 'Erro desconhecido');
+        }
+    };
+
+    const toggleEvent = (event: WebhookEvent) => setForm({
+        ...form,
+        events: form.events.includes(event) ? form.events.filter((e) => e !== event) : [...form.events, event],
+    });
+
+    const handleCreate = () => {
+        if (!form.url.trim() || form.events.length === 0) return;
+        run(async () => {
+            setCreated(await request(WEBHOOKS_PATH, 'POST', { url: form.url.trim(), events: form.events }));
+            setForm({ url: '', events: EVENTS });
+        });
+    };
+
+    const handleRemove = (webhook: Webhook) => {
+        if (!window.confirm(`Remover o webhook ${webhook.url}?`)) return;
+        run(() => request(`${WEBHOOKS_PATH}/${encodeURIComponent(webhook.id)}`, 'DELETE'));
+    };
+
+    if (!session || !isOwner) return null;
+
+    return (
+        <section className="space-y-6">
+            <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-widest flex items-center gap-3">
+                <span className="w-6 md:w-8 h-[2px] bg-blue-500"></span>Webhooks
+            </h3>
+
+            <div className="glass-panel p-5 rounded-xl border-white/5 space-y-5">
+                <p className="text-slate-400 text-xs">
+                    Cada análise do workspace é enviada por POST em JSON, assinada com HMAC-SHA256 no cabeçalho <code className="text-slate-300">X-Acelerai-Signature</code>. Entregas que falham são repetidas com intervalos crescentes.
+                </p>
+
+                {created && (
+                    <div className="p-4 rounded-lg border border-emerald-500/30 bg-emerald-500/5 space-y-2">
+                        <p className="text-[11px] text-emerald-300">Copie o segredo de assinatura agora; ele não será exibido novamente.</p>
+                        <div className="flex gap-3">
+                            <input readOnly value={created.secret} onFocus={(e) => e.target.select()} className={`${inputClass} font-mono`} />
+                            <button onClick={() => navigator.clipboard.writeText(created.secret)} className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-[10px] font-black text-slate-300 hover:text-white uppercase tracking-widest transition-all flex-shrink-0">
+                                Copiar
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {webhooks.length > 0 && (
+                    <ul className="divide-y divide-white/5">
+                        {webhooks.map((webhook) => (
+                            <li key={webhook.id} className="py-3 space-y-3">
+                                <div className="flex items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="text-sm text-white font-mono truncate">{webhook.url}</p>
+                                        <p className="text-[11px] text-slate-500 truncate">{webhook.events.map((event) => EVENT_LABELS[event]).join(' · ')}</p>
+                                    </div>
+                                    <div className="flex items-center gap-3 flex-shrink-0">
+                                        <button onClick={() => setOpenLog(openLog === webhook.id ? null : webhook.id)} className="text-[10px] font-black text-slate-400 hover:text-white uppercase tracking-widest transition-colors">
+                                            Entregas
+                                        </button>
+                                        <button onClick={() => handleRemove(webhook)} className="text-[10px] font-black text-rose-400 hover:text-rose-300 uppercase tracking-widest transition-colors">
+                                            Remover
+                                        </button>
+                                    </div>
+                                </div>
+                                {openLog === webhook.id && <DeliveryLog webhookId={webhook.id} />}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="space-y-3 pt-4 border-t border-white/5">
+                    <div className="flex flex-col md:flex-row gap-3">
+                        <input type="url" value={form.url} onChange={(e) => setForm({ ...form, url: e.target.value })} placeholder="https://ferramenta.agencia.com/webhooks/acelerai" className={inputClass} />
+                        <button onClick={handleCreate} disabled={!form.url.trim() || form.events.length === 0} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-[10px] font-black text-white uppercase tracking-widest transition-all disabled:opacity-30 flex-shrink-0">
+                            Adicionar
+                        </button>
+                    </div>
+                    <div className="flex flex-wrap gap-4">
+                        {EVENTS.map((event) => (
+                            <label key={event} className="flex items-center gap-2 text-[11px] text-slate-300 cursor-pointer">
+                                <input type="checkbox" checked={form.events.includes(event)} onChange={() => toggleEvent(event)} className="accent-blue-500" />
+                                {EVENT_LABELS[event]}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </section>
+    );
+};
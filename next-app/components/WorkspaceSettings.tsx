@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useSession } from '@/context/SessionContext';
+import { ROLE_LABELS } from '@/components/UserMenu';
+import { WorkspaceMember, WorkspaceRole } from '@/types';
+
+const ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer'];
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-100 outline-none focus:border-blue-500/50 placeholder:text-slate-600";
+
+const request = async (path: string, method: string, body?: unknown) => {
+    const response = await fetch(path, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Falha na operação (${response.status})`);
+    }
+    return response.status === 204 ? null : response.json();
+};
+
+const membersPath = (userId?: string) => `/api/workspaces/current/members${userId ? `/${encodeURIComponent(userId)}` : ''}`;
+
+// Name of the current workspace and who can see or change its audits
+export const WorkspaceSettings: React.FC = () => {
+    const { session, can } = useSession();
+    const [members, setMembers] = useState<WorkspaceMember[]>([]);
+    const [name, setName] = useState('');
+    const [invite, setInvite] = useState<{ email: string; role: WorkspaceRole }>({ email: '', role: 'editor' });
+
+    const isOwner = can('owner');
+
+    const show = (workspace: { name: string; members: WorkspaceMember[] }) => {
+        setName(workspace.name);
+        setMembers(workspace.members);
+    };
+
+    useEffect(() => {
+        if (!session) return;
+        request('/api/workspaces/current', 'GET')
+            .then(show)
+            .catch((e) => console.error("Error loading workspace", e));
+    }, [session]);
+
+    const run = async (action: () => Promise<unknown>) => {
+        try {
+            await action();
+            show(await request('/api/workspaces/current', 'GET'));
+        } catch (e) {
+            alert(e instanceof Error ? e.message : 'Erro desconhecido');
+        }
+    };
+
+    const handleInvite = () => {
+        if (!invite.email.trim()) return;
+        run(async () => {
+            await request(membersPath(), 'POST', { email: invite.email.trim(), role: invite.role });
+            setInvite({ email: '', role: invite.role });
+        });
+    };
+
+    const handleLeave = () => {
+        if (!session || !window.confirm(`Sair do workspace ${session.workspace.name}?`)) return;
+        request(membersPath(session.user.id), 'DELETE')
+            .then(() => window.location.assign('/'))
+            .catch((e) => alert(e instanceof Error ? e.message : 'Erro desconhecido'));
+    };
+
+    if (!session) return null;
+
+    return (
+        <section className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-widest flex items-center gap-3">
+                    <span className="w-6 md:w-8 h-[2px] bg-blue-500"></span>Workspace
+                    <span className="text-slate-500">{ROLE_LABELS[session.workspace.role]}</span>
+                </h3>
+                <button onClick={handleLeave} className="text-[10px] font-black text-slate-500 hover:text-white uppercase tracking-widest transition-colors">
+                    Sair do workspace
+                </button>
+            </div>
+
+            <div className="glass-panel p-5 rounded-xl border-white/5 space-y-5">
+                <div className="flex gap-3">
+                    <input value={name} onChange={(e) => setName(e.target.value)} disabled={!isOwner} className={inputClass} />
+                    {isOwner && (
+                        <button onClick={() => run(() => request('/api/workspaces/current', 'PATCH', { name }))} disabled={!name.trim()} className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-[10px] font-black text-slate-300 hover:text-white uppercase tracking-widest transition-all disabled:opacity-30 flex-shrink-0">
+                            Renomear
+                        </button>
+                    )}
+                </div>
+
+                <ul className="divide-y divide-white/5">
+                    {members.map((member) => (
+                        <li key={member.user_id} className="flex items-center justify-between gap-3 py-3">
+                            <div className="min-w-0">
+                                <p className="text-sm text-white font-semibold truncate">{member.name}{member.user_id === session.user.id && <span className="text-slate-500 font-normal"> (você)</span>}</p>
+                                <p className="text-[11px] text-slate-500 truncate">{member.email}</p>
+                            </div>
+                            <div className="flex items-center gap-3 flex-shrink-0">
+                                {isOwner ? (
+                                    <select
+                                        value={member.role}
+                                        onChange={(e) => run(() => request(membersPath(member.user_id), 'PATCH', { role: e.target.value }))}
+                                        className="bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-slate-200 outline-none"
+                                    >
+                                        {ROLES.map((role) => <option key={role} value={role} className="bg-[#0f0f11]">{ROLE_LABELS[role]}</option>)}
+                                    </select>
+                                ) : (
+                                    <span className="text-[10px] text-slate-400 uppercase font-black tracking-widest">{ROLE_LABELS[member.role]}</span>
+                                )}
+                                {isOwner && member.user_id !== session.user.id && (
+                                    <button onClick={() => run(() => request(membersPath(member.user_id), 'DELETE'))} className="text-[10px] font-black text-rose-400 hover:text-rose-300 uppercase tracking-widest transition-colors">
+                                        Remover
+                                    </button>
+                                )}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+
+                {isOwner && (
+                    <div className="flex flex-col md:flex-row gap-3 pt-4 border-t border-white/5">
+                        <input type="email" value={invite.email} onChange={(e) => setInvite({ ...invite, email: e.target.value })} placeholder="email@agencia.com" className={inputClass} />
+                        <select value={invite.role} onChange={(e) => setInvite({ ...invite, role: e.target.value as WorkspaceRole })} className="bg-white/5 border border-white/10 rounded-lg px-2 py-2 text-xs text-slate-200 outline-none">
+                            {ROLES.map((role) => <option key={role} value={role} className="bg-[#0f0f11]">{ROLE_LABELS[role]}</option>)}
+                        </select>
+                        <button onClick={handleInvite} disabled={!invite.email.trim()} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-[10px] font-black text-white uppercase tracking-widest transition-all disabled:opacity-30 flex-shrink-0">
+                            Adicionar
+                        </button>
+                    </div>
+                )}
+            </div>
+        </section>
+    );
+};
@@ -1,49 +1,79 @@
 "use client";
 
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { AnalysisResult } from '@/types';
+import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import { AnalysisResult, HistoryEntry, HistoryPage } from '@/types';
+
+// Pre-server history kept in the browser; imported once, then removed
+const LEGACY_HISTORY_KEY = 'acelerai_history';
 
 interface AnalysisContextType {
     analysisResult: AnalysisResult | null;
     setAnalysisResult: (result: AnalysisResult | null) => void;
-    history: AnalysisResult[];
-    setHistory: (history: AnalysisResult[]) => void;
-    addToHistory: (result: AnalysisResult) => void;
+    history: HistoryEntry[];
+    historyTotal: number;
+    loadHistory: (options?: { page?: number; limit?: number; q?: string }) => Promise<HistoryPage>;
+    removeFromHistory: (id: string) => Promise<void>;
 }
 
 const AnalysisContext = createContext<AnalysisContextType | undefined>(undefined);
 
+const saveToServer = async (result: AnalysisResult): Promise<AnalysisResult> => {
+    const response = await fetch('/api/history', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(result),
+    });
+    if (!response.ok) throw new Error(`Falha ao salvar no histórico (${response.status})`);
+    return response.json();
+};
+
 export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-    const [history, setHistory] = useState<AnalysisResult[]>([]);
-
-    const addToHistory = (result: AnalysisResult) => {
-        setHistory((prev) => {
-            const updated = [result, ...prev].slice(0, 15);
-            // In a real app, we might persist to localStorage here or let a useEffect handle it
-            if (typeof window !== 'undefined') {
-                localStorage.setItem('acelerai_history', JSON.stringify(updated));
-            }
-            return updated;
-        });
+    const [history, setHistory] = useState<HistoryEntry[]>([]);
+    const [historyTotal, setHistoryTotal] = useState(0);
+
+    const loadHistory = useCallback(async ({ page = 1, limit = 20, q }: { page?: number; limit?: number; q?: string } = {}) => {
+        const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+        if (q) params.set('q', q);
+
+        const response = await fetch(`/api/history?${params}`);
+        if (!response.ok) throw new Error(`Falha ao carregar o histórico (${response.status})`);
+
+        const data: HistoryPage = await response.json();
+        setHistory(data.items);
+        setHistoryTotal(data.total);
+        return data;
+    }, []);
+
+    const removeFromHistory = async (id: string) => {
+        const response = await fetch(`/api/history/${encodeURIComponent(id)}`, { method: 'DELETE' });
+        if (!response.ok && response.status !== 404) throw new Error(`Falha ao remover (${response.status})`);
+        setHistory((prev) => prev.filter((entry) => entry.analysis_id !== id));
+        setHistoryTotal((total) => Math.max(0, total - 1));
     };
 
-    // Load history from local storage on mount
+    // Import any history left in local storage, then load from the server
     React.useEffect(() => {
-        if (typeof window !== 'undefined') {
-            const saved = localStorage.getItem('acelerai_history');
-            if (saved) {
-                try {
-                    setHistory(JSON.parse(saved));
-                } catch (e) {
-                    console.error("Error loading history", e);
-                }
-            }
-        }
-    }, []);
+        const migrateLegacyHistory = async () => {
+            const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+            if (!saved) return;
+
+            const legacy: AnalysisResult[] = JSON.parse(saved);
+            await Promise.all(legacy.filter((result) => result.analysis_id).map(saveToServer));
+            localStorage.removeItem(LEGACY_HISTORY_KEY);
+        };
+
+        migrateLegacyHistory()
+            .catch((e) => console.error("Error migrating local history", e))
+            .then(() => loadHistory())
+            .catch((e) => console.error("Error loading history", e));
+    }, [loadHistory]);
 
     return (
-        <AnalysisContext.Provider value={{ analysisResult, setAnalysisResult, history, setHistory, addToHistory }}>
+        <AnalysisContext.Provider value={{
+            analysisResult, setAnalysisResult,
+            history, historyTotal, loadHistory, removeFromHistory,
+        }}>
             {children}
         </AnalysisContext.Provider>
     );
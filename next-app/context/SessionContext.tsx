@@ -0,0 +1,86 @@
+"use client";
+
+import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { SessionInfo, WorkspaceRole } from '@/types';
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+interface SessionContextType {
+    session: SessionInfo | null;
+    /** Whether the role in the current workspace is at least `role`. */
+    can: (role: WorkspaceRole) => boolean;
+    switchWorkspace: (workspaceId: string) => Promise<void>;
+    createWorkspace: (name: string) => Promise<void>;
+    signOut: () => Promise<void>;
+}
+
+const SessionContext = createContext<SessionContextType | undefined>(undefined);
+
+// Pages that work without signing in
+const isPublicPage = (pathname: string) => pathname === '/login' || (pathname.startsWith('/report/') && window.location.search.includes('share='));
+
+export const SessionProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const router = useRouter();
+    const pathname = usePathname();
+    const [session, setSession] = useState<SessionInfo | null>(null);
+
+    const can = useCallback((role: WorkspaceRole) => !!session && ROLE_RANK[session.workspace.role] >= ROLE_RANK[role], [session]);
+
+    // Every page reloads its data from the new workspace
+    const openWorkspace = () => window.location.assign('/');
+
+    const switchWorkspace = async (workspaceId: string) => {
+        const response = await fetch('/api/auth/session', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ workspace_id: workspaceId }),
+        });
+        if (!response.ok) throw new Error(`Falha ao trocar de workspace (${response.status})`);
+        openWorkspace();
+    };
+
+    const createWorkspace = async (name: string) => {
+        const response = await fetch('/api/workspaces', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name }),
+        });
+        if (!response.ok) throw new Error(`Falha ao criar o workspace (${response.status})`);
+        openWorkspace();
+    };
+
+    const signOut = async () => {
+        await fetch('/api/auth/session', { method: 'DELETE' });
+        window.location.assign('/login');
+    };
+
+    React.useEffect(() => {
+        if (session || isPublicPage(pathname)) return;
+
+        fetch('/api/auth/session')
+            .then(async (response) => {
+                if (response.status === 401) {
+                    router.replace(`/login?next=${encodeURIComponent(pathname)}`);
+                    return;
+                }
+                if (!response.ok) throw new Error(`Falha ao carregar a sessão (${response.status})`);
+                setSession(await response.json());
+            })
+            .catch((e) => console.error("Error loading session", e));
+    }, [session, pathname, router]);
+
+    return (
+        <SessionContext.Provider value={{ session, can, switchWorkspace, createWorkspace, signOut }}>
+            {children}
+        </SessionContext.Provider>
+    );
+};
+
+export const useSession = () => {
+    const context = useContext(SessionContext);
+    if (context === undefined) {
+        throw new Error('useSession must be used within a SessionProvider');
+    }
+    return context;
+};
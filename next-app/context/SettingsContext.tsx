@@ -0,0 +1,149 @@
+"use client";
+
+import React, { createContext, useContext, useState, ReactNode } from 'react';
+import { DEFAULT_AGENTS } from '@core/analysis/agents';
+import { DEFAULT_PERSONAS } from '@core/analysis/personas';
+import { useSession } from '@/context/SessionContext';
+import { AgentDefinition, PersonaProfile } from '@/types';
+
+// Pre-workspace settings kept in the browser; imported once, then removed
+const AGENTS_KEY = 'acelerai_agents';
+const PERSONAS_KEY = 'acelerai_personas';
+
+// Edits come from text fields, so they are sent once typing pauses
+const SAVE_DELAY = 800;
+
+interface StoredSettings {
+    agents: AgentDefinition[] | null;
+    personas: PersonaProfile[] | null;
+}
+
+interface SettingsContextType {
+    agents: AgentDefinition[];
+    setAgents: (agents: AgentDefinition[]) => void;
+    updateAgent: (id: string, patch: Partial<AgentDefinition>) => void;
+    addAgent: (agent: Omit<AgentDefinition, 'id' | 'enabled' | 'builtin'>) => void;
+    removeAgent: (id: string) => void;
+    resetAgents: () => void;
+    personas: PersonaProfile[];
+    setPersonas: (personas: PersonaProfile[]) => void;
+    updatePersona: (id: string, patch: Partial<PersonaProfile>) => void;
+    addPersona: (persona: Omit<PersonaProfile, 'id' | 'enabled' | 'builtin'>) => void;
+    removePersona: (id: string) => void;
+    resetPersonas: () => void;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+// The jury and audience are shared by everyone in the workspace
+const saveToServer = async (settings: Partial<StoredSettings>): Promise<StoredSettings> => {
+    const response = await fetch('/api/workspaces/current/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+    });
+    if (!response.ok) throw new Error(`Falha ao salvar as configurações (${response.status})`);
+    return response.json();
+};
+
+export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { session, can } = useSession();
+    const [agents, setAgentsState] = useState<AgentDefinition[]>(DEFAULT_AGENTS);
+    const [personas, setPersonasState] = useState<PersonaProfile[]>(DEFAULT_PERSONAS);
+    const workspaceId = session?.workspace.id;
+    const canEdit = can('editor');
+
+    // Changes not sent yet, merged so a pause sends the latest of each list
+    const pending = React.useRef<Partial<StoredSettings>>({});
+    const saveTimer = React.useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+    // Viewers only change their own screen; the server would refuse the PUT
+    const persist = (settings: Partial<StoredSettings>) => {
+        if (!canEdit) return;
+
+        pending.current = { ...pending.current, ...settings };
+        clearTimeout(saveTimer.current);
+        saveTimer.current = setTimeout(() => {
+            const changes = pending.current;
+            pending.current = {};
+            saveToServer(changes).catch((e) => console.error("Error saving settings", e));
+        }, SAVE_DELAY);
+    };
+
+    const setAgents = (updated: AgentDefinition[]) => {
+        setAgentsState(updated);
+        persist({ agents: updated });
+    };
+
+    const updateAgent = (id: string, patch: Partial<AgentDefinition>) =>
+        setAgents(agents.map((agent) => (agent.id === id ? { ...agent, ...patch } : agent)));
+
+    const addAgent = (agent: Omit<AgentDefinition, 'id' | 'enabled' | 'builtin'>) =>
+        setAgents([...agents, { ...agent, id: `custom-${Date.now()}`, enabled: true }]);
+
+    const removeAgent = (id: string) => setAgents(agents.filter((agent) => agent.id !== id));
+
+    const resetAgents = () => setAgents(DEFAULT_AGENTS);
+
+    const setPersonas = (updated: PersonaProfile[]) => {
+        setPersonasState(updated);
+        persist({ personas: updated });
+    };
+
+    const updatePersona = (id: string, patch: Partial<PersonaProfile>) =>
+        setPersonas(personas.map((persona) => (persona.id === id ? { ...persona, ...patch } : persona)));
+
+    const addPersona = (persona: Omit<PersonaProfile, 'id' | 'enabled' | 'builtin'>) =>
+        setPersonas([...personas, { ...persona, id: `custom-${Date.now()}`, enabled: true }]);
+
+    const removePersona = (id: string) => setPersonas(personas.filter((persona) => persona.id !== id));
+
+    const resetPersonas = () => setPersonas(DEFAULT_PERSONAS);
+
+    // Load the workspace jury and audience, importing any left in local storage
+    React.useEffect(() => {
+        // Unsent edits belong to the workspace that was left
+        clearTimeout(saveTimer.current);
+        pending.current = {};
+        if (!workspaceId) return;
+
+        const load = async () => {
+            const response = await fetch('/api/workspaces/current/settings');
+            if (!response.ok) throw new Error(`Falha ao carregar as configurações (${response.status})`);
+            let stored: StoredSettings = await response.json();
+
+            const legacyAgents = localStorage.getItem(AGENTS_KEY);
+            const legacyPersonas = localStorage.getItem(PERSONAS_KEY);
+            if (canEdit && ((!stored.agents && legacyAgents) || (!stored.personas && legacyPersonas))) {
+                stored = await saveToServer({
+                    ...(!stored.agents && legacyAgents && { agents: JSON.parse(legacyAgents) }),
+                    ...(!stored.personas && legacyPersonas && { personas: JSON.parse(legacyPersonas) }),
+                });
+                localStorage.removeItem(AGENTS_KEY);
+                localStorage.removeItem(PERSONAS_KEY);
+            }
+
+            setAgentsState(stored.agents ?? DEFAULT_AGENTS);
+            setPersonasState(stored.personas ?? DEFAULT_PERSONAS);
+        };
+
+        load().catch((e) => console.error("Error loading settings", e));
+    }, [workspaceId, canEdit]);
+
+    return (
+        <SettingsContext.Provider value={{
+            agents, setAgents, updateAgent, addAgent, removeAgent, resetAgents,
+            personas, setPersonas, updatePersona, addPersona, removePersona, resetPersonas,
+        }}>
+            {children}
+        </SettingsContext.Provider>
+    );
+};
+
+export const useSettings = () => {
+    const context = useContext(SettingsContext);
+    if (context === undefined) {
+        throw new Error('useSettings must be used within a SettingsProvider');
+    }
+    return context;
+};
@@ -0,0 +1,49 @@
+import { AnalysisJob } from "@/types";
+import { responseError } from "./api-error";
+
+// Job being followed by this browser, so a reload picks the analysis up again
+const PENDING_JOB_KEY = "acelerai_pending_job";
+
+const POLL_INTERVAL = 1500;
+
+export const pendingJob = {
+    get: () => localStorage.getItem(PENDING_JOB_KEY),
+    set: (id: string) => localStorage.setItem(PENDING_JOB_KEY, id),
+    clear: () => localStorage.removeItem(PENDING_JOB_KEY),
+};
+
+/** Queues an analysis with POST /api/jobs and returns the new job. */
+export async function submitJob(payload: unknown): Promise<AnalysisJob> {
+    const response = await fetch("/api/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+        throw await responseError(response, "Falha na análise");
+    }
+
+    return response.json();
+}
+
+/**
+ * Polls GET /api/jobs/:id, passing every update to onUpdate, until the job
+ * is done (resolves with it, result included) or failed (throws).
+ */
+export async function waitForJob(id: string, onUpdate: (job: AnalysisJob) => void): Promise<AnalysisJob> {
+    while (true) {
+        const response = await fetch(`/api/jobs/${encodeURIComponent(id)}`);
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(errorData.error || `Falha ao consultar a análise (${response.status})`);
+        }
+
+        const job: AnalysisJob = await response.json();
+        onUpdate(job);
+        if (job.status === "done") return job;
+        if (job.status === "failed") throw new Error(job.error || "Falha na análise");
+
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+    }
+}
@@ -0,0 +1,80 @@
+import { readEventData } from "@core/llm/sse";
+import { BatchEvent, ChatEvent, ChatMessage, OptimizeEvent, OptimizedVariant } from "@/types";
+import { responseError } from "./api-error";
+
+// The JSON payload of every event of a Server-Sent Events body
+async function* readEvents<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+    for await (const data of readEventData(body)) yield JSON.parse(data);
+}
+
+/**
+ * Calls POST /api/batch, forwarding every item event to onEvent, and
+ * resolves when the whole batch is done.
+ */
+export async function streamBatch(payload: unknown, onEvent: (event: BatchEvent) => void): Promise<void> {
+    const response = await fetch("/api/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+    });
+
+    if (!response.ok || !response.body) {
+        throw await responseError(response, "Falha no lote");
+    }
+
+    for await (const event of readEvents<BatchEvent>(response.body)) {
+        onEvent(event);
+        if (event.type === "done") return;
+    }
+
+    throw new Error("A conexão com o servidor foi interrompida antes do fim do lote.");
+}
+
+/**
+ * Asks a follow-up question about a saved analysis, passing each chunk of
+ * the answer to onDelta, and resolves with the question and the answer as
+ * saved in the thread.
+ */
+export async function streamChat(analysisId: string, message: string, onDelta: (text: string) => void): Promise<ChatMessage[]> {
+    const response = await fetch(`/api/history/${encodeURIComponent(analysisId)}/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message }),
+    });
+
+    if (!response.ok || !response.body) {
+        throw await responseError(response, "Falha no chat");
+    }
+
+    for await (const event of readEvents<ChatEvent>(response.body)) {
+        if (event.type === "delta") onDelta(event.text);
+        if (event.type === "done") return event.messages;
+        if (event.type === "error") throw new Error(event.error);
+    }
+
+    throw new Error("A conexão com o servidor foi interrompida antes do fim da resposta.");
+}
+
+/**
+ * Calls POST /api/history/:id/optimize, forwarding every event to onEvent,
+ * and resolves with the scored versions, best first.
+ */
+export async function streamOptimize(analysisId: string, count: number, onEvent: (event: OptimizeEvent) => void): Promise<OptimizedVariant[]> {
+    const response = await fetch(`/api/history/${encodeURIComponent(analysisId)}/optimize`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ count }),
+    });
+
+    if (!response.ok || !response.body) {
+        throw await responseError(response, "Falha na otimização");
+    }
+
+    for await (const event of readEvents<OptimizeEvent>(response.body)) {
+        onEvent(event);
+        if (event.type === "done") return event.variants;
+        if (event.type === "error") throw new Error(event.error);
+    }
+
+    throw new Error("A conexão com o servidor foi interrompida antes do fim da otimização.");
+}
@@ -0,0 +1,218 @@
+import { z } from "zod";
+import { SENTIMENTS } from "@core/analysis/sentiment";
+import { AgentObjections, AnalysisResult, AnalyticsPeriod, ObjectionType, ScorePeriod, TipCluster, WorkspaceAnalytics } from "@/types";
+import { getHistoryRepository } from "./history";
+import { getWorkspaceRepository } from "./workspaces";
+
+// Most analyses one dashboard reads; the newest are kept
+export const ANALYTICS_LIMIT = 2000;
+
+// Lower bound of each score band of the distribution
+const SCORE_BANDS = [0, 20, 40, 60, 80];
+
+// A verdict below this counts as an objection, like the amber and red scores of the history
+const OBJECTION_SCORE = 60;
+
+const TOP_TIPS = 10;
+
+const TIP_VARIANTS = 3;
+
+// Share of the words two tips must have in common to be counted as the same tip
+const TIP_SIMILARITY = 0.5;
+
+const DAY = 24 * 60 * 60_000;
+
+// Connectives that say nothing about what a tip asks for
+const STOPWORDS = new Set([
+    "para", "com", "que", "uma", "umas", "uns", "por", "pelo", "pela", "mais", "como", "dos", "das", "nos", "nas",
+    "seu", "sua", "seus", "suas", "este", "esta", "esse", "essa", "isso", "sobre", "entre", "sem", "mas", "muito",
+    "ser", "tem", "ter", "the", "and", "for", "with",
+]);
+
+// Query string of the analytics page; dates are whole UTC days, both included
+export const AnalyticsQuerySchema = z.object({
+    from: z.iso.date().optional(),
+    to: z.iso.date().optional(),
+    campaign: z.string().trim().min(1).max(80).optional(),
+    uploader: z.string().min(1).max(100).optional(),
+});
+
+export type AnalyticsQuery = z.infer<typeof AnalyticsQuerySchema>;
+
+const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+const bandOf = (score: number) => Math.max(0, SCORE_BANDS.filter((min) => score >= min).length - 1);
+
+// Days for up to a month of analyses, weeks for up to half a year, months beyond
+const periodFor = (span: number): AnalyticsPeriod => (span <= 31 * DAY ? "day" : span <= 26 * 7 * DAY ? "week" : "month");
+
+const periodStart = (timestamp: number, period: AnalyticsPeriod) => {
+    const date = new Date(timestamp);
+    if (period === "month") return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+
+    const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    // Weeks start on Monday
+    return period === "week" ? day - ((date.getUTCDay() + 6) % 7) * DAY : day;
+};
+
+function scoreOverTime(results: AnalysisResult[], period: AnalyticsPeriod): ScorePeriod[] {
+    const periods = new Map<number, number[]>();
+    for (const result of results) {
+        const start = periodStart(result.timestamp ?? 0, period);
+        periods.set(start, [...(periods.get(start) ?? []), result.overall_score]);
+    }
+
+    return [...periods]
+        .sort(([a], [b]) => a - b)
+        .map(([start, scores]) => ({
+            start,
+            count: scores.length,
+            average: average(scores),
+            bands: SCORE_BANDS.map((_, band) => scores.filter((score) => bandOf(score) === band).length),
+        }));
+}
+
+function objectionsByAgent(results: AnalysisResult[]): AgentObjections[] {
+    const agents = new Map<string, { verdicts: number; objections: number; types: Map<ObjectionType, number> }>();
+    const entry = (name: string) => {
+        if (!agents.has(name)) agents.set(name, { verdicts: 0, objections: 0, types: new Map() });
+        return agents.get(name)!;
+    };
+    const object = (name: string, type: ObjectionType) => {
+        const agent = entry(name);
+        agent.objections++;
+        agent.types.set(type, (agent.types.get(type) ?? 0) + 1);
+    };
+
+    for (const result of results) {
+        for (const feedback of result.agents_feedback) {
+            entry(feedback.agent_name).verdicts++;
+            if (feedback.score < OBJECTION_SCORE) object(feedback.agent_name, feedback.objection_type);
+        }
+        for (const finding of result.findings ?? []) object(finding.agent_name, finding.objection_type);
+    }
+
+    return [...agents]
+        .map(([agent_name, { verdicts, objections, types }]) => ({
+            agent_name,
+            verdicts,
+            objections,
+            by_type: [...types].map(([objection_type, count]) => ({ objection_type, count })).sort((a, b) => b.count - a.count),
+        }))
+        .sort((a, b) => b.objections - a.objections);
+}
+
+// Accents and case folded; short words and connectives dropped, the rest cut to a rough stem
+const tipWords = (tip: string) => new Set(
+    tip.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+        .map((word) => word.slice(0, 6))
+);
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+    let shared = 0;
+    for (const word of a) if (b.has(word)) shared++;
+    return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Groups the tips of the analyses by the words they share and returns the
+ * groups seen in more than one analysis, most frequent first. Each tip
+ * joins the most similar group it shares enough words with; a group keeps
+ * the words of the tip that started it.
+ */
+function clusterTips(results: AnalysisResult[]): TipCluster[] {
+    const clusters: { words: Set<string>; wordings: Map<string, number>; count: number; analyses: Set<string> }[] = [];
+    // Clusters by word, so a tip is only compared with the clusters it shares a word with
+    const byWord = new Map<string, number[]>();
+
+    for (const result of results) {
+        for (const tip of result.actionable_tips) {
+            const text = tip.trim();
+            const words = tipWords(text);
+            if (words.size === 0) continue;
+
+            let best = -1;
+            let bestSimilarity = TIP_SIMILARITY;
+            for (const index of new Set([...words].flatMap((word) => byWord.get(word) ?? []))) {
+                const value = similarity(words, clusters[index].words);
+                if (value >= bestSimilarity) {
+                    best = index;
+                    bestSimilarity = value;
+                }
+            }
+
+            if (best === -1) {
+                best = clusters.push({ words, wordings: new Map(), count: 0, analyses: new Set() }) - 1;
+                for (const word of words) byWord.set(word, [...(byWord.get(word) ?? []), best]);
+            }
+
+            const cluster = clusters[best];
+            cluster.count++;
+            cluster.analyses.add(result.analysis_id);
+            cluster.wordings.set(text, (cluster.wordings.get(text) ?? 0) + 1);
+        }
+    }
+
+    return clusters
+        .filter((cluster) => cluster.analyses.size > 1)
+        .sort((a, b) => b.count - a.count)
+        .slice(0, TOP_TIPS)
+        .map((cluster) => {
+            const [tip, ...variants] = [...cluster.wordings].sort((a, b) => b[1] - a[1]).map(([wording]) => wording);
+            return { tip, count: cluster.count, analyses: cluster.analyses.size, variants: variants.slice(0, TIP_VARIANTS) };
+        });
+}
+
+/**
+ * Aggregates the workspace's stored analyses within the query: scores per
+ * period, persona impact, objections per agent, sentiment mix and the tips
+ * that keep coming back. Reads at most ANALYTICS_LIMIT analyses, newest
+ * first. The filters list every campaign and uploader of the workspace.
+ */
+export function getWorkspaceAnalytics(workspaceId: string, { from, to, campaign, uploader }: AnalyticsQuery): WorkspaceAnalytics {
+    const range = { from: from ? Date.parse(from) : undefined, to: to ? Date.parse(to) + DAY : undefined };
+    const repository = getHistoryRepository();
+    const found = repository.search(workspaceId, { ...range, campaign, uploader, limit: ANALYTICS_LIMIT + 1 });
+    const results = found.slice(0, ANALYTICS_LIMIT);
+
+    const timestamps = results.map((result) => result.timestamp ?? 0);
+    const span = (range.to ?? Math.max(0, ...timestamps)) - (range.from ?? Math.min(Date.now(), ...timestamps));
+    const period = periodFor(span);
+
+    const personas = new Map<string, number[]>();
+    for (const result of results) {
+        for (const persona of result.persona_impact) {
+            personas.set(persona.persona_name, [...(personas.get(persona.persona_name) ?? []), persona.impact_score]);
+        }
+    }
+
+    const facets = repository.facets(workspaceId);
+    const names = new Map(getWorkspaceRepository().members(workspaceId).map((member) => [member.user_id, member.name]));
+
+    return {
+        total: results.length,
+        truncated: found.length > ANALYTICS_LIMIT,
+        average_score: results.length ? average(results.map((result) => result.overall_score)) : null,
+        period,
+        score_bands: SCORE_BANDS.map((min, band) => ({
+            min,
+            max: band + 1 < SCORE_BANDS.length ? SCORE_BANDS[band + 1] - 1 : 100,
+            count: results.filter((result) => bandOf(result.overall_score) === band).length,
+        })),
+        score_over_time: scoreOverTime(results, period),
+        personas: [...personas]
+            .map(([persona_name, scores]) => ({ persona_name, average: average(scores), count: scores.length }))
+            .sort((a, b) => a.average - b.average),
+        objections: objectionsByAgent(results),
+        sentiments: SENTIMENTS.map((sentiment) => ({ sentiment, count: results.filter((result) => result.sentiment === sentiment).length })),
+        tips: clusterTips(results),
+        filters: {
+            campaigns: facets.campaigns,
+            uploaders: facets.uploaders
+                .map((id) => ({ id, name: names.get(id) ?? "Ex-membro" }))
+                .sort((a, b) => a.name.localeCompare(b.name)),
+        },
+    };
+}
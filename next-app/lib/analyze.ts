@@ -0,0 +1,284 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { LLMProvider, MAX_RETRIES, ProviderConfigError, isQuotaError } from "@core/llm";
+import { OBJECTION_TYPES, getActiveAgents } from "@core/analysis/agents";
+import { MAX_DELIBERATION_ROUNDS } from "@core/analysis/deliberation";
+import { MAX_CHUNK_CHARS, MAX_DOCUMENT_CHARS, documentText } from "@core/analysis/document";
+import { FINDING_SEVERITIES } from "@core/analysis/findings";
+import { AnalysisConfig } from "@core/analysis/prompt";
+import { runAnalysis } from "@core/analysis/run";
+import { AnalysisProgressEvent, AnalysisResult } from "@/types";
+import { analysisCacheKey, analysisCacheTtl, getAnalysisCache } from "./cache";
+import { estimateUsage, getUsageRepository } from "./usage";
+import { notifyWebhooks } from "./webhook-worker";
+
+// Output of /api/extract, sent back as-is with the analysis
+export const DocumentSchema = z.object({
+    fileName: z.string().min(1).max(255),
+    format: z.enum(["pdf", "docx", "txt"]),
+    pageCount: z.number().int().min(0),
+    paged: z.boolean(),
+    chunks: z.array(z.object({
+        index: z.number().int().min(0),
+        firstPage: z.number().int().min(1),
+        lastPage: z.number().int().min(1),
+        text: z.string().max(MAX_CHUNK_CHARS),
+    })).min(1),
+    truncated: z.boolean(),
+}).refine((doc) => documentText(doc).length <= MAX_DOCUMENT_CHARS, { message: "Documento excede o limite de tamanho." });
+
+// Zod Schema for Validation
+const InputFields = z.object({
+    text: z.string().optional(),
+    image: z.string().optional(), // Base64
+    document: DocumentSchema.optional(),
+});
+
+const hasContent = (data: { text?: string; image?: string; document?: unknown }) => !!(data.text || data.image || data.document);
+const contentMessage = { message: "Pelo menos texto, imagem ou documento deve ser fornecido." };
+
+export const AnalyzeInputSchema = InputFields.refine(hasContent, contentMessage);
+
+export const AgentSchema = z.object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1).max(60),
+    lens: z.string().max(200),
+    objection_type: z.enum(OBJECTION_TYPES),
+    weight: z.number().min(0).max(10),
+    prompt: z.string().max(1000),
+    enabled: z.boolean(),
+    builtin: z.boolean().optional(),
+});
+
+export const PersonaSchema = z.object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1).max(80),
+    demographics: z.string().max(300),
+    motivations: z.string().max(300),
+    objections: z.string().max(300),
+    channel: z.string().max(120),
+    enabled: z.boolean(),
+    builtin: z.boolean().optional(),
+});
+
+// Jury and audience settings sent by the client along with the input
+export const AnalysisConfigSchema = z.object({
+    agents: z.array(AgentSchema)
+        .refine((agents) => agents.some((agent) => agent.enabled), { message: "Pelo menos um agente deve estar ativo." })
+        .optional(),
+    personas: z.array(PersonaSchema)
+        .refine((personas) => personas.some((persona) => persona.enabled), { message: "Selecione pelo menos uma persona." })
+        .optional(),
+    // Rounds of debate between the agents after their opening verdicts
+    deliberation: z.number().int().min(0).max(MAX_DELIBERATION_ROUNDS).optional(),
+    // Re-run the model even when the same input was analyzed before
+    force: z.boolean().optional(),
+});
+
+export const AnalyzeSchema = InputFields.extend(AnalysisConfigSchema.shape).refine(hasContent, contentMessage);
+
+// For the routes that save the result: with parent_id it is saved as the next version of that analysis,
+// filed under the campaign when one is given
+export const StoredAnalyzeSchema = InputFields.extend(AnalysisConfigSchema.shape)
+    .extend({ parent_id: z.string().min(1).max(100).optional(), campaign: z.string().trim().max(80).optional() })
+    .refine(hasContent, contentMessage);
+
+export type AnalyzeInput = z.infer<typeof AnalyzeInputSchema>;
+
+const point = { label: z.string(), x: z.number(), y: z.number() };
+
+// A finished result with everything a report draws, as the history stores it and the
+// API returns it; older results may carry the legacy heatmap. Checks the results the
+// client sends back (history, export), down to the nested fields, and drops unknown
+// ones. Also describes analyses in the OpenAPI document.
+export const CompleteAnalysisResultSchema = z.object({
+    analysis_id: z.string().min(1).max(100),
+    overall_score: z.number(),
+    sentiment: z.enum(["positive", "neutral_positive", "neutral", "negative"]),
+    simulated_heatmap: z.union([
+        z.object({
+            attention_points: z.array(z.object({ ...point, weight: z.number(), radius: z.number() })),
+            ignored_regions: z.array(z.object({ ...point, width: z.number(), height: z.number() })).optional(),
+        }),
+        z.object({ focal_point_1: z.object(point), focal_point_2: z.object(point), ignored_area: z.string() }),
+    ]),
+    agents_feedback: z.array(z.object({
+        agent_name: z.string(),
+        verdict: z.string(),
+        score: z.number(),
+        objection_type: z.enum(OBJECTION_TYPES),
+    })),
+    persona_impact: z.array(z.object({ persona_name: z.string(), impact_score: z.number() })),
+    actionable_tips: z.array(z.string()),
+    findings: z.array(z.object({
+        agent_name: z.string(),
+        objection_type: z.enum(OBJECTION_TYPES),
+        severity: z.enum(FINDING_SEVERITIES),
+        excerpt: z.string(),
+        comment: z.string(),
+        suggested_rewrite: z.string(),
+        start: z.number().int().nullable(),
+        end: z.number().int().nullable(),
+    })).optional(),
+    deliberation: z.object({
+        rounds: z.number().int(),
+        turns: z.array(z.object({
+            round: z.number().int(),
+            agent_name: z.string(),
+            responds_to: z.string().nullable(),
+            message: z.string(),
+            score: z.number(),
+        })),
+        scores: z.array(z.object({ agent_name: z.string(), opening_score: z.number(), final_score: z.number() })),
+    }).optional(),
+    timestamp: z.number().optional(),
+    parent_id: z.string().optional(),
+    version: z.number().int().optional(),
+    campaign: z.string().trim().max(80).optional(),
+    sourceText: z.string().optional(),
+    sourceImage: z.string().optional(),
+    sourceDocument: DocumentSchema.optional(),
+    warning: z.string().optional(),
+    image_fallback: z.boolean().optional(),
+}) satisfies z.ZodType<AnalysisResult>;
+
+/** The result as stored in the history, with the input it was made from. */
+export const withSource = (result: AnalysisResult, { text, image, document }: AnalyzeInput): AnalysisResult => ({
+    ...result,
+    timestamp: Date.now(),
+    sourceText: text || document?.fileName || "N/A",
+    sourceImage: image,
+    sourceDocument: document,
+});
+
+// The input a saved result was produced from, as recorded by withSource
+export const inputOf = ({ sourceText, sourceImage, sourceDocument }: AnalysisResult): AnalyzeInput => ({
+    text: sourceText && sourceText !== "N/A" && sourceText !== sourceDocument?.fileName ? sourceText : undefined,
+    image: sourceImage,
+    document: sourceDocument,
+});
+
+// Enough of the input for a webhook receiver to recognize it
+export const sourceExcerpt = ({ text, document }: AnalyzeInput) => (text || document?.fileName || "").slice(0, 200);
+
+export type ProgressListener = (event: AnalysisProgressEvent) => void;
+
+export interface AnalyzeOptions {
+    onProgress?: ProgressListener;
+    force?: boolean; // skip the cache lookup; the new answer still replaces the cached one
+    client?: string; // ClientIdentity id the analysis is counted against
+    workspace?: string; // workspace whose webhooks hear when the analysis fails
+}
+
+/**
+ * Runs the agent panel on a single input (text and/or image), with retry and
+ * the text-only fallback for images the model refuses to process.
+ * A complete answer for the same input and configuration is served from
+ * the analysis cache unless `force` is set.
+ * With a `client`, the analysis and its estimated tokens are added to the
+ * client's usage. With a `workspace`, its webhooks are notified of the
+ * error once the retries are exhausted. Callers send analysis.completed
+ * themselves: the routes that save the result once it is in the history,
+ * the others as soon as it is returned.
+ * The analysis_id is assigned here so history entries never collide.
+ * onProgress receives every stage except "done" and "error", which are up
+ * to the caller.
+ */
+export async function analyzeInput(input: AnalyzeInput, provider: LLMProvider, config: AnalysisConfig = {}, { onProgress, force = false, client, workspace }: AnalyzeOptions = {}): Promise<AnalysisResult> {
+    onProgress?.({ type: "started", agents: getActiveAgents(config.agents).map((agent) => agent.name) });
+
+    const cache = getAnalysisCache();
+    const key = cache && analysisCacheKey(input, config, `${provider.name}:${process.env.LLM_MODEL ?? ""}`);
+    const cached = cache && key && !force ? cache.get(key) : null;
+    if (cached) onProgress?.({ type: "cached", cached_at: cached.created_at });
+
+    let result: AnalysisResult;
+    try {
+        result = cached?.result ?? await runWithFallback(input, provider, config, onProgress);
+    } catch (error) {
+        if (workspace) notifyWebhooks(workspace, "analysis.failed", { error: analysisErrorMessage(error), source_text: sourceExcerpt(input) });
+        throw error;
+    }
+
+    // Partial or text-only answers are not reused; a new run may do better
+    if (cache && key && !cached && !result.warning) cache.set(key, result, analysisCacheTtl());
+
+    if (client) {
+        getUsageRepository().record(client, cached
+            ? { cached: true, input_tokens: 0, output_tokens: 0 }
+            : { cached: false, ...estimateUsage(input, config, result) });
+    }
+
+    // The model answers in one piece, so verdicts are reported as soon as the whole answer is parsed
+    result.agents_feedback?.forEach((feedback) => onProgress?.({ type: "agent", agent_name: feedback.agent_name, score: feedback.score }));
+
+    return { ...result, analysis_id: randomUUID() };
+}
+
+async function runWithFallback({ text, image, document }: AnalyzeInput, provider: LLMProvider, config: AnalysisConfig, onProgress?: ProgressListener): Promise<AnalysisResult> {
+    let retries = 0;
+
+    try {
+        return await runAnalysis<AnalysisResult>(provider, { text, image, document }, config, {
+            onRetry: ({ attempt, delay }) => {
+                retries++;
+                onProgress?.({ type: "retrying", attempt, max_attempts: MAX_RETRIES + 1, delay });
+            },
+        });
+    } catch (error) {
+        // Fallback Strategy (Image Failure -> Text Only), only after at least one retry failed
+        if (image && (text || document) && retries >= 1) {
+            console.warn("Falling back to text-only mode due to persistent image processing issues.");
+            onProgress?.({ type: "fallback", reason: "A imagem não pôde ser processada. Continuando apenas com o texto." });
+            const result = await runAnalysis<AnalysisResult>(provider, { text, document }, config, { maxRetries: 0 });
+            return {
+                ...result,
+                image_fallback: true,
+                warning: "A análise visual falhou (Erro/Segurança). Resultados baseados apenas em texto."
+            };
+        }
+
+        throw error;
+    }
+}
+
+/** What users (and webhooks) are told about an error; never the provider's own message. */
+export function analysisErrorMessage(error: unknown): string {
+    if (error instanceof ProviderConfigError) return error.message;
+
+    return isQuotaError(error)
+        ? "Limite de requisições excedido. Por favor, tente novamente em alguns instantes."
+        : "Erro interno no processamento de IA.";
+}
+
+/**
+ * Maps an error thrown by getProvider or analyzeInput to the JSON error body
+ * and status the frontend expects.
+ */
+export function describeAnalysisError(error: unknown) {
+    console.error("❌ API Error:", error);
+
+    if (error instanceof ProviderConfigError) {
+        return { status: 500, body: { error: error.message } };
+    }
+
+    const err = error as { status?: number; message?: string; stack?: string };
+    const isDev = process.env.NODE_ENV === 'development';
+
+    return {
+        status: err.status || 500,
+        body: {
+            error: analysisErrorMessage(error),
+            ...(isDev && {
+                details: err.message,
+                stack: err.stack
+            })
+        },
+    };
+}
+
+export function analysisErrorResponse(error: unknown) {
+    const { status, body } = describeAnalysisError(error);
+    return NextResponse.json(body, { status });
+}
@@ -0,0 +1,26 @@
+/** Thrown by the API helpers when the server answers 429 for the rate limit. */
+export class RateLimitError extends Error {
+    constructor(public retryAfter: number | null, message: string) {
+        super(message);
+        this.name = "RateLimitError";
+    }
+}
+
+/**
+ * Turns a failed API response into an Error carrying the server message.
+ * A rate limit 429 becomes a RateLimitError with the wait from Retry-After.
+ */
+export async function responseError(response: Response, fallback: string): Promise<Error> {
+    const errorData = await response.json().catch(() => ({}));
+
+    if (response.status === 429 && errorData.code === "rate_limited") {
+        const header = Number(response.headers.get("Retry-After"));
+        const retryAfter = Number.isFinite(header) && header > 0 ? header : errorData.retry_after ?? null;
+        const message = retryAfter
+            ? `Limite de requisições excedido. Tente novamente em ${retryAfter}s.`
+            : errorData.error || "Limite de requisições excedido.";
+        return new RateLimitError(retryAfter, message);
+    }
+
+    return new Error(errorData.error || fallback);
+}
@@ -0,0 +1,155 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ApiKey, CreatedApiKey, User } from "@/types";
+import { getDb } from "./db";
+
+const KEY_PREFIX = "ak_";
+
+// Enough of the key to recognize it in the list, not enough to guess it
+const VISIBLE_CHARS = KEY_PREFIX.length + 6;
+
+export const ApiKeyNameSchema = z.object({ name: z.string().trim().min(1).max(80) });
+
+/** A valid key and the workspace it acts on. */
+export interface ApiKeyCaller {
+    apiKey: ApiKey;
+    workspace_id: string;
+}
+
+/**
+ * Storage backend for the API keys of each workspace. Like sessions, keys
+ * are stored as SHA-256 digests and cannot be read back after creation.
+ * SQLite is the default and HISTORY_STORE=memory keeps them in memory.
+ */
+export interface ApiKeyRepository {
+    create(workspaceId: string, name: string, createdBy: User): CreatedApiKey;
+    list(workspaceId: string): ApiKey[];
+    /** Deletes the key; false when it does not exist in the workspace. */
+    revoke(workspaceId: string, id: string): boolean;
+    /** Looks the key up and records that it was used; null when unknown. */
+    authenticate(key: string, now: number): ApiKeyCaller | null;
+}
+
+const hashKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+const newKey = () => {
+    const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+    return { key, prefix: key.slice(0, VISIBLE_CHARS) };
+};
+
+interface ApiKeyRow extends ApiKey {
+    workspace_id: string;
+}
+
+export class SqliteApiKeyRepository implements ApiKeyRepository {
+    create(workspaceId: string, name: string, createdBy: User): CreatedApiKey {
+        const { key, prefix } = newKey();
+        const apiKey: ApiKey = { id: randomUUID(), name, prefix, created_by: createdBy.name, created_at: Date.now(), last_used_at: null };
+
+        getDb().prepare(
+            `INSERT INTO api_keys (id, workspace_id, name, key_hash, prefix, created_by, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`
+        ).run(apiKey.id, workspaceId, name, hashKey(key), prefix, createdBy.id, apiKey.created_at);
+
+        return { ...apiKey, key };
+    }
+
+    list(workspaceId: string): ApiKey[] {
+        return getDb().prepare(
+            `SELECT k.id, k.name, k.prefix, COALESCE(u.name, '') AS created_by, k.created_at, k.last_used_at
+             FROM api_keys k LEFT JOIN users u ON u.id = k.created_by
+             WHERE k.workspace_id = ? ORDER BY k.created_at`
+        ).all(workspaceId) as ApiKey[];
+    }
+
+    revoke(workspaceId: string, id: string): boolean {
+        return getDb().prepare("DELETE FROM api_keys WHERE workspace_id = ? AND id = ?").run(workspaceId, id).changes > 0;
+    }
+
+    authenticate(key: string, now: number): ApiKeyCaller | null {
+        const db = getDb();
+        const row = db.prepare(
+            `SELECT k.id, k.workspace_id, k.name, k.prefix, COALESCE(u.name, '') AS created_by, k.created_at, k.last_used_at
+             FROM api_keys k LEFT JOIN users u ON u.id = k.created_by WHERE k.key_hash = ?`
+        ).get(hashKey(key)) as ApiKeyRow | undefined;
+        if (!row) return null;
+
+        db.prepare("UPDATE api_keys SET last_used_at = ? WHERE id = ?").run(now, row.id);
+        const { workspace_id, ...apiKey } = row;
+        return { apiKey: { ...apiKey, last_used_at: now }, workspace_id };
+    }
+}
+
+export class MemoryApiKeyRepository implements ApiKeyRepository {
+    // Keyed by the digest of the key
+    private keys = new Map<string, ApiKeyRow>();
+
+    create(workspaceId: string, name: string, createdBy: User): CreatedApiKey {
+        const { key, prefix } = newKey();
+        const apiKey: ApiKey = { id: randomUUID(), name, prefix, created_by: createdBy.name, created_at: Date.now(), last_used_at: null };
+        this.keys.set(hashKey(key), { ...apiKey, workspace_id: workspaceId });
+        return { ...apiKey, key };
+    }
+
+    list(workspaceId: string): ApiKey[] {
+        return [...this.keys.values()]
+            .filter((row) => row.workspace_id === workspaceId)
+            .sort((a, b) => a.created_at - b.created_at)
+            .map(({ id, name, prefix, created_by, created_at, last_used_at }) => ({ id, name, prefix, created_by, created_at, last_used_at }));
+    }
+
+    revoke(workspaceId: string, id: string): boolean {
+        const found = [...this.keys].find(([, row]) => row.workspace_id === workspaceId && row.id === id);
+        return !!found && this.keys.delete(found[0]);
+    }
+
+    authenticate(key: string, now: number): ApiKeyCaller | null {
+        const row = this.keys.get(hashKey(key));
+        if (!row) return null;
+
+        row.last_used_at = now;
+        const { workspace_id, ...apiKey } = row;
+        return { apiKey, workspace_id };
+    }
+}
+
+const globalForApiKeys = globalThis as unknown as { apiKeyRepository?: ApiKeyRepository };
+
+/**
+ * Returns the repository selected by HISTORY_STORE ("sqlite" by default).
+ */
+export function getApiKeyRepository(): ApiKeyRepository {
+    if (!globalForApiKeys.apiKeyRepository) {
+        globalForApiKeys.apiKeyRepository = process.env.HISTORY_STORE === "memory"
+            ? new MemoryApiKeyRepository()
+            : new SqliteApiKeyRepository();
+    }
+
+    return globalForApiKeys.apiKeyRepository;
+}
+
+// Either "Authorization: Bearer <key>" or "X-API-Key: <key>"
+const keyFromRequest = (req: NextRequest) => {
+    const authorization = req.headers.get("authorization");
+    const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    return bearer || req.headers.get("x-api-key")?.trim() || null;
+};
+
+/**
+ * The workspace the request's API key acts on, or the 401 to send back.
+ * Keys have the rights of an editor: they can run, read and delete
+ * analyses but not manage the workspace.
+ */
+export function requireApiKey(req: NextRequest): ApiKeyCaller | NextResponse {
+    const key = keyFromRequest(req);
+    const caller = key ? getApiKeyRepository().authenticate(key, Date.now()) : null;
+    if (!caller) {
+        return NextResponse.json(
+            { error: "Chave de API ausente ou inválida.", code: "invalid_api_key" },
+            { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+        );
+    }
+
+    return caller;
+}
@@ -0,0 +1,258 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { User, Workspace, WorkspaceRole } from "@/types";
+import { getDb } from "./db";
+import { getWorkspaceRepository, hasRole } from "./workspaces";
+
+export const SESSION_COOKIE = "acelerai_session";
+
+const SESSION_TTL = 30 * 24 * 60 * 60_000;
+
+export const LOGIN_TOKEN_TTL = 15 * 60_000;
+
+/** A signed-in user and the workspace their requests act on. */
+export interface Session {
+    token: string;
+    user: User;
+    workspace: Workspace;
+}
+
+/**
+ * Storage backend for users, magic link tokens and sessions. Tokens are
+ * stored as SHA-256 digests, so a leaked database cannot be used to sign in.
+ * Like the history, SQLite is the default and HISTORY_STORE=memory keeps
+ * everything in memory.
+ */
+export interface AuthRepository {
+    getUser(id: string): User | null;
+    findUserByEmail(email: string): User | null;
+    createUser(email: string, name: string): User;
+    /** Returns the token to put in the link. */
+    createLoginToken(email: string, expiresAt: number): string;
+    /** Returns the email the token was sent to and deletes it; null when unknown or expired. */
+    consumeLoginToken(token: string, now: number): string | null;
+    createSession(userId: string, workspaceId: string, expiresAt: number): string;
+    getSession(token: string, now: number): { user: User; workspace_id: string | null } | null;
+    setSessionWorkspace(token: string, workspaceId: string): void;
+    deleteSession(token: string): void;
+}
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+const newToken = () => randomBytes(32).toString("base64url");
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+interface SessionRow extends User {
+    workspace_id: string | null;
+}
+
+export class SqliteAuthRepository implements AuthRepository {
+    getUser(id: string): User | null {
+        return (getDb().prepare("SELECT id, email, name FROM users WHERE id = ?").get(id) as User | undefined) ?? null;
+    }
+
+    findUserByEmail(email: string): User | null {
+        return (getDb().prepare("SELECT id, email, name FROM users WHERE email = ?").get(normalizeEmail(email)) as User | undefined) ?? null;
+    }
+
+    createUser(email: string, name: string): User {
+        const user: User = { id: randomUUID(), email: normalizeEmail(email), name };
+        getDb().prepare("INSERT INTO users (id, email, name, created_at) VALUES (@id, @email, @name, @created_at)").run({ ...user, created_at: Date.now() });
+        return user;
+    }
+
+    createLoginToken(email: string, expiresAt: number): string {
+        const db = getDb();
+        const token = newToken();
+        db.prepare("DELETE FROM login_tokens WHERE expires_at <= ?").run(Date.now());
+        db.prepare("INSERT INTO login_tokens (token_hash, email, expires_at) VALUES (?, ?, ?)").run(hashToken(token), normalizeEmail(email), expiresAt);
+        return token;
+    }
+
+    consumeLoginToken(token: string, now: number): string | null {
+        const db = getDb();
+        return db.transaction(() => {
+            const row = db.prepare("SELECT email, expires_at FROM login_tokens WHERE token_hash = ?").get(hashToken(token)) as { email: string; expires_at: number } | undefined;
+            if (!row) return null;
+
+            db.prepare("DELETE FROM login_tokens WHERE token_hash = ?").run(hashToken(token));
+            return row.expires_at > now ? row.email : null;
+        })();
+    }
+
+    createSession(userId: string, workspaceId: string, expiresAt: number): string {
+        const db = getDb();
+        const token = newToken();
+        db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(Date.now());
+        db.prepare("INSERT INTO sessions (token_hash, user_id, workspace_id, created_at, expires_at) VALUES (?, ?, ?, ?, ?)")
+            .run(hashToken(token), userId, workspaceId, Date.now(), expiresAt);
+        return token;
+    }
+
+    getSession(token: string, now: number): { user: User; workspace_id: string | null } | null {
+        const row = getDb().prepare(
+            `SELECT u.id, u.email, u.name, s.workspace_id FROM sessions s JOIN users u ON u.id = s.user_id
+             WHERE s.token_hash = ? AND s.expires_at > ?`
+        ).get(hashToken(token), now) as SessionRow | undefined;
+        if (!row) return null;
+
+        const { workspace_id, ...user } = row;
+        return { user, workspace_id };
+    }
+
+    setSessionWorkspace(token: string, workspaceId: string): void {
+        getDb().prepare("UPDATE sessions SET workspace_id = ? WHERE token_hash = ?").run(workspaceId, hashToken(token));
+    }
+
+    deleteSession(token: string): void {
+        getDb().prepare("DELETE FROM sessions WHERE token_hash = ?").run(hashToken(token));
+    }
+}
+
+export class MemoryAuthRepository implements AuthRepository {
+    private users = new Map<string, User>();
+    private loginTokens = new Map<string, { email: string; expires_at: number }>();
+    private sessions = new Map<string, { user_id: string; workspace_id: string | null; expires_at: number }>();
+
+    getUser(id: string): User | null {
+        return this.users.get(id) ?? null;
+    }
+
+    findUserByEmail(email: string): User | null {
+        const normalized = normalizeEmail(email);
+        return [...this.users.values()].find((user) => user.email === normalized) ?? null;
+    }
+
+    createUser(email: string, name: string): User {
+        const user: User = { id: randomUUID(), email: normalizeEmail(email), name };
+        this.users.set(user.id, user);
+        return user;
+    }
+
+    createLoginToken(email: string, expiresAt: number): string {
+        const token = newToken();
+        this.loginTokens.set(hashToken(token), { email: normalizeEmail(email), expires_at: expiresAt });
+        return token;
+    }
+
+    consumeLoginToken(token: string, now: number): string | null {
+        const entry = this.loginTokens.get(hashToken(token));
+        this.loginTokens.delete(hashToken(token));
+        return entry && entry.expires_at > now ? entry.email : null;
+    }
+
+    createSession(userId: string, workspaceId: string, expiresAt: number): string {
+        const token = newToken();
+        this.sessions.set(hashToken(token), { user_id: userId, workspace_id: workspaceId, expires_at: expiresAt });
+        return token;
+    }
+
+    getSession(token: string, now: number): { user: User; workspace_id: string | null } | null {
+        const session = this.sessions.get(hashToken(token));
+        const user = session && session.expires_at > now ? this.users.get(session.user_id) : undefined;
+        return user ? { user, workspace_id: session!.workspace_id } : null;
+    }
+
+    setSessionWorkspace(token: string, workspaceId: string): void {
+        const session = this.sessions.get(hashToken(token));
+        if (session) session.workspace_id = workspaceId;
+    }
+
+    deleteSession(token: string): void {
+        this.sessions.delete(hashToken(token));
+    }
+}
+
+const globalForAuth = globalThis as unknown as { authRepository?: AuthRepository };
+
+/**
+ * Returns the repository selected by HISTORY_STORE ("sqlite" by default).
+ */
+export function getAuthRepository(): AuthRepository {
+    if (!globalForAuth.authRepository) {
+        globalForAuth.authRepository = process.env.HISTORY_STORE === "memory"
+            ? new MemoryAuthRepository()
+            : new SqliteAuthRepository();
+    }
+
+    return globalForAuth.authRepository;
+}
+
+// Every user has somewhere to work, even after being removed from all workspaces
+const personalWorkspace = (user: User) => getWorkspaceRepository().create(`Workspace de ${user.name}`, user);
+
+/**
+ * Signs the user in by email, creating the account (and a personal
+ * workspace) on first login. Returns the new session token.
+ */
+export function signIn(email: string): string {
+    const auth = getAuthRepository();
+    const user = auth.findUserByEmail(email) ?? auth.createUser(email, normalizeEmail(email).split("@")[0]);
+    const workspace = getWorkspaceRepository().listForUser(user.id)[0] ?? personalWorkspace(user);
+    return auth.createSession(user.id, workspace.id, Date.now() + SESSION_TTL);
+}
+
+/**
+ * Looks up a session token. The current workspace falls back to the
+ * user's first one when they are no longer a member of it.
+ */
+export function resolveSession(token: string | undefined): Session | null {
+    if (!token) return null;
+
+    const found = getAuthRepository().getSession(token, Date.now());
+    if (!found) return null;
+
+    const workspaces = getWorkspaceRepository();
+    const workspace = (found.workspace_id && workspaces.membership(found.workspace_id, found.user.id))
+        || workspaces.listForUser(found.user.id)[0]
+        || personalWorkspace(found.user);
+
+    return { token, user: found.user, workspace };
+}
+
+export const getSession = (req: NextRequest) => resolveSession(req.cookies.get(SESSION_COOKIE)?.value);
+
+/**
+ * The session of the request when its role in the current workspace is at
+ * least `role`; otherwise the 401 or 403 response to send back.
+ */
+export function requireSession(req: NextRequest, role: WorkspaceRole = "viewer"): Session | NextResponse {
+    const session = getSession(req);
+    if (!session) {
+        return NextResponse.json({ error: "Faça login para continuar.", code: "unauthenticated" }, { status: 401 });
+    }
+
+    return hasRole(session.workspace.role, role) ? session : forbiddenResponse();
+}
+
+export const forbiddenResponse = () =>
+    NextResponse.json({ error: "Seu papel neste workspace não permite esta ação.", code: "forbidden" }, { status: 403 });
+
+export function setSessionCookie(response: NextResponse, token: string) {
+    response.cookies.set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        path: "/",
+        maxAge: SESSION_TTL / 1000,
+    });
+    return response;
+}
+
+/**
+ * Public URL that emailed links point to. The request's own origin comes
+ * from its Host header, which the sender controls, so it stands in for
+ * APP_URL only on a development machine; elsewhere this is null until
+ * APP_URL is set.
+ */
+export const appUrl = (req: NextRequest) =>
+    process.env.APP_URL || (process.env.NODE_ENV === "development" ? req.nextUrl.origin : null);
+
+/** Email and password login for local development; never in production. */
+export const credentialsEnabled = () => process.env.NODE_ENV !== "production";
+
+export function checkDevPassword(password: string): boolean {
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    return timingSafeEqual(digest(password), digest(process.env.AUTH_DEV_PASSWORD || "dev"));
+}
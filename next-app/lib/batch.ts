@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { LLMProvider } from "@core/llm";
+import { AnalysisConfig } from "@core/analysis/prompt";
+import { AnalysisConfigSchema, AnalyzeInputSchema, analyzeInput, describeAnalysisError } from "./analyze";
+import { AnalysisResult, BatchEvent, BatchRow } from "@/types";
+
+export const MAX_BATCH_ITEMS = 50;
+
+// Items analyzed at the same time; the rest wait in the queue
+export const BATCH_CONCURRENCY = 3;
+
+const BatchItemSchema = z.object({ label: z.string().trim().min(1).max(255) }).and(AnalyzeInputSchema);
+
+export const BatchSchema = AnalysisConfigSchema.extend({
+    items: z.array(BatchItemSchema).min(1).max(MAX_BATCH_ITEMS),
+});
+
+export type BatchItem = z.infer<typeof BatchItemSchema>;
+
+export const BatchRowSchema = z.object({
+    index: z.number().int().min(0),
+    label: z.string(),
+    analysis_id: z.string(),
+    overall_score: z.number(),
+    sentiment: z.enum(["positive", "neutral_positive", "neutral", "negative"]),
+    persona_impact: z.array(z.object({ persona_name: z.string(), impact_score: z.number() })),
+    warning: z.string().optional(),
+});
+
+export interface BatchOptions {
+    concurrency?: number;
+    force?: boolean;
+    client?: string;
+    workspace?: string;
+    onResult?: (result: AnalysisResult, item: BatchItem) => AnalysisResult;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const toBatchRow = (index: number, label: string, result: AnalysisResult): BatchRow => ({
+    index,
+    label,
+    analysis_id: result.analysis_id,
+    overall_score: result.overall_score,
+    sentiment: result.sentiment,
+    persona_impact: result.persona_impact,
+    ...(result.warning && { warning: result.warning }),
+});
+
+/**
+ * Analyzes the items with at most `concurrency` requests in flight. When an
+ * item backs off after a quota error, no new item starts until that delay
+ * has passed, so the queue does not keep hitting a rate-limited provider.
+ * Every finished item goes through onResult (e.g. to be saved) before its
+ * "item_done" event. A failed item does not stop the batch.
+ */
+export async function analyzeBatch(
+    items: BatchItem[],
+    provider: LLMProvider,
+    config: AnalysisConfig,
+    send: (event: BatchEvent) => void,
+    { concurrency = BATCH_CONCURRENCY, force, client, workspace, onResult = (result) => result }: BatchOptions = {},
+) {
+    let next = 0;
+    let pausedUntil = 0;
+    let completed = 0;
+    let failed = 0;
+
+    send({ type: "queued", total: items.length, concurrency });
+
+    const work = async () => {
+        while (next < items.length) {
+            const index = next++;
+            const item = items[index];
+
+            const wait = pausedUntil - Date.now();
+            if (wait > 0) await sleep(wait);
+
+            send({ type: "item_started", index });
+            try {
+                const { label, ...input } = item;
+                const result = await analyzeInput(input, provider, config, {
+                    force,
+                    client,
+                    workspace,
+                    onProgress: (event) => {
+                        if (event.type !== "retrying") return;
+                        pausedUntil = Math.max(pausedUntil, Date.now() + event.delay);
+                        send({ type: "item_retrying", index, attempt: event.attempt, max_attempts: event.max_attempts, delay: event.delay });
+                    },
+                });
+                send({ type: "item_done", index, row: toBatchRow(index, label, onResult(result, item)) });
+                completed++;
+            } catch (error) {
+                const { status, body } = describeAnalysisError(error);
+                send({ type: "item_failed", index, status, error: body.error });
+                failed++;
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, work));
+    send({ type: "done", completed, failed });
+}
+
+// Spreadsheets run a text cell starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvField = (value: string | number) => {
+    // Labels, persona names and warnings come from users and the model; a leading ' keeps them text
+    const text = typeof value === "string" && FORMULA_START.test(value) ? `'${value}` : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Batch summary as CSV, one column per persona (in order of first
+ * appearance). Starts with a BOM so spreadsheets read the accents correctly.
+ */
+export function toBatchCsv(rows: BatchRow[]) {
+    const personas = [...new Set(rows.flatMap((row) => row.persona_impact.map((p) => p.persona_name)))];
+    const header = ["item", "label", "analysis_id", "overall_score", "sentiment", ...personas, "warning"];
+
+    const lines = rows.map((row) => [
+        row.index + 1,
+        row.label,
+        row.analysis_id,
+        row.overall_score,
+        row.sentiment,
+        ...personas.map((name) => row.persona_impact.find((p) => p.persona_name === name)?.impact_score ?? ""),
+        row.warning ?? "",
+    ].map(csvField).join(","));
+
+    return "\uFEFF" + [header.map(csvField).join(","), ...lines].join("\r\n") + "\r\n";
+}
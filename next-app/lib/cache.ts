@@ -0,0 +1,128 @@
+import { createHash } from "crypto";
+import { getActiveAgents } from "@core/analysis/agents";
+import { documentText } from "@core/analysis/document";
+import { getSelectedPersonas } from "@core/analysis/personas";
+import { AnalysisConfig, PROMPT_VERSION } from "@core/analysis/prompt";
+import { AnalysisInput } from "@core/analysis/run";
+import { AnalysisResult } from "@/types";
+import { getDb } from "./db";
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+/** A cached answer and when it was produced. */
+export interface CachedAnalysis {
+    result: AnalysisResult;
+    created_at: number;
+}
+
+/**
+ * Store for analysis results keyed by analysisCacheKey. SQLite is the
+ * default, memory is used with HISTORY_STORE=memory and ANALYSIS_CACHE=off
+ * disables caching.
+ */
+export interface AnalysisCache {
+    get(key: string): CachedAnalysis | null;
+    set(key: string, result: AnalysisResult, ttl: number): void;
+    clear(): void;
+}
+
+const normalizeText = (text: string) => text.normalize("NFC").replace(/\s+/g, " ").trim();
+
+// The image is hashed by its bytes, so the data URL prefix does not matter
+const imageBytes = (image: string) => Buffer.from(image.replace(/^data:[^,]*,/, ""), "base64");
+
+/**
+ * Hash of everything that shapes the answer: the normalized text, the image
+ * bytes, the document text, the active jury and audience (in prompt order),
+ * the rounds of deliberation, the prompt version and the model.
+ */
+export function analysisCacheKey({ text, image, document }: AnalysisInput, config: AnalysisConfig, model: string): string {
+    const hash = createHash("sha256");
+    const add = (label: string, value: string | Buffer) => {
+        hash.update(`${label}:${value.length}:`);
+        hash.update(value);
+    };
+
+    add("prompt", PROMPT_VERSION);
+    add("model", model);
+    add("text", normalizeText(text ?? ""));
+    add("image", image ? imageBytes(image) : "");
+    add("document", document ? normalizeText(documentText(document)) : "");
+    add("agents", JSON.stringify(getActiveAgents(config.agents).map(({ name, lens, objection_type, weight, prompt }) => [name, lens, objection_type, weight, prompt])));
+    add("personas", JSON.stringify(getSelectedPersonas(config.personas).map(({ name, demographics, motivations, objections, channel }) => [name, demographics, motivations, objections, channel])));
+    add("deliberation", String(config.deliberation ?? 0));
+
+    return hash.digest("hex");
+}
+
+/** Time to live of new entries, from ANALYSIS_CACHE_TTL_HOURS (one week by default). */
+export function analysisCacheTtl(): number {
+    const hours = Number(process.env.ANALYSIS_CACHE_TTL_HOURS);
+    return (Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_TTL_HOURS) * 3_600_000;
+}
+
+interface CacheRow {
+    result_json: string;
+    created_at: number;
+}
+
+export class SqliteAnalysisCache implements AnalysisCache {
+    get(key: string): CachedAnalysis | null {
+        const row = getDb().prepare("SELECT result_json, created_at FROM analysis_cache WHERE key = ? AND expires_at > ?")
+            .get(key, Date.now()) as CacheRow | undefined;
+        return row ? { result: JSON.parse(row.result_json), created_at: row.created_at } : null;
+    }
+
+    set(key: string, result: AnalysisResult, ttl: number): void {
+        const db = getDb();
+        const now = Date.now();
+        db.prepare("DELETE FROM analysis_cache WHERE expires_at <= ?").run(now);
+        db.prepare(
+            `INSERT INTO analysis_cache (key, result_json, created_at, expires_at) VALUES (?, ?, ?, ?)
+             ON CONFLICT (key) DO UPDATE SET result_json = excluded.result_json, created_at = excluded.created_at, expires_at = excluded.expires_at`
+        ).run(key, JSON.stringify(result), now, now + ttl);
+    }
+
+    clear(): void {
+        getDb().prepare("DELETE FROM analysis_cache").run();
+    }
+}
+
+export class MemoryAnalysisCache implements AnalysisCache {
+    private entries = new Map<string, CachedAnalysis & { expires_at: number }>();
+
+    get(key: string): CachedAnalysis | null {
+        const entry = this.entries.get(key);
+        if (!entry || entry.expires_at <= Date.now()) return null;
+        return { result: entry.result, created_at: entry.created_at };
+    }
+
+    set(key: string, result: AnalysisResult, ttl: number): void {
+        const now = Date.now();
+        for (const [k, entry] of this.entries) {
+            if (entry.expires_at <= now) this.entries.delete(k);
+        }
+        this.entries.set(key, { result, created_at: now, expires_at: now + ttl });
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+const globalForCache = globalThis as unknown as { analysisCache?: AnalysisCache | null };
+
+/**
+ * Returns the store selected by ANALYSIS_CACHE ("sqlite", "memory" or "off").
+ * Without it the cache follows HISTORY_STORE. Null when caching is off.
+ */
+export function getAnalysisCache(): AnalysisCache | null {
+    if (globalForCache.analysisCache === undefined) {
+        const store = process.env.ANALYSIS_CACHE || (process.env.HISTORY_STORE === "memory" ? "memory" : "sqlite");
+        globalForCache.analysisCache = store === "off"
+            ? null
+            : store === "memory" ? new MemoryAnalysisCache() : new SqliteAnalysisCache();
+    }
+
+    return globalForCache.analysisCache;
+}
@@ -0,0 +1,79 @@
+import { AnalysisResult, BattleSide, ComparisonResult, ScoreDelta } from "@/types";
+
+// Overall score differences below this are reported as a technical tie.
+const TIE_MARGIN = 2;
+
+// Pairs entries of both sides by name, keeping the order in which they first appear.
+const buildDeltas = <T>(a: T[] = [], b: T[] = [], getName: (item: T) => string, getScore: (item: T) => number): ScoreDelta[] => {
+    const names = [...new Set([...a.map(getName), ...b.map(getName)])];
+
+    return names.map((name) => {
+        const itemA = a.find((item) => getName(item) === name);
+        const itemB = b.find((item) => getName(item) === name);
+        const score_a = itemA ? getScore(itemA) : 0;
+        const score_b = itemB ? getScore(itemB) : 0;
+        return { name, score_a, score_b, delta: score_a - score_b };
+    });
+};
+
+const favors = (delta: ScoreDelta, side: BattleSide) => side === 'A' ? delta.delta > 0 : delta.delta < 0;
+
+const byMargin = (a: ScoreDelta, b: ScoreDelta) => Math.abs(b.delta) - Math.abs(a.delta);
+
+/**
+ * Compares the panel verdicts of two creatives and explains which one won.
+ * Deltas are always expressed as A - B.
+ */
+export function compareAnalyses(resultA: AnalysisResult, resultB: AnalysisResult): ComparisonResult {
+    const overall_delta = resultA.overall_score - resultB.overall_score;
+    const agent_deltas = buildDeltas(resultA.agents_feedback, resultB.agents_feedback, (f) => f.agent_name, (f) => f.score);
+    const persona_deltas = buildDeltas(resultA.persona_impact, resultB.persona_impact, (p) => p.persona_name, (p) => p.impact_score);
+
+    let winner: ComparisonResult['winner'] = 'tie';
+    if (Math.abs(overall_delta) >= TIE_MARGIN) {
+        winner = overall_delta > 0 ? 'A' : 'B';
+    } else {
+        // Overall scores too close: the side most agents preferred takes it
+        const agentWins = agent_deltas.reduce((acc, d) => acc + Math.sign(d.delta), 0);
+        if (agentWins !== 0) winner = agentWins > 0 ? 'A' : 'B';
+    }
+
+    const reasons: string[] = [];
+
+    if (winner === 'tie') {
+        reasons.push(`Empate técnico: diferença de ${Math.abs(overall_delta)} ponto(s) no score geral e o conselho ficou dividido.`);
+    } else {
+        const loser: BattleSide = winner === 'A' ? 'B' : 'A';
+        const winnerResult = winner === 'A' ? resultA : resultB;
+
+        if (Math.abs(overall_delta) >= TIE_MARGIN) {
+            reasons.push(`A variante ${winner} superou a ${loser} por ${Math.abs(overall_delta)} pontos no score geral (A ${resultA.overall_score} × B ${resultB.overall_score}).`);
+        } else {
+            reasons.push(`Scores gerais praticamente empatados, mas a maioria do conselho preferiu a variante ${winner}.`);
+        }
+
+        agent_deltas.filter((d) => favors(d, winner)).sort(byMargin).slice(0, 3).forEach((d) => {
+            const verdict = winnerResult.agents_feedback?.find((f) => f.agent_name === d.name)?.verdict;
+            reasons.push(`${d.name} deu ${Math.abs(d.delta)} pontos a mais para a variante ${winner}${verdict ? `: "${verdict}"` : '.'}`);
+        });
+
+        persona_deltas.filter((d) => favors(d, winner)).sort(byMargin).slice(0, 2).forEach((d) => {
+            reasons.push(`Maior impacto projetado em "${d.name}" (+${Math.abs(d.delta)}).`);
+        });
+
+        const strongestLoss = agent_deltas.filter((d) => favors(d, loser)).sort(byMargin)[0];
+        if (strongestLoss) {
+            reasons.push(`Ponto de atenção: ${strongestLoss.name} preferiu a variante ${loser} (${Math.abs(strongestLoss.delta)} pontos).`);
+        }
+    }
+
+    return {
+        winner,
+        overall_delta,
+        agent_deltas,
+        persona_deltas,
+        reasons,
+        result_a: resultA,
+        result_b: resultB,
+    };
+}
@@ -0,0 +1,203 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), "data", "acelerai.db");
+
+// Applied in order; the index of each entry + 1 is stored in PRAGMA user_version
+const MIGRATIONS: string[] = [
+    `CREATE TABLE analyses (
+        id TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        source_text TEXT NOT NULL DEFAULT '',
+        overall_score INTEGER NOT NULL,
+        sentiment TEXT NOT NULL,
+        result_json TEXT NOT NULL,
+        source_image TEXT
+    );
+    CREATE INDEX analyses_created_at ON analyses (created_at DESC);`,
+    `CREATE TABLE share_tokens (
+        token TEXT PRIMARY KEY,
+        analysis_id TEXT NOT NULL REFERENCES analyses (id) ON DELETE CASCADE,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER
+    );
+    CREATE INDEX share_tokens_analysis ON share_tokens (analysis_id);`,
+    `CREATE TABLE jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        run_after INTEGER NOT NULL,
+        locked_until INTEGER,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        input_json TEXT,
+        events_json TEXT NOT NULL DEFAULT '[]',
+        analysis_id TEXT,
+        error TEXT
+    );
+    CREATE INDEX jobs_runnable ON jobs (status, run_after);`,
+    `CREATE TABLE analysis_cache (
+        key TEXT PRIMARY KEY,
+        result_json TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+    );
+    CREATE INDEX analysis_cache_expires_at ON analysis_cache (expires_at);`,
+    `CREATE TABLE usage (
+        client TEXT NOT NULL,
+        day TEXT NOT NULL,
+        requests INTEGER NOT NULL DEFAULT 0,
+        cached INTEGER NOT NULL DEFAULT 0,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cost REAL NOT NULL DEFAULT 0,
+        PRIMARY KEY (client, day)
+    );
+    ALTER TABLE jobs ADD COLUMN client TEXT;`,
+    `CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+    );
+    CREATE TABLE login_tokens (
+        token_hash TEXT PRIMARY KEY,
+        email TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+    );
+    CREATE TABLE sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        workspace_id TEXT,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+    );
+    CREATE TABLE workspaces (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        agents_json TEXT,
+        personas_json TEXT
+    );
+    CREATE TABLE workspace_members (
+        workspace_id TEXT NOT NULL REFERENCES workspaces (id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (workspace_id, user_id)
+    );
+    CREATE INDEX workspace_members_user ON workspace_members (user_id);
+    ALTER TABLE analyses ADD COLUMN workspace_id TEXT;
+    CREATE INDEX analyses_workspace ON analyses (workspace_id, created_at DESC);
+    ALTER TABLE jobs ADD COLUMN workspace_id TEXT;`,
+    `CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        workspace_id TEXT NOT NULL REFERENCES workspaces (id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        prefix TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER
+    );
+    CREATE INDEX api_keys_workspace ON api_keys (workspace_id, created_at);`,
+    `CREATE TABLE webhooks (
+        id TEXT PRIMARY KEY,
+        workspace_id TEXT NOT NULL REFERENCES workspaces (id) ON DELETE CASCADE,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events_json TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+    );
+    CREATE INDEX webhooks_workspace ON webhooks (workspace_id, created_at);
+    CREATE TABLE webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL REFERENCES webhooks (id) ON DELETE CASCADE,
+        event TEXT NOT NULL,
+        payload_json TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        run_after INTEGER NOT NULL,
+        locked_until INTEGER,
+        response_status INTEGER,
+        error TEXT
+    );
+    CREATE INDEX webhook_deliveries_runnable ON webhook_deliveries (status, run_after);
+    CREATE INDEX webhook_deliveries_webhook ON webhook_deliveries (webhook_id, created_at DESC);`,
+    `CREATE TABLE chat_messages (
+        id TEXT PRIMARY KEY,
+        analysis_id TEXT NOT NULL REFERENCES analyses (id) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        author TEXT,
+        created_at INTEGER NOT NULL
+    );
+    CREATE INDEX chat_messages_analysis ON chat_messages (analysis_id, created_at);`,
+    `ALTER TABLE analyses ADD COLUMN parent_id TEXT;
+    ALTER TABLE analyses ADD COLUMN lineage_id TEXT;
+    ALTER TABLE analyses ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+    UPDATE analyses SET lineage_id = id;
+    CREATE INDEX analyses_lineage ON analyses (lineage_id, version);`,
+    `ALTER TABLE analyses ADD COLUMN campaign TEXT;
+    ALTER TABLE analyses ADD COLUMN created_by TEXT;
+    ALTER TABLE jobs ADD COLUMN user_id TEXT;`,
+];
+
+function migrate(db: Database.Database) {
+    const current = db.pragma("user_version", { simple: true }) as number;
+
+    for (let version = current; version < MIGRATIONS.length; version++) {
+        db.transaction(() => {
+            db.exec(MIGRATIONS[version]);
+            db.pragma(`user_version = ${version + 1}`);
+        })();
+    }
+}
+
+/**
+ * Moves the analyses saved before accounts existed into the workspace named
+ * by LEGACY_ANALYSES_WORKSPACE. Until an operator sets it they belong to no
+ * workspace, so nobody sees them.
+ */
+function claimLegacyAnalyses(db: Database.Database) {
+    const workspaceId = process.env.LEGACY_ANALYSES_WORKSPACE;
+    if (!workspaceId) return;
+
+    if (!db.prepare("SELECT 1 FROM workspaces WHERE id = ?").get(workspaceId)) {
+        console.warn(`⚠️ LEGACY_ANALYSES_WORKSPACE ${workspaceId} does not exist; analyses without a workspace were left as they are`);
+        return;
+    }
+
+    const { changes } = db.prepare("UPDATE analyses SET workspace_id = ? WHERE workspace_id IS NULL").run(workspaceId);
+    if (changes > 0) console.info(`📦 Moved ${changes} analyses without a workspace into ${workspaceId}`);
+}
+
+// Survives hot reloads in dev so we don't leak file handles
+const globalForDb = globalThis as unknown as { acelerDb?: Database.Database };
+
+/**
+ * Shared SQLite connection, opened on first use at DATABASE_PATH
+ * (defaults to next-app/data/acelerai.db) with all migrations applied and
+ * the analyses from before accounts claimed, when LEGACY_ANALYSES_WORKSPACE
+ * is set.
+ */
+export function getDb(): Database.Database {
+    if (!globalForDb.acelerDb) {
+        const file = process.env.DATABASE_PATH || DEFAULT_DB_PATH;
+        if (file !== ":memory:") {
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+        }
+
+        const db = new Database(file);
+        db.pragma("journal_mode = WAL");
+        db.pragma("foreign_keys = ON");
+        migrate(db);
+        claimLegacyAnalyses(db);
+        globalForDb.acelerDb = db;
+    }
+
+    return globalForDb.acelerDb;
+}
@@ -0,0 +1,76 @@
+import { extractText, getDocumentProxy } from "unpdf";
+import mammoth from "mammoth";
+import { DocumentFormat, DocumentPage, ExtractedDocument, chunkPages, limitChunks } from "@core/analysis/document";
+
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+
+const FORMATS_BY_MIME: Record<string, DocumentFormat> = {
+    "application/pdf": "pdf",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+    "text/plain": "txt",
+};
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = { pdf: "pdf", docx: "docx", txt: "txt" };
+
+export class DocumentExtractionError extends Error {
+    constructor(message: string, public status = 422) {
+        super(message);
+        this.name = "DocumentExtractionError";
+    }
+}
+
+// Browsers report an empty or generic type for some DOCX files, so fall back to the extension
+export function detectFormat(fileName: string, mimeType: string): DocumentFormat | null {
+    const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+    return FORMATS_BY_MIME[mimeType] ?? FORMATS_BY_EXTENSION[extension] ?? null;
+}
+
+async function readPages(format: DocumentFormat, data: Uint8Array): Promise<DocumentPage[]> {
+    switch (format) {
+        case "pdf": {
+            const pdf = await getDocumentProxy(data);
+            const { text } = await extractText(pdf, { mergePages: false });
+            return text.map((pageText, index) => ({ number: index + 1, text: pageText }));
+        }
+        case "docx": {
+            const { value } = await mammoth.extractRawText({ buffer: Buffer.from(data) });
+            return [{ number: 1, text: value }];
+        }
+        case "txt":
+            return [{ number: 1, text: new TextDecoder("utf-8").decode(data) }];
+    }
+}
+
+/**
+ * Extracts the text of an uploaded PDF, DOCX or TXT file and splits it into
+ * page-aware chunks ready to be sent with an analysis.
+ */
+export async function extractDocument(fileName: string, mimeType: string, data: Uint8Array): Promise<ExtractedDocument> {
+    const format = detectFormat(fileName, mimeType);
+    if (!format) {
+        throw new DocumentExtractionError("Formato não suportado. Envie PDF, DOCX ou TXT.", 415);
+    }
+
+    let pages: DocumentPage[];
+    try {
+        pages = await readPages(format, data);
+    } catch (error) {
+        console.error("❌ Extraction Error:", error);
+        throw new DocumentExtractionError("Não foi possível ler o arquivo. Verifique se ele não está corrompido ou protegido por senha.");
+    }
+
+    const { chunks, truncated } = limitChunks(chunkPages(pages));
+    if (chunks.length === 0) {
+        // Typically a scanned PDF without a text layer
+        throw new DocumentExtractionError("Nenhum texto encontrado no arquivo. PDFs digitalizados precisam de OCR antes do envio.");
+    }
+
+    return {
+        fileName,
+        format,
+        pageCount: pages.length,
+        paged: format === "pdf",
+        chunks,
+        truncated,
+    };
+}
@@ -0,0 +1,456 @@
+import { randomBytes, randomUUID } from "crypto";
+import { z } from "zod";
+import { AnalysisResult, ChatMessage, HistoryEntry, HistoryPage, ShareToken } from "@/types";
+import { getDb } from "./db";
+
+export interface HistoryQuery {
+    page: number;
+    limit: number;
+    q?: string;
+}
+
+// Narrows the analyses read for the workspace analytics; `to` is exclusive
+export interface HistoryFilter {
+    from?: number;
+    to?: number;
+    campaign?: string;
+    uploader?: string; // user ID
+    limit: number;
+}
+
+// Values the analyses of a workspace were filed under
+export interface HistoryFacets {
+    campaigns: string[];
+    uploaders: string[]; // user IDs
+}
+
+// Query string of the history list, in the app and in /api/v1/analyses
+export const HistoryListSchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    q: z.string().trim().max(200).optional(),
+});
+
+/**
+ * Storage backend for saved analyses. SQLite is the default; the in-memory
+ * implementation is used with HISTORY_STORE=memory (tests, read-only hosts).
+ * Every analysis belongs to a workspace and is only listed, changed or
+ * shared within it. Its follow-up chat is stored with it and deleted along.
+ */
+export interface HistoryRepository {
+    list(workspaceId: string, query: HistoryQuery): HistoryPage;
+    /** Without a workspace, looks the analysis up anywhere (share links). */
+    get(id: string, workspaceId?: string): AnalysisResult | null;
+    /**
+     * A new analysis with `parent_id` becomes the next version of its parent's
+     * lineage; a parent outside the workspace is dropped. The version is
+     * always assigned here, and re-saving an analysis keeps its place.
+     * `uploaderId` is the member who submitted it, kept from the first save.
+     * Returns null, without writing, when the ID belongs to another workspace;
+     * the IDs assigned by analyzeInput are fresh and never do.
+     */
+    save(workspaceId: string, result: AnalysisResult, uploaderId?: string): AnalysisResult | null;
+    remove(workspaceId: string, id: string): boolean;
+    clear(workspaceId: string): void;
+    /** Returns null when the analysis does not exist in the workspace. */
+    createShare(workspaceId: string, analysisId: string, expiresAt: number | null): ShareToken | null;
+    getShare(token: string): ShareToken | null;
+    /** The chat thread, oldest first; null when the analysis does not exist in the workspace. */
+    messages(workspaceId: string, analysisId: string): ChatMessage[] | null;
+    /** Appends to the thread and returns the saved messages; null when the analysis does not exist in the workspace. */
+    addMessages(workspaceId: string, analysisId: string, messages: Omit<ChatMessage, "id">[]): ChatMessage[] | null;
+    /** Every version of the analysis's asset, oldest first; null when the analysis does not exist in the workspace. */
+    lineage(workspaceId: string, analysisId: string): AnalysisResult[] | null;
+    /** Analyses matching the filter, newest first and without their images. */
+    search(workspaceId: string, filter: HistoryFilter): AnalysisResult[];
+    facets(workspaceId: string): HistoryFacets;
+}
+
+interface ChatMessageRow {
+    id: string;
+    role: ChatMessage["role"];
+    content: string;
+    author: string | null;
+    created_at: number;
+}
+
+interface AnalysisRow {
+    id: string;
+    created_at: number;
+    source_text: string;
+    overall_score: number;
+    sentiment: AnalysisResult["sentiment"];
+    result_json: string;
+    source_image: string | null;
+    workspace_id: string | null;
+    parent_id: string | null;
+    lineage_id: string | null;
+    version: number;
+    campaign: string | null;
+    created_by: string | null;
+}
+
+// Where a saved analysis sits in its asset's history
+interface Placement {
+    parent_id: string | null;
+    lineage_id: string;
+    version: number;
+}
+
+const toEntry = (result: AnalysisResult): HistoryEntry => ({
+    analysis_id: result.analysis_id,
+    timestamp: result.timestamp ?? 0,
+    sourceText: result.sourceText ?? "",
+    overall_score: result.overall_score,
+    sentiment: result.sentiment,
+    hasImage: !!result.sourceImage,
+    version: result.version ?? 1,
+});
+
+const withTimestamp = (result: AnalysisResult): AnalysisResult => ({
+    ...result,
+    timestamp: result.timestamp ?? Date.now(),
+});
+
+// parent_id and version come from the placement, never from the caller
+const withPlacement = (result: AnalysisResult, { parent_id, version }: Placement): AnalysisResult => ({
+    ...result,
+    parent_id: parent_id ?? undefined,
+    version,
+});
+
+const newShare = (analysisId: string, expiresAt: number | null): ShareToken => ({
+    token: randomBytes(24).toString("base64url"),
+    analysis_id: analysisId,
+    created_at: Date.now(),
+    expires_at: expiresAt,
+});
+
+const newMessages = (messages: Omit<ChatMessage, "id">[]): ChatMessage[] =>
+    messages.map(({ role, content, author, created_at }) => ({ id: randomUUID(), role, content, author, created_at }));
+
+export const isShareActive = (share: ShareToken, now = Date.now()) =>
+    share.expires_at === null || share.expires_at > now;
+
+// Escapes LIKE wildcards so the search term is matched literally
+const likePattern = (q: string) => `%${q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+export class SqliteHistoryRepository implements HistoryRepository {
+    list(workspaceId: string, { page, limit, q }: HistoryQuery): HistoryPage {
+        const db = getDb();
+        const where = q
+            ? "WHERE workspace_id = @workspaceId AND (source_text LIKE @pattern ESCAPE '\\' OR result_json LIKE @pattern ESCAPE '\\')"
+            : "WHERE workspace_id = @workspaceId";
+        const params = { workspaceId, pattern: q ? likePattern(q) : undefined, limit, offset: (page - 1) * limit };
+
+        const { total } = db.prepare(`SELECT COUNT(*) AS total FROM analyses ${where}`).get(params) as { total: number };
+        const rows = db.prepare(
+            `SELECT id, created_at, source_text, overall_score, sentiment, version, source_image IS NOT NULL AS has_image
+             FROM analyses ${where} ORDER BY created_at DESC LIMIT @limit OFFSET @offset`
+        ).all(params) as (Pick<AnalysisRow, "id" | "created_at" | "source_text" | "overall_score" | "sentiment" | "version"> & { has_image: number })[];
+
+        return {
+            items: rows.map((row) => ({
+                analysis_id: row.id,
+                timestamp: row.created_at,
+                sourceText: row.source_text,
+                overall_score: row.overall_score,
+                sentiment: row.sentiment,
+                hasImage: row.has_image === 1,
+                version: row.version,
+            })),
+            total,
+            page,
+            limit,
+        };
+    }
+
+    get(id: string, workspaceId?: string): AnalysisResult | null {
+        const row = getDb().prepare("SELECT * FROM analyses WHERE id = ?").get(id) as AnalysisRow | undefined;
+        if (!row || (workspaceId !== undefined && row.workspace_id !== workspaceId)) return null;
+        return this.toResult(row);
+    }
+
+    save(workspaceId: string, result: AnalysisResult, uploaderId?: string): AnalysisResult | null {
+        const db = getDb();
+
+        return db.transaction(() => {
+            const owner = db.prepare("SELECT workspace_id FROM analyses WHERE id = ?").get(result.analysis_id) as Pick<AnalysisRow, "workspace_id"> | undefined;
+            if (owner && owner.workspace_id !== workspaceId) return null;
+
+            const placement = this.place(workspaceId, result);
+            const saved = withPlacement(withTimestamp(result), placement);
+            // The image is kept in its own column so listings never load it,
+            // and the lineage in its own columns so it is never taken from the body
+            const { sourceImage, ...body } = saved;
+
+            // Upsert rather than REPLACE, which would cascade-delete the share links
+            db.prepare(
+                `INSERT INTO analyses (id, workspace_id, created_at, source_text, overall_score, sentiment, result_json, source_image, parent_id, lineage_id, version, campaign, created_by)
+                 VALUES (@id, @workspace_id, @created_at, @source_text, @overall_score, @sentiment, @result_json, @source_image, @parent_id, @lineage_id, @version, @campaign, @created_by)
+                 ON CONFLICT (id) DO UPDATE SET
+                    created_at = excluded.created_at, source_text = excluded.source_text, overall_score = excluded.overall_score,
+                    sentiment = excluded.sentiment, result_json = excluded.result_json, source_image = excluded.source_image,
+                    campaign = excluded.campaign`
+            ).run({
+                id: saved.analysis_id,
+                workspace_id: workspaceId,
+                created_at: saved.timestamp,
+                source_text: saved.sourceText ?? "",
+                overall_score: saved.overall_score,
+                sentiment: saved.sentiment,
+                result_json: JSON.stringify({ ...body, parent_id: undefined, version: undefined }),
+                source_image: sourceImage ?? null,
+                ...placement,
+                campaign: saved.campaign || null,
+                created_by: uploaderId ?? null,
+            });
+
+            return saved;
+        })();
+    }
+
+    remove(workspaceId: string, id: string): boolean {
+        return getDb().prepare("DELETE FROM analyses WHERE id = ? AND workspace_id = ?").run(id, workspaceId).changes > 0;
+    }
+
+    clear(workspaceId: string): void {
+        getDb().prepare("DELETE FROM analyses WHERE workspace_id = ?").run(workspaceId);
+    }
+
+    createShare(workspaceId: string, analysisId: string, expiresAt: number | null): ShareToken | null {
+        const db = getDb();
+        if (!db.prepare("SELECT 1 FROM analyses WHERE id = ? AND workspace_id = ?").get(analysisId, workspaceId)) return null;
+
+        const share = newShare(analysisId, expiresAt);
+        db.prepare(
+            "INSERT INTO share_tokens (token, analysis_id, created_at, expires_at) VALUES (@token, @analysis_id, @created_at, @expires_at)"
+        ).run(share);
+        return share;
+    }
+
+    getShare(token: string): ShareToken | null {
+        return (getDb().prepare("SELECT * FROM share_tokens WHERE token = ?").get(token) as ShareToken | undefined) ?? null;
+    }
+
+    messages(workspaceId: string, analysisId: string): ChatMessage[] | null {
+        const db = getDb();
+        if (!db.prepare("SELECT 1 FROM analyses WHERE id = ? AND workspace_id = ?").get(analysisId, workspaceId)) return null;
+
+        return db.prepare(
+            "SELECT id, role, content, author, created_at FROM chat_messages WHERE analysis_id = ? ORDER BY created_at, rowid"
+        ).all(analysisId) as ChatMessageRow[];
+    }
+
+    addMessages(workspaceId: string, analysisId: string, messages: Omit<ChatMessage, "id">[]): ChatMessage[] | null {
+        const db = getDb();
+        if (!db.prepare("SELECT 1 FROM analyses WHERE id = ? AND workspace_id = ?").get(analysisId, workspaceId)) return null;
+
+        const saved = newMessages(messages);
+        const insert = db.prepare(
+            "INSERT INTO chat_messages (id, analysis_id, role, content, author, created_at) VALUES (@id, @analysis_id, @role, @content, @author, @created_at)"
+        );
+        db.transaction(() => saved.forEach((message) => insert.run({ ...message, analysis_id: analysisId })))();
+        return saved;
+    }
+
+    lineage(workspaceId: string, analysisId: string): AnalysisResult[] | null {
+        const db = getDb();
+        const row = db.prepare("SELECT lineage_id FROM analyses WHERE id = ? AND workspace_id = ?").get(analysisId, workspaceId) as Pick<AnalysisRow, "lineage_id"> | undefined;
+        if (!row) return null;
+
+        const rows = db.prepare(
+            "SELECT * FROM analyses WHERE lineage_id = ? AND workspace_id = ? ORDER BY version"
+        ).all(row.lineage_id ?? analysisId, workspaceId) as AnalysisRow[];
+        return rows.map((version) => this.toResult(version));
+    }
+
+    search(workspaceId: string, { from, to, campaign, uploader, limit }: HistoryFilter): AnalysisResult[] {
+        const conditions = ["workspace_id = @workspaceId"];
+        if (from !== undefined) conditions.push("created_at >= @from");
+        if (to !== undefined) conditions.push("created_at < @to");
+        if (campaign !== undefined) conditions.push("campaign = @campaign");
+        if (uploader !== undefined) conditions.push("created_by = @uploader");
+
+        const rows = getDb().prepare(
+            `SELECT id, workspace_id, created_at, source_text, overall_score, sentiment, result_json, NULL AS source_image,
+                parent_id, lineage_id, version, campaign, created_by
+             FROM analyses WHERE ${conditions.join(" AND ")} ORDER BY created_at DESC LIMIT @limit`
+        ).all({ workspaceId, from, to, campaign, uploader, limit }) as AnalysisRow[];
+        return rows.map((row) => this.toResult(row));
+    }
+
+    facets(workspaceId: string): HistoryFacets {
+        const db = getDb();
+        const campaigns = db.prepare(
+            "SELECT DISTINCT campaign FROM analyses WHERE workspace_id = ? AND campaign IS NOT NULL ORDER BY campaign"
+        ).all(workspaceId) as Pick<AnalysisRow, "campaign">[];
+        const uploaders = db.prepare(
+            "SELECT DISTINCT created_by FROM analyses WHERE workspace_id = ? AND created_by IS NOT NULL"
+        ).all(workspaceId) as Pick<AnalysisRow, "created_by">[];
+        return { campaigns: campaigns.map((row) => row.campaign!), uploaders: uploaders.map((row) => row.created_by!) };
+    }
+
+    private toResult(row: AnalysisRow): AnalysisResult {
+        return withPlacement({
+            ...JSON.parse(row.result_json),
+            analysis_id: row.id,
+            timestamp: row.created_at,
+            sourceText: row.source_text,
+            ...(row.source_image && { sourceImage: row.source_image }),
+        }, { parent_id: row.parent_id, lineage_id: row.lineage_id ?? row.id, version: row.version });
+    }
+
+    // An existing analysis keeps its place; a new one goes after the last version of its parent's lineage
+    private place(workspaceId: string, { analysis_id, parent_id }: AnalysisResult): Placement {
+        const db = getDb();
+        const existing = db.prepare("SELECT parent_id, lineage_id, version FROM analyses WHERE id = ?").get(analysis_id) as Pick<AnalysisRow, "parent_id" | "lineage_id" | "version"> | undefined;
+        if (existing) return { parent_id: existing.parent_id, lineage_id: existing.lineage_id ?? analysis_id, version: existing.version };
+
+        const parent = parent_id
+            ? db.prepare("SELECT lineage_id FROM analyses WHERE id = ? AND workspace_id = ?").get(parent_id, workspaceId) as Pick<AnalysisRow, "lineage_id"> | undefined
+            : undefined;
+        if (!parent_id || !parent) return { parent_id: null, lineage_id: analysis_id, version: 1 };
+
+        const lineageId = parent.lineage_id ?? parent_id;
+        const { last } = db.prepare("SELECT MAX(version) AS last FROM analyses WHERE lineage_id = ?").get(lineageId) as { last: number };
+        return { parent_id, lineage_id: lineageId, version: last + 1 };
+    }
+}
+
+export class MemoryHistoryRepository implements HistoryRepository {
+    private items = new Map<string, { workspaceId: string; lineageId: string; uploaderId: string | null; result: AnalysisResult }>();
+    private shares = new Map<string, ShareToken>();
+    private threads = new Map<string, ChatMessage[]>();
+
+    list(workspaceId: string, { page, limit, q }: HistoryQuery): HistoryPage {
+        const needle = q?.toLowerCase();
+        const matches = [...this.items.values()]
+            .filter((item) => item.workspaceId === workspaceId)
+            .map((item) => item.result)
+            .filter((result) => !needle || JSON.stringify({ ...result, sourceImage: undefined }).toLowerCase().includes(needle))
+            .sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0));
+
+        return {
+            items: matches.slice((page - 1) * limit, page * limit).map(toEntry),
+            total: matches.length,
+            page,
+            limit,
+        };
+    }
+
+    get(id: string, workspaceId?: string): AnalysisResult | null {
+        const item = this.items.get(id);
+        return item && (workspaceId === undefined || item.workspaceId === workspaceId) ? item.result : null;
+    }
+
+    save(workspaceId: string, result: AnalysisResult, uploaderId?: string): AnalysisResult | null {
+        const existing = this.items.get(result.analysis_id);
+        if (existing && existing.workspaceId !== workspaceId) return null;
+
+        const placement = this.place(workspaceId, result);
+        const saved = withPlacement(withTimestamp(result), placement);
+        const uploader = existing ? existing.uploaderId : uploaderId ?? null;
+        this.items.set(saved.analysis_id, { workspaceId, lineageId: placement.lineage_id, uploaderId: uploader, result: saved });
+        return saved;
+    }
+
+    remove(workspaceId: string, id: string): boolean {
+        if (this.items.get(id)?.workspaceId !== workspaceId) return false;
+
+        for (const [token, share] of this.shares) {
+            if (share.analysis_id === id) this.shares.delete(token);
+        }
+        this.threads.delete(id);
+        return this.items.delete(id);
+    }
+
+    clear(workspaceId: string): void {
+        for (const [id, item] of this.items) {
+            if (item.workspaceId === workspaceId) this.remove(workspaceId, id);
+        }
+    }
+
+    createShare(workspaceId: string, analysisId: string, expiresAt: number | null): ShareToken | null {
+        if (this.items.get(analysisId)?.workspaceId !== workspaceId) return null;
+
+        const share = newShare(analysisId, expiresAt);
+        this.shares.set(share.token, share);
+        return share;
+    }
+
+    getShare(token: string): ShareToken | null {
+        return this.shares.get(token) ?? null;
+    }
+
+    messages(workspaceId: string, analysisId: string): ChatMessage[] | null {
+        if (this.items.get(analysisId)?.workspaceId !== workspaceId) return null;
+        return [...(this.threads.get(analysisId) ?? [])];
+    }
+
+    addMessages(workspaceId: string, analysisId: string, messages: Omit<ChatMessage, "id">[]): ChatMessage[] | null {
+        if (this.items.get(analysisId)?.workspaceId !== workspaceId) return null;
+
+        const saved = newMessages(messages);
+        this.threads.set(analysisId, [...(this.threads.get(analysisId) ?? []), ...saved]);
+        return saved;
+    }
+
+    lineage(workspaceId: string, analysisId: string): AnalysisResult[] | null {
+        const item = this.items.get(analysisId);
+        if (item?.workspaceId !== workspaceId) return null;
+
+        return [...this.items.values()]
+            .filter((other) => other.workspaceId === workspaceId && other.lineageId === item.lineageId)
+            .map((other) => other.result)
+            .sort((a, b) => (a.version ?? 1) - (b.version ?? 1));
+    }
+
+    search(workspaceId: string, { from, to, campaign, uploader, limit }: HistoryFilter): AnalysisResult[] {
+        return [...this.items.values()]
+            .filter((item) => item.workspaceId === workspaceId && (uploader === undefined || item.uploaderId === uploader))
+            .map((item) => ({ ...item.result, sourceImage: undefined }))
+            .filter((result) => {
+                const timestamp = result.timestamp ?? 0;
+                return (from === undefined || timestamp >= from)
+                    && (to === undefined || timestamp < to)
+                    && (campaign === undefined || result.campaign === campaign);
+            })
+            .sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0))
+            .slice(0, limit);
+    }
+
+    facets(workspaceId: string): HistoryFacets {
+        const items = [...this.items.values()].filter((item) => item.workspaceId === workspaceId);
+        return {
+            campaigns: [...new Set(items.map((item) => item.result.campaign).filter((campaign): campaign is string => !!campaign))].sort(),
+            uploaders: [...new Set(items.map((item) => item.uploaderId).filter((id): id is string => !!id))],
+        };
+    }
+
+    private place(workspaceId: string, { analysis_id, parent_id }: AnalysisResult): Placement {
+        const existing = this.items.get(analysis_id);
+        if (existing) return { parent_id: existing.result.parent_id ?? null, lineage_id: existing.lineageId, version: existing.result.version ?? 1 };
+
+        const parent = parent_id ? this.items.get(parent_id) : undefined;
+        if (!parent_id || parent?.workspaceId !== workspaceId) return { parent_id: null, lineage_id: analysis_id, version: 1 };
+
+        const versions = [...this.items.values()].filter((other) => other.lineageId === parent.lineageId).map((other) => other.result.version ?? 1);
+        return { parent_id, lineage_id: parent.lineageId, version: Math.max(...versions) + 1 };
+    }
+}
+
+const globalForHistory = globalThis as unknown as { historyRepository?: HistoryRepository };
+
+/**
+ * Returns the repository selected by HISTORY_STORE ("sqlite" by default).
+ */
+export function getHistoryRepository(): HistoryRepository {
+    if (!globalForHistory.historyRepository) {
+        globalForHistory.historyRepository = process.env.HISTORY_STORE === "memory"
+            ? new MemoryHistoryRepository()
+            : new SqliteHistoryRepository();
+    }
+
+    return globalForHistory.historyRepository;
+}
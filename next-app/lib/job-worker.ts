@@ -0,0 +1,90 @@
+import { isRetryableError } from "@core/llm";
+import { AnalysisProgressEvent } from "@/types";
+import { analyzeInput, describeAnalysisError, sourceExcerpt, withSource } from "./analyze";
+import { getHistoryRepository } from "./history";
+import { ClaimedJob, getJobRepository } from "./jobs";
+import { getProvider } from "./llm";
+import { notifyAnalysisCompleted, notifyWebhooks } from "./webhook-worker";
+
+// Attempts per job; each one already retries the model call with backoff
+export const MAX_JOB_ATTEMPTS = 3;
+
+const JOB_RETRY_DELAY = 30_000;
+
+// Longest a job may run before another worker considers it abandoned
+const JOB_LEASE = 5 * 60_000;
+
+const JOB_CONCURRENCY = 2;
+
+const POLL_INTERVAL = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function processJob({ job, input, owner }: ClaimedJob) {
+    const jobs = getJobRepository();
+    const events: AnalysisProgressEvent[] = [];
+
+    try {
+        const { agents, personas, deliberation, force, parent_id, campaign, ...content } = input;
+        const result = await analyzeInput(content, getProvider(), { agents, personas, deliberation }, {
+            force,
+            client: owner.client,
+            onProgress: (event) => {
+                events.push(event);
+                jobs.progress(job.job_id, events);
+            },
+        });
+
+        const saved = getHistoryRepository().save(owner.workspace_id, { ...withSource(result, content), parent_id, campaign }, owner.user_id)!;
+        jobs.complete(job.job_id, saved.analysis_id);
+        notifyAnalysisCompleted(owner.workspace_id, saved, { job_id: job.job_id });
+    } catch (error) {
+        const { body } = describeAnalysisError(error);
+        if (isRetryableError(error) && job.attempts < MAX_JOB_ATTEMPTS) {
+            jobs.retry(job.job_id, body.error, Date.now() + JOB_RETRY_DELAY);
+        } else {
+            jobs.fail(job.job_id, body.error);
+            notifyWebhooks(owner.workspace_id, "analysis.failed", {
+                error: body.error,
+                source_text: sourceExcerpt(input),
+                job_id: job.job_id,
+            });
+        }
+    }
+}
+
+async function workLoop() {
+    const jobs = getJobRepository();
+
+    while (true) {
+        try {
+            const claimed = jobs.claim(Date.now(), JOB_LEASE);
+            if (claimed) {
+                await processJob(claimed);
+                continue;
+            }
+        } catch (error) {
+            // e.g. the database is locked; the job stays claimable
+            console.error("❌ Job worker error:", error);
+        }
+        await sleep(POLL_INTERVAL);
+    }
+}
+
+// One set of loops per server process, kept across hot reloads in dev
+const globalForWorker = globalThis as unknown as { jobWorkerStarted?: boolean };
+
+/**
+ * Starts the in-process workers on first call. The job routes call it on
+ * every request, so a restarted server resumes the queue (including jobs
+ * left running by the previous process, once their lease expires) as soon
+ * as a client polls again.
+ */
+export function ensureJobWorker() {
+    if (globalForWorker.jobWorkerStarted) return;
+    globalForWorker.jobWorkerStarted = true;
+
+    for (let i = 0; i < JOB_CONCURRENCY; i++) {
+        void workLoop();
+    }
+}
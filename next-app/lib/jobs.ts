@@ -0,0 +1,213 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { AnalysisJob, AnalysisProgressEvent, JobStatus } from "@/types";
+import { StoredAnalyzeSchema } from "./analyze";
+import { getDb } from "./db";
+
+export type JobInput = z.infer<typeof StoredAnalyzeSchema>;
+
+// Where a job comes from: its result goes to the workspace history, its usage to the client
+export interface JobOwner {
+    workspace_id: string;
+    client?: string;
+    user_id?: string; // member who queued it, recorded as the uploader of the analysis
+}
+
+/** A job handed to the worker, with the input it has to analyze. */
+export interface ClaimedJob {
+    job: AnalysisJob;
+    input: JobInput;
+    owner: JobOwner;
+}
+
+/**
+ * Storage backend for analysis jobs. Like the history, SQLite is the
+ * default and HISTORY_STORE=memory keeps jobs in memory.
+ */
+export interface JobRepository {
+    create(input: JobInput, owner: JobOwner): AnalysisJob;
+    /** Only finds jobs queued in the workspace. */
+    get(id: string, workspaceId: string): AnalysisJob | null;
+    /**
+     * Marks the oldest runnable job as running until `now + lease` and
+     * returns it. A running job whose lease expired (its process died) is
+     * runnable again.
+     */
+    claim(now: number, lease: number): ClaimedJob | null;
+    progress(id: string, events: AnalysisProgressEvent[]): void;
+    complete(id: string, analysisId: string): void;
+    /** Puts the job back in the queue, to be picked up again at runAfter. */
+    retry(id: string, error: string, runAfter: number): void;
+    fail(id: string, error: string): void;
+}
+
+interface JobRow {
+    id: string;
+    status: JobStatus;
+    created_at: number;
+    updated_at: number;
+    run_after: number;
+    locked_until: number | null;
+    attempts: number;
+    input_json: string | null;
+    events_json: string;
+    analysis_id: string | null;
+    error: string | null;
+    client: string | null;
+    workspace_id: string | null;
+    user_id: string | null;
+}
+
+const toJob = (row: JobRow): AnalysisJob => ({
+    job_id: row.id,
+    status: row.status,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    attempts: row.attempts,
+    events: JSON.parse(row.events_json),
+    ...(row.status === "queued" && row.attempts > 0 && { next_attempt_at: row.run_after }),
+    ...(row.analysis_id && { analysis_id: row.analysis_id }),
+    ...(row.error && { error: row.error }),
+});
+
+const newRow = (input: JobInput, { workspace_id, client, user_id }: JobOwner): JobRow => {
+    const now = Date.now();
+    return {
+        id: randomUUID(),
+        status: "queued",
+        created_at: now,
+        updated_at: now,
+        run_after: now,
+        locked_until: null,
+        attempts: 0,
+        input_json: JSON.stringify(input),
+        events_json: "[]",
+        analysis_id: null,
+        error: null,
+        client: client ?? null,
+        workspace_id,
+        user_id: user_id ?? null,
+    };
+};
+
+const ownerOf = (row: JobRow): JobOwner => ({ workspace_id: row.workspace_id ?? "", client: row.client ?? undefined, user_id: row.user_id ?? undefined });
+
+const isRunnable = (row: JobRow, now: number) =>
+    (row.status === "queued" && row.run_after <= now) || (row.status === "running" && (row.locked_until ?? 0) < now);
+
+export class SqliteJobRepository implements JobRepository {
+    create(input: JobInput, owner: JobOwner): AnalysisJob {
+        const row = newRow(input, owner);
+        getDb().prepare(
+            `INSERT INTO jobs (id, status, created_at, updated_at, run_after, locked_until, attempts, input_json, events_json, analysis_id, error, client, workspace_id, user_id)
+             VALUES (@id, @status, @created_at, @updated_at, @run_after, @locked_until, @attempts, @input_json, @events_json, @analysis_id, @error, @client, @workspace_id, @user_id)`
+        ).run(row);
+        return toJob(row);
+    }
+
+    get(id: string, workspaceId: string): AnalysisJob | null {
+        const row = getDb().prepare("SELECT * FROM jobs WHERE id = ? AND workspace_id = ?").get(id, workspaceId) as JobRow | undefined;
+        return row ? toJob(row) : null;
+    }
+
+    claim(now: number, lease: number): ClaimedJob | null {
+        const db = getDb();
+        // IMMEDIATE so two processes sharing the database never claim the same job
+        return db.transaction(() => {
+            const row = db.prepare(
+                `SELECT * FROM jobs
+                 WHERE (status = 'queued' AND run_after <= @now) OR (status = 'running' AND locked_until < @now)
+                 ORDER BY created_at LIMIT 1`
+            ).get({ now }) as JobRow | undefined;
+            if (!row) return null;
+
+            const claimed: JobRow = { ...row, status: "running", locked_until: now + lease, attempts: row.attempts + 1, events_json: "[]", updated_at: now };
+            db.prepare(
+                "UPDATE jobs SET status = @status, locked_until = @locked_until, attempts = @attempts, events_json = @events_json, updated_at = @updated_at WHERE id = @id"
+            ).run(claimed);
+            return { job: toJob(claimed), input: JSON.parse(row.input_json ?? "{}"), owner: ownerOf(row) };
+        }).immediate();
+    }
+
+    progress(id: string, events: AnalysisProgressEvent[]): void {
+        getDb().prepare("UPDATE jobs SET events_json = ?, updated_at = ? WHERE id = ?").run(JSON.stringify(events), Date.now(), id);
+    }
+
+    complete(id: string, analysisId: string): void {
+        // The input (and its image) now lives in the history entry
+        getDb().prepare(
+            "UPDATE jobs SET status = 'done', analysis_id = ?, error = NULL, input_json = NULL, locked_until = NULL, updated_at = ? WHERE id = ?"
+        ).run(analysisId, Date.now(), id);
+    }
+
+    retry(id: string, error: string, runAfter: number): void {
+        getDb().prepare(
+            "UPDATE jobs SET status = 'queued', error = ?, run_after = ?, locked_until = NULL, updated_at = ? WHERE id = ?"
+        ).run(error, runAfter, Date.now(), id);
+    }
+
+    fail(id: string, error: string): void {
+        getDb().prepare(
+            "UPDATE jobs SET status = 'failed', error = ?, locked_until = NULL, updated_at = ? WHERE id = ?"
+        ).run(error, Date.now(), id);
+    }
+}
+
+export class MemoryJobRepository implements JobRepository {
+    private rows = new Map<string, JobRow>();
+
+    private update(id: string, patch: Partial<JobRow>) {
+        const row = this.rows.get(id);
+        if (row) this.rows.set(id, { ...row, ...patch, updated_at: Date.now() });
+    }
+
+    create(input: JobInput, owner: JobOwner): AnalysisJob {
+        const row = newRow(input, owner);
+        this.rows.set(row.id, row);
+        return toJob(row);
+    }
+
+    get(id: string, workspaceId: string): AnalysisJob | null {
+        const row = this.rows.get(id);
+        return row && row.workspace_id === workspaceId ? toJob(row) : null;
+    }
+
+    claim(now: number, lease: number): ClaimedJob | null {
+        const row = [...this.rows.values()].filter((r) => isRunnable(r, now)).sort((a, b) => a.created_at - b.created_at)[0];
+        if (!row) return null;
+
+        this.update(row.id, { status: "running", locked_until: now + lease, attempts: row.attempts + 1, events_json: "[]" });
+        return { job: toJob(this.rows.get(row.id)!), input: JSON.parse(row.input_json ?? "{}"), owner: ownerOf(row) };
+    }
+
+    progress(id: string, events: AnalysisProgressEvent[]): void {
+        this.update(id, { events_json: JSON.stringify(events) });
+    }
+
+    complete(id: string, analysisId: string): void {
+        this.update(id, { status: "done", analysis_id: analysisId, error: null, input_json: null, locked_until: null });
+    }
+
+    retry(id: string, error: string, runAfter: number): void {
+        this.update(id, { status: "queued", error, run_after: runAfter, locked_until: null });
+    }
+
+    fail(id: string, error: string): void {
+        this.update(id, { status: "failed", error, locked_until: null });
+    }
+}
+
+const globalForJobs = globalThis as unknown as { jobRepository?: JobRepository };
+
+/**
+ * Returns the repository selected by HISTORY_STORE ("sqlite" by default).
+ */
+export function getJobRepository(): JobRepository {
+    if (!globalForJobs.jobRepository) {
+        globalForJobs.jobRepository = process.env.HISTORY_STORE === "memory"
+            ? new MemoryJobRepository()
+            : new SqliteJobRepository();
+    }
+
+    return globalForJobs.jobRepository;
+}
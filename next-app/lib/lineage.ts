@@ -0,0 +1,34 @@
+import { AnalysisResult, LineageEvolution, ScoreSeries } from "@/types";
+
+// Follows each name across the versions, in the order the names first appear
+const series = (versions: AnalysisResult[], scoresOf: (result: AnalysisResult) => { name: string; score: number }[]): ScoreSeries[] => {
+    const byName = new Map<string, (number | null)[]>();
+
+    versions.forEach((result, index) => {
+        for (const { name, score } of scoresOf(result)) {
+            if (!byName.has(name)) byName.set(name, versions.map(() => null));
+            byName.get(name)![index] = score;
+        }
+    });
+
+    return [...byName].map(([name, scores]) => ({ name, scores }));
+};
+
+/**
+ * Score evolution of an asset: the overall score of every version (oldest
+ * first) and each agent and persona followed across them. An agent or
+ * persona that left or joined the jury has null for the versions it missed.
+ */
+export function lineageEvolution(versions: AnalysisResult[]): LineageEvolution {
+    return {
+        versions: versions.map((result) => ({
+            analysis_id: result.analysis_id,
+            version: result.version ?? 1,
+            parent_id: result.parent_id ?? null,
+            timestamp: result.timestamp ?? 0,
+            overall_score: result.overall_score,
+        })),
+        agents: series(versions, (result) => result.agents_feedback.map((agent) => ({ name: agent.agent_name, score: agent.score }))),
+        personas: series(versions, (result) => result.persona_impact.map((persona) => ({ name: persona.persona_name, score: persona.impact_score }))),
+    };
+}
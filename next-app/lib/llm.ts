@@ -0,0 +1,18 @@
+import { createProvider, LLMProvider, ProviderName } from "@core/llm";
+
+/**
+ * Provider selected through environment:
+ * - LLM_PROVIDER: "gemini" (default), "openai" (any OpenAI-compatible server) or "fake"
+ * - LLM_MODEL, LLM_BASE_URL, LLM_API_KEY: model and endpoint overrides
+ * - GEMINI_API_KEY: key used by the Gemini adapter
+ */
+export function getProvider(): LLMProvider {
+    const provider = (process.env.LLM_PROVIDER || "gemini") as ProviderName;
+
+    return createProvider({
+        provider,
+        apiKey: provider === "gemini" ? process.env.GEMINI_API_KEY : process.env.LLM_API_KEY,
+        model: process.env.LLM_MODEL,
+        baseUrl: process.env.LLM_BASE_URL,
+    });
+}
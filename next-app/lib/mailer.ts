@@ -0,0 +1,26 @@
+import nodemailer from "nodemailer";
+
+const DEFAULT_FROM = "Aceleraí <no-reply@acelerai.local>";
+
+/**
+ * Emails a sign-in link through the SMTP server at SMTP_URL (e.g. Mailpit
+ * at smtp://localhost:1025). Without SMTP_URL the link is only logged,
+ * which is enough to sign in on a development machine.
+ */
+export async function sendMagicLink(email: string, url: string) {
+    const smtp = process.env.SMTP_URL;
+    if (!smtp) {
+        console.info(`✉️ Magic link for ${email}: ${url}`);
+        return;
+    }
+
+    await nodemailer.createTransport(smtp).sendMail({
+        from: process.env.SMTP_FROM || DEFAULT_FROM,
+        to: email,
+        subject: "Seu link de acesso ao Aceleraí",
+        text: `Use o link abaixo para entrar no Aceleraí Impact. Ele vale por 15 minutos e só pode ser usado uma vez.\n\n${url}\n\nSe você não pediu este acesso, ignore este email.`,
+        html: `<p>Use o link abaixo para entrar no Aceleraí Impact. Ele vale por 15 minutos e só pode ser usado uma vez.</p>
+<p><a href="${url}">Entrar no Aceleraí</a></p>
+<p>Se você não pediu este acesso, ignore este email.</p>`,
+    });
+}
@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { CompleteAnalysisResultSchema, StoredAnalyzeSchema } from "./analyze";
+import { HistoryListSchema } from "./history";
+
+// Saved analyses always have a version
+const AnalysisResultResponseSchema = CompleteAnalysisResultSchema.extend({ version: z.number().int() });
+
+const HistoryPageSchema = z.object({
+    items: z.array(z.object({
+        analysis_id: z.string(),
+        timestamp: z.number(),
+        sourceText: z.string(),
+        overall_score: z.number(),
+        sentiment: CompleteAnalysisResultSchema.shape.sentiment,
+        hasImage: z.boolean(),
+        version: z.number().int(),
+    })),
+    total: z.number().int(),
+    page: z.number().int(),
+    limit: z.number().int(),
+});
+
+const ErrorSchema = z.object({
+    error: z.string(),
+    code: z.string().optional(),
+    details: z.array(z.unknown()).optional(),
+});
+
+const toSchema = (schema: z.ZodType, io: "input" | "output") =>
+    z.toJSONSchema(schema, { target: "openapi-3.0", io, unrepresentable: "any" });
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (name: string) => ({ content: { "application/json": { schema: ref(name) } } });
+
+const errorResponse = (description: string) => ({ description, ...json("Error") });
+
+// Query parameters are documented one by one from the list schema
+const listParameters = () => {
+    const { properties = {} } = toSchema(HistoryListSchema, "input") as { properties?: Record<string, object> };
+    return Object.entries(properties).map(([name, schema]) => ({ name, in: "query", required: false, schema }));
+};
+
+const idParameter = { name: "id", in: "path", required: true, schema: { type: "string" } };
+
+/**
+ * OpenAPI 3.0 document of /api/v1. Requests are described by the zod
+ * schemas the routes validate with. Analyses are described by
+ * CompleteAnalysisResultSchema, which the export validates with; nothing
+ * checks the results the routes return against it.
+ */
+export function openApiDocument(serverUrl: string) {
+    return {
+        openapi: "3.0.3",
+        info: {
+            title: "Aceleraí Impact API",
+            version: "1.0.0",
+            description: "Auditorias de criativos por um júri sintético de agentes. Autentique com uma chave de API do workspace (Configurações).",
+        },
+        servers: [{ url: serverUrl }],
+        security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+        paths: {
+            "/api/v1/analyses": {
+                post: {
+                    summary: "Run an analysis and save it to the workspace history",
+                    requestBody: { required: true, ...json("AnalyzeRequest") },
+                    responses: {
+                        201: { description: "The finished analysis", ...json("AnalysisResult") },
+                        400: errorResponse("Invalid input"),
+                        401: errorResponse("Missing or invalid API key"),
+                        404: errorResponse("parent_id is not an analysis of the workspace"),
+                        429: errorResponse("Rate limit exceeded; see Retry-After"),
+                        500: errorResponse("Model or server error"),
+                    },
+                },
+                get: {
+                    summary: "List the analyses of the workspace, newest first",
+                    parameters: listParameters(),
+                    responses: {
+                        200: { description: "One page of analyses", ...json("HistoryPage") },
+                        400: errorResponse("Invalid parameters"),
+                        401: errorResponse("Missing or invalid API key"),
+                    },
+                },
+            },
+            "/api/v1/analyses/{id}": {
+                get: {
+                    summary: "Get an analysis",
+                    parameters: [idParameter],
+                    responses: {
+                        200: { description: "The analysis", ...json("AnalysisResult") },
+                        401: errorResponse("Missing or invalid API key"),
+                        404: errorResponse("Not found in the workspace"),
+                    },
+                },
+                delete: {
+                    summary: "Delete an analysis",
+                    parameters: [idParameter],
+                    responses: {
+                        204: { description: "Deleted" },
+                        401: errorResponse("Missing or invalid API key"),
+                        404: errorResponse("Not found in the workspace"),
+                    },
+                },
+            },
+        },
+        components: {
+            securitySchemes: {
+                bearerAuth: { type: "http", scheme: "bearer" },
+                apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+            },
+            schemas: {
+                AnalyzeRequest: toSchema(StoredAnalyzeSchema, "input"),
+                AnalysisResult: toSchema(AnalysisResultResponseSchema, "output"),
+                HistoryPage: toSchema(HistoryPageSchema, "output"),
+                Error: toSchema(ErrorSchema, "output"),
+            },
+        },
+    };
+}
@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { LLMError, LLMProvider, generateJSON, withRetry } from "@core/llm";
+import { MAX_REWRITES, buildRewriteRequest, repairRewrites } from "@core/analysis/optimize";
+import { AnalysisConfig } from "@core/analysis/prompt";
+import { AnalysisResult, BatchRow, OptimizeEvent, OptimizedVariant, RewriteVariant } from "@/types";
+import { AnalyzeInput, inputOf } from "./analyze";
+import { analyzeBatch } from "./batch";
+import { estimateTextUsage, getUsageRepository } from "./usage";
+
+export const OptimizeSchema = z.object({
+    count: z.number().int().min(1).max(MAX_REWRITES).default(3),
+});
+
+export interface OptimizeOptions {
+    client?: string;
+    // Stores a scored rewrite with the input it was scored from; returns it as saved
+    save: (result: AnalysisResult, input: AnalyzeInput) => AnalysisResult;
+}
+
+const toVariant = (rewrite: RewriteVariant, row: BatchRow, original: AnalysisResult): OptimizedVariant => ({
+    ...rewrite,
+    analysis_id: row.analysis_id,
+    overall_score: row.overall_score,
+    score_gain: row.overall_score - original.overall_score,
+    persona_gains: row.persona_impact.map((persona) => ({
+        persona_name: persona.persona_name,
+        impact_score: persona.impact_score,
+        gain: persona.impact_score - (original.persona_impact.find((p) => p.persona_name === persona.persona_name)?.impact_score ?? persona.impact_score),
+    })),
+});
+
+/**
+ * Writes `count` rewrites of the analysis text aimed at its weakest personas,
+ * then scores each one like a batch item (same jury, same image if any) and
+ * saves it. Sends "rewritten", one "variant_done" or "variant_failed" per
+ * rewrite and "done" with the variants ranked by score gain. Throws when no
+ * rewrite could be written; the caller reports it.
+ */
+export async function optimizeAnalysis(
+    original: AnalysisResult,
+    count: number,
+    provider: LLMProvider,
+    config: AnalysisConfig,
+    send: (event: OptimizeEvent) => void,
+    { client, save }: OptimizeOptions,
+) {
+    const input = inputOf(original);
+    const text = input.text ?? "";
+    const request = buildRewriteRequest(text, original, count);
+
+    const raw = await withRetry(() => generateJSON(provider, request));
+    if (client) getUsageRepository().record(client, { cached: false, ...estimateTextUsage(request, JSON.stringify(raw)) });
+
+    const rewrites = repairRewrites(raw, text, original, count);
+    if (rewrites.length === 0) throw new LLMError("O modelo não retornou nenhuma versão reescrita.");
+    send({ type: "rewritten", variants: rewrites });
+
+    const variants: OptimizedVariant[] = [];
+    const items = rewrites.map((rewrite): AnalyzeInput & { label: string } => ({ ...input, label: `Versão ${rewrite.index + 1}`, text: rewrite.text }));
+
+    await analyzeBatch(items, provider, config, (event) => {
+        if (event.type === "item_done") {
+            const variant = toVariant(rewrites[event.index], event.row, original);
+            variants.push(variant);
+            send({ type: "variant_done", variant });
+        } else if (event.type === "item_failed") {
+            send({ type: "variant_failed", index: event.index, error: event.error, status: event.status });
+        }
+    }, { client, onResult: save });
+
+    send({ type: "done", variants: variants.sort((a, b) => b.score_gain - a.score_gain) });
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { User } from "@/types";
+
+const DEFAULT_BURST = 60;
+const DEFAULT_PER_MINUTE = 30;
+
+// Buckets idle for this long are full again and can be dropped
+const BUCKET_IDLE_MS = 60 * 60_000;
+
+/** Who is calling: an API key, a signed-in user or, failing both, the IP. */
+export interface ClientIdentity {
+    id: string; // stable key for buckets and usage, e.g. "ip:203.0.113.7"
+    kind: "key" | "user" | "ip";
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number; // bucket capacity
+    remaining: number; // whole tokens left after this request
+    retryAfter: number | null; // seconds until the request would fit; null when it never will
+}
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+const numberFromEnv = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * Limits from the environment: RATE_LIMIT_BURST requests at once, refilled
+ * at RATE_LIMIT_PER_MINUTE. RATE_LIMIT=off disables the limiter.
+ */
+export const rateLimitConfig = () => ({
+    enabled: process.env.RATE_LIMIT !== "off",
+    burst: numberFromEnv("RATE_LIMIT_BURST", DEFAULT_BURST),
+    perMinute: numberFromEnv("RATE_LIMIT_PER_MINUTE", DEFAULT_PER_MINUTE),
+});
+
+/**
+ * Identifies the caller from the signed-in user, else the first
+ * X-Forwarded-For address (set by the hosting proxy), else X-Real-IP.
+ */
+export function identifyClient(req: NextRequest, user?: User): ClientIdentity {
+    if (user) return { id: `user:${user.id}`, kind: "user" };
+
+    const ip = req.headers.get("x-forwarded-for")?.split(",")[0].trim() || req.headers.get("x-real-ip") || "unknown";
+    return { id: `ip:${ip}`, kind: "ip" };
+}
+
+/** Requests to /api/v1 are counted against their API key. */
+export const apiKeyClient = (apiKeyId: string): ClientIdentity => ({ id: `key:${apiKeyId}`, kind: "key" });
+
+// Kept across hot reloads in dev; one limiter per server process
+const globalForLimiter = globalThis as unknown as { rateLimitBuckets?: Map<string, Bucket> };
+
+const buckets = () => (globalForLimiter.rateLimitBuckets ??= new Map());
+
+/**
+ * Token bucket per client: takes `cost` tokens when available. Each
+ * analysis costs one token, so a batch or a comparison costs one per input.
+ */
+export function consumeRateLimit(client: ClientIdentity, cost = 1, now = Date.now()): RateLimitResult {
+    const { enabled, burst, perMinute } = rateLimitConfig();
+    if (!enabled) return { allowed: true, limit: burst, remaining: burst, retryAfter: null };
+
+    const all = buckets();
+    for (const [id, bucket] of all) {
+        if (now - bucket.updatedAt > BUCKET_IDLE_MS) all.delete(id);
+    }
+
+    const bucket = all.get(client.id) ?? { tokens: burst, updatedAt: now };
+    const tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 60_000) * perMinute);
+
+    if (tokens >= cost) {
+        all.set(client.id, { tokens: tokens - cost, updatedAt: now });
+        return { allowed: true, limit: burst, remaining: Math.floor(tokens - cost), retryAfter: null };
+    }
+
+    all.set(client.id, { tokens, updatedAt: now });
+    const retryAfter = cost > burst || perMinute === 0 ? null : Math.ceil(((cost - tokens) / perMinute) * 60);
+    return { allowed: false, limit: burst, remaining: Math.floor(tokens), retryAfter };
+}
+
+export const rateLimitHeaders = (result: RateLimitResult): Record<string, string> => ({
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    ...(result.retryAfter !== null && { "Retry-After": String(result.retryAfter) }),
+});
+
+/**
+ * 429 sent when the bucket is empty. `code` and `retry_after` (seconds, or
+ * null when the request is larger than the bucket) let the client tell it
+ * apart from a quota error of the model provider.
+ */
+export function rateLimitResponse(result: RateLimitResult) {
+    const error = result.retryAfter === null
+        ? `Esta requisição excede o limite de ${result.limit} análises por cliente.`
+        : `Limite de requisições excedido. Tente novamente em ${result.retryAfter}s.`;
+
+    return NextResponse.json(
+        { error, code: "rate_limited", retry_after: result.retryAfter, limit: result.limit, remaining: result.remaining },
+        { status: 429, headers: rateLimitHeaders(result) },
+    );
+}
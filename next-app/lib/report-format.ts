@@ -0,0 +1,35 @@
+import { documentText } from "@core/analysis/document";
+import { densityColor } from "@core/analysis/heatmap";
+import { AnalysisResult } from "@/types";
+
+// Labels and colors shared by the dashboard and the exported documents
+
+export { getSentimentLabel } from "@core/analysis/sentiment";
+
+// Same thresholds as the score ring and agent bars in ReportDashboard
+export const getScoreHex = (score: number) => {
+    if (score >= 80) return '#34d399';
+    if (score >= 60) return '#fbbf24';
+    return '#f43f5e';
+};
+
+// Same thresholds as the persona impact bars
+export const getImpactHex = (score: number) => {
+    if (score > 70) return '#10b981';
+    if (score > 40) return '#f59e0b';
+    return '#f43f5e';
+};
+
+// Heatmap palette color for an attention point of the given weight
+export const getAttentionHex = (weight: number) =>
+    `#${densityColor(weight).map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+
+export const getReportTitle = (result: AnalysisResult) =>
+    result.sourceImage ? 'Auditoria de Criativo' : 'Auditoria de Documento';
+
+export const getExportFileName = (result: AnalysisResult, extension: string) =>
+    `auditoria-${(result.analysis_id || 'relatorio').slice(0, 8)}.${extension}`;
+
+// Uploaded documents are exported with their extracted text, not just the file name
+export const getAnalyzedText = (result: AnalysisResult) =>
+    (result.sourceDocument ? documentText(result.sourceDocument) : result.sourceText) || 'Nenhum texto disponível.';
@@ -0,0 +1,177 @@
+import { normalizeHeatmap } from "@core/analysis/heatmap";
+import { AnalysisResult, AttentionPoint, IgnoredRegion } from "@/types";
+import { getAnalyzedText, getAttentionHex, getImpactHex, getReportTitle, getScoreHex, getSentimentLabel } from "./report-format";
+
+const escapeHtml = (value: unknown) =>
+    String(value ?? "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+
+const clampScore = (score: number) => Math.min(100, Math.max(0, score || 0));
+
+function scoreRing(score: number) {
+    const size = 110;
+    const stroke = 8;
+    const radius = (size - stroke) / 2;
+    const circumference = radius * 2 * Math.PI;
+    const offset = circumference - (clampScore(score) / 100) * circumference;
+    const color = getScoreHex(score);
+
+    return `<div class="ring">
+        <svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">
+            <circle cx="${size / 2}" cy="${size / 2}" r="${radius}" stroke="#e2e8f0" stroke-width="${stroke}" fill="none"/>
+            <circle cx="${size / 2}" cy="${size / 2}" r="${radius}" stroke="${color}" stroke-width="${stroke}" fill="none"
+                stroke-dasharray="${circumference.toFixed(2)}" stroke-dashoffset="${offset.toFixed(2)}" stroke-linecap="round"
+                transform="rotate(-90 ${size / 2} ${size / 2})"/>
+        </svg>
+        <div class="ring-label"><strong style="color:${color}">${score}</strong><span>Impacto</span></div>
+    </div>`;
+}
+
+function heatmap(result: AnalysisResult) {
+    const { attention_points, ignored_regions } = normalizeHeatmap(result.simulated_heatmap);
+
+    // Static approximation of the canvas heatmap: one radial glow per point, sized by its radius
+    const point = (p: AttentionPoint) => {
+        const color = getAttentionHex(p.weight);
+        const alpha = Math.round(p.weight * 200).toString(16).padStart(2, "0");
+        return `<div class="glow" style="left:${p.x}%;top:${p.y}%;width:${p.radius * 2}%;background:radial-gradient(circle, ${color}${alpha} 0%, ${color}00 70%)"></div>`;
+    };
+    const label = (p: AttentionPoint) =>
+        `<span class="focal" style="left:${p.x}%;top:${p.y}%">${escapeHtml(p.label)} · ${Math.round(p.weight * 100)}%</span>`;
+    const region = (r: IgnoredRegion) =>
+        `<div class="ignored" style="left:${r.x}%;top:${r.y}%;width:${r.width}%;height:${r.height}%"><span>${escapeHtml(r.label)}</span></div>`;
+
+    return `<section>
+        <h3>Atenção IA Visual</h3>
+        <div class="heatmap">
+            <img src="${escapeHtml(result.sourceImage)}" alt="Criativo analisado"/>
+            ${attention_points.map(point).join("")}
+            ${ignored_regions.map(region).join("")}
+            ${attention_points.map(label).join("")}
+        </div>
+        ${ignored_regions.length ? `<p class="muted">Áreas ignoradas: ${ignored_regions.map((r) => escapeHtml(r.label)).join(", ")}</p>` : ""}
+    </section>`;
+}
+
+function sourceText(result: AnalysisResult) {
+    const lines = getAnalyzedText(result).split("\n");
+    return `<section>
+        <h3>Conteúdo Analisado</h3>
+        <blockquote>${lines.map((line) => `<p>${escapeHtml(line)}</p>`).join("")}</blockquote>
+    </section>`;
+}
+
+/**
+ * Renders a stored analysis as a single self-contained HTML document
+ * (inline styles, image embedded as a data URL) for delivery to clients.
+ */
+export function renderReportHtml(result: AnalysisResult): string {
+    const agents = result.agents_feedback || [];
+    const personas = result.persona_impact || [];
+    const tips = Array.isArray(result.actionable_tips) ? result.actionable_tips : [];
+    const date = new Date(result.timestamp ?? Date.now()).toLocaleString("pt-BR");
+    const title = getReportTitle(result);
+
+    return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8"/>
+<meta name="viewport" content="width=device-width, initial-scale=1"/>
+<title>${escapeHtml(title)} · Aceleraí Impact</title>
+<style>
+    * { box-sizing: border-box; }
+    body { margin: 0; font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #0f172a; background: #f8fafc; }
+    header { background: #0a0a0c; color: #fff; padding: 24px 40px; display: flex; justify-content: space-between; align-items: center; }
+    header .brand { font-weight: 900; font-size: 18px; letter-spacing: -0.02em; }
+    header .brand b { color: #3b82f6; }
+    header .meta { font-size: 11px; color: #94a3b8; text-align: right; }
+    main { max-width: 900px; margin: 0 auto; padding: 32px 40px 48px; }
+    .summary { display: flex; gap: 32px; align-items: center; background: #fff; border: 1px solid #e2e8f0; border-radius: 16px; padding: 24px; }
+    .summary h1 { margin: 0 0 8px; font-size: 26px; letter-spacing: -0.02em; }
+    .summary .sentiment { font-size: 11px; font-weight: 900; letter-spacing: 0.2em; color: #64748b; }
+    .ring { position: relative; width: 110px; height: 110px; flex-shrink: 0; }
+    .ring-label { position: absolute; inset: 0; display: flex; flex-direction: column; align-items: center; justify-content: center; }
+    .ring-label strong { font-size: 34px; font-weight: 900; line-height: 1; }
+    .ring-label span { font-size: 8px; font-weight: 900; letter-spacing: 0.2em; text-transform: uppercase; color: #64748b; margin-top: 4px; }
+    section { margin-top: 32px; }
+    h3 { font-size: 11px; font-weight: 900; text-transform: uppercase; letter-spacing: 0.15em; color: #2563eb; margin: 0 0 16px; }
+    .heatmap { position: relative; border-radius: 12px; overflow: hidden; }
+    .heatmap img { display: block; width: 100%; height: auto; }
+    .glow { position: absolute; transform: translate(-50%, -50%); aspect-ratio: 1; border-radius: 50%; }
+    .ignored { position: absolute; border: 1px dashed rgba(255, 255, 255, 0.7); background: rgba(15, 23, 42, 0.3); }
+    .ignored span { position: absolute; left: 4px; bottom: 4px; color: #fff; background: rgba(0, 0, 0, 0.6); font-size: 8px; font-weight: 900; text-transform: uppercase; padding: 2px 6px; border-radius: 4px; }
+    .focal { position: absolute; transform: translate(-50%, 8px); color: #fff; background: rgba(0, 0, 0, 0.7); font-size: 9px; font-weight: 900; text-transform: uppercase; padding: 3px 8px; border-radius: 6px; white-space: nowrap; }
+    blockquote { margin: 0; border-left: 3px solid #93c5fd; padding: 4px 0 4px 20px; font-family: Georgia, serif; font-style: italic; color: #334155; }
+    blockquote p:first-child { font-weight: 700; font-style: normal; color: #0f172a; }
+    .agent { background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; padding: 16px 20px; margin-bottom: 12px; page-break-inside: avoid; }
+    .agent-head { display: flex; justify-content: space-between; align-items: center; margin-bottom: 8px; }
+    .agent-head strong { font-size: 14px; }
+    .agent-head small { display: block; font-size: 9px; font-weight: 900; text-transform: uppercase; letter-spacing: 0.15em; color: #2563eb; }
+    .agent-head .score { font-size: 20px; font-weight: 900; }
+    .track { height: 6px; background: #e2e8f0; border-radius: 999px; overflow: hidden; margin-bottom: 10px; }
+    .track div { height: 100%; border-radius: 999px; }
+    .verdict { font-style: italic; color: #475569; font-size: 13px; margin: 0; }
+    .persona { display: flex; align-items: center; gap: 12px; margin-bottom: 10px; font-size: 12px; }
+    .persona .name { width: 200px; flex-shrink: 0; font-weight: 700; text-transform: uppercase; font-size: 10px; color: #475569; }
+    .persona .track { flex: 1; margin: 0; height: 10px; }
+    .persona .value { width: 40px; text-align: right; font-weight: 900; }
+    ol.tips { padding: 0; margin: 0; list-style: none; counter-reset: tip; }
+    ol.tips li { counter-increment: tip; display: flex; gap: 12px; background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; padding: 12px 16px; margin-bottom: 8px; font-size: 13px; line-height: 1.5; }
+    ol.tips li::before { content: counter(tip); flex-shrink: 0; width: 22px; height: 22px; border-radius: 50%; background: #dbeafe; color: #2563eb; font-weight: 900; font-size: 11px; display: flex; align-items: center; justify-content: center; }
+    .muted { color: #64748b; font-size: 12px; }
+    .warning { background: #fef3c7; border: 1px solid #fcd34d; color: #92400e; border-radius: 12px; padding: 12px 16px; font-size: 12px; margin-top: 16px; }
+    footer { text-align: center; font-size: 10px; color: #94a3b8; padding: 24px; }
+    @media print { body { background: #fff; } header { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+</style>
+</head>
+<body>
+<header>
+    <div class="brand">Aceleraí <b>Impact</b></div>
+    <div class="meta">${escapeHtml(date)}<br/>ID ${escapeHtml(result.analysis_id)}</div>
+</header>
+<main>
+    <div class="summary">
+        ${scoreRing(result.overall_score)}
+        <div>
+            <h1>${escapeHtml(title)}</h1>
+            <div class="sentiment">TOM DE VOZ: ${escapeHtml(getSentimentLabel(result.sentiment))}</div>
+        </div>
+    </div>
+    ${result.warning ? `<div class="warning">${escapeHtml(result.warning)}</div>` : ""}
+
+    ${result.sourceImage ? heatmap(result) : sourceText(result)}
+
+    <section>
+        <h3>Veredito do Conselho</h3>
+        ${agents.map((agent) => `<div class="agent">
+            <div class="agent-head">
+                <div><strong>${escapeHtml(agent.agent_name)}</strong><small>${escapeHtml(agent.objection_type)}</small></div>
+                <span class="score" style="color:${getScoreHex(agent.score)}">${agent.score}</span>
+            </div>
+            <div class="track"><div style="width:${clampScore(agent.score)}%;background:${getScoreHex(agent.score)}"></div></div>
+            <p class="verdict">“${escapeHtml(agent.verdict)}”</p>
+        </div>`).join("")}
+    </section>
+
+    <section>
+        <h3>Impacto em Clientes Mapeados</h3>
+        ${personas.length === 0 ? `<p class="muted">Nenhuma persona avaliada.</p>` : personas.map((p) => `<div class="persona">
+            <span class="name">${escapeHtml(p.persona_name)}</span>
+            <div class="track"><div style="width:${clampScore(p.impact_score)}%;background:${getImpactHex(p.impact_score)}"></div></div>
+            <span class="value">${p.impact_score}%</span>
+        </div>`).join("")}
+    </section>
+
+    <section>
+        <h3>Diretrizes de Otimização</h3>
+        <ol class="tips">${tips.map((tip) => `<li>${escapeHtml(tip)}</li>`).join("")}</ol>
+    </section>
+</main>
+<footer>Relatório gerado pelo Aceleraí Impact · Simulação de júri sintético</footer>
+</body>
+</html>`;
+}
@@ -0,0 +1,294 @@
+import PDFDocument from "pdfkit";
+import { parseImage } from "@core/llm/parts";
+import { normalizeHeatmap } from "@core/analysis/heatmap";
+import { AnalysisResult } from "@/types";
+import { getAnalyzedText, getAttentionHex, getImpactHex, getReportTitle, getScoreHex, getSentimentLabel } from "./report-format";
+
+const PAGE_MARGIN = 48;
+const BRAND_BLUE = "#2563eb";
+const INK = "#0f172a";
+const MUTED = "#64748b";
+const TRACK = "#e2e8f0";
+
+type Doc = PDFKit.PDFDocument;
+
+// pdfkit exposes openImage at runtime but not in its typings; we need the
+// intrinsic size to place the focal points on top of the image
+type OpenedImage = { width: number; height: number };
+const openImage = (doc: Doc, data: Buffer) =>
+    (doc as unknown as { openImage(src: Buffer): OpenedImage }).openImage(data);
+
+const clampScore = (score: number) => Math.min(100, Math.max(0, score || 0));
+
+const contentWidth = (doc: Doc) => doc.page.width - PAGE_MARGIN * 2;
+
+// Starts a new page when the next block would run past the bottom margin
+function ensureSpace(doc: Doc, height: number) {
+    if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+        doc.addPage();
+    }
+}
+
+function sectionTitle(doc: Doc, title: string) {
+    ensureSpace(doc, 60);
+    doc.moveDown(1.5);
+    doc.font("Helvetica-Bold").fontSize(9).fillColor(BRAND_BLUE)
+        .text(title.toUpperCase(), PAGE_MARGIN, doc.y, { characterSpacing: 1.5 });
+    doc.moveDown(0.8);
+}
+
+function bar(doc: Doc, x: number, y: number, width: number, height: number, score: number, color: string) {
+    doc.roundedRect(x, y, width, height, height / 2).fill(TRACK);
+    const filled = (clampScore(score) / 100) * width;
+    if (filled > 0) {
+        doc.roundedRect(x, y, Math.max(filled, height), height, height / 2).fill(color);
+    }
+}
+
+function header(doc: Doc, result: AnalysisResult) {
+    const date = new Date(result.timestamp ?? Date.now()).toLocaleString("pt-BR");
+
+    doc.rect(0, 0, doc.page.width, 64).fill("#0a0a0c");
+    doc.font("Helvetica-Bold").fontSize(16).fillColor("#ffffff").text("Aceleraí ", PAGE_MARGIN, 24, { continued: true })
+        .fillColor("#3b82f6").text("Impact");
+    doc.font("Helvetica").fontSize(8).fillColor("#94a3b8")
+        .text(date, PAGE_MARGIN, 22, { width: contentWidth(doc), align: "right" })
+        .text(`ID ${result.analysis_id}`, { width: contentWidth(doc), align: "right" });
+}
+
+function summary(doc: Doc, result: AnalysisResult) {
+    const top = 96;
+    const radius = 40;
+    const cx = PAGE_MARGIN + radius;
+    const cy = top + radius;
+    const score = clampScore(result.overall_score);
+    const color = getScoreHex(result.overall_score);
+
+    // Score ring, drawn clockwise from 12 o'clock like the dashboard
+    doc.lineWidth(7).circle(cx, cy, radius).stroke(TRACK);
+    if (score >= 100) {
+        doc.circle(cx, cy, radius).stroke(color);
+    } else if (score > 0) {
+        const angle = (score / 100) * Math.PI * 2 - Math.PI / 2;
+        const endX = cx + radius * Math.cos(angle);
+        const endY = cy + radius * Math.sin(angle);
+        doc.lineCap("round")
+            .path(`M ${cx} ${cy - radius} A ${radius} ${radius} 0 ${score > 50 ? 1 : 0} 1 ${endX} ${endY}`)
+            .stroke(color);
+    }
+    doc.lineCap("butt").lineWidth(1);
+
+    doc.font("Helvetica-Bold").fontSize(26).fillColor(color)
+        .text(String(result.overall_score), cx - radius, cy - 16, { width: radius * 2, align: "center" });
+    doc.font("Helvetica-Bold").fontSize(6).fillColor(MUTED)
+        .text("IMPACTO", cx - radius, cy + 12, { width: radius * 2, align: "center", characterSpacing: 1.5 });
+
+    const textX = PAGE_MARGIN + radius * 2 + 28;
+    doc.font("Helvetica-Bold").fontSize(22).fillColor(INK).text(getReportTitle(result), textX, top + 18);
+    doc.font("Helvetica-Bold").fontSize(9).fillColor(MUTED)
+        .text(`TOM DE VOZ: ${getSentimentLabel(result.sentiment)}`, textX, doc.y + 4, { characterSpacing: 1.5 });
+
+    doc.y = top + radius * 2 + 8;
+
+    if (result.warning) {
+        doc.moveDown(1);
+        const height = doc.font("Helvetica").fontSize(9).heightOfString(result.warning, { width: contentWidth(doc) - 20 }) + 16;
+        doc.roundedRect(PAGE_MARGIN, doc.y, contentWidth(doc), height, 6).fill("#fef3c7");
+        doc.fillColor("#92400e").text(result.warning, PAGE_MARGIN + 10, doc.y + 8, { width: contentWidth(doc) - 20 });
+        doc.y += 8;
+    }
+}
+
+function heatmap(doc: Doc, result: AnalysisResult) {
+    sectionTitle(doc, "Atenção IA Visual");
+
+    let image: OpenedImage;
+    try {
+        image = openImage(doc, Buffer.from(parseImage(result.sourceImage!).data, "base64"));
+    } catch {
+        doc.font("Helvetica-Oblique").fontSize(9).fillColor(MUTED)
+            .text("Formato de imagem não suportado no PDF (use PNG ou JPEG). Exporte em HTML para visualizar o heatmap.", PAGE_MARGIN);
+        return;
+    }
+
+    const maxHeight = 340;
+    const scale = Math.min(contentWidth(doc) / image.width, maxHeight / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    ensureSpace(doc, height + 30);
+
+    const x = PAGE_MARGIN + (contentWidth(doc) - width) / 2;
+    const y = doc.y;
+    doc.image(image as unknown as Buffer, x, y, { width, height });
+
+    const { attention_points, ignored_regions } = normalizeHeatmap(result.simulated_heatmap);
+
+    // Same palette as the canvas heatmap, one radial glow per point sized by its radius
+    for (const point of attention_points) {
+        const px = x + (point.x / 100) * width;
+        const py = y + (point.y / 100) * height;
+        const radius = Math.max(4, (point.radius / 100) * width);
+        const color = getAttentionHex(point.weight);
+        const glow = doc.radialGradient(px, py, 0, px, py, radius);
+        glow.stop(0, color, 0.75 * point.weight).stop(1, color, 0);
+        doc.circle(px, py, radius).fill(glow);
+    }
+
+    for (const region of ignored_regions) {
+        const rx = x + (region.x / 100) * width;
+        const ry = y + (region.y / 100) * height;
+        doc.save().rect(rx, ry, (region.width / 100) * width, (region.height / 100) * height)
+            .dash(3, { space: 3 }).lineWidth(0.8).stroke("#ffffff").restore();
+        doc.font("Helvetica-Bold").fontSize(6).fillColor("#ffffff").text(region.label.toUpperCase(), rx + 3, ry + 3, { lineBreak: false });
+    }
+
+    for (const point of attention_points) {
+        const px = x + (point.x / 100) * width;
+        const py = y + (point.y / 100) * height;
+        doc.font("Helvetica-Bold").fontSize(7);
+        const label = `${point.label.toUpperCase()} · ${Math.round(point.weight * 100)}%`;
+        const labelWidth = doc.widthOfString(label) + 10;
+        const labelX = Math.min(Math.max(x, px - labelWidth / 2), x + width - labelWidth);
+        doc.circle(px, py, 2.5).fill("#ffffff");
+        doc.roundedRect(labelX, py + 5, labelWidth, 13, 3).fillOpacity(0.75).fill("#000000").fillOpacity(1);
+        doc.fillColor("#ffffff").text(label, labelX + 5, py + 8, { lineBreak: false });
+    }
+
+    doc.y = y + height;
+    if (ignored_regions.length) {
+        doc.font("Helvetica").fontSize(9).fillColor(MUTED)
+            .text(`Áreas ignoradas: ${ignored_regions.map((region) => region.label).join(", ")}`, PAGE_MARGIN, y + height + 8, { width: contentWidth(doc) });
+    }
+}
+
+function sourceText(doc: Doc, result: AnalysisResult) {
+    sectionTitle(doc, "Conteúdo Analisado");
+
+    const [first, ...rest] = getAnalyzedText(result).split("\n");
+    const top = doc.y;
+    doc.font("Times-Bold").fontSize(11).fillColor(INK).text(first, PAGE_MARGIN + 14, top, { width: contentWidth(doc) - 14 });
+    if (rest.length) {
+        doc.font("Times-Italic").fontSize(11).fillColor("#334155").text(rest.join("\n"), { width: contentWidth(doc) - 14 });
+    }
+    // Left rule only when the quote fit on one page
+    if (doc.y > top) {
+        doc.rect(PAGE_MARGIN, top, 2, doc.y - top).fill("#93c5fd");
+    }
+}
+
+function agents(doc: Doc, result: AnalysisResult) {
+    sectionTitle(doc, "Veredito do Conselho");
+    const width = contentWidth(doc);
+
+    for (const agent of result.agents_feedback || []) {
+        const verdict = `“${agent.verdict}”`;
+        const verdictHeight = doc.font("Helvetica-Oblique").fontSize(9).heightOfString(verdict, { width: width - 24 });
+        const cardHeight = 58 + verdictHeight;
+        ensureSpace(doc, cardHeight + 8);
+
+        const top = doc.y;
+        doc.roundedRect(PAGE_MARGIN, top, width, cardHeight, 8).lineWidth(0.75).stroke(TRACK);
+
+        doc.font("Helvetica-Bold").fontSize(11).fillColor(INK).text(agent.agent_name, PAGE_MARGIN + 12, top + 10, { width: width - 80 });
+        doc.font("Helvetica-Bold").fontSize(7).fillColor(BRAND_BLUE)
+            .text(String(agent.objection_type).toUpperCase(), PAGE_MARGIN + 12, top + 24, { characterSpacing: 1.2 });
+        doc.font("Helvetica-Bold").fontSize(16).fillColor(getScoreHex(agent.score))
+            .text(String(agent.score), PAGE_MARGIN, top + 12, { width: width - 12, align: "right" });
+
+        bar(doc, PAGE_MARGIN + 12, top + 38, width - 24, 5, agent.score, getScoreHex(agent.score));
+
+        doc.font("Helvetica-Oblique").fontSize(9).fillColor("#475569").text(verdict, PAGE_MARGIN + 12, top + 50, { width: width - 24 });
+        doc.y = top + cardHeight + 8;
+    }
+}
+
+function personas(doc: Doc, result: AnalysisResult) {
+    sectionTitle(doc, "Impacto em Clientes Mapeados");
+    const list = result.persona_impact || [];
+
+    if (list.length === 0) {
+        doc.font("Helvetica-Oblique").fontSize(9).fillColor(MUTED).text("Nenhuma persona avaliada.", PAGE_MARGIN);
+        return;
+    }
+
+    const nameWidth = 170;
+    const valueWidth = 36;
+    const barWidth = contentWidth(doc) - nameWidth - valueWidth - 20;
+
+    for (const persona of list) {
+        ensureSpace(doc, 20);
+        const y = doc.y;
+        doc.font("Helvetica-Bold").fontSize(7.5).fillColor("#475569")
+            .text(persona.persona_name.toUpperCase(), PAGE_MARGIN, y + 1, { width: nameWidth, lineBreak: false, ellipsis: true });
+        bar(doc, PAGE_MARGIN + nameWidth + 10, y + 1, barWidth, 8, persona.impact_score, getImpactHex(persona.impact_score));
+        doc.font("Helvetica-Bold").fontSize(9).fillColor(INK)
+            .text(`${persona.impact_score}%`, PAGE_MARGIN + contentWidth(doc) - valueWidth, y, { width: valueWidth, align: "right" });
+        doc.y = y + 18;
+    }
+}
+
+function tips(doc: Doc, result: AnalysisResult) {
+    sectionTitle(doc, "Diretrizes de Otimização");
+    const list = Array.isArray(result.actionable_tips) ? result.actionable_tips : [];
+    const textWidth = contentWidth(doc) - 30;
+
+    list.forEach((tip, index) => {
+        const height = doc.font("Helvetica").fontSize(9.5).heightOfString(tip, { width: textWidth });
+        ensureSpace(doc, height + 10);
+        const y = doc.y;
+
+        doc.circle(PAGE_MARGIN + 9, y + 6, 9).fill("#dbeafe");
+        doc.font("Helvetica-Bold").fontSize(8).fillColor(BRAND_BLUE).text(String(index + 1), PAGE_MARGIN, y + 2, { width: 18, align: "center" });
+        doc.font("Helvetica").fontSize(9.5).fillColor("#334155").text(tip, PAGE_MARGIN + 30, y, { width: textWidth });
+        doc.y = Math.max(doc.y, y + 18) + 6;
+    });
+}
+
+function footers(doc: Doc) {
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        // Writing inside the bottom margin would otherwise trigger a page break
+        const bottom = doc.page.margins.bottom;
+        doc.page.margins.bottom = 0;
+        doc.font("Helvetica").fontSize(7).fillColor("#94a3b8").text(
+            `Relatório gerado pelo Aceleraí Impact · Simulação de júri sintético · ${i + 1}/${range.count}`,
+            PAGE_MARGIN, doc.page.height - 30, { width: contentWidth(doc), align: "center", lineBreak: false },
+        );
+        doc.page.margins.bottom = bottom;
+    }
+}
+
+/**
+ * Renders a stored analysis as a branded A4 PDF with the same sections as
+ * ReportDashboard.
+ */
+export function renderReportPdf(result: AnalysisResult): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const doc = new PDFDocument({
+            size: "A4",
+            margin: PAGE_MARGIN,
+            bufferPages: true,
+            info: { Title: `${getReportTitle(result)} · Aceleraí Impact`, Author: "Aceleraí Impact" },
+        });
+
+        const chunks: Buffer[] = [];
+        doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+        doc.on("end", () => resolve(Buffer.concat(chunks)));
+        doc.on("error", reject);
+
+        header(doc, result);
+        summary(doc, result);
+        if (result.sourceImage) {
+            heatmap(doc, result);
+        } else {
+            sourceText(doc, result);
+        }
+        agents(doc, result);
+        personas(doc, result);
+        tips(doc, result);
+        footers(doc);
+
+        doc.end();
+    });
+}
@@ -0,0 +1,35 @@
+import imageCompression from 'browser-image-compression';
+import { ExtractedDocument } from '@/types';
+
+const readAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(event.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+// Images are shrunk before upload; the original is used if compression fails
+export async function readImage(file: File): Promise<string> {
+    try {
+        const compressedFile = await imageCompression(file, {
+            maxSizeMB: 1,
+            maxWidthOrHeight: 1920,
+            useWebWorker: true,
+            fileType: 'image/jpeg'
+        });
+        return await readAsDataUrl(compressedFile);
+    } catch (error) {
+        console.error("Compression failed:", error);
+        return readAsDataUrl(file);
+    }
+}
+
+// Documents are read on the server so the analysis gets their real text
+export async function extractDocument(file: File): Promise<ExtractedDocument> {
+    const body = new FormData();
+    body.append('file', file);
+    const response = await fetch('/api/extract', { method: 'POST', body });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || `Falha na extração (${response.status})`);
+    return data;
+}
@@ -0,0 +1,154 @@
+import { documentText } from "@core/analysis/document";
+import { AnalysisConfig, buildSystemPrompt } from "@core/analysis/prompt";
+import { AnalysisInput } from "@core/analysis/run";
+import { LLMRequest } from "@core/llm";
+import { AnalysisResult, UsageTotals } from "@/types";
+import { getDb } from "./db";
+
+// Rough size of a text token; good enough for cost estimates
+const CHARS_PER_TOKEN = 4;
+
+// What an image costs on Gemini, whatever its size
+const TOKENS_PER_IMAGE = 258;
+
+// Prices of the default model (gemini-2.0-flash), in USD per million tokens
+const DEFAULT_INPUT_COST_PER_MTOK = 0.1;
+const DEFAULT_OUTPUT_COST_PER_MTOK = 0.4;
+
+/** One analysis as counted against a client. */
+export interface UsageEntry {
+    cached: boolean; // served from the analysis cache; no tokens were spent
+    input_tokens: number;
+    output_tokens: number;
+}
+
+/**
+ * Storage backend for usage counters, one row per client and UTC day.
+ * Like the history, SQLite is the default and HISTORY_STORE=memory keeps
+ * the counters in memory.
+ */
+export interface UsageRepository {
+    record(client: string, entry: UsageEntry, at?: number): void;
+    /** Totals of the client from the day of `since` on. */
+    totals(client: string, since: number): UsageTotals;
+}
+
+const costFromEnv = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const tokens = (chars: number) => Math.ceil(chars / CHARS_PER_TOKEN);
+
+/**
+ * Estimates the tokens of the model calls from the prompt, the input and the
+ * answer. Each round of deliberation sends the input again. Re-asks for
+ * missing entries and retries are not counted.
+ */
+export function estimateUsage({ text, image, document }: AnalysisInput, config: AnalysisConfig, result: AnalysisResult): Omit<UsageEntry, "cached"> {
+    const chars = buildSystemPrompt(config).length + (text?.length ?? 0) + (document ? documentText(document).length : 0);
+    const calls = 1 + (result.deliberation?.rounds ?? 0);
+    return {
+        input_tokens: (tokens(chars) + (image ? TOKENS_PER_IMAGE : 0)) * calls,
+        output_tokens: tokens(JSON.stringify(result).length),
+    };
+}
+
+/** Same estimate for a free-text call such as a chat answer. */
+export function estimateTextUsage({ systemPrompt, history = [], parts }: LLMRequest, answer: string): Omit<UsageEntry, "cached"> {
+    const chars = systemPrompt.length
+        + history.reduce((sum, turn) => sum + turn.text.length, 0)
+        + parts.reduce((sum, part) => sum + ("text" in part ? part.text.length : 0), 0);
+    return {
+        input_tokens: tokens(chars) + parts.filter((part) => "image" in part).length * TOKENS_PER_IMAGE,
+        output_tokens: tokens(answer.length),
+    };
+}
+
+/**
+ * Estimated cost in USD, priced by USAGE_INPUT_COST_PER_MTOK and
+ * USAGE_OUTPUT_COST_PER_MTOK.
+ */
+export function estimateCost(inputTokens: number, outputTokens: number): number {
+    const input = costFromEnv("USAGE_INPUT_COST_PER_MTOK", DEFAULT_INPUT_COST_PER_MTOK);
+    const output = costFromEnv("USAGE_OUTPUT_COST_PER_MTOK", DEFAULT_OUTPUT_COST_PER_MTOK);
+    return (inputTokens * input + outputTokens * output) / 1_000_000;
+}
+
+const dayOf = (at: number) => new Date(at).toISOString().slice(0, 10);
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, cached: 0, input_tokens: 0, output_tokens: 0, cost: 0 });
+
+export class SqliteUsageRepository implements UsageRepository {
+    record(client: string, entry: UsageEntry, at = Date.now()): void {
+        getDb().prepare(
+            `INSERT INTO usage (client, day, requests, cached, input_tokens, output_tokens, cost) VALUES (@client, @day, 1, @cached, @input_tokens, @output_tokens, @cost)
+             ON CONFLICT (client, day) DO UPDATE SET
+                requests = requests + 1,
+                cached = cached + excluded.cached,
+                input_tokens = input_tokens + excluded.input_tokens,
+                output_tokens = output_tokens + excluded.output_tokens,
+                cost = cost + excluded.cost`
+        ).run({
+            client,
+            day: dayOf(at),
+            cached: entry.cached ? 1 : 0,
+            input_tokens: entry.input_tokens,
+            output_tokens: entry.output_tokens,
+            cost: estimateCost(entry.input_tokens, entry.output_tokens),
+        });
+    }
+
+    totals(client: string, since: number): UsageTotals {
+        return getDb().prepare(
+            `SELECT COALESCE(SUM(requests), 0) AS requests, COALESCE(SUM(cached), 0) AS cached,
+                    COALESCE(SUM(input_tokens), 0) AS input_tokens, COALESCE(SUM(output_tokens), 0) AS output_tokens, COALESCE(SUM(cost), 0) AS cost
+             FROM usage WHERE client = ? AND day >= ?`
+        ).get(client, dayOf(since)) as UsageTotals;
+    }
+}
+
+export class MemoryUsageRepository implements UsageRepository {
+    private rows = new Map<string, UsageTotals & { client: string; day: string }>();
+
+    record(client: string, entry: UsageEntry, at = Date.now()): void {
+        const day = dayOf(at);
+        const row = this.rows.get(`${client} ${day}`) ?? { client, day, ...emptyTotals() };
+        this.rows.set(`${client} ${day}`, {
+            ...row,
+            requests: row.requests + 1,
+            cached: row.cached + (entry.cached ? 1 : 0),
+            input_tokens: row.input_tokens + entry.input_tokens,
+            output_tokens: row.output_tokens + entry.output_tokens,
+            cost: row.cost + estimateCost(entry.input_tokens, entry.output_tokens),
+        });
+    }
+
+    totals(client: string, since: number): UsageTotals {
+        const from = dayOf(since);
+        return [...this.rows.values()]
+            .filter((row) => row.client === client && row.day >= from)
+            .reduce((sum, row) => ({
+                requests: sum.requests + row.requests,
+                cached: sum.cached + row.cached,
+                input_tokens: sum.input_tokens + row.input_tokens,
+                output_tokens: sum.output_tokens + row.output_tokens,
+                cost: sum.cost + row.cost,
+            }), emptyTotals());
+    }
+}
+
+const globalForUsage = globalThis as unknown as { usageRepository?: UsageRepository };
+
+/**
+ * Returns the repository selected by HISTORY_STORE ("sqlite" by default).
+ */
+export function getUsageRepository(): UsageRepository {
+    if (!globalForUsage.usageRepository) {
+        globalForUsage.usageRepository = process.env.HISTORY_STORE === "memory"
+            ? new MemoryUsageRepository()
+            : new SqliteUsageRepository();
+    }
+
+    return globalForUsage.usageRepository;
+}
@@ -0,0 +1,115 @@
+import { AnalysisResult, WebhookEvent } from "@/types";
+import { ClaimedDelivery, WebhookData, getWebhookRepository, isInternalTarget, signPayload } from "./webhooks";
+
+// Wait before each retry; a delivery is given up after the last one
+const RETRY_DELAYS = [10_000, 60_000, 5 * 60_000, 30 * 60_000];
+
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS.length + 1;
+
+const DELIVERY_TIMEOUT = 10_000;
+
+// Longest a delivery may stay locked before another worker sends it again
+const DELIVERY_LEASE = 60_000;
+
+const POLL_INTERVAL = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function deliver({ delivery, url, secret, body }: ClaimedDelivery) {
+    const webhooks = getWebhookRepository();
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+    let error: string;
+
+    try {
+        // Not retried: the host now points inside the network
+        if (await isInternalTarget(url)) {
+            webhooks.fail(delivery.id, null, "Destino em rede interna bloqueado.");
+            return;
+        }
+
+        const response = await fetch(url, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "User-Agent": "Acelerai-Webhooks/1.0",
+                "X-Acelerai-Event": delivery.event,
+                "X-Acelerai-Delivery": delivery.id,
+                "X-Acelerai-Timestamp": String(timestamp),
+                "X-Acelerai-Signature": signPayload(secret, timestamp, body),
+            },
+            body,
+            redirect: "manual",
+            signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+        });
+        await response.body?.cancel();
+
+        if (response.ok) {
+            webhooks.delivered(delivery.id, response.status);
+            return;
+        }
+        responseStatus = response.status;
+        error = `HTTP ${response.status}`;
+    } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+    }
+
+    if (delivery.attempts < MAX_DELIVERY_ATTEMPTS) {
+        webhooks.retry(delivery.id, responseStatus, error, Date.now() + RETRY_DELAYS[delivery.attempts - 1]);
+    } else {
+        webhooks.fail(delivery.id, responseStatus, error);
+    }
+}
+
+async function deliveryLoop() {
+    const webhooks = getWebhookRepository();
+
+    while (true) {
+        try {
+            const claimed = webhooks.claim(Date.now(), DELIVERY_LEASE);
+            if (claimed) {
+                await deliver(claimed);
+                continue;
+            }
+        } catch (error) {
+            // e.g. the database is locked; the delivery stays claimable
+            console.error("❌ Webhook worker error:", error);
+        }
+        await sleep(POLL_INTERVAL);
+    }
+}
+
+const globalForWorker = globalThis as unknown as { webhookWorkerStarted?: boolean };
+
+/**
+ * Starts the in-process delivery loop on first call. Queuing an event and
+ * the webhook routes call it, so deliveries left pending by a previous
+ * process are resumed.
+ */
+export function ensureWebhookWorker() {
+    if (globalForWorker.webhookWorkerStarted) return;
+    globalForWorker.webhookWorkerStarted = true;
+
+    void deliveryLoop();
+}
+
+/** Queues the event for the workspace's webhooks subscribed to it. */
+export function notifyWebhooks(workspaceId: string, event: WebhookEvent, data: WebhookData) {
+    try {
+        if (getWebhookRepository().enqueue(workspaceId, event, data, Date.now()) > 0) ensureWebhookWorker();
+    } catch (error) {
+        // A broken webhook store must never fail the analysis itself
+        console.error("❌ Could not queue webhook:", error);
+    }
+}
+
+/**
+ * Sends analysis.completed, plus analysis.fallback when the image could not
+ * be analyzed and the result is text-only.
+ */
+export function notifyAnalysisCompleted(workspaceId: string, result: AnalysisResult, extra: Omit<WebhookData, "analysis"> = {}) {
+    // The image and document can be megabytes; GET /api/v1/analyses/:id returns them
+    const analysis = { ...result, sourceImage: undefined, sourceDocument: undefined };
+    notifyWebhooks(workspaceId, "analysis.completed", { ...extra, analysis });
+    if (result.image_fallback) notifyWebhooks(workspaceId, "analysis.fallback", { ...extra, analysis });
+}
@@ -0,0 +1,342 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList } from "net";
+import { z } from "zod";
+import { AnalysisResult, CreatedWebhook, Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from "@/types";
+import { getDb } from "./db";
+
+export const WEBHOOK_EVENTS = ["analysis.completed", "analysis.failed", "analysis.fallback"] as const satisfies readonly WebhookEvent[];
+
+export const WebhookSchema = z.object({
+    url: z.url({ protocol: /^https?$/ }).max(2000),
+    events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).default([...WEBHOOK_EVENTS]),
+});
+
+// Finished deliveries are kept this long in the log
+const DELIVERY_LOG_TTL = 30 * 24 * 60 * 60_000;
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const INTERNAL_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+    ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) INTERNAL_NETWORKS.addSubnet(network, prefix, "ipv4");
+for (const [network, prefix] of [["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+    INTERNAL_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+// Hosts let through anyway, e.g. a receiver on the same machine during development
+const allowedHosts = () => new Set(
+    (process.env.WEBHOOK_ALLOWED_HOSTS ?? "").split(",").map((host) => host.trim().toLowerCase()).filter(Boolean)
+);
+
+/**
+ * Whether the URL's host resolves to an address inside the server's own
+ * network, which webhooks may not reach unless the host is listed in
+ * WEBHOOK_ALLOWED_HOSTS. Checked when a webhook is registered and again
+ * before each delivery, since the DNS answer can change. Throws when the
+ * host does not resolve.
+ */
+export async function isInternalTarget(url: string): Promise<boolean> {
+    const host = new URL(url).hostname.replace(/^\[|\]$/g, "").toLowerCase();
+    if (allowedHosts().has(host)) return false;
+
+    const addresses = await lookup(host, { all: true, verbatim: true });
+    return addresses.some(({ address, family }) => INTERNAL_NETWORKS.check(address, family === 6 ? "ipv6" : "ipv4"));
+}
+
+/** What an event carries besides its name; see the README for each event. */
+export interface WebhookData {
+    analysis?: AnalysisResult; // without the source image and document
+    error?: string;
+    source_text?: string;
+    job_id?: string;
+}
+
+/** A delivery handed to the worker, with where and what to send. */
+export interface ClaimedDelivery {
+    delivery: WebhookDelivery;
+    url: string;
+    secret: string;
+    body: string;
+}
+
+/**
+ * Storage backend for webhooks and their delivery log. Deliveries are
+ * queued like jobs and sent by the worker in webhook-worker.ts. Like the
+ * history, SQLite is the default and HISTORY_STORE=memory keeps everything
+ * in memory.
+ */
+export interface WebhookRepository {
+    create(workspaceId: string, url: string, events: WebhookEvent[]): CreatedWebhook;
+    list(workspaceId: string): Webhook[];
+    get(workspaceId: string, id: string): Webhook | null;
+    /** Deletes the webhook and its delivery log; false when it does not exist in the workspace. */
+    remove(workspaceId: string, id: string): boolean;
+    /** Queues the event for every webhook of the workspace subscribed to it. Returns how many were queued. */
+    enqueue(workspaceId: string, event: WebhookEvent, data: WebhookData, now: number): number;
+    /** Delivery log of the webhook, newest first. */
+    deliveries(webhookId: string, limit: number): WebhookDelivery[];
+    /** Locks the oldest due delivery until `now + lease` and counts the attempt. */
+    claim(now: number, lease: number): ClaimedDelivery | null;
+    delivered(id: string, responseStatus: number): void;
+    retry(id: string, responseStatus: number | null, error: string, runAfter: number): void;
+    fail(id: string, responseStatus: number | null, error: string): void;
+}
+
+const newSecret = () => `whsec_${randomBytes(24).toString("base64url")}`;
+
+/**
+ * Value of the X-Acelerai-Signature header: HMAC-SHA256 of
+ * `${timestamp}.${body}` with the webhook secret, hex encoded.
+ */
+export const signPayload = (secret: string, timestamp: number, body: string) =>
+    `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+// Every retry sends the same body, so receivers can drop duplicates by id
+const payloadOf = (id: string, workspaceId: string, event: WebhookEvent, data: WebhookData, now: number) =>
+    JSON.stringify({ id, event, created_at: now, workspace_id: workspaceId, data });
+
+interface WebhookRow {
+    id: string;
+    workspace_id: string;
+    url: string;
+    secret: string;
+    events_json: string;
+    created_at: number;
+}
+
+interface DeliveryRow {
+    id: string;
+    webhook_id: string;
+    event: WebhookEvent;
+    payload_json: string;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    created_at: number;
+    updated_at: number;
+    run_after: number;
+    locked_until: number | null;
+    response_status: number | null;
+    error: string | null;
+}
+
+const toWebhook = (row: WebhookRow): Webhook => ({
+    id: row.id,
+    url: row.url,
+    events: JSON.parse(row.events_json),
+    created_at: row.created_at,
+});
+
+const toDelivery = (row: DeliveryRow): WebhookDelivery => ({
+    id: row.id,
+    webhook_id: row.webhook_id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    next_attempt_at: row.status === "pending" && row.attempts > 0 ? row.run_after : null,
+    response_status: row.response_status,
+    error: row.error,
+});
+
+const newDelivery = (webhook: WebhookRow, event: WebhookEvent, data: WebhookData, now: number): DeliveryRow => {
+    const id = randomUUID();
+    return {
+        id,
+        webhook_id: webhook.id,
+        event,
+        payload_json: payloadOf(id, webhook.workspace_id, event, data, now),
+        status: "pending",
+        attempts: 0,
+        created_at: now,
+        updated_at: now,
+        run_after: now,
+        locked_until: null,
+        response_status: null,
+        error: null,
+    };
+};
+
+const subscribed = (row: WebhookRow, event: WebhookEvent) => (JSON.parse(row.events_json) as WebhookEvent[]).includes(event);
+
+export class SqliteWebhookRepository implements WebhookRepository {
+    create(workspaceId: string, url: string, events: WebhookEvent[]): CreatedWebhook {
+        const row: WebhookRow = { id: randomUUID(), workspace_id: workspaceId, url, secret: newSecret(), events_json: JSON.stringify(events), created_at: Date.now() };
+        getDb().prepare(
+            "INSERT INTO webhooks (id, workspace_id, url, secret, events_json, created_at) VALUES (@id, @workspace_id, @url, @secret, @events_json, @created_at)"
+        ).run(row);
+        return { ...toWebhook(row), secret: row.secret };
+    }
+
+    list(workspaceId: string): Webhook[] {
+        const rows = getDb().prepare("SELECT * FROM webhooks WHERE workspace_id = ? ORDER BY created_at").all(workspaceId) as WebhookRow[];
+        return rows.map(toWebhook);
+    }
+
+    get(workspaceId: string, id: string): Webhook | null {
+        const row = getDb().prepare("SELECT * FROM webhooks WHERE workspace_id = ? AND id = ?").get(workspaceId, id) as WebhookRow | undefined;
+        return row ? toWebhook(row) : null;
+    }
+
+    remove(workspaceId: string, id: string): boolean {
+        // The delivery log goes with it (ON DELETE CASCADE)
+        return getDb().prepare("DELETE FROM webhooks WHERE workspace_id = ? AND id = ?").run(workspaceId, id).changes > 0;
+    }
+
+    enqueue(workspaceId: string, event: WebhookEvent, data: WebhookData, now: number): number {
+        const db = getDb();
+        return db.transaction(() => {
+            db.prepare("DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < ?").run(now - DELIVERY_LOG_TTL);
+
+            const webhooks = (db.prepare("SELECT * FROM webhooks WHERE workspace_id = ?").all(workspaceId) as WebhookRow[])
+                .filter((row) => subscribed(row, event));
+            const insert = db.prepare(
+                `INSERT INTO webhook_deliveries (id, webhook_id, event, payload_json, status, attempts, created_at, updated_at, run_after, locked_until, response_status, error)
+                 VALUES (@id, @webhook_id, @event, @payload_json, @status, @attempts, @created_at, @updated_at, @run_after, @locked_until, @response_status, @error)`
+            );
+            webhooks.forEach((webhook) => insert.run(newDelivery(webhook, event, data, now)));
+            return webhooks.length;
+        })();
+    }
+
+    deliveries(webhookId: string, limit: number): WebhookDelivery[] {
+        const rows = getDb().prepare("SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC LIMIT ?").all(webhookId, limit) as DeliveryRow[];
+        return rows.map(toDelivery);
+    }
+
+    claim(now: number, lease: number): ClaimedDelivery | null {
+        const db = getDb();
+        // IMMEDIATE so two processes sharing the database never send the same delivery
+        return db.transaction(() => {
+            const row = db.prepare(
+                `SELECT d.*, w.url, w.secret FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+                 WHERE d.status = 'pending' AND d.run_after <= @now AND (d.locked_until IS NULL OR d.locked_until < @now)
+                 ORDER BY d.run_after LIMIT 1`
+            ).get({ now }) as (DeliveryRow & { url: string; secret: string }) | undefined;
+            if (!row) return null;
+
+            const { url, secret, ...delivery } = row;
+            const claimed: DeliveryRow = { ...delivery, attempts: delivery.attempts + 1, locked_until: now + lease, updated_at: now };
+            db.prepare("UPDATE webhook_deliveries SET attempts = @attempts, locked_until = @locked_until, updated_at = @updated_at WHERE id = @id").run(claimed);
+            return { delivery: toDelivery(claimed), url, secret, body: claimed.payload_json };
+        }).immediate();
+    }
+
+    delivered(id: string, responseStatus: number): void {
+        getDb().prepare(
+            "UPDATE webhook_deliveries SET status = 'delivered', response_status = ?, error = NULL, locked_until = NULL, updated_at = ? WHERE id = ?"
+        ).run(responseStatus, Date.now(), id);
+    }
+
+    retry(id: string, responseStatus: number | null, error: string, runAfter: number): void {
+        getDb().prepare(
+            "UPDATE webhook_deliveries SET response_status = ?, error = ?, run_after = ?, locked_until = NULL, updated_at = ? WHERE id = ?"
+        ).run(responseStatus, error, runAfter, Date.now(), id);
+    }
+
+    fail(id: string, responseStatus: number | null, error: string): void {
+        getDb().prepare(
+            "UPDATE webhook_deliveries SET status = 'failed', response_status = ?, error = ?, locked_until = NULL, updated_at = ? WHERE id = ?"
+        ).run(responseStatus, error, Date.now(), id);
+    }
+}
+
+export class MemoryWebhookRepository implements WebhookRepository {
+    private webhooks = new Map<string, WebhookRow>();
+    private rows = new Map<string, DeliveryRow>();
+
+    create(workspaceId: string, url: string, events: WebhookEvent[]): CreatedWebhook {
+        const row: WebhookRow = { id: randomUUID(), workspace_id: workspaceId, url, secret: newSecret(), events_json: JSON.stringify(events), created_at: Date.now() };
+        this.webhooks.set(row.id, row);
+        return { ...toWebhook(row), secret: row.secret };
+    }
+
+    list(workspaceId: string): Webhook[] {
+        return [...this.webhooks.values()]
+            .filter((row) => row.workspace_id === workspaceId)
+            .sort((a, b) => a.created_at - b.created_at)
+            .map(toWebhook);
+    }
+
+    get(workspaceId: string, id: string): Webhook | null {
+        const row = this.webhooks.get(id);
+        return row && row.workspace_id === workspaceId ? toWebhook(row) : null;
+    }
+
+    remove(workspaceId: string, id: string): boolean {
+        if (this.webhooks.get(id)?.workspace_id !== workspaceId) return false;
+
+        this.webhooks.delete(id);
+        for (const row of this.rows.values()) {
+            if (row.webhook_id === id) this.rows.delete(row.id);
+        }
+        return true;
+    }
+
+    enqueue(workspaceId: string, event: WebhookEvent, data: WebhookData, now: number): number {
+        for (const row of this.rows.values()) {
+            if (row.status !== "pending" && row.created_at < now - DELIVERY_LOG_TTL) this.rows.delete(row.id);
+        }
+
+        const webhooks = [...this.webhooks.values()].filter((row) => row.workspace_id === workspaceId && subscribed(row, event));
+        webhooks.forEach((webhook) => {
+            const row = newDelivery(webhook, event, data, now);
+            this.rows.set(row.id, row);
+        });
+        return webhooks.length;
+    }
+
+    deliveries(webhookId: string, limit: number): WebhookDelivery[] {
+        return [...this.rows.values()]
+            .filter((row) => row.webhook_id === webhookId)
+            .sort((a, b) => b.created_at - a.created_at)
+            .slice(0, limit)
+            .map(toDelivery);
+    }
+
+    claim(now: number, lease: number): ClaimedDelivery | null {
+        const row = [...this.rows.values()]
+            .filter((row) => row.status === "pending" && row.run_after <= now && (row.locked_until ?? 0) < now)
+            .sort((a, b) => a.run_after - b.run_after)[0];
+        const webhook = row && this.webhooks.get(row.webhook_id);
+        if (!row || !webhook) return null;
+
+        Object.assign(row, { attempts: row.attempts + 1, locked_until: now + lease, updated_at: now });
+        return { delivery: toDelivery(row), url: webhook.url, secret: webhook.secret, body: row.payload_json };
+    }
+
+    delivered(id: string, responseStatus: number): void {
+        this.update(id, { status: "delivered", response_status: responseStatus, error: null });
+    }
+
+    retry(id: string, responseStatus: number | null, error: string, runAfter: number): void {
+        this.update(id, { response_status: responseStatus, error, run_after: runAfter });
+    }
+
+    fail(id: string, responseStatus: number | null, error: string): void {
+        this.update(id, { status: "failed", response_status: responseStatus, error });
+    }
+
+    private update(id: string, changes: Partial<DeliveryRow>) {
+        const row = this.rows.get(id);
+        if (row) Object.assign(row, changes, { locked_until: null, updated_at: Date.now() });
+    }
+}
+
+const globalForWebhooks = globalThis as unknown as { webhookRepository?: WebhookRepository };
+
+/**
+ * Returns the repository selected by HISTORY_STORE ("sqlite" by default).
+ */
+export function getWebhookRepository(): WebhookRepository {
+    if (!globalForWebhooks.webhookRepository) {
+        globalForWebhooks.webhookRepository = process.env.HISTORY_STORE === "memory"
+            ? new MemoryWebhookRepository()
+            : new SqliteWebhookRepository();
+    }
+
+    return globalForWebhooks.webhookRepository;
+}
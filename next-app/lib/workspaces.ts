@@ -0,0 +1,219 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { AgentDefinition, PersonaProfile, User, Workspace, WorkspaceMember, WorkspaceRole } from "@/types";
+import { getDb } from "./db";
+
+export const WORKSPACE_ROLES = ["owner", "editor", "viewer"] as const satisfies readonly WorkspaceRole[];
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+export const WorkspaceNameSchema = z.object({ name: z.string().trim().min(1).max(80) });
+
+/** Owners can do everything editors can, editors everything viewers can. */
+export const hasRole = (role: WorkspaceRole, required: WorkspaceRole) => ROLE_RANK[role] >= ROLE_RANK[required];
+
+// Jury and audience shared by the workspace; null until someone saves them
+export interface WorkspaceSettings {
+    agents: AgentDefinition[] | null;
+    personas: PersonaProfile[] | null;
+}
+
+/**
+ * Storage backend for workspaces and their members. Like the history,
+ * SQLite is the default and HISTORY_STORE=memory keeps them in memory.
+ */
+export interface WorkspaceRepository {
+    /** Creates a workspace with `owner` as its only member. */
+    create(name: string, owner: User): Workspace;
+    listForUser(userId: string): Workspace[];
+    /** The workspace as seen by the user, or null when they are not a member. */
+    membership(workspaceId: string, userId: string): Workspace | null;
+    rename(workspaceId: string, name: string): void;
+    members(workspaceId: string): WorkspaceMember[];
+    /** Adds the user, or changes their role when they are already a member. */
+    addMember(workspaceId: string, user: User, role: WorkspaceRole): WorkspaceMember;
+    setRole(workspaceId: string, userId: string, role: WorkspaceRole): boolean;
+    removeMember(workspaceId: string, userId: string): boolean;
+    getSettings(workspaceId: string): WorkspaceSettings;
+    saveSettings(workspaceId: string, settings: Partial<WorkspaceSettings>): void;
+}
+
+interface MembershipRow {
+    id: string;
+    name: string;
+    role: WorkspaceRole;
+}
+
+interface MemberRow {
+    user_id: string;
+    email: string;
+    name: string;
+    role: WorkspaceRole;
+    created_at: number;
+}
+
+const toMember = (row: MemberRow): WorkspaceMember => ({
+    user_id: row.user_id,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    joined_at: row.created_at,
+});
+
+export class SqliteWorkspaceRepository implements WorkspaceRepository {
+    create(name: string, owner: User): Workspace {
+        const db = getDb();
+        const workspace: Workspace = { id: randomUUID(), name, role: "owner" };
+        const now = Date.now();
+
+        db.transaction(() => {
+            db.prepare("INSERT INTO workspaces (id, name, created_at) VALUES (?, ?, ?)").run(workspace.id, name, now);
+            db.prepare("INSERT INTO workspace_members (workspace_id, user_id, role, created_at) VALUES (?, ?, 'owner', ?)").run(workspace.id, owner.id, now);
+        })();
+
+        return workspace;
+    }
+
+    listForUser(userId: string): Workspace[] {
+        return getDb().prepare(
+            `SELECT w.id, w.name, m.role FROM workspaces w JOIN workspace_members m ON m.workspace_id = w.id
+             WHERE m.user_id = ? ORDER BY w.created_at`
+        ).all(userId) as MembershipRow[];
+    }
+
+    membership(workspaceId: string, userId: string): Workspace | null {
+        return (getDb().prepare(
+            `SELECT w.id, w.name, m.role FROM workspaces w JOIN workspace_members m ON m.workspace_id = w.id
+             WHERE w.id = ? AND m.user_id = ?`
+        ).get(workspaceId, userId) as MembershipRow | undefined) ?? null;
+    }
+
+    rename(workspaceId: string, name: string): void {
+        getDb().prepare("UPDATE workspaces SET name = ? WHERE id = ?").run(name, workspaceId);
+    }
+
+    members(workspaceId: string): WorkspaceMember[] {
+        const rows = getDb().prepare(
+            `SELECT m.user_id, u.email, u.name, m.role, m.created_at FROM workspace_members m JOIN users u ON u.id = m.user_id
+             WHERE m.workspace_id = ? ORDER BY m.created_at`
+        ).all(workspaceId) as MemberRow[];
+        return rows.map(toMember);
+    }
+
+    addMember(workspaceId: string, user: User, role: WorkspaceRole): WorkspaceMember {
+        const db = getDb();
+        db.prepare(
+            `INSERT INTO workspace_members (workspace_id, user_id, role, created_at) VALUES (?, ?, ?, ?)
+             ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = excluded.role`
+        ).run(workspaceId, user.id, role, Date.now());
+
+        const { created_at } = db.prepare("SELECT created_at FROM workspace_members WHERE workspace_id = ? AND user_id = ?")
+            .get(workspaceId, user.id) as { created_at: number };
+        return { user_id: user.id, email: user.email, name: user.name, role, joined_at: created_at };
+    }
+
+    setRole(workspaceId: string, userId: string, role: WorkspaceRole): boolean {
+        return getDb().prepare("UPDATE workspace_members SET role = ? WHERE workspace_id = ? AND user_id = ?")
+            .run(role, workspaceId, userId).changes > 0;
+    }
+
+    removeMember(workspaceId: string, userId: string): boolean {
+        return getDb().prepare("DELETE FROM workspace_members WHERE workspace_id = ? AND user_id = ?")
+            .run(workspaceId, userId).changes > 0;
+    }
+
+    getSettings(workspaceId: string): WorkspaceSettings {
+        const row = getDb().prepare("SELECT agents_json, personas_json FROM workspaces WHERE id = ?")
+            .get(workspaceId) as { agents_json: string | null; personas_json: string | null } | undefined;
+        return {
+            agents: row?.agents_json ? JSON.parse(row.agents_json) : null,
+            personas: row?.personas_json ? JSON.parse(row.personas_json) : null,
+        };
+    }
+
+    saveSettings(workspaceId: string, { agents, personas }: Partial<WorkspaceSettings>): void {
+        const db = getDb();
+        if (agents !== undefined) db.prepare("UPDATE workspaces SET agents_json = ? WHERE id = ?").run(agents && JSON.stringify(agents), workspaceId);
+        if (personas !== undefined) db.prepare("UPDATE workspaces SET personas_json = ? WHERE id = ?").run(personas && JSON.stringify(personas), workspaceId);
+    }
+}
+
+export class MemoryWorkspaceRepository implements WorkspaceRepository {
+    private workspaces = new Map<string, { name: string; created_at: number; settings: WorkspaceSettings }>();
+    // Keyed by `${workspaceId} ${userId}`
+    private memberships = new Map<string, WorkspaceMember & { workspace_id: string }>();
+
+    create(name: string, owner: User): Workspace {
+        const id = randomUUID();
+        this.workspaces.set(id, { name, created_at: Date.now(), settings: { agents: null, personas: null } });
+        this.addMember(id, owner, "owner");
+        return { id, name, role: "owner" };
+    }
+
+    listForUser(userId: string): Workspace[] {
+        return [...this.memberships.values()]
+            .filter((member) => member.user_id === userId && this.workspaces.has(member.workspace_id))
+            .sort((a, b) => this.workspaces.get(a.workspace_id)!.created_at - this.workspaces.get(b.workspace_id)!.created_at)
+            .map((member) => ({ id: member.workspace_id, name: this.workspaces.get(member.workspace_id)!.name, role: member.role }));
+    }
+
+    membership(workspaceId: string, userId: string): Workspace | null {
+        const workspace = this.workspaces.get(workspaceId);
+        const member = this.memberships.get(`${workspaceId} ${userId}`);
+        return workspace && member ? { id: workspaceId, name: workspace.name, role: member.role } : null;
+    }
+
+    rename(workspaceId: string, name: string): void {
+        const workspace = this.workspaces.get(workspaceId);
+        if (workspace) workspace.name = name;
+    }
+
+    members(workspaceId: string): WorkspaceMember[] {
+        return [...this.memberships.values()]
+            .filter((member) => member.workspace_id === workspaceId)
+            .sort((a, b) => a.joined_at - b.joined_at)
+            .map(({ user_id, email, name, role, joined_at }) => ({ user_id, email, name, role, joined_at }));
+    }
+
+    addMember(workspaceId: string, user: User, role: WorkspaceRole): WorkspaceMember {
+        const key = `${workspaceId} ${user.id}`;
+        const member = { user_id: user.id, email: user.email, name: user.name, role, joined_at: this.memberships.get(key)?.joined_at ?? Date.now() };
+        this.memberships.set(key, { ...member, workspace_id: workspaceId });
+        return member;
+    }
+
+    setRole(workspaceId: string, userId: string, role: WorkspaceRole): boolean {
+        const member = this.memberships.get(`${workspaceId} ${userId}`);
+        if (!member) return false;
+        member.role = role;
+        return true;
+    }
+
+    removeMember(workspaceId: string, userId: string): boolean {
+        return this.memberships.delete(`${workspaceId} ${userId}`);
+    }
+
+    getSettings(workspaceId: string): WorkspaceSettings {
+        return this.workspaces.get(workspaceId)?.settings ?? { agents: null, personas: null };
+    }
+
+    saveSettings(workspaceId: string, settings: Partial<WorkspaceSettings>): void {
+        const workspace = this.workspaces.get(workspaceId);
+        if (workspace) workspace.settings = { ...workspace.settings, ...settings };
+    }
+}
+
+const globalForWorkspaces = globalThis as unknown as { workspaceRepository?: WorkspaceRepository };
+
+/**
+ * Returns the repository selected by HISTORY_STORE ("sqlite" by default).
+ */
+export function getWorkspaceRepository(): WorkspaceRepository {
+    if (!globalForWorkspaces.workspaceRepository) {
+        globalForWorkspaces.workspaceRepository = process.env.HISTORY_STORE === "memory"
+            ? new MemoryWorkspaceRepository()
+            : new SqliteWorkspaceRepository();
+    }
+
+    return globalForWorkspaces.workspaceRepository;
+}
@@ -1,7 +1,22 @@
+import path from "path";
 import type { NextConfig } from "next";
 
+// The shared core/ and ui/ directories live one level above the app
+const repoRoot = path.join(__dirname, "..");
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  outputFileTracingRoot: repoRoot,
+  // pdfkit loads its font metrics from its own directory at runtime
+  serverExternalPackages: ["pdfkit"],
+  turbopack: {
+    root: repoRoot,
+    // Outside the app, core/ and ui/ would look for these in a root node_modules the
+    // deploy never installs; resolve them to the app's own copies instead
+    resolveAlias: {
+      zod: "./node_modules/zod",
+      "lucide-react": "./node_modules/lucide-react",
+    },
+  },
 };
 
 export default nextConfig;
@@ -1,6 +1,7 @@
 const config = {
   plugins: {
-    "@tailwindcss/postcss": {},
+    // Scan from the repo root so classes used by the shared ../ui components are generated
+    "@tailwindcss/postcss": { base: ".." },
   },
 };
 
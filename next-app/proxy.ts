@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth";
+
+/**
+ * Sends visitors without a session cookie to /login. Only the cookie is
+ * checked here; API routes and server pages validate the session itself.
+ * Shared report links stay public.
+ */
+export function proxy(req: NextRequest) {
+    const { pathname, searchParams } = req.nextUrl;
+    if (req.cookies.has(SESSION_COOKIE)) return NextResponse.next();
+    if (pathname.startsWith("/report/") && searchParams.has("share")) return NextResponse.next();
+
+    const login = new URL("/login", req.nextUrl);
+    if (pathname !== "/") login.searchParams.set("next", pathname);
+    return NextResponse.redirect(login);
+}
+
+export const config = {
+    // Pages only: API routes answer 401 themselves
+    matcher: ["/((?!api|login|_next/static|_next/image|favicon.ico).*)"],
+};
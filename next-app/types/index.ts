@@ -1,36 +1,318 @@
+import type { AnalysisResult, ObjectionType, PersonaImpact, RewriteVariant, Sentiment } from '@core/types';
 
-export interface AgentFeedback {
-    agent_name: string;
-    verdict: string;
-    score: number;
-    objection_type: 'Trust' | 'Clarity' | 'Compliance' | 'Design';
-}
+export type {
+    AgentDefinition,
+    AgentFeedback,
+    AnalysisResult,
+    AttentionHeatmap,
+    AttentionPoint,
+    Deliberation,
+    DeliberationScore,
+    DeliberationTurn,
+    DiffSegment,
+    DocumentChunk,
+    ExtractedDocument,
+    Finding,
+    FindingSeverity,
+    IgnoredRegion,
+    ObjectionType,
+    PersonaImpact,
+    PersonaProfile,
+    RewriteVariant,
+    Sentiment,
+    SimulatedHeatmap,
+} from '@core/types';
+
+// Events of POST /api/analyze/stream, sent as Server-Sent Events named after `type`
+export type AnalysisProgressEvent =
+    | { type: 'started'; agents: string[] }
+    | { type: 'retrying'; attempt: number; max_attempts: number; delay: number } // attempt that failed; delay in ms before the next one
+    | { type: 'fallback'; reason: string }
+    | { type: 'cached'; cached_at: number } // same input already analyzed; no model call is made
+    | { type: 'agent'; agent_name: string; score: number }
+    | { type: 'done'; result: AnalysisResult }
+    | { type: 'error'; error: string; status: number };
 
-export interface PersonaImpact {
-    persona_name: string;
-    impact_score: number;
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+// Analysis queued through POST /api/jobs and polled at GET /api/jobs/:id
+export interface AnalysisJob {
+    job_id: string;
+    status: JobStatus;
+    created_at: number;
+    updated_at: number;
+    attempts: number;
+    events: AnalysisProgressEvent[]; // progress of the current attempt
+    next_attempt_at?: number; // set while a failed attempt waits to be retried
+    analysis_id?: string; // set when done; the result is saved to the history
+    result?: AnalysisResult; // only in GET /api/jobs/:id, once done
+    error?: string;
 }
 
-export interface AnalysisResult {
+// One row of a batch summary (table, CSV and JSON export); index is the item position in the batch
+export interface BatchRow {
+    index: number;
+    label: string;
     analysis_id: string;
     overall_score: number;
-    sentiment: 'positive' | 'neutral_positive' | 'neutral' | 'negative';
-    simulated_heatmap: {
-        focal_point_1: { label: string; x: number; y: number };
-        focal_point_2: { label: string; x: number; y: number };
-        ignored_area: string;
-    };
-    agents_feedback: AgentFeedback[];
+    sentiment: AnalysisResult['sentiment'];
     persona_impact: PersonaImpact[];
-    actionable_tips: string[];
-    timestamp?: number;
-    sourceText?: string;
-    sourceImage?: string;
+    warning?: string;
 }
 
+// Events of POST /api/batch, one stream for the whole batch
+export type BatchEvent =
+    | { type: 'queued'; total: number; concurrency: number }
+    | { type: 'item_started'; index: number }
+    | { type: 'item_retrying'; index: number; attempt: number; max_attempts: number; delay: number }
+    | { type: 'item_done'; index: number; row: BatchRow }
+    | { type: 'item_failed'; index: number; error: string; status: number }
+    | { type: 'done'; completed: number; failed: number };
+
 export interface Message {
     role: 'user' | 'assistant';
     content: string;
     image?: string;
     isProcessing?: boolean;
 }
+
+// A saved turn of the follow-up chat of an analysis; author is the member who asked, null for answers
+export interface ChatMessage extends Message {
+    id: string;
+    created_at: number;
+    author: string | null;
+}
+
+// Events of POST /api/history/:id/chat, sent as Server-Sent Events named after `type`
+export type ChatEvent =
+    | { type: 'delta'; text: string }
+    | { type: 'done'; messages: ChatMessage[] } // the question and the answer as saved
+    | { type: 'error'; error: string; status: number };
+
+// A rewrite from POST /api/history/:id/optimize, scored by the jury and saved to the history
+export interface OptimizedVariant extends RewriteVariant {
+    analysis_id: string;
+    overall_score: number;
+    score_gain: number; // overall_score minus the original's
+    persona_gains: { persona_name: string; impact_score: number; gain: number }[];
+}
+
+// Events of POST /api/history/:id/optimize
+export type OptimizeEvent =
+    | { type: 'rewritten'; variants: RewriteVariant[] } // the rewrites are written and now being scored
+    | { type: 'variant_done'; variant: OptimizedVariant }
+    | { type: 'variant_failed'; index: number; error: string; status: number }
+    | { type: 'done'; variants: OptimizedVariant[] } // best score_gain first
+    | { type: 'error'; error: string; status: number };
+
+export type BattleSide = 'A' | 'B';
+
+export interface ScoreDelta {
+    name: string;
+    score_a: number;
+    score_b: number;
+    delta: number; // score_a - score_b
+}
+
+export interface ComparisonResult {
+    winner: BattleSide | 'tie';
+    overall_delta: number; // overall_score A - B
+    agent_deltas: ScoreDelta[];
+    persona_deltas: ScoreDelta[];
+    reasons: string[];
+    result_a: AnalysisResult;
+    result_b: AnalysisResult;
+}
+
+// Lightweight row returned by GET /api/history (no result body, no image)
+export interface HistoryEntry {
+    analysis_id: string;
+    timestamp: number;
+    sourceText: string;
+    overall_score: number;
+    sentiment: AnalysisResult['sentiment'];
+    hasImage: boolean;
+    version: number;
+}
+
+export interface HistoryPage {
+    items: HistoryEntry[];
+    total: number;
+    page: number;
+    limit: number;
+}
+
+// Read-only link to a stored report; expires_at is null for links that never expire
+export interface ShareToken {
+    token: string;
+    analysis_id: string;
+    created_at: number;
+    expires_at: number | null;
+}
+
+// One score followed across the versions of an asset; null where a version did not rate it
+export interface ScoreSeries {
+    name: string;
+    scores: (number | null)[];
+}
+
+export interface LineageVersion {
+    analysis_id: string;
+    version: number;
+    parent_id: string | null;
+    timestamp: number;
+    overall_score: number;
+}
+
+// GET /api/history/:id/lineage: how the scores moved from the first version of the asset to the last
+export interface LineageEvolution {
+    versions: LineageVersion[]; // oldest first; scores[i] of each series belongs to versions[i]
+    agents: ScoreSeries[];
+    personas: ScoreSeries[];
+}
+
+export type AnalyticsPeriod = 'day' | 'week' | 'month';
+
+// A range of overall scores, both ends included
+export interface ScoreBand {
+    min: number;
+    max: number;
+    count: number;
+}
+
+// Analyses of one period and how their scores spread; bands[i] counts the analyses in score_bands[i]
+export interface ScorePeriod {
+    start: number;
+    count: number;
+    average: number;
+    bands: number[];
+}
+
+// How often an agent objected across the analyses, by objection type
+export interface AgentObjections {
+    agent_name: string;
+    verdicts: number;
+    objections: number; // verdicts below the objection score plus findings raised
+    by_type: { objection_type: ObjectionType; count: number }[]; // most frequent first
+}
+
+// Tips that say roughly the same thing, counted together
+export interface TipCluster {
+    tip: string; // the most common wording
+    count: number;
+    analyses: number;
+    variants: string[]; // other wordings, a few at most
+}
+
+// GET /api/analytics: what the workspace's stored analyses say, within the filters
+export interface WorkspaceAnalytics {
+    total: number;
+    truncated: boolean; // only the newest analyses were read
+    average_score: number | null;
+    period: AnalyticsPeriod;
+    score_bands: ScoreBand[];
+    score_over_time: ScorePeriod[]; // oldest first
+    personas: { persona_name: string; average: number; count: number }[]; // weakest first
+    objections: AgentObjections[];
+    sentiments: { sentiment: Sentiment; count: number }[];
+    tips: TipCluster[];
+    filters: { campaigns: string[]; uploaders: { id: string; name: string }[] };
+}
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface User {
+    id: string;
+    email: string;
+    name: string;
+}
+
+// A workspace as seen by one of its members
+export interface Workspace {
+    id: string;
+    name: string;
+    role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+    user_id: string;
+    email: string;
+    name: string;
+    role: WorkspaceRole;
+    joined_at: number;
+}
+
+// GET /api/auth/session: who is signed in and the workspace their requests act on
+export interface SessionInfo {
+    user: User;
+    workspace: Workspace;
+    workspaces: Workspace[];
+}
+
+// Workspace key for the /api/v1 API; the secret itself is only shown once
+export interface ApiKey {
+    id: string;
+    name: string;
+    prefix: string; // first characters of the key, to tell keys apart
+    created_by: string; // name of the member who created it
+    created_at: number;
+    last_used_at: number | null;
+}
+
+// POST /api/workspaces/current/api-keys
+export interface CreatedApiKey extends ApiKey {
+    key: string;
+}
+
+export type WebhookEvent = 'analysis.completed' | 'analysis.failed' | 'analysis.fallback';
+
+// URL notified of the workspace's analyses; the signing secret is only shown once
+export interface Webhook {
+    id: string;
+    url: string;
+    events: WebhookEvent[];
+    created_at: number;
+}
+
+// POST /api/workspaces/current/webhooks
+export interface CreatedWebhook extends Webhook {
+    secret: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// One event sent (or still being sent) to a webhook, as shown in the delivery log
+export interface WebhookDelivery {
+    id: string;
+    webhook_id: string;
+    event: WebhookEvent;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    created_at: number;
+    updated_at: number;
+    next_attempt_at: number | null; // set while a retry is scheduled
+    response_status: number | null; // HTTP status of the last attempt, null when the request itself failed
+    error: string | null;
+}
+
+// GET /api/workspaces/current/webhooks/:id
+export interface WebhookWithDeliveries extends Webhook {
+    deliveries: WebhookDelivery[]; // newest first
+}
+
+// Analyses counted against a client; cost is an estimate in USD
+export interface UsageTotals {
+    requests: number;
+    cached: number; // served from the analysis cache, no tokens spent
+    input_tokens: number;
+    output_tokens: number;
+    cost: number;
+}
+
+// GET /api/usage: the caller's rate limit and what it has used
+export interface UsageSummary {
+    client: { kind: 'key' | 'user' | 'ip' };
+    rate_limit: { enabled: boolean; limit: number; remaining: number; per_minute: number };
+    today: UsageTotals;
+    last_30_days: UsageTotals;
+}
@@ -0,0 +1,120 @@
+import { test, expect } from '@playwright/test';
+import { LLMProvider, LLMRequest } from '../../core/llm';
+import { AgentDefinition } from '../../core/analysis/agents';
+import { PersonaProfile } from '../../core/analysis/personas';
+import { repairAnalysis } from '../../core/analysis/result';
+import { runAnalysis } from '../../core/analysis/run';
+
+// No server needed: the repair runs on answers scripted here, the kind the fake provider never gives
+
+const agent = (name: string, objection_type: AgentDefinition['objection_type']): AgentDefinition => ({
+    id: name.toLowerCase(), name, lens: '', objection_type, weight: 1, prompt: '', enabled: true,
+});
+
+const persona = (name: string): PersonaProfile => ({
+    id: name.toLowerCase(), name, demographics: '', motivations: '', objections: '', channel: '', enabled: true,
+});
+
+const config = {
+    agents: [agent('Ana', 'Clarity'), agent('Beto', 'Urgency')],
+    personas: [persona('Gestores'), persona('Estudantes')],
+};
+
+// Answers the requests in order with the given JSON bodies and keeps the requests
+const scriptedProvider = (...answers: unknown[]) => {
+    const requests: LLMRequest[] = [];
+    const provider: LLMProvider = {
+        name: 'fake',
+        generate: async (request) => {
+            requests.push(request);
+            return JSON.stringify(answers.shift());
+        },
+    };
+    return { provider, requests };
+};
+
+test.describe('Analysis output repair', () => {
+    test('clamps scores, coerces the sentiment and fills in missing names', () => {
+        const { result, missing } = repairAnalysis({
+            analysis_id: 'raw',
+            overall_score: 150,
+            sentiment: 'eufórico',
+            agents_feedback: [
+                { agent_name: 'beto', verdict: 'Sem urgência', score: -5, objection_type: 'Outro' },
+                { verdict: 'Claro demais', score: 150 },
+            ],
+            persona_impact: [{ persona_name: 'Gestores', impact_score: '85%' }],
+            actionable_tips: ['  Encurte o título  ', 42, ''],
+        }, config);
+
+        expect(result.overall_score).toBe(100);
+        expect(result.sentiment).toBe('neutral');
+        // The unnamed verdict goes to the agent left without one; names and objection types come from the jury
+        expect(result.agents_feedback).toEqual([
+            { agent_name: 'Ana', verdict: 'Claro demais', score: 100, objection_type: 'Clarity' },
+            { agent_name: 'Beto', verdict: 'Sem urgência', score: 0, objection_type: 'Urgency' },
+        ]);
+        expect(result.persona_impact).toEqual([{ persona_name: 'Gestores', impact_score: 85 }]);
+        expect(result.actionable_tips).toEqual(['Encurte o título']);
+        expect(missing).toEqual({ agents: [], personas: ['Estudantes'] });
+    });
+
+    test('maps sentiment aliases and survives an answer that is not an object', () => {
+        expect(repairAnalysis({ sentiment: 'Neutro positivo' }, config).result.sentiment).toBe('neutral_positive');
+        expect(repairAnalysis({ sentiment: 'crítico' }, config).result.sentiment).toBe('negative');
+
+        const { result, missing } = repairAnalysis('não é JSON de análise', config);
+        expect(result).toMatchObject({ overall_score: 0, sentiment: 'neutral', agents_feedback: [], persona_impact: [], actionable_tips: [] });
+        expect(missing).toEqual({ agents: ['Ana', 'Beto'], personas: ['Gestores', 'Estudantes'] });
+    });
+
+    test('asks again for the entries missing from the answer and merges them', async () => {
+        const { provider, requests } = scriptedProvider(
+            {
+                overall_score: 70,
+                sentiment: 'positive',
+                // Beto's score is missing and Estudantes is left out
+                agents_feedback: [{ agent_name: 'Ana', verdict: 'Claro', score: 80 }, { agent_name: 'Beto', verdict: 'Morno' }],
+                persona_impact: [{ persona_name: 'Gestores', impact_score: 60 }],
+                actionable_tips: ['Adicione um prazo'],
+            },
+            {
+                agents_feedback: [{ agent_name: 'Beto', verdict: 'Falta prazo', score: 40 }],
+                persona_impact: [{ persona_name: 'Estudantes', impact_score: 30 }],
+            },
+        );
+
+        const result = await runAnalysis<Record<string, unknown>>(provider, { text: 'Matrículas abertas' }, config);
+
+        expect(requests).toHaveLength(2);
+        const note = requests[1].parts.at(-1) as { text: string };
+        expect(note.text).toContain('agents_feedback para: Beto');
+        expect(note.text).toContain('persona_impact para: Estudantes');
+
+        expect(result.agents_feedback).toEqual([
+            { agent_name: 'Ana', verdict: 'Claro', score: 80, objection_type: 'Clarity' },
+            { agent_name: 'Beto', verdict: 'Falta prazo', score: 40, objection_type: 'Urgency' },
+        ]);
+        expect(result.persona_impact).toEqual([
+            { persona_name: 'Gestores', impact_score: 60 },
+            { persona_name: 'Estudantes', impact_score: 30 },
+        ]);
+        // Recomputed from the equally weighted agents
+        expect(result.overall_score).toBe(60);
+        expect(result).not.toHaveProperty('warning');
+    });
+
+    test('drops what is still missing after the re-ask and warns about it', async () => {
+        const { provider, requests } = scriptedProvider(
+            { agents_feedback: [{ agent_name: 'Ana', score: 90 }], persona_impact: [{ persona_name: 'Gestores', impact_score: 50 }, { persona_name: 'Estudantes', impact_score: 50 }] },
+            { agents_feedback: [] },
+        );
+
+        const result = await runAnalysis<Record<string, unknown>>(provider, { text: 'Matrículas abertas' }, config);
+
+        expect(requests).toHaveLength(2);
+        expect(result.agents_feedback).toEqual([{ agent_name: 'Ana', verdict: '', score: 90, objection_type: 'Clarity' }]);
+        expect(result.overall_score).toBe(90);
+        expect(result.warning).toBe('O modelo não retornou avaliação para: Beto.');
+    });
+});
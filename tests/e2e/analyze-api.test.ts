@@ -0,0 +1,583 @@
+import { test, expect, APIRequestContext } from '@playwright/test';
+import { createHmac } from 'crypto';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+
+// Run the Next app with LLM_PROVIDER=fake so no Gemini key or quota is needed
+const BASE_URL = process.env.E2E_BASE_URL || 'http://localhost:3000';
+
+// Development login; the server must not run in production mode
+const signIn = async (request: APIRequestContext, email = 'e2e@acelerai.local') => {
+    const response = await request.post(`${BASE_URL}/api/auth/credentials`, {
+        data: { email, password: process.env.AUTH_DEV_PASSWORD || 'dev' },
+    });
+    expect(response.ok()).toBeTruthy();
+};
+
+test.beforeEach(async ({ request }) => {
+    await signIn(request);
+});
+
+test.describe('Analyze API (fake provider)', () => {
+    test('returns a deterministic AnalysisResult for the same input', async ({ request }) => {
+        const payload = { data: { text: 'Compre agora com 50% de desconto!' } };
+
+        const first = await request.post(`${BASE_URL}/api/analyze`, payload);
+        const second = await request.post(`${BASE_URL}/api/analyze`, payload);
+
+        expect(first.ok()).toBeTruthy();
+        const result = await first.json();
+        const repeat = await second.json();
+
+        // analysis_id is assigned per run so history entries never collide
+        expect(repeat.analysis_id).not.toBe(result.analysis_id);
+        expect({ ...repeat, analysis_id: result.analysis_id }).toEqual(result);
+
+        expect(result.overall_score).toBeGreaterThanOrEqual(0);
+        expect(result.overall_score).toBeLessThanOrEqual(100);
+        expect(result.agents_feedback).toHaveLength(5);
+        expect(result.persona_impact).toHaveLength(5);
+    });
+
+    test('rejects requests without text or image', async ({ request }) => {
+        const response = await request.post(`${BASE_URL}/api/analyze`, { data: {} });
+        expect(response.status()).toBe(400);
+    });
+
+    test('anchors findings to the excerpts they quote', async ({ request }) => {
+        const text = 'Garantimos retorno de 300% ao mês. Sem riscos para o investidor.';
+        const body = await (await request.post(`${BASE_URL}/api/analyze`, { data: { text } })).json();
+
+        expect(body.findings.length).toBeGreaterThan(0);
+        for (const finding of body.findings) {
+            expect(['low', 'medium', 'high']).toContain(finding.severity);
+            expect(text.slice(finding.start, finding.end)).toBe(finding.excerpt);
+        }
+    });
+
+    test('lets the agents deliberate and reports opening and final scores', async ({ request }) => {
+        const response = await request.post(`${BASE_URL}/api/analyze`, { data: { text: 'Resultados garantidos em 7 dias', deliberation: 2 } });
+        expect(response.ok()).toBeTruthy();
+        const result = await response.json();
+
+        const { rounds, turns, scores } = result.deliberation;
+        expect(rounds).toBe(2);
+        expect(turns).toHaveLength(2 * result.agents_feedback.length);
+        expect(turns.every((turn: { responds_to: string | null; agent_name: string }) => turn.responds_to !== turn.agent_name)).toBeTruthy();
+
+        // The verdicts carry the final scores, and the last turn of each agent is its final score
+        for (const feedback of result.agents_feedback) {
+            const score = scores.find((s: { agent_name: string }) => s.agent_name === feedback.agent_name);
+            expect(score.final_score).toBe(feedback.score);
+            expect(turns.filter((turn: { agent_name: string }) => turn.agent_name === feedback.agent_name).pop().score).toBe(score.final_score);
+        }
+
+        expect((await request.post(`${BASE_URL}/api/analyze`, { data: { text: 'x', deliberation: 9 } })).status()).toBe(400);
+    });
+
+    test('serves a repeated input from the cache unless forced', async ({ request }) => {
+        const text = `Liquidação de verão ${Date.now()}`;
+
+        const first = await request.post(`${BASE_URL}/api/analyze`, { data: { text } });
+        expect(first.headers()['x-analysis-cache']).toBe('MISS');
+
+        // Whitespace differences hash to the same key
+        const repeat = await request.post(`${BASE_URL}/api/analyze`, { data: { text: `  ${text.replace(' ', '\n')} ` } });
+        expect(repeat.headers()['x-analysis-cache']).toBe('HIT');
+        expect((await repeat.json()).overall_score).toBe((await first.json()).overall_score);
+
+        const forced = await request.post(`${BASE_URL}/api/analyze`, { data: { text, force: true } });
+        expect(forced.headers()['x-analysis-cache']).toBe('MISS');
+    });
+
+    test('judges with the jury and audience sent in the request', async ({ request }) => {
+        const text = `Curso de férias ${Date.now()}`;
+        const agents = [
+            { id: 'juridico', name: 'Jurídico', lens: 'Advogada', objection_type: 'Compliance', weight: 2, prompt: 'Aponta promessas que não podem ser cumpridas.', enabled: true },
+            { id: 'designer', name: 'Designer', lens: 'Diretor de arte', objection_type: 'Design', weight: 1, prompt: 'Avalia a hierarquia visual.', enabled: true },
+            { id: 'desligado', name: 'Desligado', lens: '', objection_type: 'Trust', weight: 1, prompt: '', enabled: false },
+        ];
+        const personas = [
+            { id: 'pais', name: 'Pais de alunos', demographics: '35-50 anos', motivations: 'Ocupar as férias dos filhos', objections: 'Preço', channel: 'WhatsApp', enabled: true },
+            { id: 'escolas', name: 'Coordenação escolar', demographics: '', motivations: '', objections: '', channel: 'Email', enabled: true },
+        ];
+
+        const custom = await request.post(`${BASE_URL}/api/analyze`, { data: { text, agents, personas } });
+        expect(custom.ok()).toBeTruthy();
+        expect(custom.headers()['x-analysis-cache']).toBe('MISS');
+        const result = await custom.json();
+        expect(result.agents_feedback.map((feedback: { agent_name: string }) => feedback.agent_name)).toEqual(['Jurídico', 'Designer']);
+        expect(result.agents_feedback.map((feedback: { objection_type: string }) => feedback.objection_type)).toEqual(['Compliance', 'Design']);
+        expect(result.persona_impact.map((impact: { persona_name: string }) => impact.persona_name)).toEqual(['Pais de alunos', 'Coordenação escolar']);
+
+        // The same text judged by the default panel is not served from the custom one's cache entry, and vice versa
+        const defaults = await request.post(`${BASE_URL}/api/analyze`, { data: { text } });
+        expect(defaults.headers()['x-analysis-cache']).toBe('MISS');
+        expect((await defaults.json()).agents_feedback.map((feedback: { agent_name: string }) => feedback.agent_name)).not.toContain('Jurídico');
+        const otherAudience = await request.post(`${BASE_URL}/api/analyze`, { data: { text, agents, personas: personas.slice(0, 1) } });
+        expect(otherAudience.headers()['x-analysis-cache']).toBe('MISS');
+        expect((await request.post(`${BASE_URL}/api/analyze`, { data: { text, agents, personas } })).headers()['x-analysis-cache']).toBe('HIT');
+
+        // A jury with nobody enabled is refused
+        const silent = agents.map((agent) => ({ ...agent, enabled: false }));
+        expect((await request.post(`${BASE_URL}/api/analyze`, { data: { text, agents: silent } })).status()).toBe(400);
+    });
+
+    test('streams progress events ending with the result', async ({ request }) => {
+        const response = await request.post(`${BASE_URL}/api/analyze/stream`, { data: { text: 'Frete grátis hoje' } });
+        expect(response.status()).toBe(200);
+        expect(response.headers()['content-type']).toContain('text/event-stream');
+
+        const events = (await response.text()).trim().split('\n\n').map((frame) => JSON.parse(frame.split('data: ')[1]));
+        expect(events[0].type).toBe('started');
+        expect(events.filter((event) => event.type === 'agent').map((event) => event.agent_name)).toEqual(events[0].agents);
+
+        const done = events[events.length - 1];
+        expect(done.type).toBe('done');
+        expect(done.result.analysis_id).toBeTruthy();
+    });
+
+    test('compares two variants and picks a winner', async ({ request }) => {
+        const response = await request.post(`${BASE_URL}/api/compare`, {
+            data: {
+                a: { text: 'Variante A: frete grátis hoje' },
+                b: { text: 'Variante B: últimas unidades, compre já' },
+            },
+        });
+
+        expect(response.ok()).toBeTruthy();
+        const comparison = await response.json();
+        expect(['A', 'B', 'tie']).toContain(comparison.winner);
+        expect(comparison.overall_delta).toBe(comparison.result_a.overall_score - comparison.result_b.overall_score);
+        expect(comparison.reasons.length).toBeGreaterThan(0);
+    });
+});
+
+test.describe('History API', () => {
+    test('saves, searches, retrieves and deletes an analysis', async ({ request }) => {
+        const analysis = await (await request.post(`${BASE_URL}/api/analyze`, { data: { text: 'Cupom relâmpago de inverno' } })).json();
+        const sourceImage = 'data:image/png;base64,iVBORw0KGgo=';
+
+        const saved = await request.post(`${BASE_URL}/api/history`, {
+            data: { ...analysis, sourceText: 'Cupom relâmpago de inverno', sourceImage, injected: '<script>' },
+        });
+        expect(saved.status()).toBe(201);
+        expect(await saved.json()).not.toHaveProperty('injected');
+
+        // Nested fields are checked too, and unknown fields are not stored
+        const malformed = { ...analysis, analysis_id: `${analysis.analysis_id}-x`, findings: [{ excerpt: 42 }] };
+        expect((await request.post(`${BASE_URL}/api/history`, { data: malformed })).status()).toBe(400);
+
+        const page = await (await request.get(`${BASE_URL}/api/history?q=${encodeURIComponent('relâmpago de inverno')}`)).json();
+        expect(page.items.map((entry: { analysis_id: string }) => entry.analysis_id)).toContain(analysis.analysis_id);
+        expect(page.items[0]).not.toHaveProperty('sourceImage');
+
+        const full = await (await request.get(`${BASE_URL}/api/history/${analysis.analysis_id}`)).json();
+        expect(full.sourceImage).toBe(sourceImage);
+        expect(full.agents_feedback).toEqual(analysis.agents_feedback);
+
+        expect((await request.delete(`${BASE_URL}/api/history/${analysis.analysis_id}`)).status()).toBe(204);
+        expect((await request.get(`${BASE_URL}/api/history/${analysis.analysis_id}`)).status()).toBe(404);
+    });
+
+    test('opens a stored report through a read-only share link', async ({ request, playwright }) => {
+        const analysis = await (await request.post(`${BASE_URL}/api/analyze`, { data: { text: 'Relatório para o cliente' } })).json();
+        await request.post(`${BASE_URL}/api/history`, { data: analysis });
+
+        const share = await request.post(`${BASE_URL}/api/history/${analysis.analysis_id}/share`, { data: { expires_in_hours: 24 } });
+        expect(share.status()).toBe(201);
+        const { url } = await share.json();
+
+        const page = await request.get(`${BASE_URL}${url}`);
+        expect(page.ok()).toBeTruthy();
+        expect(await page.text()).toContain('Somente leitura');
+
+        expect((await request.get(`${BASE_URL}/report/${analysis.analysis_id}?share=invalido`)).status()).toBe(404);
+
+        // Visitors of the link export the stored analysis without a session
+        const token = new URL(url, BASE_URL).searchParams.get('share');
+        const visitor = await playwright.request.newContext();
+        const exported = await visitor.post(`${BASE_URL}/api/export?format=html&share=${token}`);
+        expect(exported.ok()).toBeTruthy();
+        expect(await exported.text()).toContain(analysis.agents_feedback[0].agent_name);
+        expect((await visitor.post(`${BASE_URL}/api/export?format=html&share=invalido`)).status()).toBe(404);
+        expect((await visitor.post(`${BASE_URL}/api/export?format=html`, { data: analysis })).status()).toBe(401);
+        await visitor.dispose();
+    });
+
+    test('answers follow-up questions and keeps the thread with the analysis', async ({ request }) => {
+        const analysis = await (await request.post(`${BASE_URL}/api/analyze`, { data: { text: 'Garantia de 30 dias ou seu dinheiro de volta' } })).json();
+        await request.post(`${BASE_URL}/api/history`, { data: { ...analysis, sourceText: 'Garantia de 30 dias ou seu dinheiro de volta' } });
+        const chatUrl = `${BASE_URL}/api/history/${analysis.analysis_id}/chat`;
+
+        const response = await request.post(chatUrl, { data: { message: `Por que ${analysis.agents_feedback[0].agent_name} deu essa nota?` } });
+        expect(response.status()).toBe(200);
+        expect(response.headers()['content-type']).toContain('text/event-stream');
+
+        const events = (await response.text()).trim().split('\n\n').map((frame) => JSON.parse(frame.split('data: ')[1]));
+        const answer = events.filter((event) => event.type === 'delta').map((event) => event.text).join('');
+        expect(answer).toContain('Resposta simulada');
+
+        const done = events[events.length - 1];
+        expect(done.type).toBe('done');
+        expect(done.messages.map((message: { role: string }) => message.role)).toEqual(['user', 'assistant']);
+        expect(done.messages[1].content).toBe(answer);
+
+        const thread = await (await request.get(chatUrl)).json();
+        expect(thread).toEqual(done.messages);
+
+        expect((await request.post(chatUrl, { data: { message: '' } })).status()).toBe(400);
+        expect((await request.get(`${BASE_URL}/api/history/inexistente/chat`)).status()).toBe(404);
+    });
+});
+
+test.describe('Optimize API', () => {
+    test('rewrites the text, scores every version and ranks them by gain', async ({ request }) => {
+        const analysis = await (await request.post(`${BASE_URL}/api/analyze`, { data: { text: 'Produto bom. Compre.' } })).json();
+        await request.post(`${BASE_URL}/api/history`, { data: { ...analysis, sourceText: 'Produto bom. Compre.' } });
+
+        const response = await request.post(`${BASE_URL}/api/history/${analysis.analysis_id}/optimize`, { data: { count: 2 } });
+        expect(response.status()).toBe(200);
+        const events = (await response.text()).trim().split('\n\n').map((frame) => JSON.parse(frame.split('data: ')[1]));
+
+        expect(events[0].type).toBe('rewritten');
+        expect(events[0].variants).toHaveLength(2);
+
+        const done = events[events.length - 1];
+        expect(done.type).toBe('done');
+        expect(done.variants).toHaveLength(2);
+        const gains = done.variants.map((variant: { score_gain: number }) => variant.score_gain);
+        expect(gains).toEqual([...gains].sort((a, b) => b - a));
+        expect(done.variants[0].score_gain).toBe(done.variants[0].overall_score - analysis.overall_score);
+
+        // Every version is saved with its rewritten text
+        const saved = await (await request.get(`${BASE_URL}/api/history/${done.variants[0].analysis_id}`)).json();
+        expect(saved.sourceText).toBe(done.variants[0].text);
+
+        const imageOnly = await (await request.post(`${BASE_URL}/api/history`, { data: { ...analysis, analysis_id: `${analysis.analysis_id}-img`, sourceText: 'N/A' } })).json();
+        expect((await request.post(`${BASE_URL}/api/history/${imageOnly.analysis_id}/optimize`, { data: {} })).status()).toBe(422);
+    });
+});
+
+test.describe('Lineage API', () => {
+    test('numbers the versions of an asset and follows their scores', async ({ request }) => {
+        const first = await (await request.post(`${BASE_URL}/api/analyze`, { data: { text: 'Compre agora.' } })).json();
+        const v1 = await (await request.post(`${BASE_URL}/api/history`, { data: { ...first, sourceText: 'Compre agora.' } })).json();
+        expect(v1.version).toBe(1);
+
+        // The version is assigned by the history, not taken from the body
+        const second = await (await request.post(`${BASE_URL}/api/analyze`, { data: { text: 'Compre agora com frete grátis.' } })).json();
+        const v2 = await (await request.post(`${BASE_URL}/api/history`, {
+            data: { ...second, sourceText: 'Compre agora com frete grátis.', parent_id: v1.analysis_id, version: 7 },
+        })).json();
+        expect(v2).toMatchObject({ parent_id: v1.analysis_id, version: 2 });
+
+        const lineage = await (await request.get(`${BASE_URL}/api/history/${v1.analysis_id}/lineage`)).json();
+        expect(lineage.versions.map((v: { analysis_id: string }) => v.analysis_id)).toEqual([v1.analysis_id, v2.analysis_id]);
+        expect(lineage.versions.map((v: { overall_score: number }) => v.overall_score)).toEqual([first.overall_score, second.overall_score]);
+        expect(lineage.agents[0].scores).toEqual([first.agents_feedback[0].score, second.agents_feedback[0].score]);
+
+        expect((await request.post(`${BASE_URL}/api/jobs`, { data: { text: 'Compre.', parent_id: 'missing' } })).status()).toBe(404);
+        expect((await request.get(`${BASE_URL}/api/history/missing/lineage`)).status()).toBe(404);
+    });
+});
+
+test.describe('Analytics API', () => {
+    test('aggregates the analyses of a campaign and clusters recurring tips', async ({ request }) => {
+        const campaign = `Campanha ${Date.now()}`;
+        const tips = ['Mostre o preço no título.', 'Mostre o preço logo no título.'];
+        for (const [index, text] of ['Oferta de verão', 'Oferta de inverno'].entries()) {
+            const analysis = await (await request.post(`${BASE_URL}/api/analyze`, { data: { text } })).json();
+            await request.post(`${BASE_URL}/api/history`, { data: { ...analysis, sourceText: text, campaign, actionable_tips: [tips[index]] } });
+        }
+
+        const analytics = await (await request.get(`${BASE_URL}/api/analytics?campaign=${encodeURIComponent(campaign)}`)).json();
+        expect(analytics.total).toBe(2);
+        expect(analytics.filters.campaigns).toContain(campaign);
+        expect(analytics.tips[0]).toMatchObject({ count: 2, analyses: 2 });
+        expect(analytics.sentiments.reduce((sum: number, s: { count: number }) => sum + s.count, 0)).toBe(2);
+        expect(analytics.score_over_time.reduce((sum: number, p: { count: number }) => sum + p.count, 0)).toBe(2);
+
+        const { user } = await (await request.get(`${BASE_URL}/api/auth/session`)).json();
+        const mine = await (await request.get(`${BASE_URL}/api/analytics?campaign=${encodeURIComponent(campaign)}&uploader=${user.id}`)).json();
+        expect(mine.total).toBe(2);
+
+        const before = await (await request.get(`${BASE_URL}/api/analytics?campaign=${encodeURIComponent(campaign)}&to=2000-01-01`)).json();
+        expect(before.total).toBe(0);
+        expect((await request.get(`${BASE_URL}/api/analytics?from=ontem`)).status()).toBe(400);
+    });
+});
+
+test.describe('Export API', () => {
+    test('renders an analysis as PDF and as self-contained HTML', async ({ request }) => {
+        const analysis = await (await request.post(`${BASE_URL}/api/analyze`, { data: { text: 'Oferta de lançamento' } })).json();
+        const data = { ...analysis, sourceText: 'Oferta de lançamento' };
+
+        const pdf = await request.post(`${BASE_URL}/api/export?format=pdf`, { data });
+        expect(pdf.headers()['content-type']).toBe('application/pdf');
+        expect((await pdf.body()).subarray(0, 5).toString()).toBe('%PDF-');
+
+        const html = await request.post(`${BASE_URL}/api/export?format=html`, { data });
+        const document = await html.text();
+        expect(document).toContain('Veredito do Conselho');
+        expect(document).toContain(analysis.agents_feedback[0].agent_name);
+
+        expect((await request.post(`${BASE_URL}/api/export?format=docx`, { data })).status()).toBe(400);
+    });
+});
+
+test.describe('Extract API', () => {
+    test('extracts an uploaded text file and analyzes its content', async ({ request }) => {
+        const extracted = await request.post(`${BASE_URL}/api/extract`, {
+            multipart: { file: { name: 'briefing.txt', mimeType: 'text/plain', buffer: Buffer.from('Campanha de inverno\n\nPúblico: lojistas') } },
+        });
+        expect(extracted.status()).toBe(200);
+        const document = await extracted.json();
+        expect(document).toMatchObject({ fileName: 'briefing.txt', format: 'txt', paged: false, truncated: false });
+        expect(document.chunks[0].text).toContain('Público: lojistas');
+
+        const analysis = await request.post(`${BASE_URL}/api/analyze`, { data: { document } });
+        expect(analysis.status()).toBe(200);
+
+        const unsupported = await request.post(`${BASE_URL}/api/extract`, {
+            multipart: { file: { name: 'planilha.xls', mimeType: 'application/vnd.ms-excel', buffer: Buffer.from('x') } },
+        });
+        expect(unsupported.status()).toBe(415);
+    });
+});
+
+test.describe('Batch API', () => {
+    test('analyzes every item, saves it and exports the summary', async ({ request }) => {
+        const items = ['Frete grátis hoje', 'Última chance: 70% off', 'Conheça a nova coleção'].map((text, i) => ({ label: `Variante ${i + 1}`, text }));
+        const response = await request.post(`${BASE_URL}/api/batch`, { data: { items } });
+        expect(response.status()).toBe(200);
+        expect(response.headers()['content-type']).toContain('text/event-stream');
+
+        const events = (await response.text()).trim().split('\n\n').map((frame) => JSON.parse(frame.split('data: ')[1]));
+        expect(events[0]).toMatchObject({ type: 'queued', total: 3 });
+        expect(events[events.length - 1]).toEqual({ type: 'done', completed: 3, failed: 0 });
+
+        const rows = events.filter((event) => event.type === 'item_done').map((event) => event.row).sort((a, b) => a.index - b.index);
+        expect(rows.map((row) => row.label)).toEqual(['Variante 1', 'Variante 2', 'Variante 3']);
+        expect((await request.get(`${BASE_URL}/api/history/${rows[0].analysis_id}`)).status()).toBe(200);
+
+        const csv = await request.post(`${BASE_URL}/api/batch/export?format=csv`, { data: { rows } });
+        expect(csv.headers()['content-type']).toContain('text/csv');
+        const lines = (await csv.text()).trim().split('\r\n');
+        expect(lines).toHaveLength(4);
+        expect(lines[0]).toContain('overall_score,sentiment');
+
+        // A label that a spreadsheet would run as a formula is exported as text
+        const formula = await request.post(`${BASE_URL}/api/batch/export?format=csv`, { data: { rows: [{ ...rows[0], label: '=HYPERLINK("http://evil.example","x")' }] } });
+        expect((await formula.text()).split('\r\n')[1]).toContain(`"'=HYPERLINK(""http://evil.example"",""x"")"`);
+
+        const json = await request.post(`${BASE_URL}/api/batch/export?format=json`, { data: { rows } });
+        expect(await json.json()).toEqual(rows);
+
+        const tooMany = await request.post(`${BASE_URL}/api/batch`, { data: { items: Array(51).fill(items[0]) } });
+        expect(tooMany.status()).toBe(400);
+    });
+});
+
+test.describe('Jobs API', () => {
+    test('queues an analysis and reports its result when polled', async ({ request }) => {
+        const created = await request.post(`${BASE_URL}/api/jobs`, { data: { text: 'Inscrições abertas até sexta' } });
+        expect(created.status()).toBe(202);
+        const { job_id, status } = await created.json();
+        expect(['queued', 'running']).toContain(status);
+
+        let job = await (await request.get(`${BASE_URL}/api/jobs/${job_id}`)).json();
+        for (let i = 0; i < 20 && job.status !== 'done'; i++) {
+            await new Promise((resolve) => setTimeout(resolve, 250));
+            job = await (await request.get(`${BASE_URL}/api/jobs/${job_id}`)).json();
+        }
+
+        expect(job.status).toBe('done');
+        expect(job.result.analysis_id).toBe(job.analysis_id);
+        expect(job.events.filter((event: { type: string }) => event.type === 'agent')).toHaveLength(5);
+        expect((await request.get(`${BASE_URL}/api/history/${job.analysis_id}`)).status()).toBe(200);
+
+        expect((await request.get(`${BASE_URL}/api/jobs/desconhecido`)).status()).toBe(404);
+    });
+});
+
+test.describe('Rate limit and usage', () => {
+    test('counts analyses per client and answers 429 once the bucket is empty', async ({ playwright }) => {
+        // A user of its own, so the default burst of 60 is not shared with the other tests
+        const request = await playwright.request.newContext();
+        await signIn(request, `limite-${Date.now()}@acelerai.local`);
+
+        const analyzed = await request.post(`${BASE_URL}/api/analyze`, { data: { text: `Cupom de boas-vindas ${Date.now()}` } });
+        expect(analyzed.headers()['x-ratelimit-limit']).toBe('60');
+        expect(analyzed.headers()['x-ratelimit-remaining']).toBe('59');
+
+        const usage = await (await request.get(`${BASE_URL}/api/usage`)).json();
+        expect(usage.client.kind).toBe('user');
+        expect(usage.today).toMatchObject({ requests: 1, cached: 0 });
+        expect(usage.today.input_tokens).toBeGreaterThan(0);
+        expect(usage.today.cost).toBeGreaterThan(0);
+
+        const items = Array.from({ length: 50 }, () => ({ label: 'Item', text: 'Oferta relâmpago' }));
+        expect((await request.post(`${BASE_URL}/api/batch`, { data: { items } })).status()).toBe(200);
+
+        const limited = await request.post(`${BASE_URL}/api/batch`, { data: { items: items.slice(0, 20) } });
+        expect(limited.status()).toBe(429);
+        expect(Number(limited.headers()['retry-after'])).toBeGreaterThan(0);
+        expect(await limited.json()).toMatchObject({ code: 'rate_limited', limit: 60 });
+
+        await request.dispose();
+    });
+});
+
+test.describe('Workspaces', () => {
+    test('shares audits with members according to their role', async ({ request, playwright }) => {
+        const anonymous = await playwright.request.newContext();
+        expect((await anonymous.get(`${BASE_URL}/api/history`)).status()).toBe(401);
+
+        // The owner starts an agency workspace and saves an audit there
+        const owner = await playwright.request.newContext();
+        await signIn(owner, `dona-${Date.now()}@agencia.test`);
+        const workspace = await (await owner.post(`${BASE_URL}/api/workspaces`, { data: { name: 'Agência' } })).json();
+        expect(workspace.role).toBe('owner');
+
+        const analysis = await (await owner.post(`${BASE_URL}/api/analyze`, { data: { text: 'Campanha da agência' } })).json();
+        expect((await owner.post(`${BASE_URL}/api/history`, { data: analysis })).status()).toBe(201);
+        expect((await owner.put(`${BASE_URL}/api/workspaces/current/settings`, { data: { personas: null } })).ok()).toBeTruthy();
+
+        // Not visible from the default test workspace
+        expect((await request.get(`${BASE_URL}/api/history/${analysis.analysis_id}`)).status()).toBe(404);
+        // Nor can it be overwritten from there
+        expect((await request.post(`${BASE_URL}/api/history`, { data: { ...analysis, overall_score: 0 } })).status()).toBe(409);
+
+        const viewerEmail = `leitor-${Date.now()}@agencia.test`;
+        const invited = await owner.post(`${BASE_URL}/api/workspaces/current/members`, { data: { email: viewerEmail, role: 'viewer' } });
+        expect(invited.status()).toBe(201);
+        const { user_id } = await invited.json();
+
+        const viewer = await playwright.request.newContext();
+        await signIn(viewer, viewerEmail);
+        const session = await (await viewer.get(`${BASE_URL}/api/auth/session`)).json();
+        expect(session.workspace).toMatchObject({ id: workspace.id, role: 'viewer' });
+
+        expect((await viewer.get(`${BASE_URL}/api/history/${analysis.analysis_id}`)).status()).toBe(200);
+        expect((await viewer.post(`${BASE_URL}/api/analyze`, { data: { text: 'Sem permissão' } })).status()).toBe(403);
+        expect((await viewer.delete(`${BASE_URL}/api/history/${analysis.analysis_id}`)).status()).toBe(403);
+
+        expect((await owner.patch(`${BASE_URL}/api/workspaces/current/members/${user_id}`, { data: { role: 'editor' } })).ok()).toBeTruthy();
+        expect((await viewer.delete(`${BASE_URL}/api/history/${analysis.analysis_id}`)).status()).toBe(204);
+
+        // The last owner can neither leave nor be demoted
+        const { members } = await (await owner.get(`${BASE_URL}/api/workspaces/current`)).json();
+        const self = members.find((member: { role: string }) => member.role === 'owner');
+        expect((await owner.delete(`${BASE_URL}/api/workspaces/current/members/${self.user_id}`)).status()).toBe(409);
+
+        await Promise.all([anonymous.dispose(), owner.dispose(), viewer.dispose()]);
+    });
+});
+
+test.describe('Public API', () => {
+    test('audits creatives with a workspace API key and no session', async ({ request, playwright }) => {
+        const created = await request.post(`${BASE_URL}/api/workspaces/current/api-keys`, { data: { name: 'Pipeline de mídia' } });
+        expect(created.status()).toBe(201);
+        const { id, key } = await created.json();
+        expect(key).toMatch(/^ak_/);
+
+        // The key is never listed again
+        const keys = await (await request.get(`${BASE_URL}/api/workspaces/current/api-keys`)).json();
+        expect(keys.find((listed: { id: string }) => listed.id === id)).not.toHaveProperty('key');
+
+        const pipeline = await playwright.request.newContext({ extraHTTPHeaders: { Authorization: `Bearer ${key}` } });
+        const analyzed = await pipeline.post(`${BASE_URL}/api/v1/analyses`, { data: { text: 'Frete grátis só hoje!' } });
+        expect(analyzed.status()).toBe(201);
+        const result = await analyzed.json();
+        expect(result.agents_feedback.length).toBeGreaterThan(0);
+        expect(result.sourceText).toBe('Frete grátis só hoje!');
+
+        // Saved to the same workspace the signed-in user sees
+        expect((await request.get(`${BASE_URL}/api/history/${result.analysis_id}`)).status()).toBe(200);
+        const page = await (await pipeline.get(`${BASE_URL}/api/v1/analyses?limit=5`)).json();
+        expect(page.items[0].analysis_id).toBe(result.analysis_id);
+        expect((await pipeline.get(`${BASE_URL}/api/v1/analyses/${result.analysis_id}`)).status()).toBe(200);
+        expect((await pipeline.delete(`${BASE_URL}/api/v1/analyses/${result.analysis_id}`)).status()).toBe(204);
+        expect((await pipeline.get(`${BASE_URL}/api/v1/analyses/${result.analysis_id}`)).status()).toBe(404);
+
+        // Revoked keys stop working right away
+        expect((await request.delete(`${BASE_URL}/api/workspaces/current/api-keys/${id}`)).status()).toBe(204);
+        const revoked = await pipeline.get(`${BASE_URL}/api/v1/analyses`);
+        expect(revoked.status()).toBe(401);
+        expect(await revoked.json()).toMatchObject({ code: 'invalid_api_key' });
+
+        const spec = await (await pipeline.get(`${BASE_URL}/api/v1/openapi.json`)).json();
+        expect(spec.openapi).toMatch(/^3\.0/);
+        expect(Object.keys(spec.paths)).toEqual(['/api/v1/analyses', '/api/v1/analyses/{id}']);
+        expect(spec.components.schemas.AnalyzeRequest.properties).toHaveProperty('text');
+
+        await pipeline.dispose();
+    });
+});
+
+test.describe('Webhooks', () => {
+    test('posts signed events and logs failed deliveries for retry', async ({ playwright }) => {
+        // Receiver in the test process, reachable only with WEBHOOK_ALLOWED_HOSTS=127.0.0.1; /broken always answers 500
+        const received: { headers: Record<string, string | string[] | undefined>; body: string }[] = [];
+        const receiver = createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => { body += chunk; });
+            req.on('end', () => {
+                if (req.url === '/hook') received.push({ headers: req.headers, body });
+                res.writeHead(req.url === '/hook' ? 204 : 500).end();
+            });
+        });
+        await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+        const receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+
+        // A workspace of its own, so other tests' analyses are not posted here
+        const owner = await playwright.request.newContext();
+        await signIn(owner, `webhooks-${Date.now()}@acelerai.local`);
+
+        const created = await owner.post(`${BASE_URL}/api/workspaces/current/webhooks`, { data: { url: `${receiverUrl}/hook`, events: ['analysis.completed'] } });
+        expect(created.status()).toBe(201);
+        const { id, secret } = await created.json();
+        const broken = await (await owner.post(`${BASE_URL}/api/workspaces/current/webhooks`, { data: { url: `${receiverUrl}/broken` } })).json();
+        expect(broken.events).toEqual(['analysis.completed', 'analysis.failed', 'analysis.fallback']);
+
+        expect((await owner.post(`${BASE_URL}/api/workspaces/current/webhooks`, { data: { url: 'ftp://example.com' } })).status()).toBe(400);
+        for (const internal of ['http://169.254.169.254/latest/meta-data', 'http://localhost:8080/admin', 'http://[::1]/', 'http://10.0.0.5/']) {
+            expect((await owner.post(`${BASE_URL}/api/workspaces/current/webhooks`, { data: { url: internal } })).status()).toBe(400);
+        }
+
+        // An interactive analysis is announced as soon as it is returned
+        const draft = `Rascunho ${Date.now()}`;
+        const interactive = await (await owner.post(`${BASE_URL}/api/analyze`, { data: { text: draft } })).json();
+        await expect.poll(() => received.length, { timeout: 10_000 }).toBe(1);
+        expect(JSON.parse(received[0].body).data.analysis).toMatchObject({ analysis_id: interactive.analysis_id, sourceText: draft });
+
+        // A job's analysis once it is saved to the history
+        const job = await (await owner.post(`${BASE_URL}/api/jobs`, { data: { text: `Lançamento ${Date.now()}`, campaign: 'Verão' } })).json();
+        await expect.poll(() => received.length, { timeout: 10_000 }).toBe(2);
+
+        const { headers, body } = received[1];
+        const expected = createHmac('sha256', secret).update(`${headers['x-acelerai-timestamp']}.${body}`).digest('hex');
+        expect(headers['x-acelerai-signature']).toBe(`sha256=${expected}`);
+        expect(headers['x-acelerai-event']).toBe('analysis.completed');
+        const payload = JSON.parse(body);
+        expect(payload).toMatchObject({ id: headers['x-acelerai-delivery'], event: 'analysis.completed' });
+        const { analysis_id } = await (await owner.get(`${BASE_URL}/api/jobs/${job.job_id}`)).json();
+        expect(payload.data).toMatchObject({ job_id: job.job_id, analysis: { analysis_id, campaign: 'Verão', version: 1 } });
+
+        const log = async (webhookId: string) => (await (await owner.get(`${BASE_URL}/api/workspaces/current/webhooks/${webhookId}`)).json()).deliveries;
+        expect((await log(id))[0]).toMatchObject({ status: 'delivered', attempts: 1, response_status: 204 });
+
+        // The failed delivery is kept pending with the next attempt scheduled
+        await expect.poll(async () => (await log(broken.id))[0]?.attempts ?? 0, { timeout: 10_000 }).toBe(1);
+        const [failed] = await log(broken.id);
+        expect(failed).toMatchObject({ status: 'pending', response_status: 500, error: 'HTTP 500' });
+        expect(failed.next_attempt_at).toBeGreaterThan(Date.now());
+
+        for (const webhookId of [id, broken.id]) {
+            expect((await owner.delete(`${BASE_URL}/api/workspaces/current/webhooks/${webhookId}`)).status()).toBe(204);
+        }
+        await owner.dispose();
+        await new Promise((resolve) => receiver.close(resolve));
+    });
+});
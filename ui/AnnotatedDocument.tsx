@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { annotateSegments, chunkAt } from '../core/analysis/findings';
+import { chunkLabel } from '../core/analysis/document';
+import { ExtractedDocument, Finding, FindingSeverity } from '../core/types';
+
+interface AnnotatedDocumentProps {
+    text: string;
+    findings: Finding[];
+    // Used to tell which page or excerpt of an uploaded document each finding is in
+    sourceDocument?: ExtractedDocument;
+}
+
+const SEVERITY_RANK: Record<FindingSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+const SEVERITY_STYLES: Record<FindingSeverity, { label: string; mark: string; badge: string }> = {
+    high: { label: 'Alta', mark: 'bg-rose-500/20 border-rose-500', badge: 'bg-rose-500/10 border-rose-500/30 text-rose-400' },
+    medium: { label: 'Média', mark: 'bg-amber-500/20 border-amber-500', badge: 'bg-amber-500/10 border-amber-500/30 text-amber-400' },
+    low: { label: 'Baixa', mark: 'bg-sky-500/15 border-sky-500', badge: 'bg-sky-500/10 border-sky-500/30 text-sky-400' },
+};
+
+const styleOf = (severity: FindingSeverity) => SEVERITY_STYLES[severity] ?? SEVERITY_STYLES.low;
+
+export const AnnotatedDocument: React.FC<AnnotatedDocumentProps> = ({ text, findings, sourceDocument }) => {
+    const [active, setActive] = useState<number | null>(null);
+    const commentRefs = useRef<Record<number, HTMLElement | null>>({});
+    const markRefs = useRef<Record<number, HTMLElement | null>>({});
+
+    const segments = annotateSegments(text, findings);
+
+    // Located findings in reading order, then the ones whose excerpt was not found
+    const ordered = findings
+        .map((finding, index) => ({ finding, index }))
+        .sort((a, b) => (a.finding.start ?? Infinity) - (b.finding.start ?? Infinity));
+
+    const select = (index: number, target: Record<number, HTMLElement | null>) => {
+        setActive(index);
+        target[index]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    };
+
+    const location = (finding: Finding) => {
+        if (finding.start === null) return 'Trecho não localizado';
+        const chunk = sourceDocument && chunkAt(sourceDocument, finding.start);
+        return chunk ? chunkLabel(sourceDocument, chunk) : null;
+    };
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-[1fr_320px] gap-6">
+            <div className="max-h-[560px] overflow-y-auto pr-2 text-slate-300 text-sm leading-7 whitespace-pre-wrap">
+                {segments.map((segment) => {
+                    const content = text.slice(segment.start, segment.end);
+                    if (segment.findings.length === 0) return <React.Fragment key={segment.start}>{content}</React.Fragment>;
+
+                    // Overlapping findings: color by the most severe, click through to the first one
+                    const top = segment.findings.reduce((a, b) => (SEVERITY_RANK[findings[b].severity] > SEVERITY_RANK[findings[a].severity] ? b : a));
+                    const current = segment.findings.find((i) => i === active);
+
+                    return (
+                        <mark
+                            key={segment.start}
+                            ref={(el) => { segment.findings.forEach((i) => { if (findings[i].start === segment.start) markRefs.current[i] = el; }); }}
+                            onClick={() => select(current ?? segment.findings[0], commentRefs.current)}
+                            className={`text-inherit cursor-pointer border-b-2 rounded-sm transition-all ${styleOf(findings[top].severity).mark} ${current !== undefined ? 'ring-1 ring-white/40 text-white' : ''}`}
+                        >
+                            {content}
+                        </mark>
+                    );
+                })}
+            </div>
+
+            <aside className="max-h-[560px] overflow-y-auto space-y-3 pr-1">
+                {ordered.map(({ finding, index }) => {
+                    const style = styleOf(finding.severity);
+                    const where = location(finding);
+
+                    return (
+                        <article
+                            key={index}
+                            ref={(el) => { commentRefs.current[index] = el; }}
+                            onClick={() => finding.start !== null && select(index, markRefs.current)}
+                            className={`p-4 rounded-xl border bg-[#0f0f11]/60 transition-all ${finding.start !== null ? 'cursor-pointer' : ''} ${active === index ? 'border-blue-500/50' : 'border-white/5 hover:border-white/10'}`}
+                        >
+                            <div className="flex items-start justify-between gap-2 mb-2">
+                                <div>
+                                    <h5 className="text-xs font-black text-white leading-tight">{finding.agent_name}</h5>
+                                    <span className="text-[9px] text-blue-500/70 uppercase font-black tracking-widest">{finding.objection_type}</span>
+                                </div>
+                                <span className={`px-2 py-0.5 rounded border text-[9px] font-black uppercase tracking-widest ${style.badge}`}>{style.label}</span>
+                            </div>
+
+                            {where && <span className="text-[9px] text-slate-500 uppercase font-bold tracking-widest block mb-2">{where}</span>}
+                            {finding.start === null && <p className="text-[11px] text-slate-500 italic mb-2">&ldquo;{finding.excerpt}&rdquo;</p>}
+
+                            <p className="text-xs text-slate-300 leading-relaxed">{finding.comment}</p>
+
+                            {finding.suggested_rewrite && (
+                                <div className="mt-3 p-3 rounded-lg bg-emerald-500/5 border border-emerald-500/20">
+                                    <span className="text-[9px] font-black text-emerald-400 uppercase tracking-widest block mb-1">Sugestão</span>
+                                    <p className="text-xs text-slate-200 leading-relaxed">{finding.suggested_rewrite}</p>
+                                </div>
+                            )}
+                        </article>
+                    );
+                })}
+            </aside>
+        </div>
+    );
+};
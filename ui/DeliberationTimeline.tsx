@@ -0,0 +1,81 @@
+import React from 'react';
+import { Deliberation } from '../core/types';
+
+interface DeliberationTimelineProps {
+    deliberation: Deliberation;
+}
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+const deltaColor = (delta: number) => (delta > 0 ? 'text-emerald-400' : delta < 0 ? 'text-rose-400' : 'text-slate-500');
+
+/**
+ * Collapsible transcript of the debate between the agents: each agent's
+ * opening and final score, how far apart the jury ended, and every turn
+ * round by round.
+ */
+export const DeliberationTimeline: React.FC<DeliberationTimelineProps> = ({ deliberation }) => {
+    const { rounds, turns, scores } = deliberation;
+    const finals = scores.map((s) => s.final_score);
+    const spread = finals.length ? Math.max(...finals) - Math.min(...finals) : 0;
+    const revised = scores.filter((s) => s.final_score !== s.opening_score).length;
+
+    // Score each agent held before a turn, to show what the turn changed
+    const previousScore = new Map(scores.map((s) => [s.agent_name, s.opening_score]));
+    const timeline = turns.map((turn) => {
+        const before = previousScore.get(turn.agent_name) ?? turn.score;
+        previousScore.set(turn.agent_name, turn.score);
+        return { ...turn, delta: turn.score - before };
+    });
+
+    return (
+        <details className="group glass-panel rounded-2xl border-white/10 overflow-hidden bg-[#0f0f11]/40 shadow-2xl">
+            <summary className="cursor-pointer list-none bg-white/5 px-6 py-4 flex items-center justify-between gap-4">
+                <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Deliberação do Conselho</span>
+                <span className="text-[10px] font-bold text-slate-500 flex items-center gap-3">
+                    {rounds} {rounds === 1 ? 'rodada' : 'rodadas'} · {revised} {revised === 1 ? 'score revisto' : 'scores revistos'} · divergência de {spread} pts
+                    <svg className="w-3 h-3 transition-transform group-open:rotate-180" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M19 9l-7 7-7-7" /></svg>
+                </span>
+            </summary>
+
+            <div className="p-5 md:p-6 space-y-8">
+                <div className="grid gap-2">
+                    {scores.map((s) => (
+                        <div key={s.agent_name} className="flex items-center gap-3 text-xs">
+                            <span className="w-32 md:w-40 flex-shrink-0 truncate font-black text-white" title={s.agent_name}>{s.agent_name}</span>
+                            <div className="flex-1 h-2 bg-white/5 rounded-full relative">
+                                <div className="absolute top-0 h-full w-0.5 bg-slate-500" style={{ left: `${s.opening_score}%` }} title={`Abertura: ${s.opening_score}`} />
+                                <div className="absolute -top-0.5 h-3 w-3 -ml-1.5 rounded-full bg-purple-500" style={{ left: `${s.final_score}%` }} title={`Final: ${s.final_score}`} />
+                            </div>
+                            <span className="w-24 text-right tabular-nums text-slate-400">
+                                {s.opening_score} → <span className="font-black text-white">{s.final_score}</span>
+                            </span>
+                            <span className={`w-8 text-right tabular-nums font-black ${deltaColor(s.final_score - s.opening_score)}`}>
+                                {formatDelta(s.final_score - s.opening_score)}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+
+                <ol className="relative border-l border-white/10 ml-2 space-y-5">
+                    {timeline.map((turn, idx) => (
+                        <li key={idx} className="pl-5 relative">
+                            <span className="absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full bg-purple-500/70 border border-[#0f0f11]" />
+                            {(idx === 0 || timeline[idx - 1].round !== turn.round) && (
+                                <p className="text-[9px] font-black text-purple-400 uppercase tracking-widest mb-2">Rodada {turn.round}</p>
+                            )}
+                            <div className="flex flex-wrap items-baseline gap-x-2 text-xs">
+                                <span className="font-black text-white">{turn.agent_name}</span>
+                                <span className="text-slate-500">{turn.responds_to ? `responde a ${turn.responds_to}` : 'à bancada'}</span>
+                                <span className="ml-auto tabular-nums text-slate-400">
+                                    {turn.score}{turn.delta !== 0 && <span className={`ml-1 font-black ${deltaColor(turn.delta)}`}>({formatDelta(turn.delta)})</span>}
+                                </span>
+                            </div>
+                            <p className="text-xs md:text-sm text-slate-300 italic leading-relaxed mt-1">"{turn.message}"</p>
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        </details>
+    );
+};
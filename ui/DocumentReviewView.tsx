@@ -1,14 +1,23 @@
 import React from 'react';
-import { AnalysisResult } from '@/types';
+import { AnalysisResult, ExtractedDocument } from '../core/types';
+import { MAX_VERTICAL_PERSONAS, PersonaImpactBars } from './PersonaImpactBars';
+import { DocumentTextView } from './DocumentTextView';
+import { AnnotatedDocument } from './AnnotatedDocument';
+import { DeliberationTimeline } from './DeliberationTimeline';
+import { reviewText } from '../core/analysis/findings';
 
 interface DocumentReviewViewProps {
     result: AnalysisResult | null;
     sourceText?: string;
+    sourceDocument?: ExtractedDocument;
     isLoading?: boolean;
 }
 
-export const DocumentReviewView: React.FC<DocumentReviewViewProps> = ({ result, sourceText, isLoading }) => {
+export const DocumentReviewView: React.FC<DocumentReviewViewProps> = ({ result, sourceText, sourceDocument, isLoading }) => {
     const personas = result?.persona_impact || [];
+    const findings = result?.findings || [];
+    // Without typed text the source text is just the file name, already shown in the document header
+    const promptText = sourceText !== sourceDocument?.fileName ? sourceText : undefined;
 
     return (
         <div className="max-w-4xl mx-auto w-full space-y-12 animate-in fade-in slide-in-from-bottom-4 duration-500 pb-12">
@@ -17,7 +26,8 @@ export const DocumentReviewView: React.FC<DocumentReviewViewProps> = ({ result,
             <div className="flex justify-end pr-0">
                 <div className="bg-white/5 border border-white/10 p-5 rounded-2xl rounded-tr-none max-w-[85%] text-slate-300 text-sm md:text-base leading-relaxed relative">
                     <span className="text-[10px] font-black text-blue-400 uppercase block mb-1 text-right">VOCÊ</span>
-                    {sourceText || "Analise o material enviado."}
+                    {sourceDocument && <DocumentTextView document={sourceDocument} />}
+                    {promptText ? <p className={sourceDocument ? 'mt-4' : ''}>{promptText}</p> : !sourceDocument && "Analise o material enviado."}
                 </div>
             </div>
 
@@ -73,10 +83,37 @@ export const DocumentReviewView: React.FC<DocumentReviewViewProps> = ({ result,
                                 </div>
                             </div>
 
+                            {/* Jury Debate */}
+                            {result.deliberation && (
+                                <div className="mb-8">
+                                    <DeliberationTimeline deliberation={result.deliberation} />
+                                </div>
+                            )}
+
+                            {/* Annotated Review */}
+                            {findings.length > 0 && (
+                                <div className="glass-panel rounded-2xl border-white/10 overflow-hidden bg-[#0f0f11]/40 shadow-2xl mb-8">
+                                    <div className="bg-white/5 px-6 py-4 border-b border-white/5 flex items-center justify-between">
+                                        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Revisão Anotada</span>
+                                        <span className="text-[10px] font-bold text-slate-500">{findings.length} apontamento(s)</span>
+                                    </div>
+                                    <div className="p-5 md:p-6">
+                                        <AnnotatedDocument text={reviewText({ text: sourceText, document: sourceDocument })} findings={findings} sourceDocument={sourceDocument} />
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Persona Chart */}
                             <div className="glass-panel rounded-2xl border-white/10 p-6 md:p-8 bg-[#0f0f11] mb-8 relative overflow-hidden">
                                 <div className="absolute top-0 left-0 w-1 h-full bg-blue-600/30" />
                                 <h3 className="text-xs font-black text-white mb-8 uppercase tracking-widest text-center">Projeção de Impacto por Segmento</h3>
+                                {personas.length === 0 ? (
+                                    <p className="text-center text-slate-600 italic text-xs">Nenhuma persona avaliada.</p>
+                                ) : personas.length > MAX_VERTICAL_PERSONAS ? (
+                                    <div className="max-w-3xl mx-auto">
+                                        <PersonaImpactBars personas={personas} barClassName={() => 'bg-blue-600/60'} />
+                                    </div>
+                                ) : (
                                 <div className="flex items-end h-44 gap-3 md:gap-6 max-w-3xl mx-auto">
                                     {personas.map((p, i) => (
                                         <div key={i} className="flex-1 flex flex-col items-center gap-4 group h-full justify-end">
@@ -88,11 +125,12 @@ export const DocumentReviewView: React.FC<DocumentReviewViewProps> = ({ result,
                                             </div>
                                             <div className="text-center">
                                                 <span className="text-[10px] font-black text-white leading-none">{p.impact_score}%</span>
-                                                <p className="text-[7px] text-slate-500 font-bold uppercase mt-1 leading-none tracking-tighter">{p.persona_name}</p>
+                                                <p className="text-[7px] text-slate-500 font-bold uppercase mt-1 leading-none tracking-tighter break-words" title={p.persona_name}>{p.persona_name}</p>
                                             </div>
                                         </div>
                                     ))}
                                 </div>
+                                )}
                             </div>
 
                             {/* Insights */}
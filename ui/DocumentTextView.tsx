@@ -0,0 +1,27 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import { chunkLabel } from '../core/analysis/document';
+import { ExtractedDocument } from '../core/types';
+
+export const DocumentTextView: React.FC<{ document: ExtractedDocument }> = ({ document }) => (
+    <div className="space-y-4">
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+            <FileText size={14} className="text-blue-400 flex-shrink-0" />
+            <span className="font-bold text-white truncate">{document.fileName}</span>
+            <span className="text-slate-600">·</span>
+            <span className="whitespace-nowrap">{document.paged ? `${document.pageCount} página(s)` : `${document.chunks.length} trecho(s)`}</span>
+            {document.truncated && (
+                <span className="px-2 py-0.5 rounded bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 text-[9px] font-black uppercase tracking-widest whitespace-nowrap">Truncado</span>
+            )}
+        </div>
+
+        <div className="max-h-[480px] overflow-y-auto pr-2 space-y-6">
+            {document.chunks.map((chunk) => (
+                <section key={chunk.index}>
+                    <span className="text-[9px] font-black text-blue-500/70 uppercase tracking-widest block mb-2">{chunkLabel(document, chunk)}</span>
+                    <p className="text-slate-300 text-sm leading-relaxed whitespace-pre-wrap">{chunk.text}</p>
+                </section>
+            ))}
+        </div>
+    </div>
+);
@@ -1,32 +1,42 @@
+"use client";
 
 import React from 'react';
 import { Home, History, PlusCircle, Settings, FileText } from 'lucide-react';
 
-export function FloatingMenu() {
+export type MenuTab = 'home' | 'history' | 'reports' | 'settings';
+
+interface FloatingMenuProps {
+    active?: MenuTab;
+    // Each app routes on its own: Next pushes a path, the Vite app switches state
+    onNavigate?: (tab: MenuTab) => void;
+}
+
+export function FloatingMenu({ active, onNavigate }: FloatingMenuProps) {
     return (
-        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[99999]">
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50">
             <div className="flex items-center gap-1 p-1.5 bg-[#0f0f11]/80 backdrop-blur-xl border border-white/10 rounded-full shadow-2xl shadow-black/50">
 
-                <MenuItem icon={<Home size={20} />} label="Início" active />
-                <MenuItem icon={<History size={20} />} label="Histórico" />
+                <MenuItem icon={<Home size={20} />} label="Início" active={active === 'home'} onClick={() => onNavigate?.('home')} />
+                <MenuItem icon={<History size={20} />} label="Histórico" active={active === 'history'} onClick={() => onNavigate?.('history')} />
 
                 <div className="mx-1">
-                    <button className="flex items-center justify-center w-10 h-10 rounded-full bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/20 transition-all active:scale-95">
+                    <button onClick={() => onNavigate?.('home')} className="flex items-center justify-center w-10 h-10 rounded-full bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/20 transition-all active:scale-95">
                         <PlusCircle size={22} />
                     </button>
                 </div>
 
-                <MenuItem icon={<FileText size={20} />} label="Relatórios" />
-                <MenuItem icon={<Settings size={20} />} label="Config" />
+                <MenuItem icon={<FileText size={20} />} label="Relatórios" active={active === 'reports'} onClick={() => onNavigate?.('reports')} />
+                <MenuItem icon={<Settings size={20} />} label="Config" active={active === 'settings'} onClick={() => onNavigate?.('settings')} />
 
             </div>
         </div>
     );
 }
 
-function MenuItem({ icon, label, active = false }: { icon: React.ReactNode, label: string, active?: boolean }) {
+function MenuItem({ icon, label, active = false, onClick }: { icon: React.ReactNode, label: string, active?: boolean, onClick?: () => void }) {
     return (
         <button
+            onClick={onClick}
             className={`
         relative group flex items-center justify-center w-10 h-10 rounded-full transition-all
         ${active ? 'text-white bg-white/10' : 'text-slate-400 hover:text-white hover:bg-white/5'}
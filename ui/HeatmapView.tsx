@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { drawAttentionHeatmap, heatmapLegendGradient, normalizeHeatmap } from '../core/analysis/heatmap';
+import { SimulatedHeatmap } from '../core/types';
+
+interface HeatmapViewProps {
+    image: string;
+    heatmap: SimulatedHeatmap | undefined;
+}
+
+// Internal width of the density canvas; the browser scales it to the image
+const CANVAS_WIDTH = 480;
+
+export const HeatmapView: React.FC<HeatmapViewProps> = ({ image, heatmap }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [aspect, setAspect] = useState<number | null>(null); // height / width of the loaded image
+    const [showHeatmap, setShowHeatmap] = useState(true);
+    const [opacity, setOpacity] = useState(70);
+
+    const attention = useMemo(() => normalizeHeatmap(heatmap), [heatmap]);
+
+    // Also called from the ref, for images already loaded before hydration
+    const measure = (img: HTMLImageElement | null) => {
+        if (img?.complete && img.naturalWidth) setAspect(img.naturalHeight / img.naturalWidth);
+    };
+
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d', { willReadFrequently: true });
+        if (!ctx || !aspect) return;
+        drawAttentionHeatmap(ctx, attention, CANVAS_WIDTH, Math.round(CANVAS_WIDTH * aspect));
+    }, [attention, aspect]);
+
+    return (
+        <div className="space-y-3">
+            <div className="relative rounded-2xl overflow-hidden border border-white/10 bg-black/40">
+                <img
+                    src={image}
+                    alt="Creative"
+                    className="w-full h-auto block"
+                    ref={measure}
+                    onLoad={(e) => measure(e.currentTarget)}
+                />
+
+                {aspect && (
+                    <canvas
+                        ref={canvasRef}
+                        width={CANVAS_WIDTH}
+                        height={Math.round(CANVAS_WIDTH * aspect)}
+                        className="absolute inset-0 w-full h-full pointer-events-none transition-opacity duration-300"
+                        style={{ opacity: showHeatmap ? opacity / 100 : 0 }}
+                    />
+                )}
+
+                <div className="absolute top-4 left-4 bg-black/60 backdrop-blur-md px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border border-white/20 z-10">
+                    <span className="text-red-400 mr-2">●</span> Heatmap de Atenção
+                </div>
+
+                {showHeatmap && attention.ignored_regions.map((region, i) => (
+                    <div
+                        key={`region-${i}`}
+                        className="absolute border border-dashed border-white/50 bg-slate-900/30 pointer-events-none"
+                        style={{ left: `${region.x}%`, top: `${region.y}%`, width: `${region.width}%`, height: `${region.height}%` }}
+                    >
+                        <span className="absolute bottom-1 left-1 text-[8px] font-black uppercase tracking-widest text-slate-200 bg-black/60 px-1.5 py-0.5 rounded">
+                            {region.label}
+                        </span>
+                    </div>
+                ))}
+
+                {showHeatmap && attention.attention_points.map((point, i) => (
+                    <div
+                        key={`point-${i}`}
+                        className="absolute pointer-events-none"
+                        style={{ top: `${point.y}%`, left: `${point.x}%`, transform: 'translate(-50%, -50%)' }}
+                    >
+                        <div className="w-2 h-2 rounded-full bg-white border border-black/40 shadow" />
+                        <div className="bg-black/70 text-white text-[9px] font-black uppercase px-2 py-1 rounded-md absolute top-3 left-1/2 -translate-x-1/2 whitespace-nowrap shadow-xl border border-white/20 backdrop-blur-sm">
+                            {point.label} · {Math.round(point.weight * 100)}%
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3 px-1">
+                <div className="flex p-0.5 rounded-lg bg-white/5 border border-white/10">
+                    {[{ value: true, label: 'Heatmap' }, { value: false, label: 'Original' }].map(({ value, label }) => (
+                        <button
+                            key={label}
+                            onClick={() => setShowHeatmap(value)}
+                            className={`px-3 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${showHeatmap === value ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <label className={`flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 ${showHeatmap ? '' : 'opacity-40'}`}>
+                    Opacidade
+                    <input
+                        type="range"
+                        min={10}
+                        max={100}
+                        value={opacity}
+                        disabled={!showHeatmap}
+                        onChange={(e) => setOpacity(Number(e.target.value))}
+                        className="w-28 accent-blue-500"
+                    />
+                    <span className="w-8 text-right tabular-nums text-slate-300">{opacity}%</span>
+                </label>
+            </div>
+
+            <div className="flex items-center gap-2 px-1 text-[9px] font-bold uppercase tracking-widest text-slate-500">
+                <span>Baixa</span>
+                <div className="h-1.5 flex-1 rounded-full" style={{ background: heatmapLegendGradient() }} />
+                <span>Alta atenção</span>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+
+interface ImageCompareProps {
+    before: string;
+    after: string;
+    beforeLabel: string;
+    afterLabel: string;
+}
+
+/**
+ * Before/after comparison of two creatives: the earlier one is laid over
+ * the later one and the slider sets how much of it shows.
+ */
+export const ImageCompare: React.FC<ImageCompareProps> = ({ before, after, beforeLabel, afterLabel }) => {
+    const [position, setPosition] = useState(50);
+
+    return (
+        <div className="relative rounded-2xl overflow-hidden border border-white/10 bg-black/40 select-none">
+            <img src={after} alt={afterLabel} className="w-full h-auto block" />
+            <img
+                src={before}
+                alt={beforeLabel}
+                className="absolute inset-0 w-full h-full object-contain bg-black/40"
+                style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+            />
+            <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-lg pointer-events-none" style={{ left: `${position}%` }} />
+
+            <span className="absolute top-4 left-4 bg-black/60 backdrop-blur-md px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border border-white/20 text-slate-200">{beforeLabel}</span>
+            <span className="absolute top-4 right-4 bg-black/60 backdrop-blur-md px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border border-white/20 text-slate-200">{afterLabel}</span>
+
+            <input
+                type="range"
+                min={0}
+                max={100}
+                value={position}
+                onChange={(e) => setPosition(Number(e.target.value))}
+                aria-label={`Comparar ${beforeLabel} e ${afterLabel}`}
+                className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+            />
+        </div>
+    );
+};
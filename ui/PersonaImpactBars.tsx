@@ -0,0 +1,30 @@
+import React from 'react';
+import { PersonaImpact } from '../core/types';
+
+// Above this many personas the vertical column charts get too narrow to read
+export const MAX_VERTICAL_PERSONAS = 5;
+
+interface PersonaImpactBarsProps {
+    personas: PersonaImpact[];
+    barClassName: (score: number) => string;
+}
+
+/**
+ * Horizontal bar variant of the persona impact chart, used when the audience
+ * has more segments than fit side by side.
+ */
+export const PersonaImpactBars: React.FC<PersonaImpactBarsProps> = ({ personas, barClassName }) => (
+    <div className="space-y-3">
+        {personas.map((p, i) => (
+            <div key={i} className="flex items-center gap-3">
+                <span className="w-28 md:w-40 flex-shrink-0 truncate text-[9px] md:text-[10px] text-slate-400 font-bold uppercase" title={p.persona_name}>
+                    {p.persona_name}
+                </span>
+                <div className="flex-1 h-2.5 bg-white/5 rounded-full overflow-hidden">
+                    <div className={`h-full ${barClassName(p.impact_score)} transition-all duration-1000`} style={{ width: `${p.impact_score}%` }} />
+                </div>
+                <span className="w-9 text-right text-[10px] font-black text-white">{p.impact_score}%</span>
+            </div>
+        ))}
+    </div>
+);
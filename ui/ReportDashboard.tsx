@@ -1,11 +1,16 @@
 import React from 'react';
-import { AnalysisResult } from '@/types';
+import { AnalysisResult, ExtractedDocument } from '../core/types';
 import { HeatmapView } from './HeatmapView';
+import { DocumentTextView } from './DocumentTextView';
+import { DeliberationTimeline } from './DeliberationTimeline';
+import { MAX_VERTICAL_PERSONAS, PersonaImpactBars } from './PersonaImpactBars';
+import { getSentimentLabel } from '../core/analysis/sentiment';
 
 interface ReportDashboardProps {
     result: AnalysisResult;
     sourceImage?: string;
     sourceText?: string;
+    sourceDocument?: ExtractedDocument;
 }
 
 const getSentimentEmoji = (s: string = '') => {
@@ -15,28 +20,23 @@ const getSentimentEmoji = (s: string = '') => {
     return '😐';
 };
 
-const getSentimentLabel = (s: string = '') => {
-    const lower = s.toLowerCase();
-    if (lower.includes('positive')) return 'OTIMISTA';
-    if (lower.includes('negative') || lower.includes('critico')) return 'CRÍTICO';
-    return 'CAUTELOSO';
-};
-
 const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-emerald-400';
     if (score >= 60) return 'text-amber-400';
     return 'text-rose-500';
 };
 
+const getImpactBarColor = (score: number) =>
+    score > 70 ? 'bg-emerald-500/50' : score > 40 ? 'bg-amber-500/50' : 'bg-rose-500/50';
+
 const getProgressBarColor = (score: number) => {
     if (score >= 80) return 'bg-emerald-500';
     if (score >= 60) return 'bg-amber-500';
     return 'bg-rose-500';
 };
 
-export const ReportDashboard: React.FC<ReportDashboardProps> = ({ result, sourceImage, sourceText }) => {
+export const ReportDashboard: React.FC<ReportDashboardProps> = ({ result, sourceImage, sourceText, sourceDocument }) => {
     const isDocument = !sourceImage;
-    const heatmap = result.simulated_heatmap || { focal_point_1: 'N/A', focal_point_2: 'N/A', ignored_area: 'Não identificado' };
     const tips = Array.isArray(result.actionable_tips) ? result.actionable_tips : [];
     const personas = result.persona_impact || [];
 
@@ -95,6 +95,9 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({ result, source
                             <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-widest mb-6 flex items-center gap-3">
                                 <span className="w-6 md:w-8 h-[2px] bg-blue-500"></span>Conteúdo Analisado
                             </h3>
+                            {sourceDocument ? (
+                                <DocumentTextView document={sourceDocument} />
+                            ) : (
                             <div className="prose prose-invert max-w-none">
                                 <div className="space-y-4 text-slate-300 font-serif italic text-lg leading-relaxed border-l-2 border-blue-500/30 pl-6 py-2">
                                     {sourceText ? sourceText.split('\n').map((line, i) => (
@@ -102,15 +105,14 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({ result, source
                                     )) : 'Nenhum texto disponível.'}
                                 </div>
                             </div>
+                            )}
                         </div>
                     ) : (
                         <div className="lg:sticky lg:top-24 space-y-6">
                             <h3 className="text-[10px] font-black text-blue-500 uppercase tracking-widest flex items-center gap-3">
                                 <span className="w-6 md:w-8 h-[2px] bg-blue-500"></span>Atenção IA Visual
                             </h3>
-                            <div className="rounded-2xl overflow-hidden border border-white/5 shadow-2xl bg-black">
-                                <HeatmapView image={sourceImage!} focalPoints={heatmap} />
-                            </div>
+                            <HeatmapView image={sourceImage!} heatmap={result.simulated_heatmap} />
                         </div>
                     )}
                 </div>
@@ -131,27 +133,32 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({ result, source
                                 </div>
                             ))}
                         </div>
+                        {result.deliberation && <DeliberationTimeline deliberation={result.deliberation} />}
                     </section>
 
                     <section className="space-y-6">
                         <div className="glass-panel p-6 md:p-8 rounded-3xl border-blue-500/10 shadow-2xl bg-[#0f0f11]">
                             <h3 className="text-lg font-black text-white mb-6">Impacto em Clientes Mapeados</h3>
+                            {personas.length > MAX_VERTICAL_PERSONAS ? (
+                                <PersonaImpactBars personas={personas} barClassName={getImpactBarColor} />
+                            ) : (
                             <div className="flex justify-around items-end h-32 gap-3">
                                 {personas.length > 0 ? personas.map((p, i) => (
                                     <div key={i} className="flex-1 flex flex-col items-center gap-2 group h-full justify-end">
                                         <div className="w-full bg-white/5 rounded-t-lg relative overflow-hidden h-full">
                                             <div
-                                                className={`absolute bottom-0 left-0 right-0 ${p.impact_score > 70 ? 'bg-emerald-500/50' : p.impact_score > 40 ? 'bg-amber-500/50' : 'bg-rose-500/50'} transition-all duration-1000`}
+                                                className={`absolute bottom-0 left-0 right-0 ${getImpactBarColor(p.impact_score)} transition-all duration-1000`}
                                                 style={{ height: `${p.impact_score}%` }}
                                             ></div>
                                         </div>
-                                        <span className="text-[7px] md:text-[8px] text-slate-500 font-bold uppercase text-center leading-tight h-8 flex items-center">{p.persona_name}</span>
+                                        <span className="text-[7px] md:text-[8px] text-slate-500 font-bold uppercase text-center leading-tight h-8 flex items-center overflow-hidden break-words" title={p.persona_name}>{p.persona_name}</span>
                                         <span className="text-[9px] font-black text-white">{p.impact_score}%</span>
                                     </div>
                                 )) : (
                                     <div className="w-full flex items-center justify-center text-slate-600 italic text-xs">Aguardando dados...</div>
                                 )}
                             </div>
+                            )}
 
                             <div className="mt-8 pt-8 border-t border-white/5">
                                 <h4 className="text-[10px] font-black text-blue-500 uppercase tracking-widest mb-4">Diretrizes de Otimização</h4>